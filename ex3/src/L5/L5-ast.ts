@@ -2,13 +2,19 @@
 // AST type models for L5
 // L5 extends L4 with:
 // optional type annotations
+// record types declared by define-record
+// algebraic datatypes declared by define-datatype and destructured by match
+// type aliases declared by define-type
 
-import { join, map, zipWith } from "ramda";
+import { chain, join, map, uniq, zipWith } from "ramda";
 import { Sexp, Token } from 's-expression';
 import { isCompoundSExp, isEmptySExp, isSymbolSExp, makeCompoundSExp, makeEmptySExp, makeSymbolSExp, SExpValue, valueToString } from './L5-value';
-import { isTVar, makeFreshTVar, parseTExp, unparseTExp, TExp } from './TExp';
-import { allT, first, rest, second, isEmpty, isNonEmptyList } from '../shared/list';
-import { parse as p, isToken, isSexpString } from "../shared/parser";
+import { declareDatatype, declareRecordType, declareTypeAlias, defineVariantFields, freeTVars, isFreshTVar, makeAnyTExp,
+         makeFreshTVar, parseTExp, predeclareTypeAlias, undeclarePendingTypeAliases, unparseTExp, TExp, TVar,
+         TypeAliasDecl } from './TExp';
+import { allT, first, rest, second, isEmpty, isNonEmptyList, NonEmptyList } from '../shared/list';
+import { parse as p, isToken, isSexpString, sexpChildSpan, sexpSpan } from "../shared/parser";
+import { locateFailure, withSpan, Span } from "../shared/source";
 import { Result, bind, makeFailure, mapResult, makeOk, mapv } from "../shared/result";
 import { isArray, isString, isNumericString, isIdentifier } from "../shared/type-predicates";
 import { format } from "../shared/format";
@@ -30,25 +36,48 @@ import { format } from "../shared/format";
 // The only changes in the syntax of L5 are optional type annotations in var-decl and proc-exp
 ;;
 // <program> ::= (L5 <exp>+)                  / Program(exps:List(exp))
-// <exp> ::= <define> | <cexp>                / DefExp | CExp
+// <exp> ::= <define> | <define-record> | <define-datatype> | <define-type> | <cexp>
+//                                             / DefExp | DefineRecordExp | DefineDatatypeExp | DefineTypeExp | CExp
 // <define> ::= ( define <var-decl> <cexp> )  / DefExp(var:VarDecl, val:CExp)
+// <define-record> ::= ( define-record <identifier> ( <field>* ) ) / DefineRecordExp(name:string, fields:RecordField[])
+// <define-datatype> ::= ( define-datatype <identifier> <variant>+ )
+//                    |  ( define-datatype ( <identifier> <tvar>+ ) <variant>+ ) / DefineDatatypeExp(name:string, params:string[], variants:Variant[])
+// <define-type> ::= ( define-type <identifier> <TExp> )
+//                |  ( define-type ( <identifier> <tvar>+ ) <TExp> ) / DefineTypeExp(name:string, params:string[], texp:TExp)
 // <var> ::= <identifier>                     / VarRef(var:string)
 // <cexp> ::= <number>                        / NumExp(val:number)
 //         |  <boolean>                       / BoolExp(val:boolean)
 //         |  <string>                        / StrExp(val:string)
 //         |  <var-ref>
-//         |  ( lambda ( <var-decl>* ) [: is? <TExp>]? <cexp>+ ) / ProcExp(args:VarDecl[], body:CExp[], returnTE: TExp))
+//         |  ( lambda ( <var-decl>* ) [: is? <TExp>]? <body> ) / ProcExp(args:VarDecl[], body:Exp[], returnTE: TExp))
 //         |  ( if <cexp> <cexp> <cexp> )     / IfExp(test: CExp, then: CExp, alt: CExp)
 //         |  ( quote <sexp> )                / LitExp(val:SExp)
 //         |  ( <cexp> <cexp>* )              / AppExp(operator:CExp, operands:CExp[]))
-//         |  ( let ( <binding>* ) <cexp>+ )  / LetExp(bindings:Binding[], body:CExp[]))
-//         |  ( letrec ( binding*) <cexp>+ )  / LetrecExp(bindings:Bindings[], body: CExp)
+//         |  ( let ( <binding>* ) <body> )   / LetExp(bindings:Binding[], body:Exp[]))
+//         |  ( let <var> ( <binding>* ) [: <TExp>]? <body> ) / NamedLetExp(name:string, bindings:Binding[], returnTE:TExp, body:Exp[])
+//         |  ( letrec ( binding*) <body> )   / LetrecExp(bindings:Bindings[], body: Exp[])
 //         |  ( set! <var> <cexp>)            / SetExp(var: varRef, val: CExp)
+//         |  ( cond <cond-clause>+ [( else <cexp>+ )]? )      / CondExp(clauses:CondClause[], alt:CExp[])
+//         |  ( case <cexp> <case-clause>+ [( else <cexp>+ )]? ) / CaseExp(key:CExp, clauses:CaseClause[], alt:CExp[])
+//         |  ( let* ( <binding>* ) <body> )  / LetStarExp(bindings:Binding[], body:Exp[])
+//         |  ( begin <cexp>+ )               / BeginExp(exps:CExp[])
+//         |  ( when <cexp> <cexp>+ )         / WhenExp(test:CExp, body:CExp[])
+//         |  ( unless <cexp> <cexp>+ )       / UnlessExp(test:CExp, body:CExp[])
+//         |  ( guard ( <var> <cond-clause>* [( else <cexp>+ )]? ) <body> ) / GuardExp(var:VarDecl, clauses:CondClause[], alt:CExp[], body:Exp[])
+//         |  ( match <cexp> <match-clause>+ [( else <cexp>+ )]? ) / MatchExp(val:CExp, clauses:MatchClause[], alt:CExp[])
 // <binding>  ::= ( <var> <cexp> )            / Binding(var:VarDecl, val:Cexp)
+// <body>     ::= <define>* <cexp>+           / Exp[] - internal defines are scoped to the body (letrec*)
+// <cond-clause> ::= ( <cexp> <cexp>* )       / CondClause(test:CExp, body:CExp[], isArrow:false)
+//                |  ( <cexp> => <cexp> )     / CondClause(test:CExp, body:[receiver], isArrow:true)
+// <case-clause> ::= ( ( <sexp>* ) <cexp>+ )  / CaseClause(data:SExp[], body:CExp[])
+// <field>    ::= <var-decl> | ( <var> [: TExp]? #:mutable ) / RecordField(var:VarDecl, mutable:boolean)
+// <variant>  ::= ( <identifier> <var-decl>* ) / Variant(name:string, fields:VarDecl[])
+// <match-clause> ::= ( ( <identifier> <var>* ) <cexp>+ ) / MatchClause(variant:string, vars:VarDecl[], body:CExp[])
 // <prim-op>  ::= + | - | * | / | < | > | = | not |  eq? | string=?
 //                  | cons | car | cdr | list? | number?
-//                  | boolean? | symbol? | string?
-//                  | display | newline
+//                  | boolean? | symbol? | string? | string-length
+//                  | display | write | newline | call/cc
+//                  | raise | error | condition? | condition-kind | condition-message
 // <num-exp>  ::= a number token
 // <bool-exp> ::= #t | #f
 // <var-ref>  ::= an identifier token                / VarRef(var)
@@ -59,8 +88,8 @@ import { format } from "../shared/format";
 // A value returned by parseL5
 export type Parsed = Exp | Program;
 
-export type Exp = DefineExp | CExp;
-export const isExp = (x: any): x is Exp => isDefineExp(x) || isCExp(x);
+export type Exp = DefineExp | TypeDefinition | CExp;
+export const isExp = (x: any): x is Exp => isDefineExp(x) || isTypeDefinition(x) || isCExp(x);
 
 
 export type CExp =  AtomicExp | CompoundExp;
@@ -72,112 +101,260 @@ export const isAtomicExp = (x: any): x is AtomicExp =>
     isPrimOp(x) || isVarRef(x);
 
 
-export type CompoundExp = AppExp | IfExp | ProcExp | LetExp | LitExp | LetrecExp | SetExp;
+export type CompoundExp = AppExp | IfExp | ProcExp | LetExp | LitExp | LetrecExp | SetExp | NamedLetExp | GuardExp |
+                          MatchExp | DerivedExp;
 export const isCompoundExp = (x: any): x is CompoundExp =>
-    isAppExp(x) || isIfExp(x) || isProcExp(x) || isLitExp(x) || isLetExp(x) || isLetrecExp(x) || isSetExp(x);
-export const expComponents = (e: Exp): CExp[] =>
+    isAppExp(x) || isIfExp(x) || isProcExp(x) || isLitExp(x) || isLetExp(x) || isLetrecExp(x) || isSetExp(x) ||
+    isNamedLetExp(x) || isGuardExp(x) || isMatchExp(x) || isDerivedExp(x);
+
+// Derived special forms - each one could be rewritten in terms of the core forms,
+// they are kept in the AST so that they are checked, reported and unparsed as written.
+export type DerivedExp = CondExp | CaseExp | LetStarExp | BeginExp | WhenExp | UnlessExp;
+export const isDerivedExp = (x: any): x is DerivedExp =>
+    isCondExp(x) || isCaseExp(x) || isLetStarExp(x) || isBeginExp(x) || isWhenExp(x) || isUnlessExp(x);
+export const expComponents = (e: Exp): Exp[] =>
     isIfExp(e) ? [e.test, e.then, e.alt] :
     isProcExp(e) ? e.body :
     isLetExp(e) ? [...e.body, ...map((b) => b.val, e.bindings)] :
     isLetrecExp(e) ? [...e.body, ...map((b) => b.val, e.bindings)] :
+    isNamedLetExp(e) ? [...e.body, ...map((b) => b.val, e.bindings)] :
     isAppExp(e) ? [e.rator, ...e.rands] :
     isSetExp(e) ? [e.val] :
     isDefineExp(e) ? [e.val] :
+    isCondExp(e) ? [...chain((c) => [c.test, ...c.body], e.clauses), ...e.alt] :
+    isCaseExp(e) ? [e.key, ...chain((c) => c.body, e.clauses), ...e.alt] :
+    isLetStarExp(e) ? [...e.body, ...map((b) => b.val, e.bindings)] :
+    isBeginExp(e) ? e.exps :
+    isWhenExp(e) || isUnlessExp(e) ? [e.test, ...e.body] :
+    isGuardExp(e) ? [...e.body, ...chain((c) => [c.test, ...c.body], e.clauses), ...e.alt] :
+    isMatchExp(e) ? [e.val, ...chain((c) => c.body, e.clauses), ...e.alt] :
     []; // Atomic expressions have no components
 
 // Type definitions
-export type Program = {tag: "Program"; exps: Exp[]; }
+export type Program = {tag: "Program"; exps: Exp[]; span?: Span; }
 export const makeProgram = (exps: Exp[]): Program => ({tag: "Program", exps: exps});
 export const isProgram = (x: any): x is Program => x.tag === "Program";
 
-export type DefineExp = {tag: "DefineExp"; var: VarDecl; val: CExp; }
+export type DefineExp = {tag: "DefineExp"; var: VarDecl; val: CExp; span?: Span; }
 export const makeDefineExp = (v: VarDecl, val: CExp): DefineExp =>
     ({tag: "DefineExp", var: v, val: val});
 export const isDefineExp = (x: any): x is DefineExp => x.tag === "DefineExp";
 
-export type NumExp = {tag: "NumExp"; val: number; }
+// (define-record name (field ...)) declares the record type name and defines its procedures:
+// the constructor make-name, the predicate name?, the accessor name-field of each field
+// and the setter set-name-field! of each mutable field (see recordProcNames).
+export type DefineRecordExp = {tag: "DefineRecordExp"; name: string; fields: RecordField[]; span?: Span; }
+export const makeDefineRecordExp = (name: string, fields: RecordField[]): DefineRecordExp =>
+    ({tag: "DefineRecordExp", name: name, fields: fields});
+export const isDefineRecordExp = (x: any): x is DefineRecordExp => x.tag === "DefineRecordExp";
+
+export type RecordField = {tag: "RecordField"; var: VarDecl; mutable: boolean; span?: Span; }
+export const makeRecordField = (v: VarDecl, mutable: boolean): RecordField =>
+    ({tag: "RecordField", var: v, mutable: mutable});
+export const isRecordField = (x: any): x is RecordField => x.tag === "RecordField";
+
+// Purpose: the names of the procedures defined by a define-record, in order:
+// constructor, predicate, then the accessor (and setter) of each field.
+export const recordProcNames = (e: DefineRecordExp): string[] =>
+    [`make-${e.name}`, `${e.name}?`,
+     ...chain((f: RecordField) => f.mutable ? [`${e.name}-${f.var.var}`, `set-${e.name}-${f.var.var}!`] :
+                                              [`${e.name}-${f.var.var}`],
+              e.fields)];
+
+// (define-datatype (name param ...) (variant field ...) ...) declares the type (name param ...) -
+// the union of the types (variant param ...) - and defines for each variant its
+// constructor variant and its predicate variant? (see datatypeProcNames).
+// The fields of a variant are accessed by match.
+export type DefineDatatypeExp = {tag: "DefineDatatypeExp"; name: string; params: string[]; variants: Variant[]; span?: Span; }
+export const makeDefineDatatypeExp = (name: string, params: string[], variants: Variant[]): DefineDatatypeExp =>
+    ({tag: "DefineDatatypeExp", name: name, params: params, variants: variants});
+export const isDefineDatatypeExp = (x: any): x is DefineDatatypeExp => x.tag === "DefineDatatypeExp";
+
+export type Variant = {tag: "Variant"; name: string; fields: VarDecl[]; span?: Span; }
+export const makeVariant = (name: string, fields: VarDecl[]): Variant =>
+    ({tag: "Variant", name: name, fields: fields});
+export const isVariant = (x: any): x is Variant => x.tag === "Variant";
+
+// Purpose: the names of the procedures defined by a define-datatype, in order:
+// the constructor and the predicate of each variant.
+export const datatypeProcNames = (e: DefineDatatypeExp): string[] =>
+    chain((v: Variant) => [v.name, `${v.name}?`], e.variants);
+
+// (define-type (name param ...) texp) declares the type alias (name param ...) for texp.
+// It defines no procedures.
+export type DefineTypeExp = {tag: "DefineTypeExp"; name: string; params: string[]; texp: TExp; span?: Span; }
+export const makeDefineTypeExp = (name: string, params: string[], texp: TExp): DefineTypeExp =>
+    ({tag: "DefineTypeExp", name: name, params: params, texp: texp});
+export const isDefineTypeExp = (x: any): x is DefineTypeExp => x.tag === "DefineTypeExp";
+
+// The top level forms which declare a type
+export type TypeDefinition = DefineRecordExp | DefineDatatypeExp | DefineTypeExp;
+export const isTypeDefinition = (x: any): x is TypeDefinition =>
+    isDefineRecordExp(x) || isDefineDatatypeExp(x) || isDefineTypeExp(x);
+
+export const typeDefinitionProcNames = (e: TypeDefinition): string[] =>
+    isDefineRecordExp(e) ? recordProcNames(e) :
+    isDefineDatatypeExp(e) ? datatypeProcNames(e) :
+    [];
+
+export type NumExp = {tag: "NumExp"; val: number; span?: Span; }
 export const makeNumExp = (n: number): NumExp => ({tag: "NumExp", val: n});
 export const isNumExp = (x: any): x is NumExp => x.tag === "NumExp";
 
-export type BoolExp = {tag: "BoolExp"; val: boolean; }
+export type BoolExp = {tag: "BoolExp"; val: boolean; span?: Span; }
 export const makeBoolExp = (b: boolean): BoolExp => ({tag: "BoolExp", val: b});
 export const isBoolExp = (x: any): x is BoolExp => x.tag === "BoolExp";
 
-export type StrExp = {tag: "StrExp"; val: string; }
+export type StrExp = {tag: "StrExp"; val: string; span?: Span; }
 export const makeStrExp = (s: string): StrExp => ({tag: "StrExp", val: s});
 export const isStrExp = (x: any): x is StrExp => x.tag === "StrExp";
 
-export type PrimOp = {tag: "PrimOp"; op: PrimOpKeyword; }
+export type PrimOp = {tag: "PrimOp"; op: PrimOpKeyword; span?: Span; }
 export const makePrimOp = (op: PrimOpKeyword): PrimOp => ({tag: "PrimOp", op: op});
 export const isPrimOp = (x: any): x is PrimOp => x.tag === "PrimOp";
 
-export type VarRef = {tag: "VarRef"; var: string; }
+export type VarRef = {tag: "VarRef"; var: string; span?: Span; }
 export const makeVarRef = (v: string): VarRef => ({tag: "VarRef", var: v});
 export const isVarRef = (x: any): x is VarRef => x.tag === "VarRef";
 
-export type VarDecl = {tag: "VarDecl"; var: string; texp: TExp}
+export type VarDecl = {tag: "VarDecl"; var: string; texp: TExp; span?: Span; }
 export const makeVarDecl = (v: string, te: TExp): VarDecl => ({tag: "VarDecl", var: v, texp: te});
 export const isVarDecl = (x: any): x is VarDecl => x.tag === "VarDecl";
 
-export type AppExp = {tag: "AppExp"; rator: CExp; rands: CExp[]; }
+export type AppExp = {tag: "AppExp"; rator: CExp; rands: CExp[]; span?: Span; }
 export const makeAppExp = (rator: CExp, rands: CExp[]): AppExp =>
     ({tag: "AppExp", rator: rator, rands: rands});
 export const isAppExp = (x: any): x is AppExp => x.tag === "AppExp";
 
-export type IfExp = {tag: "IfExp"; test: CExp; then: CExp; alt: CExp; }
+export type IfExp = {tag: "IfExp"; test: CExp; then: CExp; alt: CExp; span?: Span; }
 export const makeIfExp = (test: CExp, then: CExp, alt: CExp): IfExp =>
     ({tag: "IfExp", test: test, then: then, alt: alt});
 export const isIfExp = (x: any): x is IfExp => x.tag === "IfExp";
 
-export type ProcExp = {tag: "ProcExp"; args: VarDecl[], body: CExp[]; returnTE: TExp }
-export const makeProcExp = (args: VarDecl[], body: CExp[], returnTE: TExp): ProcExp =>
+export type ProcExp = {tag: "ProcExp"; args: VarDecl[], body: Exp[]; returnTE: TExp; span?: Span; }
+export const makeProcExp = (args: VarDecl[], body: Exp[], returnTE: TExp): ProcExp =>
     ({tag: "ProcExp", args: args, body: body, returnTE: returnTE});
 export const isProcExp = (x: any): x is ProcExp => x.tag === "ProcExp";
 
-export type Binding = {tag: "Binding"; var: VarDecl; val: CExp; }
+export type Binding = {tag: "Binding"; var: VarDecl; val: CExp; span?: Span; }
 export const makeBinding = (v: VarDecl, val: CExp): Binding =>
     ({tag: "Binding", var: v, val: val});
 export const isBinding = (x: any): x is Binding => x.tag === "Binding";
 
-export type LetExp = {tag: "LetExp"; bindings: Binding[]; body: CExp[]; }
-export const makeLetExp = (bindings: Binding[], body: CExp[]): LetExp =>
+export type LetExp = {tag: "LetExp"; bindings: Binding[]; body: Exp[]; span?: Span; }
+export const makeLetExp = (bindings: Binding[], body: Exp[]): LetExp =>
     ({tag: "LetExp", bindings: bindings, body: body});
 export const isLetExp = (x: any): x is LetExp => x.tag === "LetExp";
 
-export type LitExp = {tag: "LitExp"; val: SExpValue; }
+export type LitExp = {tag: "LitExp"; val: SExpValue; span?: Span; }
 export const makeLitExp = (val: SExpValue): LitExp => ({tag: "LitExp", val: val});
 export const isLitExp = (x: any): x is LitExp => x.tag === "LitExp";
 
-export type LetrecExp = {tag: "LetrecExp"; bindings: Binding[]; body: CExp[]; }
-export const makeLetrecExp = (bindings: Binding[], body: CExp[]): LetrecExp =>
+export type LetrecExp = {tag: "LetrecExp"; bindings: Binding[]; body: Exp[]; span?: Span; }
+export const makeLetrecExp = (bindings: Binding[], body: Exp[]): LetrecExp =>
     ({tag: "LetrecExp", bindings: bindings, body: body});
 export const isLetrecExp = (x: any): x is LetrecExp => x.tag === "LetrecExp";
 
-export type SetExp = {tag: "SetExp"; var: VarRef; val: CExp; }
+// (let name ((x1 v1) ...) : returnTE body) binds name to (lambda (x1 ...) : returnTE body)
+// in the scope of the body and applies it to (v1 ...).
+export type NamedLetExp = {tag: "NamedLetExp"; name: string; bindings: Binding[]; returnTE: TExp; body: Exp[]; span?: Span; }
+export const makeNamedLetExp = (name: string, bindings: Binding[], returnTE: TExp, body: Exp[]): NamedLetExp =>
+    ({tag: "NamedLetExp", name: name, bindings: bindings, returnTE: returnTE, body: body});
+export const isNamedLetExp = (x: any): x is NamedLetExp => x.tag === "NamedLetExp";
+
+export type SetExp = {tag: "SetExp"; var: VarRef; val: CExp; span?: Span; }
 export const makeSetExp = (v: VarRef, val: CExp): SetExp =>
     ({tag: "SetExp", var: v, val: val});
 export const isSetExp = (x: any): x is SetExp => x.tag === "SetExp";
 
+// A clause (test => receiver) has isArrow set and body [receiver].
+// A clause (test) has an empty body - its value is the value of test.
+export type CondClause = {tag: "CondClause"; test: CExp; body: CExp[]; isArrow: boolean; span?: Span; }
+export const makeCondClause = (test: CExp, body: CExp[], isArrow: boolean): CondClause =>
+    ({tag: "CondClause", test: test, body: body, isArrow: isArrow});
+export const isCondClause = (x: any): x is CondClause => x.tag === "CondClause";
+
+// alt is the body of the else clause - empty when there is none.
+export type CondExp = {tag: "CondExp"; clauses: CondClause[]; alt: CExp[]; span?: Span; }
+export const makeCondExp = (clauses: CondClause[], alt: CExp[]): CondExp =>
+    ({tag: "CondExp", clauses: clauses, alt: alt});
+export const isCondExp = (x: any): x is CondExp => x.tag === "CondExp";
+
+export type CaseClause = {tag: "CaseClause"; data: SExpValue[]; body: CExp[]; span?: Span; }
+export const makeCaseClause = (data: SExpValue[], body: CExp[]): CaseClause =>
+    ({tag: "CaseClause", data: data, body: body});
+export const isCaseClause = (x: any): x is CaseClause => x.tag === "CaseClause";
+
+export type CaseExp = {tag: "CaseExp"; key: CExp; clauses: CaseClause[]; alt: CExp[]; span?: Span; }
+export const makeCaseExp = (key: CExp, clauses: CaseClause[], alt: CExp[]): CaseExp =>
+    ({tag: "CaseExp", key: key, clauses: clauses, alt: alt});
+export const isCaseExp = (x: any): x is CaseExp => x.tag === "CaseExp";
+
+export type LetStarExp = {tag: "LetStarExp"; bindings: Binding[]; body: Exp[]; span?: Span; }
+export const makeLetStarExp = (bindings: Binding[], body: Exp[]): LetStarExp =>
+    ({tag: "LetStarExp", bindings: bindings, body: body});
+export const isLetStarExp = (x: any): x is LetStarExp => x.tag === "LetStarExp";
+
+export type BeginExp = {tag: "BeginExp"; exps: CExp[]; span?: Span; }
+export const makeBeginExp = (exps: CExp[]): BeginExp => ({tag: "BeginExp", exps: exps});
+export const isBeginExp = (x: any): x is BeginExp => x.tag === "BeginExp";
+
+export type WhenExp = {tag: "WhenExp"; test: CExp; body: CExp[]; span?: Span; }
+export const makeWhenExp = (test: CExp, body: CExp[]): WhenExp =>
+    ({tag: "WhenExp", test: test, body: body});
+export const isWhenExp = (x: any): x is WhenExp => x.tag === "WhenExp";
+
+export type UnlessExp = {tag: "UnlessExp"; test: CExp; body: CExp[]; span?: Span; }
+export const makeUnlessExp = (test: CExp, body: CExp[]): UnlessExp =>
+    ({tag: "UnlessExp", test: test, body: body});
+export const isUnlessExp = (x: any): x is UnlessExp => x.tag === "UnlessExp";
+
+// (guard (var clause ...) body): when the body raises a value, var is bound to it
+// and the clauses are tried as in cond - the value is raised again when none applies.
+export type GuardExp = {tag: "GuardExp"; var: VarDecl; clauses: CondClause[]; alt: CExp[]; body: Exp[]; span?: Span; }
+export const makeGuardExp = (v: VarDecl, clauses: CondClause[], alt: CExp[], body: Exp[]): GuardExp =>
+    ({tag: "GuardExp", var: v, clauses: clauses, alt: alt, body: body});
+export const isGuardExp = (x: any): x is GuardExp => x.tag === "GuardExp";
+
+// (match val ((variant var ...) body) ... (else alt)): the clause of the variant of the value of val
+// is evaluated with its vars bound to the fields of the value.
+export type MatchExp = {tag: "MatchExp"; val: CExp; clauses: MatchClause[]; alt: CExp[]; span?: Span; }
+export const makeMatchExp = (val: CExp, clauses: MatchClause[], alt: CExp[]): MatchExp =>
+    ({tag: "MatchExp", val: val, clauses: clauses, alt: alt});
+export const isMatchExp = (x: any): x is MatchExp => x.tag === "MatchExp";
+
+export type MatchClause = {tag: "MatchClause"; variant: string; vars: VarDecl[]; body: CExp[]; span?: Span; }
+export const makeMatchClause = (variant: string, vars: VarDecl[], body: CExp[]): MatchClause =>
+    ({tag: "MatchClause", variant: variant, vars: vars, body: body});
+export const isMatchClause = (x: any): x is MatchClause => x.tag === "MatchClause";
+
 
 
 
 // To help parser - define a type for reserved key words.
-export type SpecialFormKeyword = "lambda" | "let" | "letrec" | "if" | "set!" | "quote";
+export type SpecialFormKeyword = "lambda" | "let" | "letrec" | "if" | "set!" | "quote" |
+        "cond" | "case" | "let*" | "begin" | "when" | "unless" | "guard" | "match";
 const isSpecialFormKeyword = (x: string): x is SpecialFormKeyword =>
-    ["if", "lambda", "let", "quote", "letrec", "set!"].includes(x);
+    ["if", "lambda", "let", "quote", "letrec", "set!", "cond", "case", "let*", "begin", "when", "unless", "guard",
+     "match"].includes(x);
 
 /*
     ;; <prim-op>  ::= + | - | * | / | < | > | = | not | and | or | eq? | string=?
     ;;                  | cons | car | cdr | pair? | number? | list
     ;;                  | boolean? | symbol? | string?      ##### L3
+    ;;                  | string-length | display | write | newline
+    ;;                  | call/cc
+    ;;                  | raise | error | condition? | condition-kind | condition-message
 */
 export type PrimOpKeyword = "+" | "-" | "*" | "/" | ">" | "<" | "=" | "not" | "and" | "or" | "eq?" | "string=?" | 
         "cons" | "car" | "cdr" | "list" | "pair?" | "list?" | "number?" | "boolean?" | "symbol?" | "string?" |
-        "display" | "newline";
+        "string-length" | "display" | "write" | "newline" | "call/cc" |
+        "raise" | "error" | "condition?" | "condition-kind" | "condition-message";
 const isPrimOpKeyword = (x: string): x is PrimOpKeyword =>
     ["+", "-", "*", "/", ">", "<", "=", "not", "and", "or", 
      "eq?", "string=?", "cons", "car", "cdr", "list", "pair?",
-     "list?", "number?", "boolean?", "symbol?", "string?", "display", "newline"].includes(x);
+     "list?", "number?", "boolean?", "symbol?", "string?", "string-length", "display", "write", "newline", "call/cc",
+     "raise", "error", "condition?", "condition-kind", "condition-message"].includes(x);
 
 // ========================================================
 // Parsing
@@ -185,22 +362,51 @@ const isPrimOpKeyword = (x: string): x is PrimOpKeyword =>
 export const parseL5 = (x: string): Result<Program> =>
     bind(p(x), parseL5Program);
 
+// The entry points parseL5Program and parseL5Exp attach source spans to the parsed AST.
+// Failures are located at the innermost compound expression that reports them.
 export const parseL5Program = (sexp: Sexp): Result<Program> =>
     isToken(sexp) ? makeFailure(`Program cannot be a single token: ${format(sexp)}`) :
-    isNonEmptyList<Sexp>(sexp) ? parseL5GoodProgram(first(sexp), rest(sexp)) :
+    isNonEmptyList<Sexp>(sexp) ? mapv(locateFailure(parseL5GoodProgram(first(sexp), rest(sexp)), sexpSpan(sexp)),
+                                      (program: Program) => locate(program, sexp, sexpSpan(sexp))) :
     makeFailure("Unexpected empty program");
 
-const parseL5GoodProgram = (keyword: Sexp, body: Sexp[]): Result<Program> =>
-    keyword === "L5" && !isEmpty(body) ? mapv(mapResult(parseL5Exp, body), (exps: Exp[]) => makeProgram(exps)) :
-    makeFailure(`Program must be of the form (L5 <exp>+): ${format([keyword, ...body])}`);
+// The type aliases of the program are declared before its forms are parsed - they may refer to each other in any order.
+const parseL5GoodProgram = (keyword: Sexp, body: Sexp[]): Result<Program> => {
+    if (keyword !== "L5" || isEmpty(body))
+        return makeFailure(`Program must be of the form (L5 <exp>+): ${format([keyword, ...body])}`);
+    const program = bind(predeclareTypeAliases(body), _ =>
+        mapv(mapResult(parseExp, body), (exps: Exp[]) => makeProgram(exps)));
+    undeclarePendingTypeAliases();
+    return program;
+};
+
+// Purpose: declare the aliases of the define-type forms of body. An alias is defined once in a program.
+const predeclareTypeAliases = (body: Sexp[]): Result<string[]> => {
+    const aliases = chain((sexp: Sexp) => {
+        const head = isNonEmptyList<Sexp>(sexp) && first(sexp) === "define-type" && isNonEmptyList<Sexp>(rest(sexp)) ? second(sexp) : undefined;
+        const [name, ...tparams] = isArray(head) ? head : [head];
+        return isString(name) && allT(isString, tparams) ? [{name: name, params: tparams, sexp: sexp}] : [];
+    }, body);
+    const duplicate = aliases.find((alias, i: number) => aliases.findIndex((a) => a.name === alias.name) < i);
+    if (duplicate !== undefined)
+        return locateFailure(makeFailure(`Duplicate type alias name: ${duplicate.name}`), sexpSpan(duplicate.sexp));
+    aliases.forEach((alias) => predeclareTypeAlias(alias.name, alias.params));
+    return makeOk(map((alias) => alias.name, aliases));
+};
 
 export const parseL5Exp = (sexp: Sexp): Result<Exp> =>
-    isNonEmptyList<Sexp>(sexp) ? parseL5CompoundExp(first(sexp), rest(sexp)) :
+    mapv(parseExp(sexp), (exp: Exp) => locate(exp, sexp, sexpSpan(sexp)));
+
+const parseExp = (sexp: Sexp): Result<Exp> =>
+    isNonEmptyList<Sexp>(sexp) ? locateFailure(parseL5CompoundExp(first(sexp), rest(sexp)), sexpSpan(sexp)) :
     isToken(sexp) ? parseL5Atomic(sexp) :
     makeFailure("Exp cannot be an empty list");
 
 export const parseL5CompoundExp = (op: Sexp, params: Sexp[]): Result<Exp> =>
     op === "define" ? parseDefine(params) :
+    op === "define-record" ? parseDefineRecord(params) :
+    op === "define-datatype" ? parseDefineDatatype(params) :
+    op === "define-type" ? parseDefineType(params) :
     parseL5CompoundCExp(op, params);
 
 export const parseL5CompoundCExp = (op: Sexp, params: Sexp[]): Result<CExp> =>
@@ -211,10 +417,17 @@ export const parseL5SpecialForm = (op: SpecialFormKeyword, params: Sexp[]): Resu
     isNonEmptyList<Sexp>(params) ?
         op === "if" ? parseIfExp(params) :
         op === "lambda" ? parseProcExp(first(params), rest(params)) :
-        op === "let" ? parseLetExp(first(params), rest(params)) :
+        op === "let" ? parseLetOrNamedLetExp(first(params), rest(params)) :
         op === "quote" ? parseLitExp(first(params)) :
         op === "letrec" ? parseLetrecExp(first(params), rest(params)) :
         op === "set!" ? parseSetExp(params) :
+        op === "cond" ? parseCondExp(params) :
+        op === "case" ? parseCaseExp(first(params), rest(params)) :
+        op === "let*" ? parseLetStarExp(first(params), rest(params)) :
+        op === "begin" ? mapv(mapResult(parseL5CExp, params), makeBeginExp) :
+        op === "when" || op === "unless" ? parseWhenExp(op, first(params), rest(params)) :
+        op === "guard" ? parseGuardExp(first(params), rest(params)) :
+        op === "match" ? parseMatchExp(first(params), rest(params)) :
         makeFailure(`Unknown special form: ${op}`) :
     makeFailure("Empty args for special form");
 
@@ -231,6 +444,80 @@ const parseGoodDefine = (variable: Sexp, val: Sexp): Result<DefineExp> =>
         mapv(parseL5CExp(val), (val: CExp) =>
             makeDefineExp(varDecl, val)));
 
+// (define-record name (<field>*))
+// The record type is declared before the fields are parsed - a field may hold a record of the same type.
+const parseDefineRecord = (params: Sexp[]): Result<DefineRecordExp> => {
+    const [name, fields] = params;
+    return params.length !== 2 || ! isString(name) || ! isIdentifier(name) || ! isArray(fields) ?
+        makeFailure(`Expression not of the form (define-record <identifier> (<field>*)): ${format(params)}`) :
+    bind(declareRecordType(name), _ =>
+        bind(mapResult(parseRecordField, fields), (fields: RecordField[]) => {
+            const vars = map((f: RecordField) => f.var.var, fields);
+            return uniq(vars).length !== vars.length ? makeFailure<DefineRecordExp>(`Duplicate field names in record ${name}: ${format(vars)}`) :
+                   makeOk(makeDefineRecordExp(name, fields));
+        }));
+};
+
+// <field> ::= <var-decl> | ( <var> [: TExp]? #:mutable )
+const parseRecordField = (sexp: Sexp): Result<RecordField> => {
+    const mutable = isArray(sexp) && sexp.length > 1 && sexp[sexp.length - 1] === "#:mutable";
+    const decl = ! mutable ? sexp : sexp.length === 2 ? sexp[0] : sexp.slice(0, -1);
+    const isFieldDecl = isArray(decl) ? decl.length === 3 && isString(decl[0]) && isIdentifier(decl[0]) && decl[1] === ":" :
+                        isString(decl) && isIdentifier(decl);
+    return ! isFieldDecl ? makeFailure(`Invalid record field: ${format(sexp)}`) :
+        mapv(parseVarDecl(decl), (vd: VarDecl) => makeRecordField(vd, mutable));
+};
+
+// (define-datatype name <variant>+) or (define-datatype (name <tvar>+) <variant>+)
+// The datatype is declared before the fields are parsed - a field may hold a value of the datatype.
+// The types of the fields may only refer to the type parameters of the datatype.
+const parseDefineDatatype = (params: Sexp[]): Result<DefineDatatypeExp> => {
+    const [head, ...variants] = params;
+    const [name, ...tparams] = isArray(head) ? head : [head];
+    const isName = (x: Sexp): x is string => isString(x) && isIdentifier(x);
+    return isEmpty(variants) || ! isName(name) || (isArray(head) && isEmpty(tparams)) || ! allT(isName, tparams) ||
+           ! variants.every((v: Sexp) => isNonEmptyList<Sexp>(v) && isName(first(v))) ?
+        makeFailure(`Expression not of the form (define-datatype <identifier> (<identifier> <var-decl>*)+): ${format(params)}`) :
+    bind(declareDatatype(name, tparams, map((v) => v[0] as string, variants as Sexp[][])), _ =>
+        bind(mapResult((v: Sexp[]) => parseVariant(v, tparams), variants as Sexp[][]), (variants: Variant[]) =>
+            makeOk(makeDefineDatatypeExp(name, tparams, variants))));
+};
+
+const parseVariant = (variant: Sexp[], tparams: string[]): Result<Variant> => {
+    const [name, ...fields] = variant;
+    return ! fields.every(isConcreteVarDecl) ? makeFailure(`Invalid variant fields: ${format(variant)}`) :
+        bind(mapResult(parseVarDecl, fields), (fields: VarDecl[]) => {
+            const vars = map((f: VarDecl) => f.var, fields);
+            const fieldTEs = map((f: VarDecl) => isFreshTVar(f.texp) ? makeAnyTExp() : f.texp, fields);
+            const unbound = chain(freeTVars, fieldTEs).filter((tv: TVar) => ! tparams.includes(tv.var));
+            if (uniq(vars).length !== vars.length)
+                return makeFailure<Variant>(`Duplicate field names in variant ${name}: ${format(vars)}`);
+            if (! isEmpty(unbound))
+                return makeFailure<Variant>(`Unbound type variable in variant ${name}: ${unbound[0].var}`);
+            defineVariantFields(name as string, fieldTEs);
+            return makeOk(makeVariant(name as string, fields));
+        });
+};
+
+// (define-type name texp) or (define-type (name <tvar>+) texp)
+// The alias is declared while its definition is parsed - the definition may refer to the alias itself.
+// In a program, the definition may also refer to the other aliases of the program (see parseL5GoodProgram).
+// The definition may only refer to the type parameters of the alias.
+const parseDefineType = (params: Sexp[]): Result<DefineTypeExp> => {
+    const [head, texp] = params;
+    const [name, ...tparams] = isArray(head) ? head : [head];
+    const isName = (x: Sexp): x is string => isString(x) && isIdentifier(x);
+    const parseDefinition = (): Result<TExp> =>
+        bind(parseTExp(texp), (te: TExp) => {
+            const unbound = freeTVars(te).filter((tv: TVar) => ! tparams.includes(tv.var));
+            return isEmpty(unbound) ? makeOk(te) : makeFailure(`Unbound type variable in type ${name}: ${unbound[0].var}`);
+        });
+    return params.length !== 2 || ! isName(name) || (isArray(head) && isEmpty(tparams)) || ! allT(isName, tparams) ?
+        makeFailure(`Expression not of the form (define-type <identifier> <texp>): ${format(params)}`) :
+    mapv(declareTypeAlias(name, tparams, parseDefinition), (decl: TypeAliasDecl) =>
+        makeDefineTypeExp(name, tparams, decl.texp as TExp));
+};
+
 export const parseL5Atomic = (token: Token): Result<AtomicExp> =>
     token === "#t" ? makeOk(makeBoolExp(true)) :
     token === "#f" ? makeOk(makeBoolExp(false)) :
@@ -240,7 +527,7 @@ export const parseL5Atomic = (token: Token): Result<AtomicExp> =>
     makeOk(makeStrExp(token.toString()));
 
 export const parseL5CExp = (sexp: Sexp): Result<CExp> =>
-    isNonEmptyList<Sexp>(sexp) ? parseL5CompoundCExp(first(sexp), rest(sexp)) :
+    isNonEmptyList<Sexp>(sexp) ? locateFailure(parseL5CompoundCExp(first(sexp), rest(sexp)), sexpSpan(sexp)) :
     isToken(sexp) ? parseL5Atomic(sexp) :
     makeFailure("CExp cannot be an empty list");
 
@@ -260,10 +547,10 @@ const parseProcExp = (vars: Sexp, rest: Sexp[]): Result<ProcExp> => {
         const args = mapResult(parseVarDecl, vars);
         const bodyPosition = rest[0] != ":" ? 0 : rest[1] != "is?" ? 2 : 3;
         const returnTE = bodyPosition == 0 ? makeOk(makeFreshTVar()) :
-            bodyPosition == 2 ? parseTExp(rest[1]) : parseTExp(rest.slice(0, bodyPosition));
-        const body = mapResult(parseL5CExp, rest.slice(bodyPosition)); // need to check for fixing
+            bodyPosition == 2 ? parseTExp(rest[1]) : parseTExp(rest.slice(1, bodyPosition));
+        const body = parseBody(rest.slice(bodyPosition), "lambda");
         return bind(args, (args: VarDecl[]) =>
-                    bind(body, (body: CExp[]) =>
+                    bind(body, (body: Exp[]) =>
                         mapv(returnTE, (returnTE: TExp) =>
                             makeProcExp(args, body, returnTE))));
     } else {
@@ -278,12 +565,43 @@ const parseLetExp = (bindings: Sexp, body: Sexp[]): Result<LetExp> =>
     isEmpty(body) ? makeFailure('Body of "let" cannot be empty') :
     ! isGoodBindings(bindings) ? makeFailure(`Invalid bindings: ${format(bindings)}`) :
     bind(parseBindings(bindings), (bdgs: Binding[]) =>
-        mapv(mapResult(parseL5CExp, body), (body: CExp[]) =>
+        mapv(parseBody(body, "let"), (body: Exp[]) =>
             makeLetExp(bdgs, body)));
 
+const parseLetOrNamedLetExp = (first: Sexp, rest: Sexp[]): Result<LetExp | NamedLetExp> =>
+    isString(first) && isIdentifier(first) ? parseNamedLetExp(first, rest) :
+    parseLetExp(first, rest);
+
+// (let name (<binding>*) [: returnTE]? <body>)
+const parseNamedLetExp = (name: string, params: Sexp[]): Result<NamedLetExp> => {
+    const bindings = params[0];
+    if (! isGoodBindings(bindings))
+        return makeFailure(`Invalid bindings: ${format(params)}`);
+    const bodyPosition = params[1] === ":" ? 3 : 1;
+    const returnTE = bodyPosition === 1 ? makeOk(makeFreshTVar()) : parseTExp(params[2]);
+    return bind(parseBindings(bindings), (bdgs: Binding[]) =>
+            bind(returnTE, (returnTE: TExp) =>
+                mapv(parseBody(params.slice(bodyPosition), "let"), (body: Exp[]) =>
+                    makeNamedLetExp(name, bdgs, returnTE, body))));
+};
+
+// <body> ::= <define>* <cexp>+
+// Internal defines must come before the expressions of the body.
+const parseBody = (body: Sexp[], form: string): Result<Exp[]> =>
+    bind(mapResult(parseExp, body), (exps: Exp[]) => {
+        const firstCExp = exps.findIndex(isCExp);
+        return firstCExp === -1 ? makeFailure(`Body of "${form}" must end with an expression: ${format(body)}`) :
+            exps.slice(firstCExp).some(isDefineExp) ?
+                makeFailure(`Internal defines must come before the expressions of the body: ${format(body)}`) :
+            exps.some(isDefineRecordExp) ? makeFailure(`define-record is only allowed at the top level: ${format(body)}`) :
+            exps.some(isDefineDatatypeExp) ? makeFailure(`define-datatype is only allowed at the top level: ${format(body)}`) :
+            exps.some(isDefineTypeExp) ? makeFailure(`define-type is only allowed at the top level: ${format(body)}`) :
+            makeOk(exps);
+    });
+
 const isConcreteVarDecl = (sexp: Sexp): boolean =>
     isIdentifier(sexp) ||
-    (isArray(sexp) && sexp.length > 2 && isIdentifier(sexp[0]) && (sexp[1] === ':'));
+    (isArray(sexp) && sexp.length > 2 && isString(sexp[0]) && isIdentifier(sexp[0]) && (sexp[1] === ':'));
 
 export const parseVarDecl = (sexp: Sexp): Result<VarDecl> => {
     if (isString(sexp)) {
@@ -309,9 +627,97 @@ const parseLetrecExp = (bindings: Sexp, body: Sexp[]): Result<LetrecExp> =>
     isEmpty(body) ? makeFailure('Body of "letrec" cannot be empty') :
     ! isGoodBindings(bindings) ? makeFailure(`Invalid bindings: ${format(bindings)}`) :
     bind(parseBindings(bindings), (bdgs: Binding[]) =>
-        mapv(mapResult(parseL5CExp, body), (body: CExp[]) => 
+        mapv(parseBody(body, "letrec"), (body: Exp[]) =>
             makeLetrecExp(bdgs, body)));
 
+// An else clause may only come last: (... (else <cexp>+))
+const splitElseClause = (clauses: Sexp[], form: string): Result<[Sexp[], Sexp[]]> => {
+    const elseIndex = clauses.findIndex((c) => isArray(c) && c[0] === "else");
+    return elseIndex === -1 ? makeOk([clauses, []]) :
+        elseIndex !== clauses.length - 1 ? makeFailure(`else clause must be the last clause of ${form}: ${format(clauses)}`) :
+        clauses[elseIndex].length < 2 ? makeFailure(`Body of else clause cannot be empty: ${format(clauses[elseIndex])}`) :
+        makeOk([clauses.slice(0, elseIndex), rest(clauses[elseIndex] as NonEmptyList<Sexp>)]);
+};
+
+const parseCondExp = (params: Sexp[]): Result<CondExp> =>
+    bind(splitElseClause(params, "cond"), ([clauses, alt]: [Sexp[], Sexp[]]) =>
+        isEmpty(clauses) && isEmpty(alt) ? makeFailure("cond must have at least one clause") :
+        bind(mapResult(parseCondClause, clauses), (clauses: CondClause[]) =>
+            mapv(mapResult(parseL5CExp, alt), (alt: CExp[]) =>
+                makeCondExp(clauses, alt))));
+
+const parseCondClause = (clause: Sexp): Result<CondClause> =>
+    ! isNonEmptyList<Sexp>(clause) ? makeFailure(`Invalid cond clause: ${format(clause)}`) :
+    clause[1] === "=>" ?
+        clause.length !== 3 ? makeFailure(`Clause not of the form (<cexp> => <cexp>): ${format(clause)}`) :
+        bind(parseL5CExp(clause[0]), (test: CExp) =>
+            mapv(parseL5CExp(clause[2]), (receiver: CExp) =>
+                makeCondClause(test, [receiver], true))) :
+    bind(parseL5CExp(first(clause)), (test: CExp) =>
+        mapv(mapResult(parseL5CExp, rest(clause)), (body: CExp[]) =>
+            makeCondClause(test, body, false)));
+
+// (guard (var <cond-clause>* [(else <cexp>+)]) <body>)
+const parseGuardExp = (handler: Sexp, body: Sexp[]): Result<GuardExp> => {
+    if (! isNonEmptyList<Sexp>(handler))
+        return makeFailure(`Guard handler not of the form (<var> <cond-clause>*): ${format(handler)}`);
+    const v = first(handler);
+    return ! (isString(v) && isIdentifier(v)) ? makeFailure(`The variable of guard must be an identifier: ${format(v)}`) :
+        bind(splitElseClause(rest(handler), "guard"), ([clauses, alt]: [Sexp[], Sexp[]]) =>
+            bind(mapResult(parseCondClause, clauses), (clauses: CondClause[]) =>
+                bind(mapResult(parseL5CExp, alt), (alt: CExp[]) =>
+                    mapv(parseBody(body, "guard"), (body: Exp[]) =>
+                        makeGuardExp(makeVarDecl(v, makeFreshTVar()), clauses, alt, body)))));
+};
+
+// (match <cexp> <match-clause>+ [(else <cexp>+)])
+const parseMatchExp = (val: Sexp, params: Sexp[]): Result<MatchExp> =>
+    bind(splitElseClause(params, "match"), ([clauses, alt]: [Sexp[], Sexp[]]) =>
+        isEmpty(clauses) ? makeFailure("match must have at least one variant clause") :
+        bind(parseL5CExp(val), (val: CExp) =>
+            bind(mapResult(parseMatchClause, clauses), (clauses: MatchClause[]) =>
+                mapv(mapResult(parseL5CExp, alt), (alt: CExp[]) =>
+                    makeMatchExp(val, clauses, alt)))));
+
+const parseMatchClause = (clause: Sexp): Result<MatchClause> => {
+    const pattern = isArray(clause) ? clause[0] : undefined;
+    const isName = (x: Sexp): x is string => isString(x) && isIdentifier(x);
+    if (! isArray(clause) || clause.length < 2 || ! isNonEmptyList<Sexp>(pattern) || ! allT(isName, pattern))
+        return makeFailure(`Clause not of the form ((<identifier> <var>*) <cexp>+): ${format(clause)}`);
+    const [variant, ...vars] = pattern as string[];
+    return uniq(vars).length !== vars.length ? makeFailure(`Duplicate variables in match clause: ${format(pattern)}`) :
+        mapv(mapResult(parseL5CExp, clause.slice(1)), (body: CExp[]) =>
+            makeMatchClause(variant, map((v: string) => makeVarDecl(v, makeFreshTVar()), vars), body));
+};
+
+const parseCaseExp = (key: Sexp, params: Sexp[]): Result<CaseExp> =>
+    bind(splitElseClause(params, "case"), ([clauses, alt]: [Sexp[], Sexp[]]) =>
+        isEmpty(clauses) && isEmpty(alt) ? makeFailure("case must have at least one clause") :
+        bind(parseL5CExp(key), (key: CExp) =>
+            bind(mapResult(parseCaseClause, clauses), (clauses: CaseClause[]) =>
+                mapv(mapResult(parseL5CExp, alt), (alt: CExp[]) =>
+                    makeCaseExp(key, clauses, alt)))));
+
+const parseCaseClause = (clause: Sexp): Result<CaseClause> =>
+    ! isArray(clause) || clause.length < 2 || ! isArray(clause[0]) ?
+        makeFailure(`Clause not of the form ((<sexp>*) <cexp>+): ${format(clause)}`) :
+    bind(mapResult(parseSExp, clause[0]), (data: SExpValue[]) =>
+        mapv(mapResult(parseL5CExp, clause.slice(1)), (body: CExp[]) =>
+            makeCaseClause(data, body)));
+
+const parseLetStarExp = (bindings: Sexp, body: Sexp[]): Result<LetStarExp> =>
+    isEmpty(body) ? makeFailure('Body of "let*" cannot be empty') :
+    ! isGoodBindings(bindings) ? makeFailure(`Invalid bindings: ${format(bindings)}`) :
+    bind(parseBindings(bindings), (bdgs: Binding[]) =>
+        mapv(parseBody(body, "let*"), (body: Exp[]) =>
+            makeLetStarExp(bdgs, body)));
+
+const parseWhenExp = (op: "when" | "unless", test: Sexp, body: Sexp[]): Result<WhenExp | UnlessExp> =>
+    isEmpty(body) ? makeFailure(`Body of "${op}" cannot be empty`) :
+    bind(parseL5CExp(test), (test: CExp) =>
+        mapv(mapResult(parseL5CExp, body), (body: CExp[]) =>
+            op === "when" ? makeWhenExp(test, body) : makeUnlessExp(test, body)));
+
 const parseSetExp = (params: Sexp[]): Result<SetExp> =>
     isNonEmptyList<Sexp>(params) ?
         (params.length === 1) ? makeFailure(`set! missing 1 argument: ${format(params)}`) :
@@ -325,7 +731,18 @@ const parseGoodSetExp = (variable: Sexp, val: Sexp): Result<SetExp> =>
 
 // sexps has the shape (quote <sexp>)
 export const parseLitExp = (param: Sexp): Result<LitExp> =>
-    mapv(parseSExp(param), (sexp: SExpValue) => makeLitExp(sexp));
+    mapv(parseSExp(param), (sexp: SExpValue) => {
+        const lit = makeLitExp(sexp);
+        writtenData.set(lit, param);
+        return lit;
+    });
+
+// The literal expressions read by parseLitExp, with the datum each one is read from:
+// the pretty printer keeps the comments inside a quoted datum in place.
+const writtenData = new WeakMap<LitExp, Sexp>();
+
+// Purpose: the datum from which e was read - undefined when e was not read by parseLitExp
+export const writtenDatum = (e: LitExp): Sexp | undefined => writtenData.get(e);
 
 export const isDottedPair = (sexps: Sexp[]): boolean =>
     sexps.length === 3 && 
@@ -353,6 +770,104 @@ export const parseSExp = (sexp: Sexp): Result<SExpValue> =>
     ) :
     makeOk(makeEmptySExp());
 
+// ==========================================================================
+// Source locations: attach to each node the span of the sexp it was parsed from.
+// Tokens are primitive strings without identity - their spans are recorded in
+// the location of the enclosing list, so we walk the AST and the sexp together.
+type Located = Parsed | VarDecl | Binding | CondClause | CaseClause | RecordField | Variant | MatchClause;
+
+const locate = <T extends Located>(e: T, sexp: Sexp, span: Span | undefined): T => {
+    withSpan(e, span);
+    if (isArray(sexp))
+        locateComponents(e, sexp);
+    return e;
+}
+
+const locateComponents = (e: Located, sexp: Sexp[]): void => {
+    const at = (x: Located, i: number, parent: Sexp[] = sexp): void => {
+        if (i < parent.length)
+            locate(x, parent[i], sexpChildSpan(parent, i));
+    };
+    // Bodies are always the last elements of the form
+    const atEnd = (xs: Located[]): void =>
+        xs.forEach((x, i) => at(x, sexp.length - xs.length + i));
+    // (lambda (<var-decl>*) ...) and (let (<binding>*) ...)
+    const declsSexp = isArray(sexp[1]) ? sexp[1] : [];
+    // The else clause of cond and case is the last element of the form
+    const atElse = (alt: Located[], form: Sexp[] = sexp): void => {
+        const elseSexp = form[form.length - 1];
+        if (isArray(elseSexp))
+            alt.forEach((x, i) => at(x, elseSexp.length - alt.length + i, elseSexp));
+    };
+
+    if (isProgram(e)) {
+        atEnd(e.exps);
+    } else if (isDefineExp(e) || isSetExp(e)) {
+        at(e.var, 1);
+        at(e.val, 2);
+    } else if (isBinding(e)) {
+        at(e.var, 0);
+        at(e.val, 1);
+    } else if (isDefineRecordExp(e)) {
+        const fieldsSexp = isArray(sexp[2]) ? sexp[2] : [];
+        e.fields.forEach((field, i) => at(field, i, fieldsSexp));
+    } else if (isRecordField(e)) {
+        withSpan(e.var, e.span);
+    } else if (isDefineDatatypeExp(e)) {
+        e.variants.forEach((variant, i) => at(variant, i + 2));
+    } else if (isVariant(e)) {
+        e.fields.forEach((field, i) => at(field, i + 1));
+    } else if (isAppExp(e)) {
+        at(e.rator, 0);
+        e.rands.forEach((rand, i) => at(rand, i + 1));
+    } else if (isIfExp(e)) {
+        at(e.test, 1);
+        at(e.then, 2);
+        at(e.alt, 3);
+    } else if (isProcExp(e)) {
+        e.args.forEach((arg, i) => at(arg, i, declsSexp));
+        atEnd(e.body);
+    } else if (isLetExp(e) || isLetrecExp(e) || isLetStarExp(e)) {
+        e.bindings.forEach((bdg, i) => at(bdg, i, declsSexp));
+        atEnd(e.body);
+    } else if (isNamedLetExp(e)) {
+        const bindingsSexp = isArray(sexp[2]) ? sexp[2] : [];
+        e.bindings.forEach((bdg, i) => at(bdg, i, bindingsSexp));
+        atEnd(e.body);
+    } else if (isCondExp(e)) {
+        e.clauses.forEach((clause, i) => at(clause, i + 1));
+        atElse(e.alt);
+    } else if (isCondClause(e)) {
+        at(e.test, 0);
+        atEnd(e.body);
+    } else if (isCaseExp(e)) {
+        at(e.key, 1);
+        e.clauses.forEach((clause, i) => at(clause, i + 2));
+        atElse(e.alt);
+    } else if (isCaseClause(e)) {
+        atEnd(e.body);
+    } else if (isMatchExp(e)) {
+        at(e.val, 1);
+        e.clauses.forEach((clause, i) => at(clause, i + 2));
+        atElse(e.alt);
+    } else if (isMatchClause(e)) {
+        const patternSexp = isArray(sexp[0]) ? sexp[0] : [];
+        e.vars.forEach((v, i) => at(v, i + 1, patternSexp));
+        atEnd(e.body);
+    } else if (isBeginExp(e)) {
+        atEnd(e.exps);
+    } else if (isWhenExp(e) || isUnlessExp(e)) {
+        at(e.test, 1);
+        atEnd(e.body);
+    } else if (isGuardExp(e)) {
+        const handlerSexp = isArray(sexp[1]) ? sexp[1] : [];
+        at(e.var, 0, handlerSexp);
+        e.clauses.forEach((clause, i) => at(clause, i + 1, handlerSexp));
+        atElse(e.alt, handlerSexp);
+        atEnd(e.body);
+    }
+}
+
 // ==========================================================================
 // Unparse: Map an AST to a concrete syntax string.
 
@@ -373,18 +888,43 @@ export const unparse = (e: Parsed): Result<string> =>
                             `(if ${test} ${then} ${alt})`))) :
     isLetExp(e) ? unparseLetExp(e) :
     isLetrecExp(e) ? unparseLetrecExp(e) :
+    isNamedLetExp(e) ? bind(unparseBindings(e.bindings), (bdgs: string) =>
+                        bind(unparseReturn(e.returnTE), (ret: string) =>
+                            mapv(unparseLExps(e.body), (body: string) =>
+                                `(let ${e.name} (${bdgs})${ret} ${body})`))) :
     isProcExp(e) ? unparseProcExp(e) :
     isLitExp(e) ? makeOk(unparseLitExp(e)) :
     isSetExp(e) ? unparseSetExp(e) :
+    isGuardExp(e) ? bind(mapResult(unparseCondClause, e.clauses), (clauses: string[]) =>
+                        bind(unparseElseClause(e.alt), (alt: string) =>
+                            mapv(unparseLExps(e.body), (body: string) =>
+                                `(guard (${join(" ", [e.var.var, ...clauses])}${alt}) ${body})`))) :
+    isMatchExp(e) ? unparseMatchExp(e) :
+    // CondExp | CaseExp | LetStarExp | BeginExp | WhenExp | UnlessExp
+    isCondExp(e) ? unparseCondExp(e) :
+    isCaseExp(e) ? unparseCaseExp(e) :
+    isLetStarExp(e) ? bind(unparseBindings(e.bindings), (bdgs: string) =>
+                        mapv(unparseLExps(e.body), (body: string) =>
+                            `(let* (${bdgs}) ${body})`)) :
+    isBeginExp(e) ? mapv(unparseLExps(e.exps), (exps: string) => `(begin ${exps})`) :
+    isWhenExp(e) || isUnlessExp(e) ? bind(unparse(e.test), (test: string) =>
+                                        mapv(unparseLExps(e.body), (body: string) =>
+                                            `(${isWhenExp(e) ? "when" : "unless"} ${test} ${body})`)) :
     // DefineExp | Program
     isDefineExp(e) ? bind(unparseVarDecl(e.var), (vd: string) =>
                         mapv(unparse(e.val), (val: string) =>
                             `(define ${vd} ${val})`)) :
+    isDefineRecordExp(e) ? mapv(mapResult(unparseRecordField, e.fields), (fields: string[]) =>
+                                `(define-record ${e.name} (${join(" ", fields)}))`) :
+    isDefineDatatypeExp(e) ? mapv(mapResult(unparseVariant, e.variants), (variants: string[]) =>
+                                `(define-datatype ${unparseTypeHead(e)} ${join(" ", variants)})`) :
+    isDefineTypeExp(e) ? mapv(unparseTExp(e.texp), (te: string) => `(define-type ${unparseTypeHead(e)} ${te})`) :
     isProgram(e) ? mapv(unparseLExps(e.exps), (exps: string) => `(L5 ${exps})`) :
     e;
 
+// Missing type annotations (fresh type variables) are not printed.
 const unparseReturn = (te: TExp): Result<string> =>
-    isTVar(te) ? makeOk("") :
+    isFreshTVar(te) ? makeOk("") :
     mapv(unparseTExp(te), (te: string) => ` : ${te}`);
 
 const unparseBindings = (bindings: Binding[]): Result<string> =>
@@ -394,11 +934,23 @@ const unparseBindings = (bindings: Binding[]): Result<string> =>
             join(" ", bdgs));
 
 const unparseVarDecl = (vd: VarDecl): Result<string> =>
-    isTVar(vd.texp) ? makeOk(vd.var) :
+    isFreshTVar(vd.texp) ? makeOk(vd.var) :
     mapv(unparseTExp(vd.texp), te => `(${vd.var} : ${te})`);
 
+export const unparseRecordField = (field: RecordField): Result<string> =>
+    ! field.mutable ? unparseVarDecl(field.var) :
+    isFreshTVar(field.var.texp) ? makeOk(`(${field.var.var} #:mutable)`) :
+    mapv(unparseTExp(field.var.texp), te => `(${field.var.var} : ${te} #:mutable)`);
+
+export const unparseTypeHead = (e: DefineDatatypeExp | DefineTypeExp): string =>
+    isEmpty(e.params) ? e.name : `(${join(" ", [e.name, ...e.params])})`;
+
+export const unparseVariant = (variant: Variant): Result<string> =>
+    mapv(mapResult(unparseVarDecl, variant.fields), (fields: string[]) =>
+        `(${join(" ", [variant.name, ...fields])})`);
+
 // Add a quote for symbols, empty and compound sexp - strings and numbers are not quoted.
-const unparseLitExp = (le: LitExp): string =>
+export const unparseLitExp = (le: LitExp): string =>
     isEmptySExp(le.val) ? `'()` :
     isSymbolSExp(le.val) ? `'${valueToString(le.val)}` :
     isCompoundSExp(le.val) ? `'${valueToString(le.val)}` :
@@ -425,3 +977,47 @@ const unparseLetrecExp = (le: LetrecExp): Result<string> =>
 
 const unparseSetExp = (se: SetExp): Result<string> =>
     mapv(unparse(se.val), (val: string) => `(set! ${se.var.var} ${val})`);
+
+// The body of a clause is separated from its head by a space unless it is empty.
+const unparseClauseBody = (body: CExp[]): Result<string> =>
+    mapv(mapResult(unparse, body), (body: string[]) => join("", map((e) => ` ${e}`, body)));
+
+const unparseElseClause = (alt: CExp[]): Result<string> =>
+    isEmpty(alt) ? makeOk("") :
+    mapv(unparseLExps(alt), (alt: string) => ` (else ${alt})`);
+
+const unparseCondClause = (clause: CondClause): Result<string> =>
+    bind(unparse(clause.test), (test: string) =>
+        mapv(unparseClauseBody(clause.body), (body: string) =>
+            clause.isArrow ? `(${test} =>${body})` : `(${test}${body})`));
+
+const unparseCondExp = (ce: CondExp): Result<string> =>
+    bind(mapResult(unparseCondClause, ce.clauses), (clauses: string[]) =>
+        mapv(unparseElseClause(ce.alt), (alt: string) =>
+            `(cond ${join(" ", clauses)}${alt})`));
+
+// case data are not quoted: (case k ((a 1) ...))
+export const unparseDatum = (datum: SExpValue): string =>
+    isEmptySExp(datum) ? "()" : valueToString(datum);
+
+const unparseCaseClause = (clause: CaseClause): Result<string> =>
+    mapv(unparseClauseBody(clause.body), (body: string) =>
+        `((${join(" ", map(unparseDatum, clause.data))})${body})`);
+
+const unparseCaseExp = (ce: CaseExp): Result<string> =>
+    bind(unparse(ce.key), (key: string) =>
+        bind(mapResult(unparseCaseClause, ce.clauses), (clauses: string[]) =>
+            mapv(unparseElseClause(ce.alt), (alt: string) =>
+                `(case ${key} ${join(" ", clauses)}${alt})`)));
+
+export const unparseMatchPattern = (clause: MatchClause): string =>
+    `(${join(" ", [clause.variant, ...map((v: VarDecl) => v.var, clause.vars)])})`;
+
+const unparseMatchClause = (clause: MatchClause): Result<string> =>
+    mapv(unparseClauseBody(clause.body), (body: string) => `(${unparseMatchPattern(clause)}${body})`);
+
+const unparseMatchExp = (me: MatchExp): Result<string> =>
+    bind(unparse(me.val), (val: string) =>
+        bind(mapResult(unparseMatchClause, me.clauses), (clauses: string[]) =>
+            mapv(unparseElseClause(me.alt), (alt: string) =>
+                `(match ${val} ${join(" ", clauses)}${alt})`)));
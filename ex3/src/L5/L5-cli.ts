@@ -0,0 +1,196 @@
+// L5-cli: command-line runner for L5 programs
+// ========================================================
+// Usage: l5 <command> [--json] [file ...]     (npm run l5 -- <command> ...)
+//
+// Commands:
+// check   type check the programs (L5-typecheck) and print their types
+// infer   print the inferred type of each top-level define (L5-typeinference)
+// run     type check then evaluate the programs (L5-eval) and print their values
+// fmt     pretty print the programs (L5-pretty) - keeping their comments
+//
+// Each file holds a program (L5 <exp>+) and is processed independently.
+// Without a file - or with the file - - the program is read from stdin.
+// Diagnostics are printed to stderr - warnings with their severity: they do not fail a program.
+// With --json, stdout only carries a JSON array of the diagnostics of all the files (for editors) -
+// the output of run goes to stderr.
+//
+// Exit codes (the highest code of the files is returned):
+// 0  success
+// 1  syntax or type errors
+// 2  usage error or unreadable file
+// 3  runtime error
+
+import { readFileSync } from "fs";
+import { isDefineExp, parseL5Program, Exp, Program } from "./L5-ast";
+import { evalProgram } from "./L5-eval";
+import { failureDiagnostic, formatDiagnostic, makeDiagnostic, Diagnostic } from "./L5-diagnostics";
+import { makeInterpreter } from "./L5-interpreter";
+import { makeOutputPort, stdoutPort, OutputPort } from "./L5-output";
+import { formatL5, DEFAULT_WIDTH } from "./L5-pretty";
+import { typeofProgramDiagnostics } from "./L5-typecheck";
+import { annotateProgram } from "./L5-typeinference";
+import { valueToString, Value } from "./L5-value";
+import { makeEmptyTEnv } from "./TEnv";
+import { unparseTExp, TExp } from "./TExp";
+import { isEmpty } from "../shared/list";
+import { parse as p } from "../shared/parser";
+import { Result, bind, either, isFailure, makeFailure, makeOk, mapResult, mapv } from "../shared/result";
+
+export const EXIT_OK = 0;
+export const EXIT_ERRORS = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_RUNTIME = 3;
+
+// The environment of the runner - replaced by buffers in tests.
+export type CliIO = {
+    readSource: (file: string) => Result<string>;
+    stdout: OutputPort;
+    stderr: OutputPort;
+}
+
+const STDIN = "-";
+
+// The outcome of a command on one file: an exit code, diagnostics and lines for stdout.
+type Outcome = { code: number; diagnostics: Diagnostic[]; lines: string[]; }
+const makeOutcome = (code: number, diagnostics: Diagnostic[], lines: string[]): Outcome =>
+    ({code: code, diagnostics: diagnostics, lines: lines});
+const okOutcome = (lines: string[]): Outcome => makeOutcome(EXIT_OK, [], lines);
+const failureOutcome = (code: number, r: Result<unknown>): Outcome =>
+    makeOutcome(code, isFailure(r) ? [failureDiagnostic(r)] : [], []);
+
+type Command = (name: string, text: string, out: OutputPort) => Outcome;
+
+const usage = "Usage: l5 <check|infer|run|fmt> [--json] [file ...]";
+
+// Purpose: run the command line args - return the exit code.
+export const runCli = (args: string[], io: CliIO): number => {
+    const json = args.includes("--json");
+    const [command, ...files] = args.filter((arg: string) => arg !== "--json");
+    if (command === "help" || command === "--help") {
+        io.stdout.write(`${usage}\n`);
+        return EXIT_OK;
+    }
+    if (command === undefined || ! (command in commands) ||
+        files.some((file: string) => file.startsWith("--"))) {
+        io.stderr.write(`${usage}\n`);
+        return EXIT_USAGE;
+    }
+    const outcomes = (isEmpty(files) ? [STDIN] : files).map((file: string) =>
+        runFile(commands[command], file, io, json ? io.stderr : io.stdout));
+    const diagnostics = outcomes.flatMap((o: Outcome) => o.diagnostics);
+    if (json) {
+        io.stdout.write(`${JSON.stringify(diagnostics.map(diagnosticToJSON))}\n`);
+    } else {
+        outcomes.forEach((o: Outcome) => o.lines.forEach((line: string) => io.stdout.write(`${line}\n`)));
+        diagnostics.forEach((d: Diagnostic) => io.stderr.write(`${showDiagnostic(d)}\n`));
+    }
+    return Math.max(EXIT_OK, ...outcomes.map((o: Outcome) => o.code));
+};
+
+// Errors are printed as they are, the other diagnostics with their severity.
+const showDiagnostic = (d: Diagnostic): string =>
+    formatDiagnostic(d.severity === "error" ? d : {...d, message: `${d.severity}: ${d.message}`});
+
+const runFile = (command: Command, file: string, io: CliIO, out: OutputPort): Outcome => {
+    const name = file === STDIN ? "<stdin>" : file;
+    const text = io.readSource(file);
+    return either(text,
+                  (text: string) => command(name, text, out),
+                  (message: string) => makeOutcome(EXIT_USAGE, [makeDiagnostic(`${name}: ${message}`, "error")], []));
+};
+
+const parseSource = (name: string, text: string): Result<Program> =>
+    bind(p(text, name), parseL5Program);
+
+// ========================================================
+// Commands
+const check: Command = (name: string, text: string) => {
+    const program = parseSource(name, text);
+    return either(program,
+                  (program: Program) => checkProgram(program, (te: TExp) => {
+                      const type = unparseTExp(te);
+                      return either(type, (type: string) => okOutcome([`${name}: ${type}`]),
+                                    _ => failureOutcome(EXIT_ERRORS, type));
+                  }),
+                  _ => failureOutcome(EXIT_ERRORS, program));
+};
+
+// Continue with the type of a program which has no type errors - its warnings are reported with the outcome of f.
+const checkProgram = (program: Program, f: (te: TExp) => Outcome): Outcome => {
+    const {type, diagnostics} = typeofProgramDiagnostics(program, makeEmptyTEnv());
+    if (! isEmpty(diagnostics.filter((d: Diagnostic) => d.severity === "error")))
+        return makeOutcome(EXIT_ERRORS, diagnostics, []);
+    const outcome = f(type);
+    return makeOutcome(outcome.code, [...diagnostics, ...outcome.diagnostics], outcome.lines);
+};
+
+const infer: Command = (name: string, text: string) => {
+    const defines = bind(bind(parseSource(name, text), annotateProgram), (program: Program) =>
+        mapResult(showDefineType, program.exps.filter(isDefineExp)));
+    return either(defines, okOutcome, _ => failureOutcome(EXIT_ERRORS, defines));
+};
+
+const showDefineType = (exp: Exp): Result<string> =>
+    isDefineExp(exp) ? mapv(unparseTExp(exp.var.texp), (type: string) => `${exp.var.var} : ${type}`) :
+    makeFailure(`Not a define: ${exp.tag}`);
+
+const run: Command = (name: string, text: string, out: OutputPort) => {
+    const program = parseSource(name, text);
+    return either(program,
+                  (program: Program) => checkProgram(program, _ => {
+                      const value = evalProgram(program, out, makeInterpreter());
+                      return either(value,
+                                    (value: Value) => okOutcome(value === undefined ? [] : [valueToString(value)]),
+                                    _ => failureOutcome(EXIT_RUNTIME, value));
+                  }),
+                  _ => failureOutcome(EXIT_ERRORS, program));
+};
+
+const fmt: Command = (name: string, text: string) => {
+    const formatted = formatL5(text, DEFAULT_WIDTH, name);
+    return either(formatted, (s: string) => okOutcome([s]), _ => failureOutcome(EXIT_ERRORS, formatted));
+};
+
+const commands: Record<string, Command> = { check: check, infer: infer, run: run, fmt: fmt };
+
+// ========================================================
+// JSON diagnostics
+// Lines and columns are 1-based, the end position is exclusive.
+export type DiagnosticJSON = {
+    file?: string;
+    line?: number;
+    column?: number;
+    endLine?: number;
+    endColumn?: number;
+    severity: string;
+    message: string;
+    expected?: string;
+    actual?: string;
+}
+
+export const diagnosticToJSON = (d: Diagnostic): DiagnosticJSON =>
+    ({file: d.span?.source.name, line: d.span?.start.line, column: d.span?.start.col,
+      endLine: d.span?.end.line, endColumn: d.span?.end.col,
+      severity: d.severity, message: d.message,
+      expected: showTExp(d.expected), actual: showTExp(d.actual)});
+
+const showTExp = (te: TExp | undefined): string | undefined =>
+    te === undefined ? undefined : either(unparseTExp(te), (s: string) => s, _ => undefined);
+
+// ========================================================
+// Main
+const readSource = (file: string): Result<string> => {
+    try {
+        return makeOk(readFileSync(file === STDIN ? 0 : file, "utf8"));
+    } catch (e) {
+        return makeFailure(e instanceof Error ? e.message : `${e}`);
+    }
+};
+
+if (require.main === module) {
+    process.exitCode = runCli(process.argv.slice(2), {
+        readSource: readSource,
+        stdout: stdoutPort,
+        stderr: makeOutputPort((s: string) => { process.stderr.write(s); })
+    });
+}
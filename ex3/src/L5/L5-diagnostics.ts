@@ -0,0 +1,60 @@
+// L5-diagnostics
+// ========================================================
+// Structured diagnostics reported by the type checker.
+// In diagnostics mode the checker does not stop at the first error:
+// each error is reported to a collector and checking continues with a recovery type.
+
+import { Exp } from "./L5-ast";
+import { TExp } from "./TExp";
+import { Result, isFailure, Failure } from "../shared/result";
+import { failureOrigin, formatLocated, Span } from "../shared/source";
+
+export type Severity = "error" | "warning";
+
+export type Diagnostic = {
+    tag: "Diagnostic";
+    message: string;
+    severity: Severity;
+    node?: Exp;
+    span?: Span;
+    expected?: TExp;
+    actual?: TExp;
+}
+export const makeDiagnostic = (message: string, severity: Severity, node?: Exp,
+                               expected?: TExp, actual?: TExp, span?: Span): Diagnostic =>
+    ({tag: "Diagnostic", message: message, severity: severity, node: node,
+      span: span ?? node?.span, expected: expected, actual: actual});
+export const isDiagnostic = (x: any): x is Diagnostic => x.tag === "Diagnostic";
+
+// Purpose: printable form of a diagnostic - file:line:col: message with a caret excerpt.
+export const formatDiagnostic = (d: Diagnostic): string =>
+    d.span === undefined ? d.message : formatLocated(d.message, d.span);
+
+// ========================================================
+// Collector
+// In diagnostics mode the checker passes a collector to the functions below -
+// without a collector (undefined) errors are not recovered.
+
+// Purpose: record d in collector.
+// Return false when not collecting - the caller must then fail as usual.
+// The same error found twice on the same node (e.g. when a test is typed
+// speculatively and then again) is only recorded once.
+export const reportDiagnostic = (d: Diagnostic, collector: Diagnostic[] | undefined): boolean => {
+    if (collector === undefined)
+        return false;
+    if (! collector.some((d2) => d2.node === d.node && d2.message === d.message))
+        collector.push(d);
+    return true;
+};
+
+// Purpose: record a failure computed for node as an error diagnostic
+export const reportFailure = <T>(r: Result<T>, node: Exp, collector: Diagnostic[] | undefined): boolean =>
+    isFailure(r) && reportDiagnostic(failureDiagnostic(r, node), collector);
+
+// Purpose: the error diagnostic of a failure - a located failure is reported at its span
+// with its original message.
+export const failureDiagnostic = (r: Failure, node?: Exp): Diagnostic => {
+    const origin = failureOrigin(r);
+    return origin === undefined ? makeDiagnostic(r.message, "error", node) :
+           makeDiagnostic(origin.message, "error", node, undefined, undefined, origin.span);
+};
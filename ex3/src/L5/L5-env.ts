@@ -23,10 +23,11 @@
 //
 // The key operation on env is applyEnv(env, var) which returns the value associated to var in env
 // or returns an error if var is not defined in env.
-// To support mutation - we also add applyEnvBdg(env, var) -> Box(val)
+// To support mutation - we also add applyEnvBdg(env, var) -> Box(val) which is used by set!
 
-import { map, zipWith } from "ramda";
-import { Value } from './L5-value';
+import { map, reverse, uniqBy, zipWith } from "ramda";
+import { isClosure, isCompoundSExp, isRecordValue, makeClosure, makeCompoundSExp, makeRecordValue, raiseCondition,
+         Closure, CompoundSExp, RecordValue, Value } from './L5-value';
 import { makeBox, setBox, unbox, Box} from '../shared/box';
 import { Result, makeFailure, makeOk, mapv, either } from "../shared/result";
 import { cons } from "../shared/list";
@@ -64,7 +65,7 @@ const frameVals = (frame: Frame): Value[] => map(getFBindingVal, frame.fbindings
 
 const applyFrame = (frame: Frame, v: string): Result<FBinding> => {
     const pos = frameVars(frame).indexOf(v);
-    return (pos > -1) ? makeOk(frame.fbindings[pos]) : makeFailure(`Var not found: ${format(v)}`);
+    return (pos > -1) ? makeOk(frame.fbindings[pos]) : raiseCondition("unbound-variable", `Var not found: ${format(v)}`);
 };
 const setVarFrame = (frame: Frame, v: string, val: Value): Result<void> =>
     mapv(applyFrame(frame, v), (bdg: FBinding) => setFBinding(bdg, val));
@@ -113,20 +114,86 @@ const applyExtEnvBdg = (env: ExtEnv, v: string): Result<FBinding> =>
 // ========================================================
 // GlobalEnv
 // global-env - has a mutable frame - so that we can add bindings at any time.
-type GlobalEnv = {
+// Each interpreter session (see L5-interpreter) owns a global env.
+// Closures keep the env in which they were defined, so a global var is resolved
+// in the global env at the root of that env.
+export type GlobalEnv = {
     tag: "GlobalEnv";
     frame: Box<Frame>;
 }
 export const isGlobalEnv = (x: any): x is GlobalEnv => x.tag === "GlobalEnv";
-const makeGlobalEnv = (): GlobalEnv => ({tag: "GlobalEnv", frame: makeBox(makeFrame([], []))});
-// There is a single mutable value in the type Global-env
+export const makeGlobalEnv = (): GlobalEnv =>
+    ({tag: "GlobalEnv", frame: makeBox(makeFrame([], []))});
+// The global env of the default session
 export const theGlobalEnv = makeGlobalEnv();
 
 const globalEnvSetFrame = (ge: GlobalEnv, f: Frame): void => setBox(ge.frame, f);
 
-export const globalEnvAddBinding = (v: string, val: Value): void =>
-    globalEnvSetFrame(theGlobalEnv,
-                      extendFrame(unbox(theGlobalEnv.frame), v, val));
+export const globalEnvAddBinding = (ge: GlobalEnv, v: string, val: Value): void =>
+    globalEnvSetFrame(ge, extendFrame(unbox(ge.frame), v, val));
+
+// Purpose: the bindings of ge in the order of their definition - a var which is defined
+// several times appears once with its last value.
+export const globalEnvBindings = (ge: GlobalEnv): FBinding[] =>
+    reverse(uniqBy(getFBindingVar, unbox(ge.frame).fbindings));
+
+// Purpose: a snapshot of ge - later changes to either env are not seen by the other.
+// The values reachable from the bindings of ge are copied with the bindings: a closure of the fork
+// keeps a copy of its env (whose root is the fork) and records and pairs are copied, so that
+// set! and record setters in one env do not change the other.
+// Continuations are not copied - the computation they capture stays the one of ge.
+export const forkGlobalEnv = (ge: GlobalEnv): GlobalEnv => {
+    const fork = makeGlobalEnv();
+    const copies: Copies = new Map([[ge, fork]]);
+    globalEnvSetFrame(fork, copyFrame(unbox(ge.frame), copies));
+    return fork;
+};
+
+// Purpose: give ge the bindings of snapshot - a fork of ge (see forkGlobalEnv).
+// The bindings are copied back: the closures of snapshot refer to ge in ge, and snapshot is not affected.
+export const restoreGlobalEnv = (ge: GlobalEnv, snapshot: GlobalEnv): void =>
+    globalEnvSetFrame(ge, copyFrame(unbox(snapshot.frame), new Map([[snapshot, ge]])));
+
+// Purpose: remove all the bindings of ge - its forks are not affected.
+export const resetGlobalEnv = (ge: GlobalEnv): void =>
+    globalEnvSetFrame(ge, makeFrame([], []));
+
+// The copies made by a fork: each object is copied once, so that sharing
+// (and cycles, such as the closures of a letrec) are preserved in the fork.
+type Copies = Map<object, any>;
+
+const copyOnce = <T extends object>(x: T, copies: Copies, make: () => T, fill: (copy: T) => void): T => {
+    if (copies.has(x))
+        return copies.get(x);
+    const copy = make();
+    copies.set(x, copy);
+    fill(copy);
+    return copy;
+};
+
+const copyFrame = (frame: Frame, copies: Copies): Frame =>
+    ({tag: "Frame", fbindings: map((b: FBinding) => copyFBinding(b, copies), frame.fbindings)});
+
+const copyFBinding = (b: FBinding, copies: Copies): FBinding =>
+    copyOnce(b, copies, () => makeFBinding(b.var, undefined),
+             (copy: FBinding) => setFBinding(copy, copyValue(getFBindingVal(b), copies)));
+
+// A global env which is not the forked one belongs to another session and is not copied.
+const copyEnv = (env: Env, copies: Copies): Env =>
+    isGlobalEnv(env) ? (copies.has(env) ? copies.get(env) : env) :
+    copyOnce(env, copies, () => ({tag: "ExtEnv", frame: env.frame, env: env.env}),
+             (copy: ExtEnv) => { copy.frame = copyFrame(env.frame, copies); copy.env = copyEnv(env.env, copies); });
+
+const copyValue = (val: Value, copies: Copies): Value =>
+    val === undefined ? val :
+    isClosure(val) ? copyOnce(val, copies, () => makeClosure(val.params, val.body, val.env),
+                              (copy: Closure) => { copy.env = copyEnv(val.env, copies); }) :
+    isRecordValue(val) ? copyOnce(val, copies, () => makeRecordValue(val.name, []),
+                                  (copy: RecordValue) => { copy.vals = map((v: Value) => copyValue(v, copies), val.vals); }) :
+    isCompoundSExp(val) ? copyOnce(val, copies, () => makeCompoundSExp(val.val1, val.val2),
+                                   (copy: CompoundSExp) => { copy.val1 = copyValue(val.val1, copies);
+                                                             copy.val2 = copyValue(val.val2, copies); }) :
+    val;
 
 const applyGlobalEnvBdg = (ge: GlobalEnv, v: string): Result<FBinding> =>
     applyFrame(unbox(ge.frame), v);
@@ -0,0 +1,298 @@
+// L5-eval-cps: evaluator in continuation-passing style with first-class continuations
+// ====================================================================================
+// The rest of the computation is passed explicitly to each evaluation function as a
+// continuation - a procedure which receives the value of the expression being evaluated.
+// call/cc reifies the current continuation as a procedure value: applying it abandons
+// the computation in progress and continues the captured one.
+//
+// The evaluation functions do not call each other recursively on the JS stack:
+// each step returns a suspended computation to the driver loop (runCont), so that
+// tail calls run in constant space and the depth of non-tail recursion is only
+// bounded by the heap, where the continuations are allocated.
+//
+// A failure ends the current step: runCont passes it to the handler installed by the
+// innermost guard being evaluated, which continues with the continuation of the guard.
+
+import { map, repeat, zipWith, filter } from "ramda";
+import { AppExp, Binding, CaseClause, CExp, CondClause, DefineExp, Exp, GuardExp, LetExp, LetrecExp, NamedLetExp, Program,
+         SetExp, VarDecl, isAppExp, isBeginExp, isBoolExp, isCaseExp, isCExp, isCondExp, isDefineExp, isGuardExp, isIfExp, isLetExp,
+         isLetrecExp, isLetStarExp, isLitExp, isNamedLetExp, isNumExp, isPrimOp, isProcExp, isSetExp, isStrExp,
+         isUnlessExp, isVarRef, isWhenExp, parseL5Exp, isMatchExp, isTypeDefinition, MatchClause, MatchExp,
+         TypeDefinition } from "./L5-ast";
+import { applyEnv, applyEnvBdg, globalEnvAddBinding, isGlobalEnv, makeExtEnv, setFBinding,
+         Env, FBinding } from "./L5-env";
+import { isClosure, isContinuation, isRecordProc, makeClosure, makeContinuation, raiseCondition, raisedValue, Closure,
+         RecordValue, Value } from "./L5-value";
+import { defineTypeProcs, isShortCircuitApp, isTrueValue, selectMatchClause } from "./L5-eval";
+import { applyPrimitive, applyRecordProc, eqPrim } from "./evalPrimitive";
+import { isEmpty, first, rest, isNonEmptyList } from "../shared/list";
+import { Result, makeOk, makeFailure, bind, isOk, isFailure } from "../shared/result";
+import { parse as p } from "../shared/parser";
+import { format } from "../shared/format";
+import { locateFailure } from "../shared/source";
+import { stdoutPort, OutputPort } from "./L5-output";
+import { theInterpreter, Interpreter } from "./L5-interpreter";
+
+// ========================================================
+// Continuations
+
+// A computation is either over (a value or a failure) or suspended between two steps.
+// A Control step needs the state of the machine which runs the computation (see runCont).
+export type Thunk = Result<Value> | Suspended | Control;
+type Suspended = { tag: "Suspended"; resume: () => Thunk; }
+const suspend = (resume: () => Thunk): Suspended => ({tag: "Suspended", resume: resume});
+const isSuspended = (x: any): x is Suspended => x.tag === "Suspended";
+type Control = { tag: "Control"; step: (machine: Machine) => Thunk; }
+const control = (step: (machine: Machine) => Thunk): Control => ({tag: "Control", step: step});
+const isControl = (x: any): x is Control => x.tag === "Control";
+
+export type Cont = (val: Value) => Thunk;
+type ContArray = (vals: Value[]) => Thunk;
+
+// The continuation of a whole program: its value is the result.
+const topCont: Cont = (val: Value) => makeOk(val);
+
+const applyCont = (cont: Cont, val: Value): Thunk =>
+    suspend(() => cont(val));
+
+// Continue with the value of r - a failure ends the computation, located at exp.
+const resultCont = (r: Result<Value>, exp: Exp, cont: Cont): Thunk =>
+    isOk(r) ? applyCont(cont, r.value) :
+    locateFailure(r, exp.span);
+
+// A handler receives a failure raised while the body of a guard is evaluated.
+// The handlers in effect are part of the state of the computation: they are
+// restored when a continuation captured by call/cc is applied.
+type Handler = { handle: (failure: Result<Value>) => Thunk; outer: Handler | undefined; }
+
+// The state of a computation run by runCont: the innermost handler in effect
+// and the port to which display, write and newline print.
+type Machine = { handler: Handler | undefined; port: OutputPort; }
+
+// Run a computation to its end.
+export const runCont = (thunk: Thunk, port: OutputPort = stdoutPort): Result<Value> => {
+    const machine: Machine = {handler: undefined, port: port};
+    while (true) {
+        if (isSuspended(thunk)) {
+            thunk = thunk.resume();
+        } else if (isControl(thunk)) {
+            thunk = thunk.step(machine);
+        } else if (isFailure(thunk) && machine.handler !== undefined) {
+            const handler: Handler = machine.handler;
+            machine.handler = handler.outer;
+            thunk = handler.handle(thunk);
+        } else {
+            return thunk;
+        }
+    }
+};
+
+// The continuation reified by call/cc reinstates handler - the handler in effect when it was captured.
+const captureCont = (cont: Cont, handler: Handler | undefined): Cont =>
+    (val: Value) => control((machine: Machine) => {
+        machine.handler = handler;
+        return cont(val);
+    });
+
+// ========================================================
+// Eval functions
+
+export const evalCont = (exp: CExp, env: Env, cont: Cont): Thunk =>
+    suspend(() => evalCExpCont(exp, env, cont));
+
+const evalCExpCont = (exp: CExp, env: Env, cont: Cont): Thunk =>
+    isNumExp(exp) ? applyCont(cont, exp.val) :
+    isBoolExp(exp) ? applyCont(cont, exp.val) :
+    isStrExp(exp) ? applyCont(cont, exp.val) :
+    isPrimOp(exp) ? applyCont(cont, exp) :
+    isVarRef(exp) ? resultCont(applyEnv(env, exp.var), exp, cont) :
+    isLitExp(exp) ? applyCont(cont, exp.val) :
+    isIfExp(exp) ? evalCont(exp.test, env, (test: Value) =>
+                        isTrueValue(test) ? evalCont(exp.then, env, cont) :
+                        evalCont(exp.alt, env, cont)) :
+    isProcExp(exp) ? applyCont(cont, makeClosure(exp.args, exp.body, env)) :
+    isLetExp(exp) ? evalLetCont(exp, env, cont) :
+    isLetrecExp(exp) ? evalLetrecCont(exp, env, cont) :
+    isNamedLetExp(exp) ? evalNamedLetCont(exp, env, cont) :
+    isSetExp(exp) ? evalSetCont(exp, env, cont) :
+    isGuardExp(exp) ? evalGuardCont(exp, env, cont) :
+    isMatchExp(exp) ? evalMatchCont(exp, env, cont) :
+    isCondExp(exp) ? evalCondCont(exp.clauses, exp.alt, env, cont, applyCont(cont, undefined)) :
+    isCaseExp(exp) ? evalCont(exp.key, env, (key: Value) => evalCaseCont(key, exp.clauses, exp.alt, env, cont)) :
+    isLetStarExp(exp) ? evalLetStarCont(exp.bindings, exp.body, env, cont) :
+    isBeginExp(exp) ? evalSequenceCont(exp.exps, env, cont) :
+    isWhenExp(exp) || isUnlessExp(exp) ? evalCont(exp.test, env, (test: Value) =>
+                                            isTrueValue(test) === isWhenExp(exp) ? evalSequenceCont(exp.body, env, cont) :
+                                            applyCont(cont, undefined)) :
+    isAppExp(exp) && isShortCircuitApp(exp) ? evalShortCircuitCont(exp.rator.op === "and", exp.rands, env, cont) :
+    isAppExp(exp) ? evalAppCont(exp, env, cont) :
+    exp;
+
+// Evaluate exps from left to right and pass the list of their values to cont.
+const evalCExpsCont = (exps: CExp[], env: Env, cont: ContArray): Thunk =>
+    isNonEmptyList<CExp>(exps) ? evalCont(first(exps), env, (val: Value) =>
+                                    evalCExpsCont(rest(exps), env, (vals: Value[]) => cont([val, ...vals]))) :
+    cont([]);
+
+const evalAppCont = (exp: AppExp, env: Env, cont: Cont): Thunk =>
+    evalCont(exp.rator, env, (proc: Value) =>
+        evalCExpsCont(exp.rands, env, (args: Value[]) =>
+            applyProcedureCont(proc, args, exp, cont)));
+
+// call/cc applies its argument to the current continuation.
+// Applying a continuation drops cont and passes its argument to the captured continuation instead.
+// Failures are located at exp - the expression which applies proc.
+const applyProcedureCont = (proc: Value, args: Value[], exp: CExp, cont: Cont): Thunk =>
+    isPrimOp(proc) && proc.op === "call/cc" ?
+        (args.length === 1 ? control((machine: Machine) =>
+                                applyProcedureCont(args[0], [makeContinuation(captureCont(cont, machine.handler))], exp, cont)) :
+         locateFailure(makeFailure(`call/cc expects one procedure: ${format(args)}`), exp.span)) :
+    isPrimOp(proc) ? control((machine: Machine) => resultCont(applyPrimitive(proc, args, machine.port), exp, cont)) :
+    isRecordProc(proc) ? resultCont(applyRecordProc(proc, args), exp, cont) :
+    isClosure(proc) ? applyClosureCont(proc, args, cont) :
+    isContinuation(proc) ?
+        (args.length === 1 ? applyCont(proc.cont, args[0]) :
+         locateFailure(makeFailure(`A continuation expects one value: ${format(args)}`), exp.span)) :
+    locateFailure(raiseCondition(`not-a-procedure`, `Bad procedure ${format(proc)}`), exp.span);
+
+const applyClosureCont = (proc: Closure, args: Value[], cont: Cont): Thunk => {
+    const vars = map((v: VarDecl) => v.var, proc.params);
+    return evalBodyCont(proc.body, makeExtEnv(vars, args, proc.env), cont);
+};
+
+// and / or - see the direct evaluator
+const evalShortCircuitCont = (isAnd: boolean, rands: CExp[], env: Env, cont: Cont): Thunk =>
+    ! isNonEmptyList<CExp>(rands) ? applyCont(cont, isAnd) :
+    isEmpty(rest(rands)) ? evalCont(first(rands), env, cont) :
+    evalCont(first(rands), env, (val: Value) =>
+        isTrueValue(val) !== isAnd ? applyCont(cont, val) :
+        evalShortCircuitCont(isAnd, rest(rands), env, cont));
+
+// Internal defines are bound in a new frame of the body (letrec* semantics)
+const evalBodyCont = (body: Exp[], env: Env, cont: Cont): Thunk => {
+    const vars = map((def: DefineExp) => def.var.var, filter(isDefineExp, body));
+    return evalSequenceCont(body, isEmpty(vars) ? env : makeExtEnv(vars, repeat(undefined, vars.length), env), cont);
+};
+
+// The last expression of a sequence is evaluated with the continuation of the sequence.
+const evalSequenceCont = (seq: Exp[], env: Env, cont: Cont): Thunk =>
+    isNonEmptyList<Exp>(seq) ? evalCExpsSequenceCont(first(seq), rest(seq), env, cont) :
+    makeFailure("Empty sequence");
+
+const evalCExpsSequenceCont = (first: Exp, rest: Exp[], env: Env, cont: Cont): Thunk =>
+    isDefineExp(first) ? evalDefineExpsCont(first, rest, env, cont) :
+    isTypeDefinition(first) ? evalTypeDefinitionCont(first, rest, env, cont) :
+    isCExp(first) && isEmpty(rest) ? evalCont(first, env, cont) :
+    isCExp(first) ? evalCont(first, env, _ => evalSequenceCont(rest, env, cont)) :
+    first;
+
+// Top-level defines add a binding to the global env of the session
+// (a define which ends a program has the value void),
+// internal defines update the binding of their var in the frame of the body.
+const evalDefineExpsCont = (def: DefineExp, exps: Exp[], env: Env, cont: Cont): Thunk =>
+    ! isGlobalEnv(env) ?
+        evalCont(def.val, env, (rhs: Value) =>
+            bindCont(applyEnvBdg(env, def.var.var), def, (bdg: FBinding) => {
+                setFBinding(bdg, rhs);
+                return evalSequenceCont(exps, env, cont);
+            })) :
+    evalCont(def.val, env, (rhs: Value) => {
+        globalEnvAddBinding(env, def.var.var, rhs);
+        return isEmpty(exps) ? applyCont(cont, undefined) : evalSequenceCont(exps, env, cont);
+    });
+
+// define-record and define-datatype bind the procedures of the type in the global env (see the direct evaluator)
+const evalTypeDefinitionCont = (def: TypeDefinition, exps: Exp[], env: Env, cont: Cont): Thunk => {
+    if (! isGlobalEnv(env))
+        return makeFailure(`Unexpected type definition: ${def.name}`);
+    defineTypeProcs(def, env);
+    return isEmpty(exps) ? applyCont(cont, undefined) : evalSequenceCont(exps, env, cont);
+};
+
+// Continue with f when r is Ok - a failure ends the computation, located at exp.
+const bindCont = <T>(r: Result<T>, exp: Exp, f: (x: T) => Thunk): Thunk =>
+    isOk(r) ? f(r.value) :
+    locateFailure<Value>(r, exp.span);
+
+const evalLetCont = (exp: LetExp, env: Env, cont: Cont): Thunk => {
+    const vars = map((b: Binding) => b.var.var, exp.bindings);
+    return evalCExpsCont(map((b: Binding) => b.val, exp.bindings), env, (vals: Value[]) =>
+                evalBodyCont(exp.body, makeExtEnv(vars, vals, env), cont));
+};
+
+const evalLetrecCont = (exp: LetrecExp, env: Env, cont: Cont): Thunk => {
+    const vars = map((b: Binding) => b.var.var, exp.bindings);
+    const extEnv = makeExtEnv(vars, repeat(undefined, vars.length), env);
+    return evalCExpsCont(map((b: Binding) => b.val, exp.bindings), extEnv, (vals: Value[]) => {
+                zipWith((bdg, val) => setFBinding(bdg, val), extEnv.frame.fbindings, vals);
+                return evalBodyCont(exp.body, extEnv, cont);
+            });
+};
+
+const evalNamedLetCont = (exp: NamedLetExp, env: Env, cont: Cont): Thunk => {
+    const loopEnv = makeExtEnv([exp.name], [undefined], env);
+    const loop = makeClosure(map((b: Binding) => b.var, exp.bindings), exp.body, loopEnv);
+    setFBinding(loopEnv.frame.fbindings[0], loop);
+    return evalCExpsCont(map((b: Binding) => b.val, exp.bindings), env, (vals: Value[]) =>
+                applyClosureCont(loop, vals, cont));
+};
+
+const evalSetCont = (exp: SetExp, env: Env, cont: Cont): Thunk =>
+    evalCont(exp.val, env, (val: Value) =>
+        bindCont(applyEnvBdg(env, exp.var.var), exp, (bdg: FBinding) =>
+            applyCont(cont, setFBinding(bdg, val))));
+
+// noMatch is the rest of the computation when no clause applies
+const evalCondCont = (clauses: CondClause[], alt: CExp[], env: Env, cont: Cont, noMatch: Thunk): Thunk =>
+    ! isNonEmptyList<CondClause>(clauses) ? (isEmpty(alt) ? noMatch : evalSequenceCont(alt, env, cont)) :
+    evalCont(first(clauses).test, env, (test: Value) =>
+        ! isTrueValue(test) ? evalCondCont(rest(clauses), alt, env, cont, noMatch) :
+        first(clauses).isArrow ? evalCont(first(clauses).body[0], env, (receiver: Value) =>
+                                    applyProcedureCont(receiver, [test], first(clauses).body[0], cont)) :
+        isEmpty(first(clauses).body) ? applyCont(cont, test) :
+        evalSequenceCont(first(clauses).body, env, cont));
+
+// The handler of guard is in effect until the body returns its value.
+// A failure which none of the clauses handles is passed on to the outer handler.
+const evalGuardCont = (exp: GuardExp, env: Env, cont: Cont): Thunk =>
+    control((machine: Machine) => {
+        const outer = machine.handler;
+        machine.handler = {
+            handle: (failure: Result<Value>) =>
+                evalCondCont(exp.clauses, exp.alt, makeExtEnv([exp.var.var], [raisedValue(failure)], env), cont, failure),
+            outer: outer
+        };
+        return evalBodyCont(exp.body, env, (val: Value) => control((machine: Machine) => {
+            machine.handler = outer;
+            return applyCont(cont, val);
+        }));
+    });
+
+const evalCaseCont = (key: Value, clauses: CaseClause[], alt: CExp[], env: Env, cont: Cont): Thunk =>
+    ! isNonEmptyList<CaseClause>(clauses) ? (isEmpty(alt) ? applyCont(cont, undefined) : evalSequenceCont(alt, env, cont)) :
+    first(clauses).data.some((datum: Value) => eqPrim([key, datum])) ? evalSequenceCont(first(clauses).body, env, cont) :
+    evalCaseCont(key, rest(clauses), alt, env, cont);
+
+// match - see the direct evaluator
+const evalMatchCont = (exp: MatchExp, env: Env, cont: Cont): Thunk =>
+    evalCont(exp.val, env, (val: Value) =>
+        bindCont(selectMatchClause(val, exp.clauses, exp.alt), exp, (clause: MatchClause | undefined) =>
+            clause === undefined ? evalSequenceCont(exp.alt, env, cont) :
+            evalSequenceCont(clause.body, makeExtEnv(map((v: VarDecl) => v.var, clause.vars), (val as RecordValue).vals, env), cont)));
+
+const evalLetStarCont = (bindings: Binding[], body: Exp[], env: Env, cont: Cont): Thunk =>
+    ! isNonEmptyList<Binding>(bindings) ? evalBodyCont(body, env, cont) :
+    evalCont(first(bindings).val, env, (val: Value) =>
+        evalLetStarCont(rest(bindings), body, makeExtEnv([first(bindings).var.var], [val], env), cont));
+
+// ========================================================
+// Main program
+// display, write and newline print to port.
+// The program is evaluated in the global env of interp (see L5-interpreter).
+export const evalProgram = (program: Program, port: OutputPort = stdoutPort, interp: Interpreter = theInterpreter): Result<Value> =>
+    runCont(evalSequenceCont(program.exps, interp.env, topCont), port);
+
+export const evalParse = (s: string, port: OutputPort = stdoutPort, interp: Interpreter = theInterpreter): Result<Value> =>
+    bind(p(s), (x) =>
+        bind(parseL5Exp(x), (exp: Exp) =>
+            runCont(evalSequenceCont([exp], interp.env, topCont), port)));
@@ -1,102 +1,202 @@
 // L5-eval-box
 
-import { map, repeat, zipWith } from "ramda";
-import { CExp, Exp, IfExp, LetrecExp, LetExp, ProcExp, Program, SetExp, isCExp } from './L5-ast';
+import { filter, map, repeat, zipWith } from "ramda";
+import { AppExp, CExp, DefineExp, Exp, IfExp, LetrecExp, LetExp, NamedLetExp, PrimOp, ProcExp, Program, SetExp, isCExp,
+         isNamedLetExp,
+         CaseClause, CondClause, isBeginExp, isCaseExp, isCondExp, isLetStarExp, isUnlessExp, isWhenExp,
+         GuardExp, isGuardExp, isMatchExp, isTypeDefinition, typeDefinitionProcNames, MatchClause, MatchExp,
+         TypeDefinition } from './L5-ast';
 import { Binding, VarDecl } from "./L5-ast";
 import { isBoolExp, isLitExp, isNumExp, isPrimOp, isStrExp, isVarRef } from "./L5-ast";
 import { parseL5Exp } from "./L5-ast";
 import { isAppExp, isDefineExp, isIfExp, isLetrecExp, isLetExp,
          isProcExp, isSetExp } from "./L5-ast";
-import { applyEnv, applyEnvBdg, globalEnvAddBinding, makeExtEnv, setFBinding,
-         theGlobalEnv, Env, FBinding } from "./L5-env";
-import { isClosure, makeClosure, Closure, Value } from "./L5-value";
+import { applyEnv, applyEnvBdg, globalEnvAddBinding, isGlobalEnv, makeExtEnv, setFBinding,
+         Env, FBinding, GlobalEnv } from "./L5-env";
+import { isClosure, isRecordProc, isRecordValue, makeClosure, makeTypeDefinitionProcs, raiseCondition, raisedValue,
+         Closure, RecordProc, RecordValue, Value } from "./L5-value";
 import { isEmpty, first, rest, isNonEmptyList } from '../shared/list';
-import { Result, makeOk, makeFailure, mapResult, bind, mapv } from "../shared/result";
+import { Result, makeOk, makeFailure, mapResult, bind, mapv, isOk } from "../shared/result";
 import { parse as p } from "../shared/parser";
-import { applyPrimitive } from "./evalPrimitive";
+import { applyPrimitive, applyRecordProc, eqPrim } from "./evalPrimitive";
 import { format } from "../shared/format";
+import { locateFailure } from "../shared/source";
+import { stdoutPort, OutputPort } from "./L5-output";
+import { theInterpreter, Interpreter } from "./L5-interpreter";
 
 // ========================================================
 // Eval functions
+// Proper tail calls: an expression in tail position (the branches of if, the last
+// expression of a body, ...) is not evaluated by a recursive call - its evaluation
+// step returns a Bounce to the loop of applicativeEval, which evaluates it in place.
+// A loop through tail calls therefore runs in constant JS stack space.
+type Bounce = {tag: "Bounce"; exp: CExp; env: Env; }
+const makeBounce = (exp: CExp, env: Env): Bounce => ({tag: "Bounce", exp: exp, env: env});
+const isBounce = (x: any): x is Bounce => x.tag === "Bounce";
 
-export const applicativeEval = (exp: CExp, env: Env): Result<Value> =>
+// The result of one evaluation step: a value, a failure or an expression left to evaluate.
+type Step = Result<Value> | Bounce;
+
+// Continue with f when r is Ok - a failure is propagated as is (it keeps its location).
+const bindStep = <T>(r: Result<T>, f: (x: T) => Step): Step =>
+    isOk(r) ? f(r.value) : r;
+
+// Runtime errors are reported at the location of the innermost expression that fails.
+// An expression which bounces is replaced by its tail expression: a failure of the
+// step of exp is located at exp.
+export const applicativeEval = (exp: CExp, env: Env, port: OutputPort): Result<Value> => {
+    let current = exp;
+    let step = evalCExp(exp, env, port);
+    while (isBounce(step)) {
+        current = step.exp;
+        step = evalCExp(step.exp, step.env, port);
+    }
+    return locateFailure(step, current.span);
+};
+
+const evalCExp = (exp: CExp, env: Env, port: OutputPort): Step =>
     isNumExp(exp) ? makeOk(exp.val) :
     isBoolExp(exp) ? makeOk(exp.val) :
     isStrExp(exp) ? makeOk(exp.val) :
     isPrimOp(exp) ? makeOk(exp) :
     isVarRef(exp) ? applyEnv(env, exp.var) :
     isLitExp(exp) ? makeOk(exp.val) :
-    isIfExp(exp) ? evalIf(exp, env) :
+    isIfExp(exp) ? evalIf(exp, env, port) :
     isProcExp(exp) ? evalProc(exp, env) :
-    isLetExp(exp) ? evalLet(exp, env) :
-    isLetrecExp(exp) ? evalLetrec(exp, env) :
-    isSetExp(exp) ? evalSet(exp, env) :
-    isAppExp(exp) ? bind(applicativeEval(exp.rator, env), (proc: Value) =>
-                        bind(mapResult(rand => applicativeEval(rand, env), exp.rands), (args: Value[]) =>
-                            applyProcedure(proc, args))) :
+    isLetExp(exp) ? evalLet(exp, env, port) :
+    isLetrecExp(exp) ? evalLetrec(exp, env, port) :
+    isNamedLetExp(exp) ? evalNamedLet(exp, env, port) :
+    isSetExp(exp) ? evalSet(exp, env, port) :
+    isGuardExp(exp) ? evalGuard(exp, env, port) :
+    isMatchExp(exp) ? evalMatch(exp, env, port) :
+    isCondExp(exp) ? evalCond(exp.clauses, exp.alt, env, makeOk(undefined), port) :
+    isCaseExp(exp) ? bindStep(applicativeEval(exp.key, env, port), (key: Value) => evalCase(key, exp.clauses, exp.alt, env, port)) :
+    isLetStarExp(exp) ? evalLetStar(exp.bindings, exp.body, env, port) :
+    isBeginExp(exp) ? evalSequenceStep(exp.exps, env, port) :
+    isWhenExp(exp) || isUnlessExp(exp) ? bindStep(applicativeEval(exp.test, env, port), (test: Value) =>
+                                            isTrueValue(test) === isWhenExp(exp) ? evalSequenceStep(exp.body, env, port) :
+                                            makeOk(undefined)) :
+    isAppExp(exp) && isShortCircuitApp(exp) ? evalShortCircuit(exp.rator.op === "and", exp.rands, env, port) :
+    isAppExp(exp) ? bindStep(applicativeEval(exp.rator, env, port), (proc: Value) =>
+                        bindStep(mapResult(rand => applicativeEval(rand, env, port), exp.rands), (args: Value[]) =>
+                            applyProcedure(proc, args, port))) :
     exp;
 
 export const isTrueValue = (x: Value): boolean =>
     ! (x === false);
 
-const evalIf = (exp: IfExp, env: Env): Result<Value> =>
-    bind(applicativeEval(exp.test, env), (test: Value) => 
-        isTrueValue(test) ? applicativeEval(exp.then, env) : 
-        applicativeEval(exp.alt, env));
+const evalIf = (exp: IfExp, env: Env, port: OutputPort): Step =>
+    bindStep(applicativeEval(exp.test, env, port), (test: Value) => 
+        isTrueValue(test) ? makeBounce(exp.then, env) : 
+        makeBounce(exp.alt, env));
+
+// and / or evaluate their operands left to right and stop at the first one which decides the result.
+// (and) is #t, (or) is #f - otherwise the value is that of the last operand evaluated.
+export const isShortCircuitApp = (exp: AppExp): exp is AppExp & { rator: PrimOp } =>
+    isPrimOp(exp.rator) && (exp.rator.op === "and" || exp.rator.op === "or");
+
+const evalShortCircuit = (isAnd: boolean, rands: CExp[], env: Env, port: OutputPort): Step =>
+    ! isNonEmptyList<CExp>(rands) ? makeOk(isAnd) :
+    isEmpty(rest(rands)) ? makeBounce(first(rands), env) :
+    bindStep(applicativeEval(first(rands), env, port), (val: Value) =>
+        isTrueValue(val) !== isAnd ? makeOk(val) :
+        evalShortCircuit(isAnd, rest(rands), env, port));
 
 const evalProc = (exp: ProcExp, env: Env): Result<Closure> =>
     makeOk(makeClosure(exp.args, exp.body, env));
 
 // KEY: This procedure does NOT have an env parameter.
 //      Instead we use the env of the closure.
-const applyProcedure = (proc: Value, args: Value[]): Result<Value> =>
-    isPrimOp(proc) ? applyPrimitive(proc, args) :
-    isClosure(proc) ? applyClosure(proc, args) :
-    makeFailure(`Bad procedure ${format(proc)}`);
+const applyProcedure = (proc: Value, args: Value[], port: OutputPort): Step =>
+    isPrimOp(proc) ? applyPrimitive(proc, args, port) :
+    isClosure(proc) ? applyClosure(proc, args, port) :
+    isRecordProc(proc) ? applyRecordProc(proc, args) :
+    raiseCondition("not-a-procedure", `Bad procedure ${format(proc)}`);
 
-const applyClosure = (proc: Closure, args: Value[]): Result<Value> => {
+const applyClosure = (proc: Closure, args: Value[], port: OutputPort): Step => {
     const vars = map((v: VarDecl) => v.var, proc.params);
-    return evalSequence(proc.body, makeExtEnv(vars, args, proc.env));
+    return evalBody(proc.body, makeExtEnv(vars, args, proc.env), port);
+}
+
+// Evaluate the body of a lambda, let or letrec.
+// Internal defines are bound in a new frame of the body (letrec* semantics):
+// the frame is created with all the defined vars before any of them is evaluated.
+const evalBody = (body: Exp[], env: Env, port: OutputPort): Step => {
+    const vars = map((def: DefineExp) => def.var.var, filter(isDefineExp, body));
+    return evalSequenceStep(body, isEmpty(vars) ? env : makeExtEnv(vars, repeat(undefined, vars.length), env), port);
 }
 
 // Evaluate a sequence of expressions (in a program)
-export const evalSequence = (seq: Exp[], env: Env): Result<Value> =>
-    isNonEmptyList<Exp>(seq) ? evalCExps(first(seq), rest(seq), env) :
+export const evalSequence = (seq: Exp[], env: Env, port: OutputPort): Result<Value> =>
+    runStep(evalSequenceStep(seq, env, port), port);
+
+// Evaluate the rest of a step to its value
+const runStep = (step: Step, port: OutputPort): Result<Value> =>
+    isBounce(step) ? applicativeEval(step.exp, step.env, port) : step;
+
+// The last expression of a sequence is in tail position.
+const evalSequenceStep = (seq: Exp[], env: Env, port: OutputPort): Step =>
+    isNonEmptyList<Exp>(seq) ? evalCExps(first(seq), rest(seq), env, port) :
     makeFailure("Empty sequence");
     
-const evalCExps = (first: Exp, rest: Exp[], env: Env): Result<Value> =>
-    isDefineExp(first) ? evalDefineExps(first, rest) :
-    isCExp(first) && isEmpty(rest) ? applicativeEval(first, env) :
-    isCExp(first) ? bind(applicativeEval(first, env), _ => evalSequence(rest, env)) :
+const evalCExps = (first: Exp, rest: Exp[], env: Env, port: OutputPort): Step =>
+    isDefineExp(first) ? evalDefineExps(first, rest, env, port) :
+    isTypeDefinition(first) ? evalTypeDefinition(first, rest, env, port) :
+    isCExp(first) && isEmpty(rest) ? makeBounce(first, env) :
+    isCExp(first) ? bindStep(applicativeEval(first, env, port), _ => evalSequenceStep(rest, env, port)) :
     first;
     
-// define always updates theGlobalEnv
+// define always updates the global env of the session
 // We also only expect defineExps at the top level.
+// A define which ends a program has the value void (as its type).
 // Eval a sequence of expressions when the first exp is a Define.
 // Compute the rhs of the define, extend the env with the new binding
 // then compute the rest of the exps in the new env.
-const evalDefineExps = (def: Exp, exps: Exp[]): Result<Value> =>
-    isDefineExp(def) ? bind(applicativeEval(def.val, theGlobalEnv), (rhs: Value) => { 
-                            globalEnvAddBinding(def.var.var, rhs);
-                            return evalSequence(exps, theGlobalEnv); 
+// Internal defines (see evalBody) update the binding of their var in the frame of the body.
+const evalDefineExps = (def: Exp, exps: Exp[], env: Env, port: OutputPort): Step =>
+    isDefineExp(def) && ! isGlobalEnv(env) ?
+        bindStep(applicativeEval(def.val, env, port), (rhs: Value) =>
+            bindStep(applyEnvBdg(env, def.var.var), (bdg: FBinding) => {
+                setFBinding(bdg, rhs);
+                return evalSequenceStep(exps, env, port);
+            })) :
+    isDefineExp(def) && isGlobalEnv(env) ? bindStep(applicativeEval(def.val, env, port), (rhs: Value) => { 
+                            globalEnvAddBinding(env, def.var.var, rhs);
+                            return isEmpty(exps) ? makeOk(undefined) : evalSequenceStep(exps, env, port); 
                         }) :
     makeFailure(`Unexpected define: ${format(def)}`);
 
+// define-record and define-datatype bind the procedures of the type in the global env of the session -
+// they are only allowed at the top level. As a define, they have the value void.
+const evalTypeDefinition = (def: TypeDefinition, exps: Exp[], env: Env, port: OutputPort): Step => {
+    if (! isGlobalEnv(env))
+        return makeFailure(`Unexpected type definition: ${def.name}`);
+    defineTypeProcs(def, env);
+    return isEmpty(exps) ? makeOk(undefined) : evalSequenceStep(exps, env, port);
+};
+
+export const defineTypeProcs = (def: TypeDefinition, ge: GlobalEnv): void => {
+    zipWith((v: string, proc: RecordProc) => globalEnvAddBinding(ge, v, proc),
+            typeDefinitionProcNames(def), makeTypeDefinitionProcs(def));
+};
+
 // Main program
-export const evalProgram = (program: Program): Result<Value> =>
-    evalSequence(program.exps, theGlobalEnv);
+// display, write and newline print to port.
+// The program is evaluated in the global env of interp (see L5-interpreter).
+export const evalProgram = (program: Program, port: OutputPort = stdoutPort, interp: Interpreter = theInterpreter): Result<Value> =>
+    evalSequence(program.exps, interp.env, port);
 
-export const evalParse = (s: string): Result<Value> =>
+export const evalParse = (s: string, port: OutputPort = stdoutPort, interp: Interpreter = theInterpreter): Result<Value> =>
     bind(p(s), (x) => 
         bind(parseL5Exp(x), (exp: Exp) => 
-            evalSequence([exp], theGlobalEnv)));
+            evalSequence([exp], interp.env, port)));
 
 // LET: Direct evaluation rule without syntax expansion
 // compute the values, extend the env, eval the body.
-const evalLet = (exp: LetExp, env: Env): Result<Value> => {
-    const vals = mapResult((v : CExp) => applicativeEval(v, env), map((b : Binding) => b.val, exp.bindings));
+const evalLet = (exp: LetExp, env: Env, port: OutputPort): Step => {
+    const vals = mapResult((v : CExp) => applicativeEval(v, env, port), map((b : Binding) => b.val, exp.bindings));
     const vars = map((b: Binding) => b.var.var, exp.bindings);
-    return bind(vals, (vals: Value[]) => evalSequence(exp.body, makeExtEnv(vars, vals, env)));
+    return bindStep(vals, (vals: Value[]) => evalBody(exp.body, makeExtEnv(vars, vals, env), port));
 }
 
 // LETREC: Direct evaluation rule without syntax expansion
@@ -104,19 +204,80 @@ const evalLet = (exp: LetExp, env: Env): Result<Value> => {
 // 2. compute the vals in the new extended env
 // 3. update the bindings of the vars to the computed vals
 // 4. compute body in extended env
-const evalLetrec = (exp: LetrecExp, env: Env): Result<Value> => {
+const evalLetrec = (exp: LetrecExp, env: Env, port: OutputPort): Step => {
     const vars = map((b) => b.var.var, exp.bindings);
     const vals = map((b) => b.val, exp.bindings);
     const extEnv = makeExtEnv(vars, repeat(undefined, vars.length), env);
     // @@ Compute the vals in the extended env
-    const cvalsResult = mapResult((v: CExp) => applicativeEval(v, extEnv), vals);
+    const cvalsResult = mapResult((v: CExp) => applicativeEval(v, extEnv, port), vals);
     const result = mapv(cvalsResult, (cvals: Value[]) => 
                             zipWith((bdg, cval) => setFBinding(bdg, cval), extEnv.frame.fbindings, cvals));
-    return bind(result, _ => evalSequence(exp.body, extEnv));
+    return bindStep(result, _ => evalBody(exp.body, extEnv, port));
+};
+
+// NAMED LET: the loop procedure is bound in a frame of its own which is the env of its closure,
+// the initial values are computed in the enclosing env.
+const evalNamedLet = (exp: NamedLetExp, env: Env, port: OutputPort): Step => {
+    const loopEnv = makeExtEnv([exp.name], [undefined], env);
+    const loop = makeClosure(map((b: Binding) => b.var, exp.bindings), exp.body, loopEnv);
+    setFBinding(loopEnv.frame.fbindings[0], loop);
+    return bindStep(mapResult((b: Binding) => applicativeEval(b.val, env, port), exp.bindings), (vals: Value[]) =>
+                applyClosure(loop, vals, port));
+};
+
+// COND: the body of the first clause whose test is true - noMatch when there is none.
+// (test => receiver) applies receiver to the value of test, (test) returns it.
+const evalCond = (clauses: CondClause[], alt: CExp[], env: Env, noMatch: Step, port: OutputPort): Step =>
+    ! isNonEmptyList<CondClause>(clauses) ? (isEmpty(alt) ? noMatch : evalSequenceStep(alt, env, port)) :
+    bindStep(applicativeEval(first(clauses).test, env, port), (test: Value) =>
+        ! isTrueValue(test) ? evalCond(rest(clauses), alt, env, noMatch, port) :
+        first(clauses).isArrow ? bindStep(applicativeEval(first(clauses).body[0], env, port), (receiver: Value) =>
+                                    applyProcedure(receiver, [test], port)) :
+        isEmpty(first(clauses).body) ? makeOk(test) :
+        evalSequenceStep(first(clauses).body, env, port));
+
+// GUARD: the body is evaluated to its value - it is not in tail position.
+// When it fails, the clauses are evaluated as in cond with var bound to the raised value,
+// and the same failure is returned when none applies.
+const evalGuard = (exp: GuardExp, env: Env, port: OutputPort): Step => {
+    const result = runStep(evalBody(exp.body, env, port), port);
+    return isOk(result) ? result :
+        evalCond(exp.clauses, exp.alt, makeExtEnv([exp.var.var], [raisedValue(result)], env), result, port);
+};
+
+// CASE: the body of the first clause which lists the value of the key (compared as by eq?)
+const evalCase = (key: Value, clauses: CaseClause[], alt: CExp[], env: Env, port: OutputPort): Step =>
+    ! isNonEmptyList<CaseClause>(clauses) ? (isEmpty(alt) ? makeOk(undefined) : evalSequenceStep(alt, env, port)) :
+    first(clauses).data.some((datum: Value) => eqPrim([key, datum])) ? evalSequenceStep(first(clauses).body, env, port) :
+    evalCase(key, rest(clauses), alt, env, port);
+
+// MATCH: the body of the clause of the variant of the value, with the vars of the clause
+// bound to its fields - or the else clause when no clause names the variant.
+const evalMatch = (exp: MatchExp, env: Env, port: OutputPort): Step =>
+    bindStep(applicativeEval(exp.val, env, port), (val: Value) =>
+        bindStep(selectMatchClause(val, exp.clauses, exp.alt), (clause: MatchClause | undefined) =>
+            clause === undefined ? evalSequenceStep(exp.alt, env, port) :
+            evalSequenceStep(clause.body, makeExtEnv(map((v: VarDecl) => v.var, clause.vars), (val as RecordValue).vals, env), port)));
+
+// Purpose: the clause of the variant of val - undefined when the else clause applies.
+// Raises an error when there is no such clause, or when the clause does not bind all the fields of val.
+export const selectMatchClause = (val: Value, clauses: MatchClause[], alt: CExp[]): Result<MatchClause | undefined> => {
+    const clause = isRecordValue(val) ? clauses.find((c: MatchClause) => c.variant === val.name) : undefined;
+    return clause === undefined ?
+            (isEmpty(alt) ? raiseCondition("error", `No match clause for ${format(val)}`) : makeOk(undefined)) :
+        isRecordValue(val) && clause.vars.length !== val.vals.length ?
+            raiseCondition("error", `Match clause ${clause.variant} expects ${val.vals.length} variables: ${format(map((v: VarDecl) => v.var, clause.vars))}`) :
+        makeOk(clause);
 };
 
+// LET*: each binding is evaluated in the scope of the bindings before it.
+const evalLetStar = (bindings: Binding[], body: Exp[], env: Env, port: OutputPort): Step =>
+    ! isNonEmptyList<Binding>(bindings) ? evalBody(body, env, port) :
+    bindStep(applicativeEval(first(bindings).val, env, port), (val: Value) =>
+        evalLetStar(rest(bindings), body, makeExtEnv([first(bindings).var.var], [val], env), port));
+
 // L4-eval-box: Handling of mutation with set!
-const evalSet = (exp: SetExp, env: Env): Result<void> =>
-    bind(applicativeEval(exp.val, env), (val: Value) =>
+const evalSet = (exp: SetExp, env: Env, port: OutputPort): Result<void> =>
+    bind(applicativeEval(exp.val, env, port), (val: Value) =>
         mapv(applyEnvBdg(env, exp.var.var), (bdg: FBinding) =>
             setFBinding(bdg, val)));
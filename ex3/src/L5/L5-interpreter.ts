@@ -0,0 +1,48 @@
+// Interpreter sessions for L5
+// ========================================================
+// A session owns a global environment (for evaluation) and a type environment
+// (for type checking). Programs evaluated or checked in a session see the top-level
+// defines of the previous programs of the same session only.
+// evalProgram, evalParse and L5typeofProgram accept a session - when it is omitted,
+// evaluation uses theInterpreter and type checking starts from an empty type environment.
+
+import { makeGlobalEnv, forkGlobalEnv, resetGlobalEnv, restoreGlobalEnv, theGlobalEnv, GlobalEnv } from "./L5-env";
+import { makeEmptyTEnv, TEnv } from "./TEnv";
+import { makeBox, setBox, unbox, Box } from "../shared/box";
+
+export type Interpreter = {
+    tag: "Interpreter";
+    env: GlobalEnv;
+    tenv: Box<TEnv>;
+}
+export const isInterpreter = (x: any): x is Interpreter => x.tag === "Interpreter";
+const makeInterpreterFrom = (env: GlobalEnv, tenv: TEnv): Interpreter =>
+    ({tag: "Interpreter", env: env, tenv: makeBox(tenv)});
+export const makeInterpreter = (): Interpreter =>
+    makeInterpreterFrom(makeGlobalEnv(), makeEmptyTEnv());
+
+// The default session
+export const theInterpreter: Interpreter = makeInterpreterFrom(theGlobalEnv, makeEmptyTEnv());
+
+// Purpose: a snapshot of interp.
+// The fork starts with a copy of the bindings of interp (see forkGlobalEnv) - later defines
+// and set! in one of the sessions are not seen by the other, also through the state of closures.
+// TEnvs are immutable, so the fork can share the type environment.
+export const forkInterpreter = (interp: Interpreter): Interpreter =>
+    makeInterpreterFrom(forkGlobalEnv(interp.env), unbox(interp.tenv));
+
+// Purpose: roll interp back to snapshot - a fork of interp made by forkInterpreter
+export const restoreInterpreter = (interp: Interpreter, snapshot: Interpreter): void => {
+    restoreGlobalEnv(interp.env, snapshot.env);
+    setBox(interp.tenv, unbox(snapshot.tenv));
+};
+
+// Purpose: remove all the definitions of interp
+export const resetInterpreter = (interp: Interpreter): void => {
+    resetGlobalEnv(interp.env);
+    setBox(interp.tenv, makeEmptyTEnv());
+};
+
+// Purpose: the type environment of interp
+export const interpreterTEnv = (interp: Interpreter): TEnv => unbox(interp.tenv);
+export const setInterpreterTEnv = (interp: Interpreter, tenv: TEnv): void => setBox(interp.tenv, tenv);
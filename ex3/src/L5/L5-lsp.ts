@@ -0,0 +1,300 @@
+// L5-lsp: language server for L5
+// ========================================================
+// Run with: npm run lsp  (ts-node src/L5/L5-lsp.ts)
+// The server speaks the Language Server Protocol over stdio: JSON-RPC messages
+// framed by a Content-Length header.
+//
+// Features:
+// - diagnostics: the syntax and type errors (L5-typecheck) are published on open and change
+// - hover: the type of the expression or declaration under the cursor
+// - definition: the declaration of the var reference under the cursor (L5-resolve)
+// - document symbols: the top-level defines
+// Documents are synchronized in full: each change carries the whole text.
+
+import { isDefineExp, isProcExp, isVarDecl, isVarRef, parseL5Program, DefineExp, Exp, Program, VarDecl } from "./L5-ast";
+import { failureDiagnostic, Diagnostic } from "./L5-diagnostics";
+import { resolveProgram, Declaration, Resolution } from "./L5-resolve";
+import { typeofProgramDiagnostics } from "./L5-typecheck";
+import { makeEmptyTEnv } from "./TEnv";
+import { unparseTExp, TExp } from "./TExp";
+import { parse as p } from "../shared/parser";
+import { Result, bind, either, isFailure, makeFailure, makeOk } from "../shared/result";
+import { spanContains, Span } from "../shared/source";
+
+// ========================================================
+// JSON-RPC messages
+export type Message = {
+    jsonrpc: "2.0";
+    id?: number | string | null;
+    method?: string;
+    params?: any;
+    result?: any;
+    error?: { code: number; message: string; };
+}
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const SERVER_NOT_INITIALIZED = -32002;
+
+// Purpose: the bytes of msg preceded by its Content-Length header
+export const encodeMessage = (msg: Message): Buffer => {
+    const body = Buffer.from(JSON.stringify(msg), "utf8");
+    return Buffer.concat([Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, "ascii"), body]);
+};
+
+// Purpose: a decoder of a stream of messages.
+// The decoder is fed the chunks of the stream as they arrive - a message may be split
+// over several chunks and a chunk may hold several messages.
+// onMessage is called with each complete message, or with a failure when its body is not JSON.
+export const makeMessageDecoder = (onMessage: (msg: Result<Message>) => void): ((chunk: Buffer) => void) => {
+    let buffer = Buffer.alloc(0);
+    return (chunk: Buffer): void => {
+        buffer = Buffer.concat([buffer, chunk]);
+        while (true) {
+            const headerEnd = buffer.indexOf("\r\n\r\n");
+            if (headerEnd < 0)
+                return;
+            const length = /Content-Length: *(\d+)/i.exec(buffer.slice(0, headerEnd).toString("ascii"));
+            const start = headerEnd + 4;
+            const end = start + (length === null ? 0 : parseInt(length[1]));
+            if (buffer.length < end)
+                return;
+            const body = buffer.slice(start, end).toString("utf8");
+            buffer = buffer.slice(end);
+            onMessage(parseMessage(body));
+        }
+    };
+};
+
+const parseMessage = (body: string): Result<Message> => {
+    try {
+        return makeOk(JSON.parse(body));
+    } catch (e) {
+        return makeFailure(`Invalid JSON message: ${body}`);
+    }
+};
+
+// ========================================================
+// Positions
+// LSP positions are 0-based (line, character) - spans are 1-based (line, col).
+// Characters are UTF-16 code units in both.
+type LspPosition = { line: number; character: number; }
+type LspRange = { start: LspPosition; end: LspPosition; }
+
+export const spanToRange = (span: Span): LspRange =>
+    ({start: {line: span.start.line - 1, character: span.start.col - 1},
+      end: {line: span.end.line - 1, character: span.end.col - 1}});
+
+// Purpose: the offset in text of an LSP position
+export const positionToOffset = (text: string, pos: LspPosition): number => {
+    const lineStarts = [0, ...Array.from(text.matchAll(/\r\n|\r|\n/g), (m) => (m.index ?? 0) + m[0].length)];
+    return pos.line < lineStarts.length ? lineStarts[pos.line] + pos.character : text.length;
+};
+
+const emptyRange: LspRange = {start: {line: 0, character: 0}, end: {line: 0, character: 0}};
+
+// ========================================================
+// Documents
+// A document is analyzed when it is opened or changed - requests use the analysis.
+type Analysis = {
+    program?: Program;
+    diagnostics: Diagnostic[];
+    types: Map<Exp | VarDecl, TExp>;
+    resolution?: Resolution;
+}
+
+type Document = { uri: string; text: string; analysis: Analysis; }
+
+export const analyze = (uri: string, text: string): Analysis => {
+    const program = bind(p(text, uri), parseL5Program);
+    return either(program,
+                  (program: Program) => {
+                      const types = new Map<Exp | VarDecl, TExp>();
+                      const {diagnostics} = typeofProgramDiagnostics(program, makeEmptyTEnv(), types);
+                      return {program: program, diagnostics: diagnostics, types: types, resolution: resolveProgram(program)};
+                  },
+                  _ => ({diagnostics: isFailure(program) ? [failureDiagnostic(program)] : [], types: new Map()}));
+};
+
+const makeDocument = (uri: string, text: string): Document =>
+    ({uri: uri, text: text, analysis: analyze(uri, text)});
+
+const lspDiagnostic = (d: Diagnostic) =>
+    ({range: d.span === undefined ? emptyRange : spanToRange(d.span),
+      severity: d.severity === "error" ? 1 : 2,
+      source: "l5",
+      message: d.message});
+
+// Purpose: the smallest node whose span contains offset
+const innermost = <T extends {span?: Span}>(nodes: T[], offset: number): T | undefined =>
+    nodes.filter((n: T) => n.span !== undefined && spanContains(n.span, offset))
+         .reduce((best: T | undefined, n: T) =>
+             best === undefined || spanLength(n) < spanLength(best) ? n : best, undefined);
+
+const spanLength = (node: {span?: Span}): number =>
+    node.span === undefined ? Infinity : node.span.end.offset - node.span.start.offset;
+
+const showType = (te: TExp): string =>
+    either(unparseTExp(te), (s: string) => s, (message: string) => message);
+
+// The hover of a var shows its name with its type, the hover of another exp its type.
+// An unannotated var of a define has the type the checker gave it.
+const hover = (doc: Document, offset: number) => {
+    const decls = doc.analysis.resolution?.declarations ?? [];
+    const node = innermost<Exp | VarDecl>([...doc.analysis.types.keys(), ...decls], offset);
+    const te = node === undefined ? undefined : doc.analysis.types.get(node) ?? (isVarDecl(node) ? node.texp : undefined);
+    return node === undefined || te === undefined || node.span === undefined ? null :
+           {contents: {kind: "plaintext",
+                       value: isVarDecl(node) || isVarRef(node) ? `${node.var} : ${showType(te)}` : showType(te)},
+            range: spanToRange(node.span)};
+};
+
+const definition = (doc: Document, offset: number) => {
+    const references = doc.analysis.resolution?.references ?? new Map();
+    const ref = innermost([...references.keys()], offset);
+    const decl: Declaration | undefined = ref === undefined ? undefined : references.get(ref);
+    return decl === undefined || decl.span === undefined ? null :
+           {uri: doc.uri, range: spanToRange(decl.span)};
+};
+
+// SymbolKind: Function = 12, Variable = 13
+const documentSymbols = (doc: Document) =>
+    (doc.analysis.program?.exps ?? []).filter(isDefineExp)
+        .filter((def: DefineExp) => def.span !== undefined)
+        .map((def: DefineExp) =>
+            ({name: def.var.var,
+              detail: showType(doc.analysis.types.get(def.var) ?? def.var.texp),
+              kind: isProcExp(def.val) ? 12 : 13,
+              range: spanToRange(def.span as Span),
+              selectionRange: spanToRange(def.var.span ?? def.span as Span)}));
+
+// ========================================================
+// Params
+// The params of the methods on a document are checked before the method is run.
+const hasTextDocument = (params: any): boolean =>
+    typeof params?.textDocument?.uri === "string";
+
+const hasPosition = (params: any): boolean =>
+    hasTextDocument(params) && Number.isInteger(params.position?.line) && Number.isInteger(params.position?.character);
+
+const paramsChecks: Record<string, (params: any) => boolean> = {
+    "textDocument/hover": hasPosition,
+    "textDocument/definition": hasPosition,
+    "textDocument/documentSymbol": hasTextDocument,
+    "textDocument/didOpen": (params: any) => hasTextDocument(params) && typeof params.textDocument.text === "string",
+    "textDocument/didChange": (params: any) =>
+        hasTextDocument(params) && Array.isArray(params.contentChanges) && params.contentChanges.length > 0 &&
+        typeof params.contentChanges[params.contentChanges.length - 1]?.text === "string",
+    "textDocument/didClose": hasTextDocument
+};
+
+const validParams = (method: string, params: any): boolean =>
+    ! (method in paramsChecks) || paramsChecks[method](params);
+
+// Purpose: run a handler - an exception it throws is returned as a failure
+const runHandler = <T>(handler: () => T): Result<T> => {
+    try {
+        return makeOk(handler());
+    } catch (e) {
+        return makeFailure(`Internal error: ${e instanceof Error ? e.message : String(e)}`);
+    }
+};
+
+// ========================================================
+// Server
+// Purpose: a server which sends its responses and notifications with send.
+// exit is called with the exit code when the client sends exit.
+// Returns the handler of the incoming messages.
+export const makeServer = (send: (msg: Message) => void, exit: (code: number) => void): ((msg: Result<Message>) => void) => {
+    const documents = new Map<string, Document>();
+    let initialized = false;
+    let shutdown = false;
+
+    const publishDiagnostics = (doc: Document): void =>
+        send({jsonrpc: "2.0", method: "textDocument/publishDiagnostics",
+              params: {uri: doc.uri, diagnostics: doc.analysis.diagnostics.map(lspDiagnostic)}});
+
+    const openDocument = (uri: string, text: string): void => {
+        const doc = makeDocument(uri, text);
+        documents.set(uri, doc);
+        publishDiagnostics(doc);
+    };
+
+    // Run f on the document and offset of a TextDocumentPositionParams
+    const atPosition = <T>(params: any, f: (doc: Document, offset: number) => T): T | null => {
+        const doc = documents.get(params.textDocument.uri);
+        return doc === undefined ? null : f(doc, positionToOffset(doc.text, params.position));
+    };
+
+    const requests: Record<string, (params: any) => any> = {
+        "initialize": _ => {
+            initialized = true;
+            return {capabilities: {textDocumentSync: 1, hoverProvider: true, definitionProvider: true,
+                                   documentSymbolProvider: true},
+                    serverInfo: {name: "l5"}};
+        },
+        "shutdown": _ => {
+            shutdown = true;
+            return null;
+        },
+        "textDocument/hover": (params: any) => atPosition(params, hover),
+        "textDocument/definition": (params: any) => atPosition(params, definition),
+        "textDocument/documentSymbol": (params: any) => {
+            const doc = documents.get(params.textDocument.uri);
+            return doc === undefined ? null : documentSymbols(doc);
+        }
+    };
+
+    const notifications: Record<string, (params: any) => void> = {
+        "textDocument/didOpen": (params: any) => openDocument(params.textDocument.uri, params.textDocument.text),
+        // Full synchronization: the last change holds the whole text
+        "textDocument/didChange": (params: any) =>
+            openDocument(params.textDocument.uri, params.contentChanges[params.contentChanges.length - 1].text),
+        "textDocument/didClose": (params: any) => {
+            documents.delete(params.textDocument.uri);
+            send({jsonrpc: "2.0", method: "textDocument/publishDiagnostics",
+                  params: {uri: params.textDocument.uri, diagnostics: []}});
+        },
+        "exit": _ => exit(shutdown ? 0 : 1)
+    };
+
+    const respond = (id: number | string | null, result: any): void =>
+        send({jsonrpc: "2.0", id: id, result: result});
+    const respondError = (id: number | string | null, code: number, message: string): void =>
+        send({jsonrpc: "2.0", id: id, error: {code: code, message: message}});
+
+    // A notification has no response: its errors are logged to the client (MessageType Error = 1)
+    const logError = (message: string): void =>
+        send({jsonrpc: "2.0", method: "window/logMessage", params: {type: 1, message: message}});
+
+    const handleRequest = (id: number | string, method: string, params: any): void =>
+        ! (method in requests) ? respondError(id, METHOD_NOT_FOUND, `Unknown method: ${method}`) :
+        ! initialized && method !== "initialize" ? respondError(id, SERVER_NOT_INITIALIZED, "Server not initialized") :
+        ! validParams(method, params) ? respondError(id, INVALID_PARAMS, `Invalid params for ${method}`) :
+        either(runHandler(() => requests[method](params)),
+               (result: any) => respond(id, result),
+               (message: string) => respondError(id, INTERNAL_ERROR, message));
+
+    // Unknown notifications are ignored (as required by the protocol)
+    const handleNotification = (method: string, params: any): void =>
+        ! (method in notifications && (initialized || method === "exit")) ? undefined :
+        ! validParams(method, params) ? logError(`Invalid params for ${method}`) :
+        either(runHandler(() => notifications[method](params)), (_) => undefined, logError);
+
+    return (msg: Result<Message>): void =>
+        either(msg,
+               (msg: Message) =>
+                   typeof msg.method !== "string" ? respondError(msg.id ?? null, INVALID_REQUEST, "Invalid request") :
+                   msg.id !== undefined && msg.id !== null ? handleRequest(msg.id, msg.method, msg.params) :
+                   handleNotification(msg.method, msg.params),
+               (message: string) => respondError(null, PARSE_ERROR, message));
+};
+
+if (require.main === module) {
+    const handle = makeServer((msg: Message) => { process.stdout.write(encodeMessage(msg)); },
+                              (code: number) => process.exit(code));
+    process.stdin.on("data", makeMessageDecoder(handle));
+}
@@ -0,0 +1,22 @@
+// Output ports for L5
+// ========================================================
+// display, write and newline print to an output port - the port is passed to
+// evalProgram, and from there to the evaluation functions.
+
+export type OutputPort = {
+    tag: "OutputPort";
+    write: (s: string) => void;
+}
+export const makeOutputPort = (write: (s: string) => void): OutputPort =>
+    ({tag: "OutputPort", write: write});
+export const isOutputPort = (x: any): x is OutputPort => x.tag === "OutputPort";
+
+// The default port: the standard output of the process
+export const stdoutPort: OutputPort = makeOutputPort((s: string) => { process.stdout.write(s); });
+
+// A buffer port keeps what is written to it - used to capture the output of a program.
+export type BufferPort = OutputPort & { contents: () => string; }
+export const makeBufferPort = (): BufferPort => {
+    const chunks: string[] = [];
+    return {...makeOutputPort((s: string) => { chunks.push(s); }), contents: () => chunks.join("")};
+};
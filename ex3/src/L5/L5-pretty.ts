@@ -0,0 +1,298 @@
+// L5-pretty: width-aware pretty printer for L5 programs and type expressions
+// ========================================================
+// unparse (L5-ast) prints an AST on one line - the pretty printer lays it out
+// in lines of at most width columns (see the document algebra in shared/doc).
+//
+// A form which fits in the rest of the line is printed as unparse prints it.
+// Otherwise its body goes on separate lines indented by 2 from its open paren,
+// the bindings of let are aligned, and the branches of if are aligned with its test:
+// (define f
+//   (lambda ((x : number)) : number
+//     (let ((y (* x x))
+//           (z (+ x 1)))
+//       (if (> y z)
+//           y
+//           z))))
+// A (union ...) type which does not fit is broken the same way as a form.
+//
+// formatL5 formats source text: the comments of the source are kept - a comment on its own
+// line stays on its own line before the expression which follows it, and a comment which ends
+// the line of an expression stays at the end of its line. Type annotations are printed as they
+// are written. Formatting is idempotent.
+
+import { map } from "ramda";
+import { isAppExp, isBeginExp, isBoolExp, isCaseExp, isCondExp, isDefineDatatypeExp, isDefineExp, isDefineRecordExp,
+         isDefineTypeExp, isGuardExp, isIfExp, isLetExp, isLetrecExp, isLetStarExp, isLitExp, isMatchExp, isNamedLetExp, isNumExp, isPrimOp,
+         isProcExp, isProgram, isSetExp, isStrExp, isUnlessExp, isVarRef, isWhenExp, parseL5Program, unparseTypeHead,
+         unparseDatum, unparseLitExp, unparseMatchPattern,
+         writtenDatum, Binding, CaseClause, CExp, CondClause, Exp, LitExp, MatchClause, Parsed, Program, RecordField, Variant,
+         VarDecl } from "./L5-ast";
+import { isDatatypeTExp, isForallTExp, isFreshTVar, isInterTExp, isListTExp, isPairTExp, isPredTExp, isProcTExp, isUnionTExp,
+         fixedListComponents, tvarDeref, unparseTExp, writtenTExp, TExp } from "./TExp";
+import { Sexp } from "s-expression";
+import { align, concat, group, hardline, join, layout, line, nest, suffix, Doc, DocLike } from "../shared/doc";
+import { isEmpty, isNonEmptyList, first, rest } from "../shared/list";
+import { isSexpString, read, sexpChildSpan, sourceComments, Comment } from "../shared/parser";
+import { isArray } from "../shared/type-predicates";
+import { Result, bind, makeOk, mapResult, mapv } from "../shared/result";
+import { makeSourceFile, Span } from "../shared/source";
+
+export const DEFAULT_WIDTH = 80;
+
+// Purpose: pretty print an L5 AST in lines of at most width columns
+export const prettyL5 = (e: Parsed, width: number = DEFAULT_WIDTH): Result<string> =>
+    mapv(parsedDoc(e, makeComments([])), (doc: Doc) => layout(doc, width));
+
+// Purpose: pretty print a type expression in lines of at most width columns
+export const prettyTExp = (te: TExp, width: number = DEFAULT_WIDTH): Result<string> =>
+    mapv(texpDoc(te), (doc: Doc) => layout(doc, width));
+
+// Purpose: format the source text of an L5 program - keeping its comments
+export const formatL5 = (text: string, width: number = DEFAULT_WIDTH, name: string = "<input>"): Result<string> => {
+    const source = makeSourceFile(name, text);
+    return bind(bind(read(source), parseL5Program), (program: Program) => {
+        const comments = makeComments(sourceComments(source));
+        return mapv(parsedDoc(program, comments), (doc: Doc) =>
+            layout(concat([doc, ...comments.pending.map((c: Comment) => [hardline, c.text])]), width));
+    });
+};
+
+// ========================================================
+// Comments
+// The comments which are not printed yet - in source order. The AST is traversed
+// in source order, so the comments before a node are printed just before it, each one on its own line.
+// The comments left after the sub-nodes of a node (before its closing paren), and those which follow
+// the node on the line where it ends, are printed at the end of its line - each one on its own line.
+// The comments inside a quoted datum stay in place (see literalDoc).
+type Comments = { pending: Comment[]; }
+const makeComments = (comments: Comment[]): Comments => ({pending: [...comments]});
+
+const leadingComments = (span: Span | undefined, comments: Comments): Doc[] => {
+    if (span === undefined)
+        return [];
+    const count = comments.pending.findIndex((c: Comment) => c.span.start.offset >= span.start.offset);
+    const leading = comments.pending.splice(0, count === -1 ? comments.pending.length : count);
+    return leading.map((c: Comment) => concat([c.text, hardline]));
+};
+
+const trailingComments = (span: Span | undefined, comments: Comments): Doc[] => {
+    if (span === undefined)
+        return [];
+    const count = comments.pending.findIndex((c: Comment) => ! isTrailingComment(c, span));
+    const trailing = comments.pending.splice(0, count === -1 ? comments.pending.length : count);
+    return trailing.map((c: Comment) => suffix(` ${c.text}`));
+};
+
+// A comment inside span - or after it on its last line, with nothing but blanks in between.
+const isTrailingComment = (c: Comment, span: Span): boolean =>
+    c.span.start.offset < span.end.offset ||
+    (c.span.start.line === span.end.line && span.source.text.slice(span.end.offset, c.span.start.offset).trim() === "");
+
+// Print the comments before a node, then the node and its trailing comments.
+const withComments = <T extends { span?: Span }>(x: T, comments: Comments, f: (x: T) => Result<Doc>): Result<Doc> => {
+    const leading = leadingComments(x.span, comments);
+    return mapv(f(x), (doc: Doc) => concat([...leading, doc, ...trailingComments(x.span, comments)]));
+};
+
+// ========================================================
+// Layout of the forms
+
+// (head item ...) - the items go on separate lines, indented by 2, unless the form fits.
+const form = (head: DocLike, items: DocLike[]): Doc =>
+    align(group(["(", head, nest(2, items.map((item: DocLike) => [line, item])), ")"]));
+
+// (item ...) - the items are aligned with the first one unless the list fits.
+const list = (items: DocLike[]): Doc =>
+    align(group(["(", align(join(line, items)), ")"]));
+
+const parsedDoc = (e: Parsed, comments: Comments): Result<Doc> =>
+    isProgram(e) ? withComments(e, comments, (e: Program) =>
+                       mapv(mapResult((exp: Exp) => expDoc(exp, comments), e.exps), (exps: Doc[]) => form("L5", exps))) :
+    expDoc(e, comments);
+
+const expDoc = (e: Exp, comments: Comments): Result<Doc> =>
+    withComments(e, comments, (e: Exp) => expDocNoComments(e, comments));
+
+const expDocNoComments = (e: Exp, comments: Comments): Result<Doc> => {
+    const exp = (e: Exp): Result<Doc> => expDoc(e, comments);
+    const exps = (es: Exp[]): Result<Doc[]> => mapResult(exp, es);
+    const bindings = (bdgs: Binding[]): Result<Doc> =>
+        mapv(mapResult((bdg: Binding) => bindingDoc(bdg, comments), bdgs), list);
+    const varDecl = (vd: VarDecl): Result<Doc> => varDeclDoc(vd, comments);
+    const clauses = (cs: CondClause[], alt: CExp[]): Result<Doc[]> =>
+        bind(mapResult((c: CondClause) => condClauseDoc(c, comments), cs), (cs: Doc[]) =>
+            mapv(elseClauseDoc(alt, comments), (alt: Doc[]) => [...cs, ...alt]));
+    return (
+        isNumExp(e) ? makeOk(concat([`${e.val}`])) :
+        isStrExp(e) ? makeOk(concat([unparseString(e.val)])) :
+        isBoolExp(e) ? makeOk(concat([e.val ? "#t" : "#f"])) :
+        isPrimOp(e) ? makeOk(concat([e.op])) :
+        isVarRef(e) ? makeOk(concat([e.var])) :
+        isLitExp(e) ? makeOk(literalDoc(e, comments)) :
+        isDefineExp(e) ? bind(varDecl(e.var), (vd: Doc) =>
+                            mapv(exp(e.val), (val: Doc) => form(["define ", vd], [val]))) :
+        isDefineRecordExp(e) ? mapv(mapResult((f: RecordField) => recordFieldDoc(f, comments), e.fields), (fields: Doc[]) =>
+                                    form(["define-record ", e.name], [list(fields)])) :
+        isDefineDatatypeExp(e) ? mapv(mapResult((v: Variant) => variantDoc(v, comments), e.variants), (variants: Doc[]) =>
+                                    form(["define-datatype ", unparseTypeHead(e)], variants)) :
+        isDefineTypeExp(e) ? mapv(annotationDoc(e.texp), (te: Doc) => form(["define-type ", unparseTypeHead(e)], [te])) :
+        isAppExp(e) ? bind(exp(e.rator), (rator: Doc) =>
+                        mapv(exps(e.rands), (rands: Doc[]) => form(rator, rands))) :
+        isIfExp(e) ? mapv(exps([e.test, e.then, e.alt]), (parts: Doc[]) =>
+                        align(group(["(if ", align(join(line, parts)), ")"]))) :
+        isProcExp(e) ? bind(mapResult(varDecl, e.args), (args: Doc[]) =>
+                        bind(returnDoc(e.returnTE), (ret: Doc) =>
+                            mapv(exps(e.body), (body: Doc[]) => form(["lambda ", list(args), ret], body)))) :
+        isLetExp(e) || isLetrecExp(e) || isLetStarExp(e) ?
+            bind(bindings(e.bindings), (bdgs: Doc) =>
+                mapv(exps(e.body), (body: Doc[]) =>
+                    form([isLetExp(e) ? "let " : isLetrecExp(e) ? "letrec " : "let* ", bdgs], body))) :
+        isNamedLetExp(e) ? bind(bindings(e.bindings), (bdgs: Doc) =>
+                            bind(returnDoc(e.returnTE), (ret: Doc) =>
+                                mapv(exps(e.body), (body: Doc[]) => form(["let ", e.name, " ", bdgs, ret], body)))) :
+        isSetExp(e) ? mapv(exp(e.val), (val: Doc) => form(["set! ", e.var.var], [val])) :
+        isCondExp(e) ? mapv(clauses(e.clauses, e.alt), (cs: Doc[]) => form("cond", cs)) :
+        isCaseExp(e) ? bind(exp(e.key), (key: Doc) =>
+                        bind(mapResult((c: CaseClause) => caseClauseDoc(c, comments), e.clauses), (cs: Doc[]) =>
+                            mapv(elseClauseDoc(e.alt, comments), (alt: Doc[]) => form(["case ", key], [...cs, ...alt])))) :
+        isBeginExp(e) ? mapv(exps(e.exps), (es: Doc[]) => form("begin", es)) :
+        isWhenExp(e) || isUnlessExp(e) ? bind(exp(e.test), (test: Doc) =>
+                                            mapv(exps(e.body), (body: Doc[]) =>
+                                                form([isWhenExp(e) ? "when " : "unless ", test], body))) :
+        isGuardExp(e) ? bind(varDecl(e.var), (v: Doc) =>
+                            bind(clauses(e.clauses, e.alt), (cs: Doc[]) =>
+                                mapv(exps(e.body), (body: Doc[]) => form(["guard ", form(v, cs)], body)))) :
+        isMatchExp(e) ? bind(exp(e.val), (val: Doc) =>
+                            bind(mapResult((c: MatchClause) => matchClauseDoc(c, comments), e.clauses), (cs: Doc[]) =>
+                                mapv(elseClauseDoc(e.alt, comments), (alt: Doc[]) => form(["match ", val], [...cs, ...alt])))) :
+        e
+    );
+};
+
+// A binding keeps its value on the line of its variable: (f (lambda (x) ...))
+const bindingDoc = (bdg: Binding, comments: Comments): Result<Doc> =>
+    withComments(bdg, comments, (bdg: Binding) =>
+        bind(varDeclDoc(bdg.var, comments), (vd: Doc) =>
+            mapv(expDoc(bdg.val, comments), (val: Doc) => concat(["(", vd, " ", align(val), ")"]))));
+
+// Missing type annotations (fresh type variables) are not printed.
+const varDeclDoc = (vd: VarDecl, comments: Comments): Result<Doc> =>
+    withComments(vd, comments, (vd: VarDecl) =>
+        isFreshTVar(vd.texp) ? makeOk(concat([vd.var])) :
+        mapv(annotationDoc(vd.texp), (te: Doc) => concat(["(", vd.var, " : ", align(te), ")"])));
+
+// A mutable field is marked after its type: (y : number #:mutable)
+const recordFieldDoc = (field: RecordField, comments: Comments): Result<Doc> =>
+    withComments(field, comments, (field: RecordField) =>
+        ! field.mutable ? varDeclDoc(field.var, comments) :
+        isFreshTVar(field.var.texp) ? makeOk(concat(["(", field.var.var, " #:mutable)"])) :
+        mapv(annotationDoc(field.var.texp), (te: Doc) => concat(["(", field.var.var, " : ", align(te), " #:mutable)"])));
+
+const variantDoc = (variant: Variant, comments: Comments): Result<Doc> =>
+    withComments(variant, comments, (variant: Variant) =>
+        mapv(mapResult((f: VarDecl) => varDeclDoc(f, comments), variant.fields), (fields: Doc[]) =>
+            form(variant.name, fields)));
+
+const returnDoc = (te: TExp): Result<Doc> =>
+    isFreshTVar(te) ? makeOk(concat([])) :
+    mapv(annotationDoc(te), (te: Doc) => concat([" : ", align(te)]));
+
+const condClauseDoc = (clause: CondClause, comments: Comments): Result<Doc> =>
+    withComments(clause, comments, (clause: CondClause) =>
+        bind(expDoc(clause.test, comments), (test: Doc) =>
+            mapv(mapResult((e: CExp) => expDoc(e, comments), clause.body), (body: Doc[]) =>
+                clause.isArrow ? form(test, ["=>", ...body]) : form(test, body))));
+
+const caseClauseDoc = (clause: CaseClause, comments: Comments): Result<Doc> =>
+    withComments(clause, comments, (clause: CaseClause) =>
+        mapv(mapResult((e: CExp) => expDoc(e, comments), clause.body), (body: Doc[]) =>
+            form(`(${map(unparseDatum, clause.data).join(" ")})`, body)));
+
+const matchClauseDoc = (clause: MatchClause, comments: Comments): Result<Doc> =>
+    withComments(clause, comments, (clause: MatchClause) =>
+        mapv(mapResult((e: CExp) => expDoc(e, comments), clause.body), (body: Doc[]) =>
+            form(unparseMatchPattern(clause), body)));
+
+const elseClauseDoc = (alt: CExp[], comments: Comments): Result<Doc[]> =>
+    isEmpty(alt) ? makeOk([]) :
+    mapv(mapResult((e: CExp) => expDoc(e, comments), alt), (alt: Doc[]) => [form("else", alt)]);
+
+// A quoted datum which holds comments is printed as it is written, with its comments in place.
+const literalDoc = (e: LitExp, comments: Comments): Doc => {
+    const datum = writtenDatum(e);
+    return datum !== undefined && e.span !== undefined && hasCommentsIn(e.span, comments) ?
+        concat(["'", datumDoc(datum, comments)]) :
+        concat([unparseLitExp(e)]);
+};
+
+const hasCommentsIn = (span: Span, comments: Comments): boolean =>
+    comments.pending.some((c: Comment) => c.span.start.offset >= span.start.offset && c.span.start.offset < span.end.offset);
+
+const datumDoc = (sexp: Sexp, comments: Comments): Doc =>
+    ! isArray(sexp) ? concat([isSexpString(sexp) ? unparseString(sexp.toString()) : sexp]) :
+    list(sexp.map((x: Sexp, i: number) => {
+        const span = sexpChildSpan(sexp, i);
+        const leading = leadingComments(span, comments);
+        return concat([...leading, datumDoc(x, comments), ...trailingComments(span, comments)]);
+    }));
+
+// Strings are escaped so that they read back as the same string on one line.
+const stringEscapes: Record<string, string> = {
+    "\\": "\\\\", '"': '\\"', "\n": "\\n", "\t": "\\t", "\r": "\\r", "\f": "\\f", "\b": "\\b"
+};
+const unparseString = (s: string): string =>
+    `"${s.replace(/[\\"\n\t\r\f\b]/g, (c: string) => stringEscapes[c])}"`;
+
+// ========================================================
+// Type expressions
+// The same concrete syntax as unparseTExp.
+export const texpDoc = (te: TExp): Result<Doc> => {
+    const x = tvarDeref(te);
+    // A datatype is printed by name: (tree number)
+    return isDatatypeTExp(x) ? mapv(unparseTExp(x), (s: string) => concat([s])) :
+        isUnionTExp(x) ? bind(mapResult(texpDoc, x.components), unionDoc) :
+        isInterTExp(x) ? mapv(mapResult(texpDoc, x.components), (tes: Doc[]) => form("inter", tes)) :
+        isProcTExp(x) ? bind(mapResult(texpDoc, x.paramTEs), (params: Doc[]) =>
+                            mapv(texpDoc(x.returnTE), (ret: Doc) =>
+                                list([...paramsDoc(params), concat(["-> ", align(ret)])]))) :
+        isPairTExp(x) && fixedListComponents(x) !== undefined ?
+            mapv(mapResult(texpDoc, fixedListComponents(x) as TExp[]), (tes: Doc[]) => form("tuple", tes)) :
+        isPairTExp(x) ? bind(texpDoc(x.carTE), (car: Doc) =>
+                            mapv(texpDoc(x.cdrTE), (cdr: Doc) => form("pair", [car, cdr]))) :
+        isListTExp(x) ? mapv(texpDoc(x.elementTE), (element: Doc) => form("listof", [element])) :
+        isForallTExp(x) ? mapv(texpDoc(x.body), (body: Doc) =>
+                            form(["forall (", x.vars.map((v) => v.var).join(" "), ")"], [body])) :
+        isPredTExp(x) ? mapv(texpDoc(x.type), (type: Doc) => concat(["is? ", type])) :
+        mapv(unparseTExp(x), (s: string) => concat([s]));
+};
+
+// Type annotations are printed as they are written (see writtenTExp), with the layout of texpDoc.
+const annotationDoc = (te: TExp): Result<Doc> => {
+    const written = writtenTExp(te);
+    return written === undefined ? texpDoc(te) : makeOk(writtenDoc(written));
+};
+
+const writtenDoc = (sexp: Sexp): Doc => {
+    if (! isArray(sexp))
+        return concat([isSexpString(sexp) ? unparseString(sexp.toString()) : sexp]);
+    const arrow = sexp.indexOf("->");
+    const returnTE = sexp.slice(arrow + 1);
+    return arrow !== -1 ? list([...paramsDoc(sexp.slice(0, arrow).filter((x: Sexp) => x !== "*").map(writtenDoc)),
+                                concat(["-> ", align(join(" ", returnTE.map(writtenDoc)))])]) :
+        sexp[0] === "quote" && sexp.length === 2 ? concat(["'", writtenDoc(sexp[1])]) :
+        sexp[0] === "forall" && sexp.length === 3 ? form(["forall ", writtenDoc(sexp[1])], [writtenDoc(sexp[2])]) :
+        ["union", "inter", "pair", "listof", "tuple"].includes(sexp[0] as string) ? form(sexp[0] as string, sexp.slice(1).map(writtenDoc)) :
+        concat(["(", join(" ", sexp.map(writtenDoc)), ")"]);
+};
+
+// (union a (union b c)) - as unparseTExp, a union of more than 2 components is nested.
+const unionDoc = (tes: Doc[]): Result<Doc> =>
+    isNonEmptyList<Doc>(tes) ?
+        isEmpty(rest(tes)) ? makeOk(first(tes)) :
+        mapv(unionDoc(rest(tes)), (restDoc: Doc) => form("union", [first(tes), restDoc])) :
+    makeOk(concat(["never"]));
+
+// The parameter types of a procedure type: a * b or Empty
+const paramsDoc = (params: Doc[]): Doc[] =>
+    isEmpty(params) ? [concat(["Empty"])] :
+    params.map((param: Doc, i: number) => i < params.length - 1 ? concat([param, " *"]) : param);
@@ -0,0 +1,239 @@
+// L5-repl: interactive read-eval-print loop
+// ========================================================
+// Run with: npm run repl  (ts-node src/L5/L5-repl.ts)
+//
+// Each input is an L5 expression or define. It is type checked (L5-typecheck) in the
+// type environment of the session, then evaluated (L5-eval) in its global environment,
+// so that definitions are kept across inputs (see L5-interpreter).
+// An input can span several lines: it is read until its parens are balanced.
+//
+// Meta-commands:
+// :type <exp>    the type of exp (L5-typecheck)
+// :infer <exp>   the inferred type of exp (L5-typeinference)
+// :env           the definitions of the session
+// :load <file>   check and evaluate the program (L5 <exp>+) in file
+// :reset         remove all the definitions
+// :help          list the meta-commands
+// :quit          exit the repl
+
+import { readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { createInterface } from "readline";
+import { Exp, isDefineExp, makeProgram, parseL5Exp, parseL5Program, Program } from "./L5-ast";
+import { evalProgram } from "./L5-eval";
+import { globalEnvBindings, getFBindingVal, FBinding } from "./L5-env";
+import { forkInterpreter, interpreterTEnv, makeInterpreter, resetInterpreter, restoreInterpreter, Interpreter } from "./L5-interpreter";
+import { stdoutPort, OutputPort } from "./L5-output";
+import { typeofExp, typeofInterpreterProgram } from "./L5-typecheck";
+import * as TI from "./L5-typeinference";
+import { valueToString, Value } from "./L5-value";
+import { applyTEnv } from "./TEnv";
+import { unparseTExp, TExp } from "./TExp";
+import { makeBox, setBox, unbox, Box } from "../shared/box";
+import { isEmpty } from "../shared/list";
+import { parse as p } from "../shared/parser";
+import { Result, bind, either, makeFailure, makeOk, mapResult, mapv } from "../shared/result";
+
+export type Repl = {
+    tag: "Repl";
+    interp: Interpreter;
+    port: OutputPort;
+    pending: Box<string[]>;
+}
+export const makeRepl = (port: OutputPort = stdoutPort, interp: Interpreter = makeInterpreter()): Repl =>
+    ({tag: "Repl", interp: interp, port: port, pending: makeBox([])});
+export const isRepl = (x: any): x is Repl => x.tag === "Repl";
+
+// The prompt of a continuation line shows that the input is not complete.
+export const replPrompt = (repl: Repl): string =>
+    isEmpty(unbox(repl.pending)) ? "l5> " : "...> ";
+
+// Purpose: the number of parens which are still open at the end of text.
+// Parens in string literals and in comments (from ; to the end of the line) are not counted.
+export const openParens = (text: string): number => {
+    let depth = 0, inString = false, inComment = false;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (inComment) {
+            inComment = c !== "\n" && c !== "\r";
+        } else if (inString) {
+            i += c === "\\" ? 1 : 0;
+            inString = c !== '"';
+        } else {
+            depth += c === "(" ? 1 : c === ")" ? -1 : 0;
+            inString = c === '"';
+            inComment = c === ";";
+        }
+    }
+    return depth;
+};
+
+// Purpose: feed a line of input to the repl.
+// The input is run when its parens are balanced - until then the lines are kept pending.
+// Returns false when the repl should exit.
+export const replFeedLine = (repl: Repl, line: string): boolean => {
+    const lines = [...unbox(repl.pending), line];
+    const input = lines.join("\n");
+    if (openParens(input) > 0) {
+        setBox(repl.pending, lines);
+        return true;
+    }
+    setBox(repl.pending, []);
+    return replRun(repl, input);
+};
+
+// Purpose: drop the pending lines of an incomplete input
+export const replCancel = (repl: Repl): void => setBox(repl.pending, []);
+
+// Purpose: run a complete input and print its result to the port of the repl.
+// Returns false when the input is :quit.
+export const replRun = (repl: Repl, input: string): boolean => {
+    const text = input.trim();
+    if (text === ":quit" || text === ":q") {
+        return false;
+    }
+    const out = text === "" ? makeOk("") :
+                text.startsWith(":") ? runCommand(repl, text) :
+                runInput(repl, text);
+    const s = either(out, (s: string) => s, (message: string) => message);
+    if (s !== "") {
+        repl.port.write(`${s}\n`);
+    }
+    return true;
+};
+
+const parseInput = (text: string): Result<Exp> =>
+    bind(p(text, "<repl>"), parseL5Exp);
+
+// Check then evaluate the input as a program of one exp in the session.
+const runInput = (repl: Repl, text: string): Result<string> =>
+    bind(parseInput(text), (exp: Exp) =>
+        runProgram(repl, makeProgram([exp])));
+
+// The defines of the program are kept only when the whole program is evaluated:
+// when the evaluation fails, the session - its types and its bindings - is rolled back.
+const runProgram = (repl: Repl, program: Program): Result<string> => {
+    const snapshot = forkInterpreter(repl.interp);
+    return bind(typeofInterpreterProgram(program, repl.interp), (te: TExp) =>
+        either(evalProgram(program, repl.port, repl.interp),
+               (val: Value) => showResult(repl, program.exps[program.exps.length - 1], val, te),
+               (message: string) => {
+                   restoreInterpreter(repl.interp, snapshot);
+                   return makeFailure<string>(message);
+               }));
+};
+
+// A define shows the type of its var, a void value shows nothing.
+const showResult = (repl: Repl, exp: Exp, val: Value, te: TExp): Result<string> =>
+    isDefineExp(exp) ? mapv(showVarType(repl, exp.var.var), (type: string) => `${exp.var.var} : ${type}`) :
+    val === undefined ? makeOk("") :
+    mapv(unparseTExp(te), (type: string) => `${valueToString(val)} : ${type}`);
+
+const showVarType = (repl: Repl, v: string): Result<string> =>
+    bind(applyTEnv(interpreterTEnv(repl.interp), v), unparseTExp);
+
+// ========================================================
+// Meta-commands
+type Command = (repl: Repl, arg: string) => Result<string>;
+
+const commands: Record<string, Command> = {
+    ":type": (repl: Repl, arg: string) =>
+        bind(parseInput(arg), (exp: Exp) =>
+            bind(typeofExp(exp, interpreterTEnv(repl.interp)), unparseTExp)),
+    ":infer": (repl: Repl, arg: string) =>
+        bind(parseInput(arg), (exp: Exp) =>
+            bind(TI.typeofExp(exp, interpreterTEnv(repl.interp)), unparseTExp)),
+    ":env": (repl: Repl, _arg: string) =>
+        mapv(mapResult((bdg: FBinding) => showBinding(repl, bdg), globalEnvBindings(repl.interp.env)),
+             (lines: string[]) => lines.join("\n")),
+    ":load": (repl: Repl, arg: string) =>
+        bind(readSource(arg), (text: string) =>
+            bind(p(text, arg), (sexp) =>
+                bind(parseL5Program(sexp), (program: Program) =>
+                    mapv(runProgram(repl, program), (result: string) =>
+                        result === "" ? `Loaded ${arg}` : `Loaded ${arg}\n${result}`)))),
+    ":reset": (repl: Repl, _arg: string) => {
+        resetInterpreter(repl.interp);
+        return makeOk("Definitions removed");
+    },
+    ":help": (_repl: Repl, _arg: string) =>
+        makeOk([":type <exp>    the type of exp",
+                ":infer <exp>   the inferred type of exp",
+                ":env           the definitions of the session",
+                ":load <file>   check and evaluate the program in file",
+                ":reset         remove all the definitions",
+                ":quit          exit"].join("\n"))
+};
+
+const runCommand = (repl: Repl, text: string): Result<string> => {
+    const [name] = text.split(/\s/, 1);
+    const arg = text.slice(name.length).trim();
+    return name in commands ? commands[name](repl, arg) :
+           makeFailure(`Unknown command: ${name} (:help lists the commands)`);
+};
+
+// The type of a var defined by an evaluation which failed type checking may be unknown.
+const showBinding = (repl: Repl, bdg: FBinding): Result<string> =>
+    makeOk(either(showVarType(repl, bdg.var),
+                  (type: string) => `${bdg.var} : ${type} = ${valueToString(getFBindingVal(bdg))}`,
+                  _ => `${bdg.var} = ${valueToString(getFBindingVal(bdg))}`));
+
+const readSource = (file: string): Result<string> => {
+    if (file === "") {
+        return makeFailure("Usage: :load <file>");
+    }
+    try {
+        return makeOk(readFileSync(file, "utf8"));
+    } catch (e) {
+        return makeFailure(`Cannot read ${file}: ${e instanceof Error ? e.message : e}`);
+    }
+};
+
+// ========================================================
+// Terminal loop
+// The history of the inputs is kept in ~/.l5_history.
+const historyFile = join(homedir(), ".l5_history");
+
+const readHistory = (): string[] => {
+    try {
+        return readFileSync(historyFile, "utf8").split("\n").filter((line: string) => line !== "");
+    } catch (e) {
+        return [];
+    }
+};
+
+const writeHistory = (history: string[]): void => {
+    try {
+        writeFileSync(historyFile, history.join("\n"));
+    } catch (e) {
+        return;
+    }
+};
+
+const main = (): void => {
+    const repl = makeRepl();
+    const rl = createInterface({input: process.stdin, output: process.stdout,
+                                history: readHistory(), historySize: 1000});
+    const prompt = (): void => {
+        rl.setPrompt(replPrompt(repl));
+        rl.prompt();
+    };
+    rl.on("history", writeHistory);
+    rl.on("line", (line: string) => replFeedLine(repl, line) ? prompt() : rl.close());
+    // Ctrl-C drops an incomplete input - on an empty input it exits.
+    rl.on("SIGINT", () => {
+        if (isEmpty(unbox(repl.pending))) {
+            rl.close();
+        } else {
+            replCancel(repl);
+            process.stdout.write("\n");
+            prompt();
+        }
+    });
+    prompt();
+};
+
+if (require.main === module) {
+    main();
+}
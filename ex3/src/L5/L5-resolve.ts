@@ -0,0 +1,114 @@
+// L5-resolve: binding resolution
+// ========================================================
+// Each variable reference of a program is resolved to the declaration which binds it,
+// following the scope rules of L5:
+// - top-level defines are visible in the whole program
+// - the params and the internal defines of a lambda are visible in its body
+//   (the internal defines of the bodies of let, letrec ... as well)
+// - let binds its vars in its body, let* in its next bindings and its body,
+//   letrec in its bindings and body, named let binds its name and vars in its body
+// - the var of guard is visible in its clauses, the vars of a match clause in its body
+// A reference to an unbound var is not resolved.
+// The name of a named let has no VarDecl - it is declared by the named let exp itself.
+// The procedures of a record are declared by its define-record (a reference to one of
+// them resolves to the define-record) - their declaration name is the name of the record.
+// The same holds for the procedures of a datatype and its define-datatype.
+
+import { isDefineExp, isGuardExp, isLetExp, isLetrecExp, isLetStarExp, isMatchExp, isNamedLetExp, isProcExp,
+         isSetExp, isTypeDefinition, isVarRef, expComponents, typeDefinitionProcNames, Binding, Exp, NamedLetExp,
+         Program, TypeDefinition, VarDecl, VarRef } from "./L5-ast";
+
+export type Declaration = VarDecl | NamedLetExp | TypeDefinition;
+export const declarationName = (d: Declaration): string =>
+    isNamedLetExp(d) || isTypeDefinition(d) ? d.name : d.var;
+
+// The vars declared by d
+const declaredVars = (d: Declaration): string[] =>
+    isTypeDefinition(d) ? typeDefinitionProcNames(d) : [declarationName(d)];
+
+// references maps each resolved VarRef to its declaration,
+// declarations lists all the VarDecls of the program.
+export type Resolution = {
+    tag: "Resolution";
+    references: Map<VarRef, Declaration>;
+    declarations: VarDecl[];
+}
+
+type Scope = Map<string, Declaration>;
+
+// Purpose: resolve the var references of program
+export const resolveProgram = (program: Program): Resolution => {
+    const resolution: Resolution = {tag: "Resolution", references: new Map(), declarations: []};
+    resolveBody(program.exps, new Map(), resolution);
+    return resolution;
+};
+
+// Purpose: scope extended with decls - the VarDecls are recorded in resolution
+const declare = (decls: Declaration[], scope: Scope, resolution: Resolution): Scope => {
+    decls.forEach((d: Declaration) => { if (! isNamedLetExp(d) && ! isTypeDefinition(d)) resolution.declarations.push(d); });
+    return new Map([...scope, ...decls.flatMap((d: Declaration) =>
+                                    declaredVars(d).map((v: string): [string, Declaration] => [v, d]))]);
+};
+
+// The defines of a body are visible in the whole body.
+const resolveBody = (body: Exp[], scope: Scope, resolution: Resolution): void => {
+    const bodyScope = declare([...body.filter(isDefineExp).map((def) => def.var), ...body.filter(isTypeDefinition)],
+                              scope, resolution);
+    body.forEach((exp: Exp) => resolveExp(exp, bodyScope, resolution));
+};
+
+const resolveVarRef = (ref: VarRef, scope: Scope, resolution: Resolution): void => {
+    const decl = scope.get(ref.var);
+    if (decl !== undefined)
+        resolution.references.set(ref, decl);
+};
+
+const resolveBindingVals = (bindings: Binding[], scope: Scope, resolution: Resolution): void =>
+    bindings.forEach((b: Binding) => resolveExp(b.val, scope, resolution));
+
+// let*: each binding is in the scope of the previous ones
+const resolveLetStar = (bindings: Binding[], body: Exp[], scope: Scope, resolution: Resolution): void => {
+    const bodyScope = bindings.reduce((scope: Scope, b: Binding) => {
+        resolveExp(b.val, scope, resolution);
+        return declare([b.var], scope, resolution);
+    }, scope);
+    resolveBody(body, bodyScope, resolution);
+};
+
+const resolveExp = (exp: Exp, scope: Scope, resolution: Resolution): void => {
+    if (isVarRef(exp)) {
+        resolveVarRef(exp, scope, resolution);
+    } else if (isSetExp(exp)) {
+        resolveVarRef(exp.var, scope, resolution);
+        resolveExp(exp.val, scope, resolution);
+    } else if (isProcExp(exp)) {
+        resolveBody(exp.body, declare(exp.args, scope, resolution), resolution);
+    } else if (isLetExp(exp)) {
+        resolveBindingVals(exp.bindings, scope, resolution);
+        resolveBody(exp.body, declare(exp.bindings.map((b) => b.var), scope, resolution), resolution);
+    } else if (isLetStarExp(exp)) {
+        resolveLetStar(exp.bindings, exp.body, scope, resolution);
+    } else if (isLetrecExp(exp)) {
+        const recScope = declare(exp.bindings.map((b) => b.var), scope, resolution);
+        resolveBindingVals(exp.bindings, recScope, resolution);
+        resolveBody(exp.body, recScope, resolution);
+    } else if (isNamedLetExp(exp)) {
+        resolveBindingVals(exp.bindings, scope, resolution);
+        resolveBody(exp.body, declare([exp, ...exp.bindings.map((b) => b.var)], scope, resolution), resolution);
+    } else if (isGuardExp(exp)) {
+        resolveBody(exp.body, scope, resolution);
+        const handlerScope = declare([exp.var], scope, resolution);
+        [...exp.clauses.flatMap((c) => [c.test, ...c.body]), ...exp.alt].forEach((e: Exp) =>
+            resolveExp(e, handlerScope, resolution));
+    } else if (isMatchExp(exp)) {
+        resolveExp(exp.val, scope, resolution);
+        exp.clauses.forEach((c) => {
+            const clauseScope = declare(c.vars, scope, resolution);
+            c.body.forEach((e: Exp) => resolveExp(e, clauseScope, resolution));
+        });
+        exp.alt.forEach((e: Exp) => resolveExp(e, scope, resolution));
+    } else {
+        // The var of a define is declared by the enclosing body
+        expComponents(exp).forEach((e: Exp) => resolveExp(e, scope, resolution));
+    }
+};
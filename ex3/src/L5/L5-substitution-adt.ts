@@ -1,5 +1,7 @@
 import { map, prop, includes } from 'ramda';
-import { eqTVar, isAtomicTExp, isProcTExp, isTVar, makeProcTExp, unparseTExp, TExp, TVar } from "./TExp";
+import { eqTVar, isAtomicTExp, isProcTExp, isTVar, makeProcTExp, unparseTExp, TExp, TVar,
+         isListTExp, isPairTExp, makeListTExp, makePairTExp, isForallTExp, makeForallTExp,
+         isRecordTExp, makeRecordTExp, isUnionTExp, makeUnionTExp } from "./TExp";
 import { cons, isEmpty, first, rest, isNonEmptyList } from "../shared/list";
 import { Result, makeOk, makeFailure, mapResult, bind, zipWithResult, mapv } from '../shared/result';
 import { format } from '../shared/format';
@@ -39,6 +41,11 @@ export const checkNoOccurrence = (tvar: TVar, te: TExp): Result<true> => {
                                             makeOk(true)) :
         isAtomicTExp(e) ? makeOk(true) :
         isProcTExp(e) ? bind(mapResult(check, e.paramTEs), _ => check(e.returnTE)) :
+        isPairTExp(e) ? bind(check(e.carTE), _ => check(e.cdrTE)) :
+        isListTExp(e) ? check(e.elementTE) :
+        isForallTExp(e) ? check(e.body) :
+        isRecordTExp(e) ? mapv(mapResult(check, e.params), _ => true) :
+        isUnionTExp(e) ? mapv(mapResult(check, e.components), _ => true) :
         makeFailure(`Bad type expression ${e} in ${format(te)}`);
     return check(te);
 };
@@ -67,8 +74,21 @@ export const applySub = (sub: Sub, te: TExp): TExp =>
     isAtomicTExp(te) ? te :
     isTVar(te) ? subGet(sub, te) :
     isProcTExp(te) ? makeProcTExp(map((te) => applySub(sub, te), te.paramTEs), applySub(sub, te.returnTE)) :
+    isPairTExp(te) ? makePairTExp(applySub(sub, te.carTE), applySub(sub, te.cdrTE)) :
+    isListTExp(te) ? makeListTExp(applySub(sub, te.elementTE)) :
+    // The type variables bound by a forall are not substituted
+    isForallTExp(te) ? makeForallTExp(te.vars, applySub(restrictSub(sub, te.vars), te.body)) :
+    // The params of the variants of a datatype (see nominalDatatypeTExp)
+    isRecordTExp(te) ? makeRecordTExp(te.name, map((te) => applySub(sub, te), te.params)) :
+    isUnionTExp(te) ? makeUnionTExp(map((te) => applySub(sub, te), te.components)) :
     te;
 
+// Purpose: remove the bindings of vars from sub
+const restrictSub = (sub: Sub, vars: TVar[]): Sub => {
+    const keep = map((v: TVar) => ! vars.some((bound) => eqTVar(bound, v)), sub.vars);
+    return {tag: "Sub", vars: sub.vars.filter((_, i) => keep[i]), tes: sub.tes.filter((_, i) => keep[i])};
+};
+
 // ============================================================
 // Purpose: Returns the composition of substitutions s.t.:
 //  applySub(result, te) === applySub(sub2, applySub(sub1, te))
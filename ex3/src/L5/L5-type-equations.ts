@@ -3,12 +3,14 @@ import * as R from "ramda";
 import * as A from "./L5-ast";
 import * as S from "./L5-substitution-adt";
 import * as TC from "./L5-typecheck";
+import * as E from "./TEnv";
 import * as T from "./TExp";
 import * as Res from "../shared/result";
 import * as Opt from "../shared/optional";
 import { isEmpty, first, rest, cons, isNonEmptyList } from "../shared/list";
 import { parse as p } from "../shared/parser";
 import { format } from "../shared/format";
+import { locateFailure } from "../shared/source";
 
 // ============================================================n
 // Pool ADT
@@ -102,8 +104,8 @@ export const flatten = <T>(listOfLists: readonly T[][]): T[] => R.chain(R.identi
 // @Pre: pool is the result of expToPool(exp)
 export const poolToEquations = (pool: Pool): Opt.Optional<Equation[]> => {
     // VarRef generate no equations beyond that of var-decl - remove them.
-    const poolWithoutVars = R.filter(R.propSatisfies(R.complement(A.isVarRef), 'e'), pool);
-    return Opt.mapv(Opt.mapOptional((e: A.Exp) => makeEquationsFromExp(e, pool), R.map(R.prop('e'), poolWithoutVars)), 
+    const poolWithoutVars = R.filter((item: PoolItem) => ! A.isVarRef(item.e), pool);
+    return Opt.mapv(Opt.mapOptional((e: A.Exp) => makeEquationsFromExp(e, pool), R.map((item: PoolItem) => item.e, poolWithoutVars)), 
                     (eqns: Equation[][]) => flatten(eqns));
 };
 
@@ -124,7 +126,7 @@ export const makeEquationsFromExp = (exp: A.Exp, pool: Pool): Opt.Optional<Equat
     // No need to traverse the other body expressions - they will be
     // traversed by the overall loop of pool->equations
     A.isProcExp(exp) ? Opt.bind(inPool(pool, exp), (left: T.TExp) =>
-                            Opt.mapv(Opt.bind(safeLast(exp.body), (last: A.CExp) => inPool(pool, last)), (ret: T.TExp) =>
+                            Opt.mapv(Opt.bind(safeLast(exp.body), (last: A.Exp) => inPool(pool, last)), (ret: T.TExp) =>
                                 [makeEquation(left, T.makeProcTExp(R.map((vd) => vd. texp, exp.args), ret))])) :
     // The type of a number is Number
     A.isNumExp(exp) ? Opt.mapv(inPool(pool, exp), (left: T.TExp) => [makeEquation(left, T.makeNumTExp())]) :
@@ -134,42 +136,286 @@ export const makeEquationsFromExp = (exp: A.Exp, pool: Pool): Opt.Optional<Equat
     A.isStrExp(exp) ? Opt.mapv(inPool(pool, exp), (left: T.TExp) => [makeEquation(left, T.makeStrTExp())]) :
     // The type of a primitive procedure is given by the primitive.
     A.isPrimOp(exp) ? Opt.bind(inPool(pool, exp), (left: T.TExp) =>
-                            Opt.mapv(Res.resultToOptional(TC.typeofPrim(exp)), (right: T.TExp) =>
+                            Opt.mapv(Res.resultToOptional(TC.typeofInferencePrim(exp)), (right: T.TExp) =>
                                 [makeEquation(left, right)])) :
-    // Todo: define, let, letrec, set 
+    // The test of an if is a boolean - both branches have the type of the if.
+    A.isIfExp(exp) ? Opt.bind(inPool(pool, exp), (left: T.TExp) =>
+                        Opt.bind(Opt.mapOptional((e) => inPool(pool, e), [exp.test, exp.then, exp.alt]), (tes: T.TExp[]) =>
+                            Opt.makeSome([makeEquation(tes[0], T.makeBoolTExp()),
+                                          makeEquation(left, tes[1]),
+                                          makeEquation(left, tes[2])]))) :
+    // The type of a quoted literal is computed from its value.
+    A.isLitExp(exp) ? Opt.mapv(inPool(pool, exp), (left: T.TExp) => [makeEquation(left, TC.typeofLit(exp))]) :
+    // let, letrec and define bind variables with polymorphic types: they are
+    // handled by the let-polymorphic method below (inferType).
     Opt.makeNone();
 
 
 // ========================================================
-// Signature: inferType(exp)
-// Purpose: Infer the type of an expression using the equations method
-// Example: unparseTExp(inferType(parse('(lambda (f x) (f (f x)))')))
+// Signature: inferPoolType(exp)
+// Purpose: Infer the type of an expression using the pool of all its sub-expressions.
+// All the occurrences of a variable share the same type: this method is monomorphic
+// and does not support let, letrec and define.
+// Example: unparseTExp(inferPoolType(parse('(lambda (f x) (f (f x)))')))
 //          ==> '((T_1 -> T_1) * T_1 -> T_1)'
-export const inferType = (exp: A.Exp): Opt.Optional<T.TExp> => {
-    // console.log(`Infer ${A.unparse(exp)}`)
+export const inferPoolType = (exp: A.Exp): Opt.Optional<T.TExp> => {
     const pool = expToPool(exp);
-    // console.log(`Pool ${format(pool)}`);
     const equations = poolToEquations(pool);
-    // console.log(`Equations ${format(equations)}`);
     const sub = Opt.bind(equations, (eqns: Equation[]) => Res.resultToOptional(solveEquations(eqns)));
-    // console.log(`Sub ${format(sub)}`);
     // Extract the computed type of the root expression from the pool
     const texp = inPool(pool, exp);
-    // console.log(`TExp = ${format(bindResult(optionalToResult(texp, "TExp is None"), T.unparseTExp))}`);
     // Replace all TVars in the computed type by their type expression
     return Opt.bind(sub, (sub: S.Sub) =>
-                Opt.mapv(texp, (texp: T.TExp) =>
-                    T.isTVar(texp) ? S.subGet(sub, texp) : texp))
+                Opt.mapv(texp, (texp: T.TExp) => S.applySub(sub, texp)));
+};
+
+// ========================================================
+// Let-polymorphism (Hindley-Milner)
+// The equations of an expression are generated and solved incrementally (algorithm M):
+// inferExp(exp, tenv, te, sub) extends sub with the solution of the equations
+// which make te the type of exp in tenv.
+// Because the equations of the value of a let binding are solved before its body is visited,
+// the type of the variable can be generalized over the type variables which are still free
+// (and not free in tenv): each occurrence of the variable in the body gets a fresh instance.
+
+// Purpose: extend sub so that te1 = te2
+const unify = (te1: T.TExp, te2: T.TExp, sub: S.Sub): Res.Result<S.Sub> =>
+    solve([makeEquation(te1, te2)], sub);
+
+const applySubTEnv = (sub: S.Sub, tenv: E.TEnv): E.TEnv =>
+    E.isEmptyTEnv(tenv) ? tenv :
+    E.makeExtendTEnv(tenv.vars, R.map((te) => S.applySub(sub, te), tenv.texps), applySubTEnv(sub, tenv.tenv));
+
+// Purpose: gen(sub(te), sub(tenv))
+const generalize = (te: T.TExp, tenv: E.TEnv, sub: S.Sub): T.TExp =>
+    E.generalizeTExp(S.applySub(sub, te), applySubTEnv(sub, tenv));
+
+const instantiate = (te: T.TExp): T.TExp =>
+    T.isForallTExp(te) ? T.instantiateTExp(te) : te;
+
+// A var declared with a forall type is inferred through the body of the forall.
+const monoTExp = (te: T.TExp): T.TExp =>
+    T.isForallTExp(te) ? te.body : te;
+
+// Purpose: extend sub so that exp has type te in tenv
+export const inferExp = (exp: A.Exp, tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> =>
+    locateFailure(inferNode(exp, tenv, te, sub), exp.span);
+
+const inferNode = (exp: A.Exp, tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> =>
+    A.isNumExp(exp) ? unify(te, T.makeNumTExp(), sub) :
+    A.isBoolExp(exp) ? unify(te, T.makeBoolTExp(), sub) :
+    A.isStrExp(exp) ? unify(te, T.makeStrTExp(), sub) :
+    A.isLitExp(exp) ? unify(te, T.inferenceTExp(TC.typeofLit(exp)), sub) :
+    // The type variables of a primitive are instantiated at each use
+    A.isPrimOp(exp) ? Res.bind(TC.typeofInferencePrim(exp), (primTE: T.TExp) => unify(te, instantiate(E.generalizeTExp(primTE, E.makeEmptyTEnv())), sub)) :
+    // Each occurrence of a variable with a forall type is a fresh instance of the type
+    A.isVarRef(exp) ? Res.bind(E.applyTEnv(tenv, exp.var), (varTE: T.TExp) => unify(te, instantiate(varTE), sub)) :
+    A.isIfExp(exp) ? Res.bind(inferExp(exp.test, tenv, T.makeBoolTExp(), sub), (sub: S.Sub) =>
+                        Res.bind(inferExp(exp.then, tenv, te, sub), (sub: S.Sub) =>
+                            inferExp(exp.alt, tenv, te, sub))) :
+    A.isProcExp(exp) ? inferProc(exp, tenv, te, sub) :
+    A.isAppExp(exp) ? inferApp(exp, tenv, te, sub) :
+    A.isLetExp(exp) ? inferLet(exp, tenv, te, sub) :
+    A.isLetrecExp(exp) ? inferLetrec(exp, tenv, te, sub) :
+    A.isSetExp(exp) ? Res.bind(E.applyTEnv(tenv, exp.var.var), (varTE: T.TExp) =>
+                        Res.bind(inferExp(exp.val, tenv, monoTExp(varTE), sub), (sub: S.Sub) =>
+                            unify(te, T.makeVoidTExp(), sub))) :
+    A.isDefineExp(exp) ? inferDefine(exp, tenv, te, sub) :
+    A.isTypeDefinition(exp) ? unify(te, T.makeVoidTExp(), sub) :
+    A.isCondExp(exp) ? inferCond(exp, tenv, te, sub) :
+    A.isCaseExp(exp) ? inferCase(exp, tenv, te, sub) :
+    A.isLetStarExp(exp) ? inferLetStar(exp.bindings, exp.body, tenv, te, sub) :
+    A.isBeginExp(exp) ? inferExps(exp.exps, tenv, te, sub) :
+    A.isWhenExp(exp) || A.isUnlessExp(exp) ? Res.bind(inferExp(exp.test, tenv, T.makeBoolTExp(), sub), (sub: S.Sub) =>
+                                                Res.bind(inferExps(exp.body, tenv, T.makeFreshTVar(), sub), (sub: S.Sub) =>
+                                                    unify(te, T.makeVoidTExp(), sub))) :
+    A.isGuardExp(exp) ? Res.bind(inferExps(exp.body, tenv, te, sub), (sub: S.Sub) =>
+                            inferCondClauses(exp.clauses, exp.alt, E.makeExtendTEnv([exp.var.var], [exp.var.texp], tenv), te, sub)) :
+    A.isMatchExp(exp) ? inferMatch(exp, tenv, te, sub) :
+    Res.bind(A.unparse(exp), (exp: string) => Res.makeFailure(`Unknown expression ${exp}`));
+
+// Purpose: the last exp of a sequence has type te - the others any type
+const inferExps = (exps: A.Exp[], tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> =>
+    isNonEmptyList<A.Exp>(exps) ?
+        isEmpty(rest(exps)) ? inferExp(first(exps), tenv, te, sub) :
+        Res.bind(inferExp(first(exps), tenv, T.makeFreshTVar(), sub), (sub: S.Sub) =>
+            inferExps(rest(exps), tenv, te, sub)) :
+    Res.makeFailure(`Unexpected empty sequence of exps`);
+
+// Type(proc) = [T1 * ... * Tn -> Te] where Ti are the types of the parameters
+// and Te is the type of the last exp of the body
+const inferProc = (proc: A.ProcExp, tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> => {
+    const argTEs = R.map((vd) => vd.texp, proc.args);
+    const bodyTEnv = E.makeExtendTEnv(R.map((vd) => vd.var, proc.args), argTEs, tenv);
+    return Res.bind(unify(te, T.makeProcTExp(argTEs, proc.returnTE), sub), (sub: S.Sub) =>
+                inferExps(proc.body, bodyTEnv, proc.returnTE, sub));
+};
+
+// Type(rator) = [T1 * .. * Tn -> Te] where Ti are the types of the rands
+// and Te the type of the application
+// list takes any number of arguments: Type((list e1 ... en)) = (listof T) where all the ei are of type T
+const inferApp = (app: A.AppExp, tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> => {
+    if (A.isPrimOp(app.rator) && app.rator.op === "list") {
+        const elementTE = T.makeFreshTVar();
+        return Res.bind(unify(te, T.makeListTExp(elementTE), sub), (sub: S.Sub) =>
+                    inferEach(app.rands, tenv, elementTE, sub));
+    }
+    const randTEs = R.map((_) => T.makeFreshTVar(), app.rands);
+    const randsSub = (rands: A.Exp[], randTEs: T.TExp[], sub: S.Sub): Res.Result<S.Sub> =>
+        isNonEmptyList<A.Exp>(rands) && isNonEmptyList<T.TExp>(randTEs) ?
+            Res.bind(inferExp(first(rands), tenv, first(randTEs), sub), (sub: S.Sub) =>
+                randsSub(rest(rands), rest(randTEs), sub)) :
+        Res.makeOk(sub);
+    return Res.bind(inferExp(app.rator, tenv, T.makeProcTExp(randTEs, te), sub), (sub: S.Sub) =>
+                randsSub(app.rands, randTEs, sub));
+};
+
+// Purpose: infer the values of bindings in tenv - in order
+const inferBindings = (bindings: A.Binding[], tenv: E.TEnv, sub: S.Sub): Res.Result<S.Sub> =>
+    isNonEmptyList<A.Binding>(bindings) ?
+        Res.bind(inferExp(first(bindings).val, tenv, monoTExp(first(bindings).var.texp), sub), (sub: S.Sub) =>
+            inferBindings(rest(bindings), tenv, sub)) :
+    Res.makeOk(sub);
+
+// The vars are generalized in the body once their values are inferred.
+const inferLet = (exp: A.LetExp, tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> =>
+    Res.bind(inferBindings(exp.bindings, tenv, sub), (sub: S.Sub) => {
+        const vars = R.map((b) => b.var.var, exp.bindings);
+        const varTEs = R.map((b) => generalize(b.var.texp, tenv, sub), exp.bindings);
+        return inferExps(exp.body, E.makeExtendTEnv(vars, varTEs, tenv), te, sub);
+    });
+
+// The vars are monomorphic in the values (they are inferred together)
+// and generalized in the body.
+const inferLetrec = (exp: A.LetrecExp, tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> => {
+    const vars = R.map((b) => b.var.var, exp.bindings);
+    const valsTEnv = E.makeExtendTEnv(vars, R.map((b) => b.var.texp, exp.bindings), tenv);
+    return Res.bind(inferBindings(exp.bindings, valsTEnv, sub), (sub: S.Sub) => {
+        const varTEs = R.map((b) => generalize(b.var.texp, tenv, sub), exp.bindings);
+        return inferExps(exp.body, E.makeExtendTEnv(vars, varTEs, tenv), te, sub);
+    });
+};
+
+// Purpose: each exp of exps has type te
+const inferEach = (exps: A.Exp[], tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> =>
+    isNonEmptyList<A.Exp>(exps) ?
+        Res.bind(inferExp(first(exps), tenv, te, sub), (sub: S.Sub) => inferEach(rest(exps), tenv, te, sub)) :
+    Res.makeOk(sub);
+
+// Each var is generalized in the bindings after it and in the body.
+const inferLetStar = (bindings: A.Binding[], body: A.Exp[], tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> =>
+    isNonEmptyList<A.Binding>(bindings) ?
+        Res.bind(inferExp(first(bindings).val, tenv, monoTExp(first(bindings).var.texp), sub), (sub: S.Sub) =>
+            inferLetStar(rest(bindings), body,
+                         E.makeExtendTEnv([first(bindings).var.var], [generalize(first(bindings).var.texp, tenv, sub)], tenv),
+                         te, sub)) :
+    inferExps(body, tenv, te, sub);
+
+// The tests are booleans and the bodies of the clauses have type te -
+// a clause without a body has the value of its test, the receiver of (test => receiver) is applied to it.
+const inferCondClauses = (clauses: A.CondClause[], alt: A.Exp[], tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> => {
+    if (! isNonEmptyList<A.CondClause>(clauses))
+        return isEmpty(alt) ? Res.makeOk(sub) : inferExps(alt, tenv, te, sub);
+    const clause = first(clauses);
+    const testTE = T.makeFreshTVar();
+    const clauseSub = clause.isArrow ?
+        Res.bind(inferExp(clause.test, tenv, testTE, sub), (sub: S.Sub) =>
+            inferExp(clause.body[0], tenv, T.makeProcTExp([testTE], te), sub)) :
+        Res.bind(inferExp(clause.test, tenv, T.makeBoolTExp(), sub), (sub: S.Sub) =>
+            isEmpty(clause.body) ? unify(te, T.makeBoolTExp(), sub) : inferExps(clause.body, tenv, te, sub));
+    return Res.bind(clauseSub, (sub: S.Sub) => inferCondClauses(rest(clauses), alt, tenv, te, sub));
+};
+
+// The value of a cond without an else clause is unspecified: Type(cond) = void
+const inferCond = (exp: A.CondExp, tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> => {
+    const clausesTE = isEmpty(exp.alt) ? T.makeFreshTVar() : te;
+    return Res.bind(inferCondClauses(exp.clauses, exp.alt, tenv, clausesTE, sub), (sub: S.Sub) =>
+                isEmpty(exp.alt) ? unify(te, T.makeVoidTExp(), sub) : Res.makeOk(sub));
+};
+
+// The bodies of the clauses have type te - void without an else clause (as in cond)
+const inferCase = (exp: A.CaseExp, tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> => {
+    const clausesTE = isEmpty(exp.alt) ? T.makeFreshTVar() : te;
+    const bodies = [...R.map((clause) => clause.body, exp.clauses), ...(isEmpty(exp.alt) ? [] : [exp.alt])];
+    const inferBodies = (bodies: A.Exp[][], sub: S.Sub): Res.Result<S.Sub> =>
+        isNonEmptyList<A.Exp[]>(bodies) ?
+            Res.bind(inferExps(first(bodies), tenv, clausesTE, sub), (sub: S.Sub) => inferBodies(rest(bodies), sub)) :
+        Res.makeOk(sub);
+    return Res.bind(inferExp(exp.key, tenv, T.makeFreshTVar(), sub), (sub: S.Sub) =>
+                Res.bind(inferBodies(bodies, sub), (sub: S.Sub) =>
+                    isEmpty(exp.alt) ? unify(te, T.makeVoidTExp(), sub) : Res.makeOk(sub)));
+};
+
+// The constructor of the variant of a clause is [T1 * ... * Tk -> D]: the matched value is of type D
+// and the vars of the clause of types Ti. The bodies of the clauses have type te.
+const inferMatch = (exp: A.MatchExp, tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> => {
+    const valTE = T.makeFreshTVar();
+    const inferClause = (clause: A.MatchClause, sub: S.Sub): Res.Result<S.Sub> =>
+        Res.bind(E.applyTEnv(tenv, clause.variant), (ctorTE: T.TExp) => {
+            const procTE = instantiate(ctorTE);
+            const varTEs = R.map((vd) => vd.texp, clause.vars);
+            return ! T.isProcTExp(procTE) || ! T.isVariantTExp(T.makeRecordTExp(clause.variant)) ?
+                    Res.makeFailure(`${clause.variant} is not a variant of a datatype`) :
+                procTE.paramTEs.length !== clause.vars.length ?
+                    Res.makeFailure(`Match clause ${clause.variant} expects ${procTE.paramTEs.length} variables - got ${clause.vars.length}`) :
+                Res.bind(unify(T.makeProcTExp(varTEs, valTE), procTE, sub), (sub: S.Sub) =>
+                    inferExps(clause.body, E.makeExtendTEnv(R.map((vd) => vd.var, clause.vars), varTEs, tenv), te, sub));
+        });
+    const inferClauses = (clauses: A.MatchClause[], sub: S.Sub): Res.Result<S.Sub> =>
+        isNonEmptyList<A.MatchClause>(clauses) ?
+            Res.bind(inferClause(first(clauses), sub), (sub: S.Sub) => inferClauses(rest(clauses), sub)) :
+        isEmpty(exp.alt) ? Res.makeOk(sub) :
+        inferExps(exp.alt, tenv, te, sub);
+    return Res.bind(inferExp(exp.val, tenv, valTE, sub), (sub: S.Sub) => inferClauses(exp.clauses, sub));
+};
+
+// Type(define) = void - the var is monomorphic in its own value (recursive defines)
+const inferDefine = (exp: A.DefineExp, tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> =>
+    Res.bind(inferExp(exp.val, E.makeExtendTEnv([exp.var.var], [exp.var.texp], tenv), monoTExp(exp.var.texp), sub), (sub: S.Sub) =>
+        unify(te, T.makeVoidTExp(), sub));
+
+// Purpose: infer a program - the vars of the defines are generalized in the rest of the program.
+const inferProgramExps = (exps: A.Exp[], tenv: E.TEnv, te: T.TExp, sub: S.Sub): Res.Result<S.Sub> =>
+    isNonEmptyList<A.Exp>(exps) ?
+        isEmpty(rest(exps)) ? inferExp(first(exps), tenv, te, sub) :
+        Res.bind(inferExp(first(exps), tenv, T.makeFreshTVar(), sub), (sub: S.Sub) => {
+            const e = first(exps);
+            return inferProgramExps(rest(exps),
+                                    A.isDefineExp(e) ? E.makeExtendTEnv([e.var.var], [generalize(e.var.texp, tenv, sub)], tenv) :
+                                    A.isTypeDefinition(e) ? E.makeExtendTEnv(A.typeDefinitionProcNames(e),
+                                                                             R.map((te) => generalize(T.inferenceTExp(te), tenv, sub),
+                                                                                   TC.typeDefinitionProcTEs(e)), tenv) :
+                                    tenv,
+                                    te, sub);
+        }) :
+    Res.makeFailure(`Empty program`);
+
+// ========================================================
+// Signature: inferType(exp)
+// Purpose: Infer the type of an expression using the equations method
+// Example: unparseTExp(inferType(parse('(lambda (f x) (f (f x)))')))
+//          ==> '((T_1 -> T_1) * T_1 -> T_1)'
+export const inferType = (exp: A.Exp): Res.Result<T.TExp> => {
+    const te = T.makeFreshTVar();
+    return Res.mapv(inferExp(exp, E.makeEmptyTEnv(), te, S.makeEmptySub()), (sub: S.Sub) => S.applySub(sub, te));
+};
+
+export const inferProgramType = (program: A.Program): Res.Result<T.TExp> => {
+    const te = T.makeFreshTVar();
+    return Res.mapv(inferProgramExps(program.exps, E.makeEmptyTEnv(), te, S.makeEmptySub()), (sub: S.Sub) => S.applySub(sub, te));
 };
 
 // Type: [Concrete-Exp -> Concrete-TExp]
 // End to end processing: parse, infer type, unparse.
 export const infer = (exp: string): Res.Result<string> =>
     Res.bind(p(exp), (x) =>
-        Res.bind(A.parseL5Exp(x), (exp: A.Exp) => 
-            Opt.maybe(inferType(exp),
-                (te: T.TExp) => T.unparseTExp(te),
-                () => Res.makeFailure("Infer type failed"))));
+        Res.bind(A.parseL5Exp(x), (exp: A.Exp) =>
+            Res.bind(inferType(exp), T.unparseTExp)));
+
+export const inferProgram = (program: string): Res.Result<string> =>
+    Res.bind(p(program), (x) =>
+        Res.bind(A.parseL5Program(x), (program: A.Program) =>
+            Res.bind(inferProgramType(program), T.unparseTExp)));
 
 // ========================================================
 // type equation solving
@@ -203,10 +449,12 @@ const solve = (equations: Equation[], sub: S.Sub): Res.Result<S.Sub> => {
         ? solve(rest(equations), sub)
         : Res.makeFailure(`Equation with non-equal atomic type ${format(eq)}`);
 
-    const eq = makeEquation(S.applySub(sub, first(equations).left),
-                            S.applySub(sub, first(equations).right));
+    // The variants of a datatype are unified as the datatype (see nominalDatatypeTExp)
+    const eq = makeEquation(T.nominalDatatypeTExp(S.applySub(sub, first(equations).left)),
+                            T.nominalDatatypeTExp(S.applySub(sub, first(equations).right)));
 
-    return T.isTVar(eq.left) ? solveVarEq(eq.left, eq.right) :
+    return T.isTVar(eq.left) && T.isTVar(eq.right) && T.eqTVar(eq.left, eq.right) ? solve(rest(equations), sub) :
+           T.isTVar(eq.left) ? solveVarEq(eq.left, eq.right) :
            T.isTVar(eq.right) ? solveVarEq(eq.right, eq.left) :
            bothSidesAtomic(eq) ? handleBothSidesAtomic(eq) :
            T.isCompoundTExp(eq.left) && T.isCompoundTExp(eq.right) && canUnify(eq) ?
@@ -217,8 +465,12 @@ const solve = (equations: Equation[], sub: S.Sub): Res.Result<S.Sub> => {
 // Signature: canUnify(equation)
 // Purpose: Compare the structure of the type expressions of the equation
 const canUnify = (eq: Equation): boolean =>
-    T.isProcTExp(eq.left) && T.isProcTExp(eq.right) &&
-    (eq.left.paramTEs.length === eq.right.paramTEs.length);
+    (T.isProcTExp(eq.left) && T.isProcTExp(eq.right) &&
+     (eq.left.paramTEs.length === eq.right.paramTEs.length)) ||
+    (T.isPairTExp(eq.left) && T.isPairTExp(eq.right)) ||
+    (T.isListTExp(eq.left) && T.isListTExp(eq.right)) ||
+    (T.isRecordTExp(eq.left) && T.isRecordTExp(eq.right) &&
+     eq.left.name === eq.right.name && eq.left.params.length === eq.right.params.length);
 
 // Signature: splitEquation(equation)
 // Purpose: For an equation with unifyable type expressions,
@@ -235,4 +487,10 @@ const splitEquation = (eq: Equation): Equation[] =>
         R.zipWith(makeEquation,
                   cons(eq.left.returnTE, eq.left.paramTEs),
                   cons(eq.right.returnTE, eq.right.paramTEs)) :
+    (T.isPairTExp(eq.left) && T.isPairTExp(eq.right)) ?
+        [makeEquation(eq.left.carTE, eq.right.carTE), makeEquation(eq.left.cdrTE, eq.right.cdrTE)] :
+    (T.isListTExp(eq.left) && T.isListTExp(eq.right)) ?
+        [makeEquation(eq.left.elementTE, eq.right.elementTE)] :
+    (T.isRecordTExp(eq.left) && T.isRecordTExp(eq.right)) ?
+        R.zipWith(makeEquation, eq.left.params, eq.right.params) :
     [];
@@ -1,22 +1,38 @@
 // L5-typecheck
 // ========================================================
-import { equals, map, zipWith } from 'ramda';
+import { chain, equals, map, reduce, uniq, zipWith } from 'ramda';
 import { isAppExp, isBoolExp, isDefineExp, isIfExp, isLetrecExp, isLetExp, isNumExp,
          isPrimOp, isProcExp, isProgram, isStrExp, isVarRef, parseL5Exp, unparse,
          AppExp, BoolExp, DefineExp, Exp, IfExp, LetrecExp, LetExp, NumExp,
          Parsed, PrimOp, ProcExp, Program, StrExp, parseL5Program, 
          isSetExp,
          isLitExp,
-         VarDecl} from "./L5-ast";
-import { applyTEnv, ExtendTEnv, makeEmptyTEnv, makeExtendTEnv, TEnv } from "./TEnv";
+         LitExp, SetExp,
+         VarDecl,
+         Binding, CaseClause, CaseExp, CondClause, UnlessExp, WhenExp,
+         isBeginExp, isCaseExp, isCondExp, isLetStarExp, isUnlessExp, isWhenExp,
+         NamedLetExp, isNamedLetExp, GuardExp, isGuardExp,
+         DefineRecordExp, RecordField, isDefineRecordExp, DefineDatatypeExp, isDefineDatatypeExp, MatchClause, MatchExp,
+         Variant, isMatchExp, isTypeDefinition, typeDefinitionProcNames, TypeDefinition } from "./L5-ast";
+import { applyTEnv, ExtendTEnv, generalizeTExp, isEmptyTEnv, makeEmptyTEnv, makeExtendTEnv, TEnv } from "./TEnv";
 import { isProcTExp, makeBoolTExp, makeNumTExp, makeProcTExp, makeStrTExp, makeVoidTExp,
          parseTE, unparseTExp, makeUnionTExp,
-         BoolTExp, NumTExp, StrTExp, TExp, VoidTExp, isSubType, 
-         isPredTExp} from "./TExp";
+         TExp, VoidTExp, isSubType, 
+         isPredTExp, isNeverTExp, makeNeverTExp, makeDiffTExp, makeInterTExp, makeAnyTExp, isAtomicTExp, makeSymbolTExp, makeListTExp, makePairTExp,
+         isListTExp, isPairTExp, isUnionTExp, isForallTExp, isEmptyTVar, isAnyTExp, freeTVars,
+         makeFreshTVar, substituteTVars, tvarDeref, isTVar, eqTVar, TVar,
+         isFreshTVar, isRecordTExp, makePredTExp, makeRecordTExp, isVariantTExp, makeForallTExp, makeTVar,
+         variantFieldTEs, siblingVariantTExp, RecordTExp, isAliasTExp, unfoldTExp, LitTExp, makeLitTExp, isLitTExp, widenTExp, widenDefinedTExp,
+         makeFixedListTExp, inferenceTExp } from "./TExp";
+import { isCompoundSExp, isEmptySExp, isSymbolSExp, SExpValue } from "./L5-value";
 import { isEmpty, allT, first, rest, NonEmptyList, List, isNonEmptyList } from '../shared/list';
-import { Result, makeFailure, bind, makeOk, zipWithResult, either } from '../shared/result';
+import { Result, makeFailure, bind, makeOk, zipWithResult, either, mapv, mapResult, isOk } from '../shared/result';
+import { isBoolean, isNumber, isString } from '../shared/type-predicates';
 import { parse as p } from "../shared/parser";
 import { format } from '../shared/format';
+import { locateFailure } from '../shared/source';
+import { makeDiagnostic, reportDiagnostic, reportFailure, Diagnostic } from './L5-diagnostics';
+import { interpreterTEnv, setInterpreterTEnv, Interpreter } from './L5-interpreter';
 
 // Purpose: Check that type expressions are compatible
 // as part of a fully-annotated type check process of exp.
@@ -29,73 +45,270 @@ import { format } from '../shared/format';
 // ProcTExp is compatible with other ProcTExp according to rules of (3.2.4)
 // Union[TEs] contains TE if TE is compatible with one of the TEs
 // Union[TEs1] contains Union[TEs2] if Union[TEs1] contains all elements of Union[TEs2]
-export const checkCompatibleType = (te1: TExp, te2: TExp, exp: Exp): Result<true> =>
-  isSubType(te1, te2) ? makeOk(true) :
-  bind(unparseTExp(te1), (te1: string) =>
-    bind(unparseTExp(te2), (te2: string) =>
-        bind(unparse(exp), (exp: string) => 
-            makeFailure<true>(`Incompatible types: ${te1} and ${te2} in ${exp}`))));
+// In diagnostics mode the incompatibility is reported (expected te2, actual te1) and checking goes on.
+// A value is compatible with a forall type if it is compatible with its body, where the
+// type variables of the forall only match themselves.
+// The instance type variables of te1 and te2 are bound as needed (see bindInstanceTVars) in subst -
+// subst is extended only when te1 is compatible with te2.
+export const checkCompatibleType = (te1: TExp, te2: TExp, exp: Exp, ctx: CheckContext = {},
+                                    subst: InstanceSubst = new Map()): Result<true> => {
+  const expectedTE = isForallTExp(te2) ? te2.body : te2;
+  const extendedSubst = new Map(subst);
+  bindInstanceTVars(te1, expectedTE, extendedSubst);
+  if (isSubType(applyInstanceSubst(te1, extendedSubst), applyInstanceSubst(expectedTE, extendedSubst))) {
+    extendedSubst.forEach((te: TExp, v: string) => subst.set(v, te));
+    return makeOk(true);
+  }
+  return bind(unparseTExp(te1), (te1String: string) =>
+    bind(unparseTExp(te2), (te2String: string) =>
+        bind(unparse(exp), (expString: string) => {
+            const message = `Incompatible types: ${te1String} and ${te2String} in ${expString}`;
+            return reportDiagnostic(makeDiagnostic(message, "error", exp, te2, te1), ctx.diagnostics) ? makeOk<true>(true) :
+                   makeFailure<true>(message);
+        })));
+};
+
+// Polymorphism
+// ===============================================
+// A variable of type (forall (T1 ... Tn) te) is instantiated at each of its uses:
+// the Ti are replaced by fresh instance type variables.
+// Unlike the type variables written in annotations - which are only compatible with themselves -
+// an instance type variable stands for a type that is not known yet: it is bound to the
+// first type it is checked against.
+// The bindings are not stored in the type variables - which are shared by all the types that mention them -
+// they are collected in an instance substitution, from the name of an instance type variable to its type.
+// The substitution of an application is applied to its return type (see typeofApp).
+export type InstanceSubst = Map<string, TExp>;
+
+const instanceTVars = new WeakSet<TVar>();
+
+const makeInstanceTVar = (): TVar => {
+    const tv = makeFreshTVar();
+    instanceTVars.add(tv);
+    return tv;
+};
+
+const isInstanceTVar = (te: TExp): te is TVar =>
+    isEmptyTVar(te) && instanceTVars.has(te);
+
+// Purpose: instantiate a forall type with fresh instance type variables - other types are unchanged
+export const instantiateVarTExp = (te: TExp): TExp =>
+    isForallTExp(te) ? substituteTVars(te.body, te.vars, map((_) => makeInstanceTVar(), te.vars)) : te;
+
+// Purpose: replace the instance type variables of te which are bound in subst - until none is left
+// (the type of a variable may mention other bound variables).
+export const applyInstanceSubst = (te: TExp, subst: InstanceSubst): TExp => {
+    const substTE = substituteTVars(te, map(makeTVar, [...subst.keys()]), [...subst.values()]);
+    return freeTVars(substTE).some((v: TVar) => subst.has(v.var)) ? applyInstanceSubst(substTE, subst) : substTE;
+};
+
+// Purpose: bind the instance type variables of te1 and te2 in subst so that te1 becomes compatible with te2.
+// Components are matched structurally - parameters of procedures in the contravariant direction.
+// An instance type variable is not bound to never (which is compatible with any type)
+// nor to a type in which it occurs - it is bound to the widened type of a literal: (cons 1 2) : (pair number number).
+// An instance type variable which is already bound is matched by its type.
+// An alias is matched by its arguments with the same alias, and by its unfolding with the types which are not aliases.
+const bindInstanceTVars = (te1: TExp, te2: TExp, subst: InstanceSubst): void => {
+    const bindAll = (tes1: TExp[], tes2: TExp[]): void => {
+        zipWith((c1: TExp, c2: TExp) => bindInstanceTVars(c1, c2, subst), tes1, tes2);
+    };
+    const actual = applyInstanceSubst(te1, subst);
+    const expected = applyInstanceSubst(te2, subst);
+    const occursIn = (tv: TVar, te: TExp): boolean => freeTVars(te).some((v) => eqTVar(v, tv));
+    if (isInstanceTVar(expected)) {
+        if (! isNeverTExp(actual) && ! occursIn(expected, actual))
+            subst.set(expected.var, widenTExp(actual));
+    } else if (isInstanceTVar(actual)) {
+        if (! isAnyTExp(expected) && ! occursIn(actual, expected))
+            subst.set(actual.var, expected);
+    } else if (isAliasTExp(actual) && isAliasTExp(expected)) {
+        if (actual.name === expected.name)
+            bindAll(actual.args, expected.args);
+    } else if (isAliasTExp(actual) || isAliasTExp(expected)) {
+        const [unfoldedActual, unfoldedExpected] = [unfoldTExp(actual), unfoldTExp(expected)];
+        if (! isAliasTExp(unfoldedActual) && ! isAliasTExp(unfoldedExpected))
+            bindInstanceTVars(unfoldedActual, unfoldedExpected, subst);
+    } else if (isProcTExp(actual) && isProcTExp(expected) && actual.paramTEs.length === expected.paramTEs.length) {
+        bindAll(expected.paramTEs, actual.paramTEs);
+        bindInstanceTVars(actual.returnTE, expected.returnTE, subst);
+    } else if (isPairTExp(actual) && isPairTExp(expected)) {
+        bindInstanceTVars(actual.carTE, expected.carTE, subst);
+        bindInstanceTVars(actual.cdrTE, expected.cdrTE, subst);
+    } else if (isPairTExp(actual) && isListTExp(expected)) {
+        bindInstanceTVars(actual.carTE, expected.elementTE, subst);
+        bindInstanceTVars(actual.cdrTE, expected, subst);
+    } else if (isListTExp(actual) && isListTExp(expected)) {
+        bindInstanceTVars(actual.elementTE, expected.elementTE, subst);
+    } else if (isRecordTExp(actual) && (isRecordTExp(expected) || isUnionTExp(expected))) {
+        // A variant is matched with the variant of the same name in the type of a datatype
+        const match = isRecordTExp(expected) ? expected :
+                      expected.components.map(tvarDeref).find((c) => isRecordTExp(c) && c.name === actual.name);
+        if (isRecordTExp(match) && match.name === actual.name && match.params.length === actual.params.length)
+            bindAll(actual.params, match.params);
+    } else if (isUnionTExp(actual) && isUnionTExp(expected)) {
+        actual.components.filter((c) => isRecordTExp(tvarDeref(c))).forEach((c) => bindInstanceTVars(c, expected, subst));
+    }
+};
 
 // Compute the type of L5 AST exps to TE
 // ===============================================
 // Compute a Typed-L5 AST exp to a Texp on the basis
 // of its structure and the annotations it contains.
 
+// The context of a check is passed to all the typeof functions:
+// in diagnostics mode, the errors are collected in diagnostics (see L5-diagnostics)
+// and when types is given, the type computed for each expression - and for the var of each define - is
+// recorded there (for hover in L5-lsp) - an expression which is checked several times keeps its last type.
+export type CheckContext = {
+    diagnostics?: Diagnostic[];
+    types?: Map<Exp | VarDecl, TExp>;
+}
+
 // Purpose: Compute the type of a concrete fully-typed expression
 export const L5typeof = (concreteExp: string): Result<string> =>
     bind(p(concreteExp), (x) =>
         bind(parseL5Exp(x), (e: Exp) => 
             bind(typeofExp(e, makeEmptyTEnv()), unparseTExp)));
 
-export const L5typeofProgram = (concreteExp: string): Result<string> =>
+// Without a session, the program is checked in an empty type environment.
+export const L5typeofProgram = (concreteExp: string, interp?: Interpreter): Result<string> =>
     bind(p(concreteExp), (x) =>
         bind(parseL5Program(x), (e: Program) => 
-            bind(typeofProgram(e, makeEmptyTEnv()), unparseTExp)));
+            bind(interp === undefined ? typeofProgram(e, makeEmptyTEnv()) : typeofInterpreterProgram(e, interp),
+                 unparseTExp)));
+
+// Purpose: Compute the type of a program in the type environment of an interpreter session.
+// When the program is well typed, the session tenv is extended with its top-level defines.
+export const typeofInterpreterProgram = (exp: Program, interp: Interpreter): Result<TExp> =>
+    mapv(typeofSequence(exp.exps, interpreterTEnv(interp), {}), ([te, tenv]: [TExp, TEnv]) => {
+        setInterpreterTEnv(interp, tenv);
+        return te;
+    });
+
+const extendDefineTEnv = (tenv: TEnv, exp: TypeDefinition): TEnv =>
+    makeExtendTEnv(typeDefinitionProcNames(exp), typeDefinitionProcTEs(exp), tenv);
+
+// Purpose: Compute the type of a program in diagnostics mode:
+// all the type errors are collected, and the type is a best-effort type
+// where each failed sub-expression has type never.
+// When types is given, the types of the expressions are recorded in it (see CheckContext).
+export type ProgramDiagnostics = { type: TExp; diagnostics: Diagnostic[]; }
+
+export const typeofProgramDiagnostics = (exp: Program, tenv: TEnv, types?: Map<Exp | VarDecl, TExp>): ProgramDiagnostics => {
+    const diagnostics: Diagnostic[] = [];
+    const te = typeofProgram(exp, tenv, {diagnostics: diagnostics, types: types});
+    return either(te,
+                  (te: TExp) => ({type: te, diagnostics: diagnostics}),
+                  (message: string) => ({type: makeNeverTExp(),
+                                         diagnostics: [...diagnostics, makeDiagnostic(message, "error", undefined, undefined, undefined, exp.span)]}));
+};
+
+// Parse failures are not recoverable - they are returned as a Failure.
+export const L5typeofProgramDiagnostics = (concreteExp: string): Result<ProgramDiagnostics> =>
+    bind(p(concreteExp), (x) =>
+        mapv(parseL5Program(x), (e: Program) =>
+            typeofProgramDiagnostics(e, makeEmptyTEnv())));
 
 // Purpose: Compute the type of an expression
 // Traverse the AST and check the type according to the exp type.
 // We assume that all variables and procedures have been explicitly typed in the program.
-export const typeofExp = (exp: Parsed, tenv: TEnv): Result<TExp> =>
+// Failures are reported at the location of the innermost expression that fails.
+// In diagnostics mode, a failed expression is reported and typed as never -
+// never is compatible with every type so the error does not cascade.
+export const typeofExp = (exp: Parsed, tenv: TEnv, ctx: CheckContext = {}): Result<TExp> => {
+    const te = locateFailure(typeofNode(exp, tenv, ctx), exp.span);
+    recordType(exp, te, ctx);
+    return ! isProgram(exp) && reportFailure(te, exp, ctx.diagnostics) ? makeOk(makeNeverTExp()) : te;
+};
+
+// Purpose: Compute the type of the var of a define - the define is checked as by typeofExp.
+// In diagnostics mode, a failed define is reported and its var has its declared type.
+// The type of the var is recorded for the var decl of the define (see CheckContext).
+const typeofDefineVar = (def: DefineExp, tenv: TEnv, ctx: CheckContext): Result<TExp> => {
+    const te = locateFailure(typeofDefineVarTExp(def, tenv, ctx), def.span);
+    recordType(def, mapv(te, (_) => makeVoidTExp()), ctx);
+    const varTE = reportFailure(te, def, ctx.diagnostics) ? makeOk(def.var.texp) : te;
+    recordType(def.var, varTE, ctx);
+    return varTE;
+};
+
+const recordType = (exp: Parsed | VarDecl, te: Result<TExp>, ctx: CheckContext): void => {
+    if (ctx.types !== undefined && ! isProgram(exp) && isOk(te))
+        ctx.types.set(exp, te.value);
+};
+
+const typeofNode = (exp: Parsed, tenv: TEnv, ctx: CheckContext): Result<TExp> =>
     isNumExp(exp) ? makeOk(typeofNum(exp)) :
     isBoolExp(exp) ? makeOk(typeofBool(exp)) :
     isStrExp(exp) ? makeOk(typeofStr(exp)) :
-    isPrimOp(exp) ? typeofPrim(exp) :
-    isVarRef(exp) ? applyTEnv(tenv, exp.var) :
-    isIfExp(exp) ? typeofIf(exp, tenv) :
-    isProcExp(exp) ? typeofProc(exp, tenv) :
-    isAppExp(exp) ? typeofApp(exp, tenv) :
-    isLetExp(exp) ? typeofLet(exp, tenv) :
-    isLetrecExp(exp) ? typeofLetrec(exp, tenv) :
-    isDefineExp(exp) ? typeofDefine(exp, tenv) :
-    isProgram(exp) ? typeofProgram(exp, tenv) :
-    // TODO: isSetExp(exp) isLitExp(exp)
-    makeFailure(`Unknown type: ${format(exp)}`);
+    isPrimOp(exp) ? mapv(typeofPrim(exp), (te: TExp) => instantiateVarTExp(generalizeTExp(te, makeEmptyTEnv()))) :
+    isVarRef(exp) ? mapv(applyTEnv(tenv, exp.var), instantiateVarTExp) :
+    isIfExp(exp) ? typeofIf(exp, tenv, ctx) :
+    isProcExp(exp) ? typeofProc(exp, tenv, ctx) :
+    isAppExp(exp) ? typeofApp(exp, tenv, ctx) :
+    isLetExp(exp) ? typeofLet(exp, tenv, ctx) :
+    isLetrecExp(exp) ? typeofLetrec(exp, tenv, ctx) :
+    isNamedLetExp(exp) ? typeofNamedLet(exp, tenv, ctx) :
+    isDefineExp(exp) ? typeofDefine(exp, tenv, ctx) :
+    isTypeDefinition(exp) ? makeOk(makeVoidTExp()) :
+    isProgram(exp) ? typeofProgram(exp, tenv, ctx) :
+    isLitExp(exp) ? makeOk(typeofQuote(exp)) :
+    isSetExp(exp) ? typeofSet(exp, tenv, ctx) :
+    isCondExp(exp) ? typeofCondClauses(exp.clauses, exp.alt, tenv, ctx) :
+    isCaseExp(exp) ? typeofCase(exp, tenv, ctx) :
+    isLetStarExp(exp) ? typeofLetStar(exp.bindings, exp.body, tenv, ctx) :
+    isBeginExp(exp) ? typeofExps(exp.exps, tenv, ctx) :
+    isWhenExp(exp) || isUnlessExp(exp) ? typeofWhen(exp, tenv, ctx) :
+    isGuardExp(exp) ? typeofGuard(exp, tenv, ctx) :
+    isMatchExp(exp) ? typeofMatch(exp, tenv, ctx) :
+    bind(unparse(exp), (exp: string) => makeFailure(`Unknown type: ${exp}`));
 
 // Purpose: Compute the type of a sequence of expressions
 // Check all the exps in a sequence - return type of last.
+// The var of a define has the type of its val in the exps after it (see typeofDefineVar).
 // Pre-conditions: exps is not empty.
-export const typeofExps = (exps: List<Exp>, tenv: TEnv): Result<TExp> =>
+export const typeofExps = (exps: List<Exp>, tenv: TEnv, ctx: CheckContext): Result<TExp> =>
     isNonEmptyList<Exp>(exps) ? 
-        isEmpty(rest(exps)) ? typeofExp(first(exps), tenv) :
-        bind(typeofExp(first(exps), tenv), _ => typeofExps(rest(exps), tenv)) :
+        isEmpty(rest(exps)) ? typeofExp(first(exps), tenv, ctx) :
+        typeofExpsFirst(first(exps), rest(exps), tenv, ctx) :
     makeFailure(`Unexpected empty list of expressions`);
 
+const typeofExpsFirst = (first: Exp, rest: Exp[], tenv: TEnv, ctx: CheckContext): Result<TExp> =>
+    isDefineExp(first) ? bind(typeofDefineVar(first, tenv, ctx), (varTE: TExp) =>
+                             typeofExps(rest, makeExtendTEnv([first.var.var], [varTE], tenv), ctx)) :
+    bind(typeofExp(first, tenv, ctx), _ => typeofExps(rest, tenv, ctx));
+
+// Purpose: compute the type of the body of a lambda, let or letrec - return type of last.
+// Typing rule:
+//   body = (define (f1 : t1) v1) ... (define (fk : tk) vk) e1 ... en
+//   tenv-body = extend-tenv(f1=t1, ..., fk=tk; tenv)
+// If   type<vi>(tenv-body) = ti
+//      type<en>(tenv-body) = t
+// then type<body>(tenv) = t
+// The internal defines are visible in all the values (letrec* semantics) - an unannotated fi has the
+// type of vi in the exps after its define.
+export const typeofBody = (body: Exp[], tenv: TEnv, ctx: CheckContext): Result<TExp> => {
+    const defs = body.filter(isDefineExp);
+    return typeofExps(body, isEmpty(defs) ? tenv :
+                            makeExtendTEnv(map((def) => def.var.var, defs), map((def) => def.var.texp, defs), tenv), ctx);
+};
 
-// a number literal has type num-te
-export const typeofNum = (n: NumExp): NumTExp => makeNumTExp();
+// a number literal has the literal type of its value: 1 : (lit 1)
+export const typeofNum = (n: NumExp): LitTExp => makeLitTExp(makeNumTExp(), n.val);
 
-// a boolean literal has type bool-te
-export const typeofBool = (b: BoolExp): BoolTExp => makeBoolTExp();
+// a boolean literal has the literal type of its value: #t : #t
+export const typeofBool = (b: BoolExp): LitTExp => makeLitTExp(makeBoolTExp(), b.val);
 
-// a string literal has type str-te
-const typeofStr = (s: StrExp): StrTExp => makeStrTExp();
+// a string literal has the literal type of its value: "a" : (lit "a")
+const typeofStr = (s: StrExp): LitTExp => makeLitTExp(makeStrTExp(), s.val);
 
 // primitive ops have known proc-te types
 const numOpTExp = parseTE('(number * number -> number)');
 const numCompTExp = parseTE('(number * number -> boolean)');
 const boolOpTExp = parseTE('(boolean * boolean -> boolean)');
 
-// Todo: cons, car, cdr, list
+// The pair primitives cons, car, cdr and list are typed at each application (see typeofPairPrimApp):
+// their signatures below are the types used when they are passed as values - list as a value takes one element.
 export const typeofPrim = (p: PrimOp): Result<TExp> =>
     (p.op === '+') ? numOpTExp :
     (p.op === '-') ? numOpTExp :
@@ -107,99 +320,348 @@ export const typeofPrim = (p: PrimOp): Result<TExp> =>
     (p.op === '<') ? numCompTExp :
     (p.op === '=') ? numCompTExp :
     // Important to use a different signature for each op with a TVar to avoid capture
-    (p.op === 'number?') ? parseTE('(T -> boolean)') :
-    (p.op === 'boolean?') ? parseTE('(T -> boolean)') :
-    (p.op === 'string?') ? parseTE('(T -> boolean)') :
-    (p.op === 'list?') ? parseTE('(T -> boolean)') :
-    (p.op === 'pair?') ? parseTE('(T -> boolean)') :
-    (p.op === 'symbol?') ? parseTE('(T -> boolean)') :
+    (p.op === 'number?') ? parseTE('(any -> is? number)') :
+    (p.op === 'boolean?') ? parseTE('(any -> is? boolean)') :
+    (p.op === 'string?') ? parseTE('(any -> is? string)') :
+    (p.op === 'list?') ? parseTE('(any -> is? (listof any))') :
+    (p.op === 'pair?') ? parseTE('(any -> is? (pair any any))') :
+    (p.op === 'symbol?') ? parseTE('(any -> is? symbol)') :
     (p.op === 'not') ? parseTE('(boolean -> boolean)') :
     (p.op === 'eq?') ? parseTE('(T1 * T2 -> boolean)') :
     (p.op === 'string=?') ? parseTE('(T1 * T2 -> boolean)') :
+    (p.op === 'string-length') ? parseTE('(string -> number)') :
     (p.op === 'display') ? parseTE('(T -> void)') :
+    (p.op === 'write') ? parseTE('(T -> void)') :
     (p.op === 'newline') ? parseTE('(Empty -> void)') :
+    (p.op === 'cons') ? parseTE('(T1 * T2 -> (pair T1 T2))') :
+    (p.op === 'car') ? parseTE('((pair T1 T2) -> T1)') :
+    (p.op === 'cdr') ? parseTE('((pair T1 T2) -> T2)') :
+    (p.op === 'list') ? parseTE('(T -> (listof T))') :
+    // The continuation passed to the receiver does not return to its caller
+    (p.op === 'call/cc') ? parseTE('(((T -> never) -> T) -> T)') :
+    // raise and error do not return (see typeofErrorApp for the irritants of error)
+    (p.op === 'raise') ? parseTE('(any -> never)') :
+    (p.op === 'error') ? parseTE('(string -> never)') :
+    (p.op === 'condition?') ? parseTE('(any -> is? condition)') :
+    (p.op === 'condition-kind') ? parseTE('(condition -> symbol)') :
+    (p.op === 'condition-message') ? parseTE('(condition -> string)') :
     makeFailure(`Primitive not yet implemented: ${p.op}`);
 
+// Purpose: the type of a primitive for the inference engines (see inferenceTExp)
+// The engines unify types and do not refine the type of a tested var:
+// the type predicates are plain boolean procs there - number? : (T_1 -> boolean)
+export const typeofInferencePrim = (p: PrimOp): Result<TExp> =>
+    mapv(typeofPrim(p), inferenceTExp);
+
+// Purpose: compute the type of a quoted literal from its value
+// Typing rule:
+//   type<'()> = (listof never)
+//   type<'sym> = symbol
+//   type<'(v1 . v2)> = cons-type(type<'v1>, type<'v2>)
+// so that a quoted proper list is a list of fixed length: '(1 "a") : (tuple number string)
+export const typeofLit = (exp: LitExp): TExp =>
+    typeofSExpValue(exp.val);
+
+// Purpose: compute the type of a quote expression
+// A quoted symbol, number, string or boolean has a literal type: 'a : 'a
+// the elements of a quoted list have the base types of their values (see typeofLit).
+const typeofQuote = (exp: LitExp): TExp =>
+    isSymbolSExp(exp.val) ? makeLitTExp(makeSymbolTExp(), exp.val.val) :
+    isNumber(exp.val) ? makeLitTExp(makeNumTExp(), exp.val) :
+    isBoolean(exp.val) ? makeLitTExp(makeBoolTExp(), exp.val) :
+    isString(exp.val) ? makeLitTExp(makeStrTExp(), exp.val) :
+    typeofLit(exp);
+
+const typeofSExpValue = (val: SExpValue): TExp =>
+    isNumber(val) ? makeNumTExp() :
+    isBoolean(val) ? makeBoolTExp() :
+    isString(val) ? makeStrTExp() :
+    isSymbolSExp(val) ? makeSymbolTExp() :
+    isEmptySExp(val) ? makeListTExp(makeNeverTExp()) :
+    isCompoundSExp(val) ? consTExp(typeofSExpValue(val.val1), typeofSExpValue(val.val2)) :
+    makeVoidTExp();
+
+// Purpose: the type of (cons car cdr)
+// Consing onto a list gives a list - otherwise a pair.
+// Consing onto the empty list or a list of fixed length gives a list of fixed length: (cons 1 '()) : (tuple number)
+export const consTExp = (carTE: TExp, cdrTE: TExp): TExp => {
+    const derefCdrTE = unfoldTExp(cdrTE);
+    return isListTExp(derefCdrTE) && ! isNeverTExp(tvarDeref(derefCdrTE.elementTE)) ?
+                makeListTExp(makeUnionTExp([carTE, derefCdrTE.elementTE])) :
+           makePairTExp(carTE, cdrTE);
+};
+
+// Purpose: the type of the car (or cdr) of a value of type te
+// A list of T has car T and cdr (listof T) - taking the car of an empty list
+// is a runtime error, as for any other partial primitive.
+// A union of pairs and lists is accessed component-wise.
+const pairAccessTExp = (op: "car" | "cdr", te: TExp): Result<TExp> =>
+    isTVar(te) && ! isEmptyTVar(te) ? pairAccessTExp(op, tvarDeref(te)) :
+    isAliasTExp(te) && ! isAliasTExp(unfoldTExp(te)) ? pairAccessTExp(op, unfoldTExp(te)) :
+    isNeverTExp(te) ? makeOk(te) :
+    isPairTExp(te) ? makeOk(op === "car" ? te.carTE : te.cdrTE) :
+    isListTExp(te) ? makeOk(op === "car" ? te.elementTE : te) :
+    isUnionTExp(te) ? mapv(mapResult((component: TExp) => pairAccessTExp(op, component), te.components),
+                           makeUnionTExp) :
+    bind(unparseTExp(te), (teString: string) => makeFailure(`${op} expects a pair - got ${teString}`));
+
+const isPairPrimOp = (x: Exp): x is PrimOp =>
+    isPrimOp(x) && ["cons", "car", "cdr", "list"].includes(x.op);
+
+// Purpose: compute the type of an application of cons, car, cdr or list
+// Typing rule:
+//   type<(cons e1 e2)>(tenv) = (pair t1 t2)  - (listof (union t1 t)) when t2 = (listof t) and t is not never
+//   type<(car e)>(tenv) = t1 when type<e>(tenv) = (pair t1 t2) - t when (listof t)
+//   type<(cdr e)>(tenv) = t2 when type<e>(tenv) = (pair t1 t2) - (listof t) when (listof t)
+//   type<(list e1 ... en)>(tenv) = (tuple t1 ... tn)
+// As in quoted lists, the literal types of the elements of cons and list are widened: (cons 1 #t) : (pair number boolean)
+const typeofPairPrimApp = (app: AppExp, op: PrimOp, tenv: TEnv, ctx: CheckContext): Result<TExp> => {
+    const arity = op.op === "cons" ? 2 : op.op === "list" ? app.rands.length : 1;
+    if (app.rands.length !== arity) {
+        return bind(unparse(app), (exp: string) => makeFailure<TExp>(`Wrong parameter numbers passed to proc: ${exp}`));
+    }
+    return bind(mapResult((rand: Exp) => typeofExp(rand, tenv, ctx), app.rands), (randTEs: TExp[]) =>
+        op.op === "cons" ? makeOk(consTExp(widenTExp(randTEs[0]), widenTExp(randTEs[1]))) :
+        op.op === "list" ? makeOk(makeFixedListTExp(map(widenTExp, randTEs))) :
+        op.op === "car" ? pairAccessTExp("car", randTEs[0]) :
+        pairAccessTExp("cdr", randTEs[0]));
+};
+
 export const makeUnion = (te1: TExp, te2: TExp): TExp =>
     isSubType(te1, te2) ? te2 :
     isSubType(te2, te1) ? te1 : 
     makeUnionTExp([te1, te2]);
 
-// Purpose: compute the type of an if-exp that is not a Type predicate
+// Purpose: compute the type of an if-exp
+// The branches are typed in the type environments refined by the test (see refineTest).
 // Typing rule:
 //   if type<test>(tenv) = boolean
-//      type<then>(tenv) = t1
-//      type<else>(tenv) = t1
-// then type<(if test then else)>(tenv) = t1
-export const typeofIfNormal = (ifExp: IfExp, tenv: TEnv): Result<TExp> => {
-    const testTE = typeofExp(ifExp.test, tenv);
-    const thenTE = typeofExp(ifExp.then, tenv);
-    const altTE = typeofExp(ifExp.alt, tenv);
-    const constraint1 = bind(testTE, testTE => checkCompatibleType(testTE, makeBoolTExp(), ifExp));
-    // L51
-    const constraint2 = bind(thenTE, (thenTE: TExp) =>
-                            bind(altTE, (altTE: TExp) =>
-                                makeOk(makeUnion(thenTE, altTE))));
+//      refine(test, tenv) = (tenv-true, tenv-false)
+//      type<then>(tenv-true) = t1
+//      type<else>(tenv-false) = t2
+// then type<(if test then else)>(tenv) = (union t1 t2)
+export const typeofIf = (ifExp: IfExp, tenv: TEnv, ctx: CheckContext): Result<TExp> => {
+    const testTE = typeofExp(ifExp.test, tenv, ctx);
+    const constraint1 = bind(testTE, testTE => checkCompatibleType(testTE, makeBoolTExp(), ifExp, ctx));
     return bind(constraint1, (_c1: true) =>
-                constraint2);
+                bind(refineTest(ifExp.test, tenv, ctx), ([thenTEnv, elseTEnv]: Refinement) =>
+                    bind(typeofExp(ifExp.then, thenTEnv, ctx), (thenTE: TExp) =>
+                        bind(typeofExp(ifExp.alt, elseTEnv, ctx), (altTE: TExp) =>
+                            makeOk(makeUnion(thenTE, altTE))))));
 };
 
-// TODO: decide what the return type
-// AVIAD : changed e to compount exp
-// L52 Structured methods
-const isTypePredApp = (e: Exp, tenv: TEnv): Result<TEnv> => {
-    if (!isAppExp(e))
-        return makeFailure("Error: is not AppExp!");
+// ========================================================
+// Occurrence typing
+// A test refines the types of the variables it examines: in the then-branch of (if test ...)
+// the test is known to be true, in the else-branch it is known to be false.
+// A Refinement holds these two type environments - each extends the tenv of the test
+// with the refined variables only.
+export type Refinement = [TEnv, TEnv];
+
+// Refinement frames shadow a variable without declaring it.
+const refinementFrames = new WeakSet<TEnv>();
+// The let frames whose variables may hold test results: frame -> [vals, tenv of the vals]
+const letBoundTests = new WeakMap<TEnv, [Exp[], TEnv]>();
 
-    const r = e.rands[0]
-    if (!isVarRef(r))
-        return makeFailure("Error: is not type predicate!");
+const makeRefinementTEnv = (vars: string[], tes: TExp[], tenv: TEnv): TEnv => {
+    if (isEmpty(vars))
+        return tenv;
+    const frame = makeExtendTEnv(vars, tes, tenv);
+    refinementFrames.add(frame);
+    return frame;
+};
 
-    return bind(typeofApp(e, tenv), (te: TExp) => 
-        isPredTExp(te) ? (makeOk(makeExtendTEnv([r.var], [te.type], tenv))) : 
-        makeFailure(""))
+// The refinement which never holds - the false side of #t and the true side of #f.
+// It is marked by an empty frame: any refinement on top of it never holds either.
+const impossibleFrames = new WeakSet<TEnv>();
 
-}
+const makeImpossibleTEnv = (tenv: TEnv): TEnv => {
+    const frame = makeExtendTEnv([], [], tenv);
+    refinementFrames.add(frame);
+    impossibleFrames.add(frame);
+    return frame;
+};
+
+const isImpossibleTEnv = (tenv: TEnv): boolean =>
+    ! isEmptyTEnv(tenv) && (impossibleFrames.has(tenv) || isImpossibleTEnv(tenv.tenv));
+
+// Purpose: compute the refinement of tenv by test
+// refine((pred x), tenv)       = (x=(inter tx t), x=(diff tx t))  when type<(pred x)> = is? t
+// refine((eq? x c), tenv)      = (x=(inter tx t), x=(diff tx t))  when type<c> = t is a literal type
+//                                (and the same for = and string=? - x and c in either order)
+// refine(#t, tenv)             = (tenv, never)
+// refine(#f, tenv)             = (never, tenv)
+// refine((not p), tenv)        = (false, true)                    where refine(p, tenv) = (true, false)
+// refine((and p1 p2), tenv)    = (true2, join(false1, false2))    where p2 is refined in true1
+// refine((or p1 p2), tenv)     = (join(true1, true2), false2)     where p2 is refined in false1
+// refine((if p1 p2 p3), tenv)  = (join(true2, true3), join(false2, false3))
+//                                where p2 is refined in true1 and p3 in false1
+// refine(v, tenv)              = refine(test, tenv) when v is let-bound to test
+// Any other test does not refine tenv. A join with never is the other refinement: join(never, env) = env.
+// Example: in (if (if (number? x) #t #f) x 0), x is a number in the then-branch.
+export const refineTest = (test: Exp, tenv: TEnv, ctx: CheckContext): Result<Refinement> =>
+    isBoolExp(test) ? makeOk(test.val ? [tenv, makeImpossibleTEnv(tenv)] : [makeImpossibleTEnv(tenv), tenv]) :
+    isAppExp(test) && isBoolOpApp(test, "not") && test.rands.length === 1 ?
+        mapv(refineTest(test.rands[0], tenv, ctx), ([t, f]: Refinement): Refinement => [f, t]) :
+    isAppExp(test) && isBoolOpApp(test, "and") ? refineAnd(test.rands, tenv, ctx) :
+    isAppExp(test) && isBoolOpApp(test, "or") ? refineOr(test.rands, tenv, ctx) :
+    isIfExp(test) ? refineIf(test, tenv, ctx) :
+    isVarRef(test) ? refineLetBoundTest(test.var, tenv, ctx) :
+    isAppExp(test) && isEqualityApp(test) ? refineEqualityApp(test, tenv, ctx) :
+    isAppExp(test) && test.rands.length === 1 && isVarRef(test.rands[0]) ? refinePredApp(test, test.rands[0].var, tenv, ctx) :
+    makeOk([tenv, tenv]);
+
+const isBoolOpApp = (app: AppExp, op: string): boolean =>
+    isPrimOp(app.rator) && app.rator.op === op;
+
+const refinePredApp = (app: AppExp, v: string, tenv: TEnv, ctx: CheckContext): Result<Refinement> =>
+    bind(mapv(typeofApp(app, tenv, ctx), unfoldTExp), (te: TExp) =>
+        ! isPredTExp(te) ? makeOk<Refinement>([tenv, tenv]) :
+        refineVar(v, te.type, tenv));
+
+const isEqualityApp = (app: AppExp): boolean =>
+    isPrimOp(app.rator) && ["eq?", "=", "string=?"].includes(app.rator.op) && app.rands.length === 2;
+
+const refineEqualityApp = (app: AppExp, tenv: TEnv, ctx: CheckContext): Result<Refinement> => {
+    const [x, y] = app.rands;
+    return isVarRef(x) ? refineEquality(x.var, y, tenv, ctx) :
+           isVarRef(y) ? refineEquality(y.var, x, tenv, ctx) :
+           makeOk([tenv, tenv]);
+};
+
+// A literal type has a single value - a variable equal to it has its type.
+const refineEquality = (v: string, val: Exp, tenv: TEnv, ctx: CheckContext): Result<Refinement> =>
+    bind(mapv(typeofExp(val, tenv, ctx), tvarDeref), (te: TExp) =>
+        ! isLitTExp(te) ? makeOk<Refinement>([tenv, tenv]) :
+        refineVar(v, te, tenv));
+
+// Purpose: refine v to its values of type te when the test is true - to its other values when it is false
+const refineVar = (v: string, te: TExp, tenv: TEnv): Result<Refinement> =>
+    mapv(applyTEnv(tenv, v), (declaredTE: TExp): Refinement => {
+        const varTE = instantiateVarTExp(declaredTE);
+        return [makeRefinementTEnv([v], [narrowTExp(varTE, te)], tenv),
+                makeRefinementTEnv([v], [makeDiffTExp(varTE, te)], tenv)];
+    });
+
+const refineAnd = (tests: Exp[], tenv: TEnv, ctx: CheckContext): Result<Refinement> =>
+    isEmpty(tests) ? makeOk([tenv, tenv]) :
+    tests.length === 1 ? refineTest(tests[0], tenv, ctx) :
+    bind(refineTest(tests[0], tenv, ctx), ([t1, f1]: Refinement) =>
+        mapv(refineAnd(tests.slice(1), t1, ctx), ([t2, f2]: Refinement): Refinement =>
+            [t2, joinTEnvs(f1, f2, tenv)]));
+
+const refineOr = (tests: Exp[], tenv: TEnv, ctx: CheckContext): Result<Refinement> =>
+    isEmpty(tests) ? makeOk([tenv, tenv]) :
+    tests.length === 1 ? refineTest(tests[0], tenv, ctx) :
+    bind(refineTest(tests[0], tenv, ctx), ([t1, f1]: Refinement) =>
+        mapv(refineOr(tests.slice(1), f1, ctx), ([t2, f2]: Refinement): Refinement =>
+            [joinTEnvs(t1, t2, tenv), f2]));
+
+const refineIf = (ifExp: IfExp, tenv: TEnv, ctx: CheckContext): Result<Refinement> =>
+    bind(refineTest(ifExp.test, tenv, ctx), ([t1, f1]: Refinement) =>
+        bind(refineTest(ifExp.then, t1, ctx), ([t2, f2]: Refinement) =>
+            mapv(refineTest(ifExp.alt, f1, ctx), ([t3, f3]: Refinement): Refinement =>
+                [joinTEnvs(t2, t3, tenv), joinTEnvs(f2, f3, tenv)])));
+
+// A variable bound by let to a test carries the refinement of the test,
+// as long as the tested variables are not shadowed by a new declaration.
+const refineLetBoundTest = (v: string, tenv: TEnv, ctx: CheckContext): Result<Refinement> => {
+    const frame = bindingFrame(tenv, v);
+    const bound = frame === undefined ? undefined : letBoundTests.get(frame);
+    if (frame === undefined || isEmptyTEnv(frame) || bound === undefined)
+        return makeOk([tenv, tenv]);
+    const [vals, valsTEnv] = bound;
+    return mapv(refineTest(vals[frame.vars.indexOf(v)], valsTEnv, ctx), ([t, f]: Refinement): Refinement =>
+                [transplantRefinement(t, valsTEnv, tenv), transplantRefinement(f, valsTEnv, tenv)]);
+};
+
+// Purpose: the frame of tenv which binds v - ignoring refinement frames when declaredOnly.
+const bindingFrame = (tenv: TEnv, v: string, declaredOnly: boolean = false): TEnv | undefined =>
+    isEmptyTEnv(tenv) ? undefined :
+    tenv.vars.includes(v) && ! (declaredOnly && refinementFrames.has(tenv)) ? tenv :
+    bindingFrame(tenv.tenv, v, declaredOnly);
+
+// Purpose: the variables refined in env on top of base
+const refinedVars = (env: TEnv, base: TEnv): string[] =>
+    env === base || isEmptyTEnv(env) ? [] :
+    uniq([...env.vars, ...refinedVars(env.tenv, base)]);
+
+// Purpose: the refinement which holds when either env1 or env2 holds (both extend base)
+const joinTEnvs = (env1: TEnv, env2: TEnv, base: TEnv): TEnv => {
+    if (isImpossibleTEnv(env1) || isImpossibleTEnv(env2))
+        return isImpossibleTEnv(env1) ? env2 : env1;
+    const vars = uniq([...refinedVars(env1, base), ...refinedVars(env2, base)]);
+    const tes = map((v: string) => makeUnion(applyRefinedTEnv(env1, v), applyRefinedTEnv(env2, v)), vars);
+    return makeRefinementTEnv(vars, tes, base);
+};
+
+// Purpose: apply the refinements made in env on top of base to tenv
+const transplantRefinement = (env: TEnv, base: TEnv, tenv: TEnv): TEnv => {
+    if (isImpossibleTEnv(env) && ! isImpossibleTEnv(base))
+        return makeImpossibleTEnv(tenv);
+    const vars = refinedVars(env, base).filter((v: string) =>
+                    bindingFrame(tenv, v, true) === bindingFrame(base, v, true));
+    const tes = map((v: string) => narrowTExp(applyRefinedTEnv(tenv, v), applyRefinedTEnv(env, v)), vars);
+    return makeRefinementTEnv(vars, tes, tenv);
+};
+
+const applyRefinedTEnv = (env: TEnv, v: string): TExp =>
+    either(mapv(applyTEnv(env, v), instantiateVarTExp), (te: TExp) => te, (_) => makeAnyTExp());
 
+// Purpose: the part of te which is also of type te2 - the type of a value of type te
+// once it is known to be of type te2 as well.
+const narrowTExp = (te: TExp, te2: TExp): TExp =>
+    isSubType(te, te2) ? te :
+    isSubType(te2, te) || isTVar(te) ? te2 :
+    isAliasTExp(te) && ! isAliasTExp(unfoldTExp(te)) ? narrowTExp(unfoldTExp(te), te2) :
+    isUnionTExp(te) ? makeUnionTExp(map((component: TExp) => narrowTExp(component, te2), te.components)) :
+    areDisjointTExps(te, te2) ? makeNeverTExp() :
+    makeInterTExp([te, te2]);
 
-export const typeofIf = (ifExp: IfExp, tenv: TEnv): Result<TExp> =>
-    either(
-        bind (isTypePredApp(ifExp.test, tenv), (env : TEnv) => {
-            const TEthen = typeofExp(ifExp.then, env);
-            const altTE1 = typeofExp(ifExp.alt, tenv);
-            return bind(TEthen, (thenTE:TExp) => 
-             bind(altTE1, (altTE: TExp) =>
-                makeOk(makeUnion(thenTE, altTE))))
-        }),
-        makeOk,
-        () => typeofIfNormal(ifExp, tenv));
+// Atomic types and record types have no common values unless one is a subtype of the other.
+const isDisjointTExp = (te: TExp): boolean =>
+    isAtomicTExp(te) || isRecordTExp(te);
 
+// Values of different kinds (atoms and records, pairs and lists, procs) have no common values:
+// (inter number (pair any any)) = never
+const valueKind = (te: TExp): string | undefined =>
+    isDisjointTExp(te) ? "atom" :
+    isPairTExp(te) || isListTExp(te) ? "pair" :
+    isProcTExp(te) ? "proc" :
+    undefined;
+
+// @Pre: neither te1 nor te2 is a subtype of the other
+const areDisjointTExps = (te1: TExp, te2: TExp): boolean => {
+    const kind1 = valueKind(te1);
+    const kind2 = valueKind(te2);
+    return kind1 !== undefined && kind2 !== undefined && (kind1 !== kind2 || kind1 === "atom");
+};
 
 // Purpose: compute the type of a proc-exp
 // Typing rule:
 // If   type<body>(extend-tenv(x1=t1,...,xn=tn; tenv)) = t
 // then type<lambda (x1:t1,...,xn:tn) : t exp)>(tenv) = (t1 * ... * tn -> t)
-export const typeofProc = (proc: ProcExp, tenv: TEnv): Result<TExp> => {
+export const typeofProc = (proc: ProcExp, tenv: TEnv, ctx: CheckContext): Result<TExp> => {
     if (isPredTExp(proc.returnTE))
-        return typeOfPredProc(proc, tenv);
+        return typeOfPredProc(proc, tenv, ctx);
 
     const argsTEs = map((vd) => vd.texp, proc.args);
     const extTEnv = makeExtendTEnv(map((vd) => vd.var, proc.args), argsTEs, tenv);
-    const constraint1 = bind(typeofExps(proc.body, extTEnv), (body: TExp) => 
-                            checkCompatibleType(body, proc.returnTE, proc));
+    const constraint1 = bind(typeofBody(proc.body, extTEnv, ctx), (body: TExp) => 
+                            checkCompatibleType(body, proc.returnTE, proc, ctx));
     return bind(constraint1, _ => makeOk(makeProcTExp(argsTEs, proc.returnTE)));
 };
 
 
 
-export const typeOfPredProc = (proc: ProcExp, tenv: TEnv): Result<TExp> => {
+export const typeOfPredProc = (proc: ProcExp, tenv: TEnv, ctx: CheckContext): Result<TExp> => {
     if (proc.args.length != 1)
-        return makeFailure("type predicate must take only 1 argument! got ${proc.args.length}")
+        return makeFailure(`type predicate must take only 1 argument! got ${proc.args.length}`)
 
     const argsTEs = map((vd) => vd.texp, proc.args);
     const extTEnv = makeExtendTEnv(map((vd) => vd.var, proc.args), argsTEs, tenv);
-    const constraint1 = bind(typeofExps(proc.body, extTEnv), (body: TExp) => 
-                            isBoolExp(body) ? makeOk(true) : bind(unparseTExp(body), (body: string) => makeFailure("Type of body must be bool for type predicate! got type: ${body}))")));
+    const constraint1 = bind(typeofBody(proc.body, extTEnv, ctx), (body: TExp) => 
+                            isSubType(body, makeBoolTExp()) ? makeOk(true) : bind(unparseTExp(body), (body: string) => makeFailure(`Type of body must be bool for type predicate! got type: ${body}`)));
     return bind(constraint1, _ => makeOk(makeProcTExp(argsTEs, proc.returnTE)));
 }
 
@@ -211,8 +673,17 @@ export const typeOfPredProc = (proc: ProcExp, tenv: TEnv): Result<TExp> => {
 //      type<randn>(tenv) = tn
 // then type<(rator rand1...randn)>(tenv) = t
 // We also check the correct number of arguments is passed.
-export const typeofApp = (app: AppExp, tenv: TEnv): Result<TExp> =>
-    bind(typeofExp(app.rator, tenv), (ratorTE: TExp) => {
+// The application of a never operator (an expression which failed in diagnostics mode) is never.
+// The instance type variables bound by the operands are replaced in t (see InstanceSubst).
+// The pair primitives are typed by their own rules (see typeofPairPrimApp).
+export const typeofApp = (app: AppExp, tenv: TEnv, ctx: CheckContext): Result<TExp> =>
+    isPairPrimOp(app.rator) ? typeofPairPrimApp(app, app.rator, tenv, ctx) :
+    isBoolOpApp(app, "and") || isBoolOpApp(app, "or") ? typeofBoolOpApp(app, tenv, ctx) :
+    isErrorApp(app) ? typeofErrorApp(app, tenv, ctx) :
+    bind(mapv(typeofExp(app.rator, tenv, ctx), unfoldTExp), (ratorTE: TExp) => {
+        if (isNeverTExp(ratorTE)) {
+            return makeOk(ratorTE);
+        }
         if (! isProcTExp(ratorTE)) {
             return bind(unparseTExp(ratorTE), (rator: string) =>
                         bind(unparse(app), (exp: string) =>
@@ -221,12 +692,50 @@ export const typeofApp = (app: AppExp, tenv: TEnv): Result<TExp> =>
         if (app.rands.length !== ratorTE.paramTEs.length) {
             return bind(unparse(app), (exp: string) => makeFailure<TExp>(`Wrong parameter numbers passed to proc: ${exp}`));
         }
-        const constraints = zipWithResult((rand, trand) => bind(typeofExp(rand, tenv), (typeOfRand: TExp) => 
-                                                                checkCompatibleType(typeOfRand, trand, app)),
+        const subst: InstanceSubst = new Map();
+        const constraints = zipWithResult((rand, trand) => bind(typeofExp(rand, tenv, ctx), (typeOfRand: TExp) => 
+                                                                checkCompatibleType(typeOfRand, trand, app, ctx, subst)),
                                           app.rands, ratorTE.paramTEs);
-        return bind(constraints, _ => makeOk(ratorTE.returnTE));
+        return bind(constraints, _ => makeOk(applyInstanceSubst(ratorTE.returnTE, subst)));
     });
 
+// Purpose: compute the type of an application of error
+// Typing rule:
+//   if type<message>(tenv) = string
+//      type<irritant1>(tenv) = t1 ... type<irritantn>(tenv) = tn
+// then type<(error message irritant1 ... irritantn)>(tenv) = never
+const typeofErrorApp = (app: AppExp, tenv: TEnv, ctx: CheckContext): Result<TExp> => {
+    const rands: Exp[] = app.rands;
+    return ! isNonEmptyList<Exp>(rands) ?
+        bind(unparse(app), (exp: string) => makeFailure<TExp>(`Wrong parameter numbers passed to proc: ${exp}`)) :
+    bind(typeofExp(first(rands), tenv, ctx), (messageTE: TExp) =>
+        bind(checkCompatibleType(messageTE, makeStrTExp(), app, ctx), (_c: true) =>
+            mapv(mapResult((irritant: Exp) => typeofExp(irritant, tenv, ctx), rest(rands)), (_irritantTEs: TExp[]) =>
+                makeNeverTExp())));
+};
+
+const isErrorApp = (app: AppExp): boolean =>
+    isPrimOp(app.rator) && app.rator.op === "error";
+
+// Purpose: compute the type of an application of and / or.
+// The operands are evaluated left to right until one decides the result,
+// so each operand is typed in the refinement of the operands before it.
+// Typing rule:
+//   if type<p1>(tenv) = boolean
+//      refine(p1, tenv) = (tenv-true, tenv-false)
+//      type<p2>(tenv-true) = boolean            [tenv-false for or]
+// then type<(and p1 p2)>(tenv) = boolean
+const typeofBoolOpApp = (app: AppExp, tenv: TEnv, ctx: CheckContext): Result<TExp> =>
+    bind(typeofBoolOperands(app.rands, isBoolOpApp(app, "and"), app, tenv, ctx), (_: true) =>
+        makeOk(makeBoolTExp()));
+
+const typeofBoolOperands = (rands: Exp[], isAnd: boolean, app: AppExp, tenv: TEnv, ctx: CheckContext): Result<true> =>
+    ! isNonEmptyList<Exp>(rands) ? makeOk(true) :
+    bind(typeofExp(first(rands), tenv, ctx), (randTE: TExp) =>
+        bind(checkCompatibleType(randTE, makeBoolTExp(), app, ctx), (_: true) =>
+            bind(refineTest(first(rands), tenv, ctx), ([t, f]: Refinement) =>
+                typeofBoolOperands(rest(rands), isAnd, app, isAnd ? t : f, ctx))));
+
 // Purpose: compute the type of a let-exp
 // Typing rule:
 // If   type<val1>(tenv) = t1
@@ -234,16 +743,181 @@ export const typeofApp = (app: AppExp, tenv: TEnv): Result<TExp> =>
 //      type<valn>(tenv) = tn
 //      type<body>(extend-tenv(var1=t1,..,varn=tn; tenv)) = t
 // then type<let ((var1 val1) .. (varn valn)) body>(tenv) = t
-export const typeofLet = (exp: LetExp, tenv: TEnv): Result<TExp> => {
+// The types of the vars are generalized in the body: gen(ti, tenv) (see generalizeTExp).
+export const typeofLet = (exp: LetExp, tenv: TEnv, ctx: CheckContext): Result<TExp> => {
     const vars = map((b) => b.var.var, exp.bindings);
     const vals = map((b) => b.val, exp.bindings);
     const varTEs = map((b) => b.var.texp, exp.bindings);
-    const constraints = zipWithResult((varTE, val) => bind(typeofExp(val, tenv), (typeOfVal: TExp) => 
-                                                            checkCompatibleType(varTE, typeOfVal, exp)),
+    const constraints = zipWithResult((varTE, val) => bind(typeofExp(val, tenv, ctx), (typeOfVal: TExp) => 
+                                                            checkCompatibleType(typeOfVal, varTE, exp, ctx)),
                                       varTEs, vals);
-    return bind(constraints, _ => typeofExps(exp.body, makeExtendTEnv(vars, varTEs, tenv)));
+    const bodyTEnv = makeExtendTEnv(vars, map((te) => generalizeTExp(te, tenv), varTEs), tenv);
+    letBoundTests.set(bodyTEnv, [vals, tenv]);
+    return bind(constraints, _ => typeofBody(exp.body, bodyTEnv, ctx));
+};
+
+
+// Purpose: compute the type of a let*-exp
+// Each binding is typed in the scope of the bindings before it.
+// Typing rule:
+//   (let* ((x1 v1) (x2 v2) ...) body) is typed as (let ((x1 v1)) (let* ((x2 v2) ...) body))
+//   (let* () body) is typed as body
+export const typeofLetStar = (bindings: Binding[], body: Exp[], tenv: TEnv, ctx: CheckContext): Result<TExp> => {
+    if (! isNonEmptyList<Binding>(bindings))
+        return typeofBody(body, tenv, ctx);
+    const bdg = first(bindings);
+    const bodyTEnv = makeExtendTEnv([bdg.var.var], [generalizeTExp(bdg.var.texp, tenv)], tenv);
+    letBoundTests.set(bodyTEnv, [[bdg.val], tenv]);
+    return bind(typeofExp(bdg.val, tenv, ctx), (valTE: TExp) =>
+                bind(checkCompatibleType(valTE, bdg.var.texp, bdg.val, ctx), (_c: true) =>
+                    typeofLetStar(rest(bindings), body, bodyTEnv, ctx)));
+};
+
+// Purpose: compute the type of a cond-exp
+// Each clause is typed in the refinement of tenv by the failure of the tests before it,
+// its body in the refinement by the success of its own test (as in typeofIf).
+// Typing rule:
+//   if type<test1>(tenv) = boolean
+//      refine(test1, tenv) = (tenv-true, tenv-false)
+//      type<body1>(tenv-true) = t1           [t1 = boolean when body1 is empty]
+//      type<(cond clause2 ...)>(tenv-false) = t2
+// then type<(cond (test1 body1) clause2 ...)>(tenv) = (union t1 t2)
+//   if type<test1>(tenv) = t, type<receiver>(tenv-true) = (t -> t1)
+// then type<(cond (test1 => receiver) clause2 ...)>(tenv) = (union t1 t2)
+//   type<(cond (else body))>(tenv) = type<body>(tenv)
+//   type<(cond)>(tenv) = void
+export const typeofCondClauses = (clauses: CondClause[], alt: Exp[], tenv: TEnv,
+                                  ctx: CheckContext, noMatchTE: TExp = makeVoidTExp()): Result<TExp> => {
+    if (! isNonEmptyList<CondClause>(clauses))
+        return isEmpty(alt) ? makeOk(noMatchTE) : typeofExps(alt, tenv, ctx);
+    const clause = first(clauses);
+    const testTE = clause.isArrow ? typeofExp(clause.test, tenv, ctx) :
+                   bind(typeofExp(clause.test, tenv, ctx), (testTE: TExp) =>
+                        mapv(checkCompatibleType(testTE, makeBoolTExp(), clause.test, ctx), (_c: true) => testTE));
+    return bind(testTE, (testTE: TExp) =>
+            bind(refineTest(clause.test, tenv, ctx), ([thenTEnv, elseTEnv]: Refinement) =>
+                bind(clause.isArrow ? typeofCondReceiver(clause.body[0], testTE, thenTEnv, ctx) :
+                     isEmpty(clause.body) ? makeOk(testTE) :
+                     typeofExps(clause.body, thenTEnv, ctx), (clauseTE: TExp) =>
+                    mapv(typeofCondClauses(rest(clauses), alt, elseTEnv, ctx, noMatchTE), (restTE: TExp) =>
+                        makeUnion(clauseTE, restTE)))));
+};
+
+// The receiver of (test => receiver) is applied to the value of test.
+const typeofCondReceiver = (receiver: Exp, testTE: TExp, tenv: TEnv, ctx: CheckContext): Result<TExp> =>
+    bind(mapv(typeofExp(receiver, tenv, ctx), unfoldTExp), (receiverTE: TExp) =>
+        isNeverTExp(receiverTE) ? makeOk(receiverTE) :
+        isProcTExp(receiverTE) && receiverTE.paramTEs.length === 1 ?
+            mapv(checkCompatibleType(testTE, receiverTE.paramTEs[0], receiver, ctx), (_c: true) =>
+                tvarDeref(receiverTE.returnTE)) :
+        bind(unparseTExp(receiverTE), (te: string) =>
+            makeFailure<TExp>(`The receiver of a cond clause must be a procedure of one parameter - got ${te}`)));
+
+// Purpose: compute the type of a case-exp
+// Typing rule:
+//   if type<key>(tenv) = t
+//      type<body1>(tenv) = t1 ... type<bodyn>(tenv) = tn
+//      type<else-body>(tenv) = te       [te = void when there is no else clause]
+// then type<(case key ((d ...) body1) ... ((d ...) bodyn) (else else-body))>(tenv) = (union t1 ... tn te)
+export const typeofCase = (exp: CaseExp, tenv: TEnv, ctx: CheckContext): Result<TExp> =>
+    bind(typeofExp(exp.key, tenv, ctx), (_keyTE: TExp) =>
+        bind(mapResult((clause: CaseClause) => typeofExps(clause.body, tenv, ctx), exp.clauses), (clauseTEs: TExp[]) =>
+            mapv(isEmpty(exp.alt) ? makeOk(makeVoidTExp()) : typeofExps(exp.alt, tenv, ctx), (altTE: TExp) =>
+                reduce(makeUnion, altTE, clauseTEs))));
+
+// Purpose: compute the type of a when-exp or an unless-exp
+// Typing rule:
+//   if type<test>(tenv) = boolean
+//      refine(test, tenv) = (tenv-true, tenv-false)
+//      type<body>(tenv-true) = t         [tenv-false for unless]
+// then type<(when test body)>(tenv) = (union t void)
+export const typeofWhen = (exp: WhenExp | UnlessExp, tenv: TEnv, ctx: CheckContext): Result<TExp> =>
+    bind(typeofExp(exp.test, tenv, ctx), (testTE: TExp) =>
+        bind(checkCompatibleType(testTE, makeBoolTExp(), exp, ctx), (_c: true) =>
+            bind(refineTest(exp.test, tenv, ctx), ([thenTEnv, elseTEnv]: Refinement) =>
+                mapv(typeofExps(exp.body, isWhenExp(exp) ? thenTEnv : elseTEnv, ctx), (bodyTE: TExp) =>
+                    makeUnion(bodyTE, makeVoidTExp())))));
+
+// Purpose: compute the type of a guard-exp
+// Any value can be raised: the var of guard has type any, and the clauses narrow it as in cond.
+// When no clause applies the value is raised again - there is no void alternative.
+// Typing rule:
+//   if type<body>(tenv) = t
+//      type<(cond clause ... (else alt))>(extend-tenv(var=any; tenv)) = tc   [never when no clause applies]
+// then type<(guard (var clause ... (else alt)) body)>(tenv) = (union t tc)
+export const typeofGuard = (exp: GuardExp, tenv: TEnv, ctx: CheckContext): Result<TExp> =>
+    bind(typeofBody(exp.body, tenv, ctx), (bodyTE: TExp) =>
+        mapv(typeofCondClauses(exp.clauses, exp.alt, makeExtendTEnv([exp.var.var], [makeAnyTExp()], tenv), ctx, makeNeverTExp()),
+             (handlerTE: TExp) => makeUnion(bodyTE, handlerTE)));
+
+// Purpose: compute the type of a match-exp
+// The cases of the match are the variants in the type of val - val must be of a datatype.
+// The clause of a variant is typed with val narrowed to the variant (when val is a variable)
+// and the vars of the clause bound to the types of its fields.
+// Typing rule:
+//   if type<val>(tenv) = (union (v1 s...) ... (vn s...))
+//      fields((vi s...)) = (ti1 ... tik)
+//      type<bodyi>(extend-tenv(xi1=ti1, ..., xik=tik; tenv)) = ti
+//      type<else-body>(tenv) = te       [val narrowed to the variants without a clause]
+// then type<(match val ((v1 x11 ... x1k) body1) ... (else else-body))>(tenv) = (union t1 ... tn te)
+// A match without an else clause must have a clause for each variant - the missing variants are reported.
+export const typeofMatch = (exp: MatchExp, tenv: TEnv, ctx: CheckContext): Result<TExp> =>
+    bind(mapv(typeofExp(exp.val, tenv, ctx), unfoldTExp), (valTE: TExp) => {
+        const cases = map(unfoldTExp, isUnionTExp(valTE) ? valTE.components : [valTE]);
+        return isNeverTExp(valTE) ? makeOk(valTE) :
+            ! allT(isVariantTExp, cases) ? bind(unparseTExp(valTE), (te: string) =>
+                                            makeFailure<TExp>(`match expects a value of a datatype - got ${te}`)) :
+            typeofMatchClauses(exp, exp.clauses, cases, cases, tenv, ctx);
+    });
+
+// cases are the variants which no clause before clauses matches - valCases are the variants of the matched value.
+// A clause of another variant of the same datatype is accepted: the value of a constructor has the type of its variant,
+// so (match (circle 1) ((circle r) r) ((square s) s)) is well typed. The clause is never selected - it is
+// reported as a warning and does not contribute to the type of the match.
+const typeofMatchClauses = (exp: MatchExp, clauses: MatchClause[], valCases: RecordTExp[], cases: RecordTExp[],
+                            tenv: TEnv, ctx: CheckContext): Result<TExp> => {
+    if (! isNonEmptyList<MatchClause>(clauses))
+        return typeofMatchElse(exp, cases, tenv, ctx);
+    const clause = first(clauses);
+    const caseTE = cases.find((c: RecordTExp) => c.name === clause.variant);
+    const siblingTE = valCases.map((c: RecordTExp) => siblingVariantTExp(c, clause.variant)).find((te) => te !== undefined);
+    return caseTE !== undefined ?
+            bind(typeofMatchClause(clause, caseTE, refineMatchedVal(exp, caseTE, tenv), ctx), (clauseTE: TExp) =>
+                mapv(typeofMatchClauses(exp, rest(clauses), valCases, cases.filter((c: RecordTExp) => c !== caseTE), tenv, ctx),
+                     (restTE: TExp) => makeUnion(clauseTE, restTE))) :
+        exp.clauses.indexOf(clause) > exp.clauses.findIndex((c: MatchClause) => c.variant === clause.variant) ?
+            makeFailure(`Unreachable match clause: ${clause.variant}`) :
+        siblingTE !== undefined ?
+            bind(typeofMatchClause(clause, siblingTE, tenv, ctx), (_: TExp) => {
+                reportDiagnostic(makeDiagnostic(`Unreachable match clause: the matched value is never a ${clause.variant}`,
+                                                "warning", exp), ctx.diagnostics);
+                return typeofMatchClauses(exp, rest(clauses), valCases, cases, tenv, ctx);
+            }) :
+        bind(unparseTExp(makeUnionTExp(valCases)), (te: string) =>
+            makeFailure<TExp>(`${clause.variant} is not a variant of the type of the matched value ${te}`));
+};
+
+// Purpose: the type of the body of clause when the matched value has the variant type caseTE
+const typeofMatchClause = (clause: MatchClause, caseTE: RecordTExp, tenv: TEnv, ctx: CheckContext): Result<TExp> => {
+    const fieldTEs = variantFieldTEs(caseTE);
+    return fieldTEs === undefined ? makeFailure(`${clause.variant} is not a variant of a datatype`) :
+        fieldTEs.length !== clause.vars.length ?
+            makeFailure(`Match clause ${clause.variant} expects ${fieldTEs.length} variables - got ${clause.vars.length}`) :
+        typeofExps(clause.body, makeExtendTEnv(map((v: VarDecl) => v.var, clause.vars), fieldTEs, tenv), ctx);
+};
+
+// The else clause matches the remaining cases - without an else clause there must be none.
+const typeofMatchElse = (exp: MatchExp, cases: RecordTExp[], tenv: TEnv, ctx: CheckContext): Result<TExp> => {
+    if (! isEmpty(exp.alt))
+        return typeofExps(exp.alt, refineMatchedVal(exp, makeUnionTExp(cases), tenv), ctx);
+    if (isEmpty(cases))
+        return makeOk(makeNeverTExp());
+    const message = `Non-exhaustive match - missing variants: ${cases.map((c: RecordTExp) => c.name).join(", ")}`;
+    return reportDiagnostic(makeDiagnostic(message, "error", exp), ctx.diagnostics) ? makeOk(makeNeverTExp()) : makeFailure(message);
 };
 
+const refineMatchedVal = (exp: MatchExp, te: TExp, tenv: TEnv): TEnv =>
+    isVarRef(exp.val) ? makeRefinementTEnv([exp.val.var], [te], tenv) : tenv;
 
 // Purpose: compute the type of a letrec-exp
 // We make the same assumption as in L4 that letrec only binds proc values.
@@ -256,7 +930,7 @@ export const typeofLet = (exp: LetExp, tenv: TEnv): Result<TExp> => {
 //      type<bodyn>(tenvn) = tn
 //      type<body>(tenv-body) = t
 // then type<(letrec((p1 (lambda (x11 ... x1n1) body1)) ...) body)>(tenv-body) = t
-export const typeofLetrec = (exp: LetrecExp, tenv: TEnv): Result<TExp> => {
+export const typeofLetrec = (exp: LetrecExp, tenv: TEnv, ctx: CheckContext): Result<TExp> => {
     const ps = map((b) => b.var.var, exp.bindings);
     const procs = map((b) => b.val, exp.bindings);
     if (! allT(isProcExp, procs))
@@ -268,48 +942,138 @@ export const typeofLetrec = (exp: LetrecExp, tenv: TEnv): Result<TExp> => {
     const tenvBody = makeExtendTEnv(ps, zipWith((tij, ti) => makeProcTExp(tij, ti), tijs, tis), tenv);
     const tenvIs = zipWith((params, tij) => makeExtendTEnv(map((p) => p.var, params), tij, tenvBody),
                            paramss, tijs);
-    const types = zipWithResult((bodyI, tenvI) => typeofExps(bodyI, tenvI), bodies, tenvIs)
+    const types = zipWithResult((bodyI, tenvI) => typeofBody(bodyI, tenvI, ctx), bodies, tenvIs)
     const constraints = bind(types, (types: TExp[]) => 
-                            zipWithResult((typeI, ti) => checkCompatibleType(typeI, ti, exp), types, tis));
-    return bind(constraints, _ => typeofExps(exp.body, tenvBody));
+                            zipWithResult((typeI, ti) => checkCompatibleType(typeI, ti, exp, ctx), types, tis));
+    return bind(constraints, _ => typeofBody(exp.body, tenvBody, ctx));
 };
 
+// Purpose: compute the type of a named let
+// Typing rule:
+//   (let p ((x1 v1) ... (xn vn)) : t body)
+//   tenv-p = extend-tenv(p=(t1 * ... * tn -> t); tenv)
+// If   type<vi>(tenv) = ti
+//      type<body>(extend-tenv(x1=t1, ..., xn=tn; tenv-p)) = t
+// then type<(let p ((x1 v1) ... (xn vn)) : t body)>(tenv) = t
+export const typeofNamedLet = (exp: NamedLetExp, tenv: TEnv, ctx: CheckContext): Result<TExp> => {
+    const vars = map((b) => b.var.var, exp.bindings);
+    const vals = map((b) => b.val, exp.bindings);
+    const varTEs = map((b) => b.var.texp, exp.bindings);
+    const tenvP = makeExtendTEnv([exp.name], [makeProcTExp(varTEs, exp.returnTE)], tenv);
+    const constraints = zipWithResult((varTE, val) => bind(typeofExp(val, tenv, ctx), (typeOfVal: TExp) =>
+                                                            checkCompatibleType(typeOfVal, varTE, exp, ctx)),
+                                      varTEs, vals);
+    const constraint2 = bind(constraints, _ =>
+                            bind(typeofBody(exp.body, makeExtendTEnv(vars, varTEs, tenvP), ctx), (bodyTE: TExp) =>
+                                checkCompatibleType(bodyTE, exp.returnTE, exp, ctx)));
+    return mapv(constraint2, _ => exp.returnTE);
+};
+
+// Purpose: compute the type of a set! exp
+// Typing rule:
+//   (set! var val)
+// If   type<var>(tenv) = t
+//      type<val>(tenv) is compatible with t
+// then type<(set! var val)>(tenv) = void
+export const typeofSet = (exp: SetExp, tenv: TEnv, ctx: CheckContext): Result<VoidTExp> =>
+    bind(applyTEnv(tenv, exp.var.var), (varTE: TExp) =>
+        bind(typeofExp(exp.val, tenv, ctx), (valTE: TExp) =>
+            mapv(checkCompatibleType(valTE, varTE, exp, ctx), _ => makeVoidTExp())));
+
 // Typecheck a full program
 // TODO: Thread the TEnv (as in L1)
 
 // Purpose: compute the type of a define
 // Typing rule:
 //   (define (var : texp) val)
-// TODO - write the true definition
-export const typeofDefine = (exp: DefineExp, tenv: TEnv): Result<VoidTExp> =>
-    bind(typeofExp(exp.val, makeExtendTEnv([exp.var.var], [exp.var.texp], tenv)),
-         _ => makeOk(makeVoidTExp()));
+// If   type<val>(extend-tenv(var=texp; tenv)) = t
+//      t is compatible with texp
+// then type<(define (var : texp) val)>(tenv) = void
+// An unannotated var gets the type of val with its literal types and lists of fixed length widened:
+// (define x 1) declares x : number, (define xs (list 1 2)) declares xs : (listof number)
+// The type of the var is not written in the define - the exps after it are typed in a tenv extended with it
+// (see typeofDefineVar).
+export const typeofDefine = (exp: DefineExp, tenv: TEnv, ctx: CheckContext): Result<VoidTExp> =>
+    mapv(typeofDefineVarTExp(exp, tenv, ctx), _ => makeVoidTExp());
+
+// Purpose: compute the type of the var of a define and check its val
+const typeofDefineVarTExp = (exp: DefineExp, tenv: TEnv, ctx: CheckContext): Result<TExp> =>
+    bind(typeofExp(exp.val, makeExtendTEnv([exp.var.var], [exp.var.texp], tenv), ctx), (valTE: TExp) => {
+        const varTE = isFreshTVar(exp.var.texp) && isEmptyTVar(exp.var.texp) ? widenDefinedTExp(valTE) : exp.var.texp;
+        return mapv(checkCompatibleType(valTE, varTE, exp, ctx), _ => varTE);
+    });
 
 
+// Purpose: the types of the procedures defined by a define-record - in the order of recordProcNames
+// Typing rule:
+//   (define-record r ((f1 : t1) ... (fn : tn)))
+//   make-r    : (t1 * ... * tn -> r)
+//   r?        : (any -> is? r)
+//   r-fi      : (r -> ti)
+//   set-r-fi! : (r * ti -> void)    for a mutable field fi
+// A field without a type annotation has type any.
+export const recordProcTEs = (exp: DefineRecordExp): TExp[] => {
+    const recordTE = makeRecordTExp(exp.name);
+    const fieldTE = (f: RecordField): TExp => isFreshTVar(f.var.texp) ? makeAnyTExp() : f.var.texp;
+    return [makeProcTExp(map(fieldTE, exp.fields), recordTE),
+            makeProcTExp([makeAnyTExp()], makePredTExp(recordTE)),
+            ...chain((f: RecordField) => f.mutable ?
+                        [makeProcTExp([recordTE], fieldTE(f)), makeProcTExp([recordTE, fieldTE(f)], makeVoidTExp())] :
+                        [makeProcTExp([recordTE], fieldTE(f))],
+                     exp.fields)];
+};
+
+// Purpose: the types of the procedures defined by a define-datatype - in the order of datatypeProcNames
+// Typing rule:
+//   (define-datatype (d T1 ... Tm) (v (f1 : t1) ... (fn : tn)) ...)
+//   v  : (forall (T1 ... Tm) (t1 * ... * tn -> (v T1 ... Tm)))
+//   v? : (any -> is? (v any ... any))
+// A field without a type annotation has type any.
+export const datatypeProcTEs = (exp: DefineDatatypeExp): TExp[] => {
+    const params = map(makeTVar, exp.params);
+    const fieldTE = (f: VarDecl): TExp => isFreshTVar(f.texp) ? makeAnyTExp() : f.texp;
+    const constructorTE = (v: Variant): TExp => {
+        const te = makeProcTExp(map(fieldTE, v.fields), makeRecordTExp(v.name, params));
+        return isEmpty(params) ? te : makeForallTExp(params, te);
+    };
+    return chain((v: Variant) => [constructorTE(v),
+                                  makeProcTExp([makeAnyTExp()], makePredTExp(makeRecordTExp(v.name, map(makeAnyTExp, params))))],
+                 exp.variants);
+};
+
+export const typeDefinitionProcTEs = (exp: TypeDefinition): TExp[] =>
+    isDefineRecordExp(exp) ? recordProcTEs(exp) :
+    isDefineDatatypeExp(exp) ? datatypeProcTEs(exp) :
+    [];
+
 // Purpose: compute the type of a program
 // Typing rule: 
 // We use the same technique to update TEnv as we did for Env in the L2 interpreter.
-export const typeofProgram = (exp: Program, tenv: TEnv): Result<TExp> =>
-    typeofSequence(exp.exps, tenv);
+export const typeofProgram = (exp: Program, tenv: TEnv, ctx: CheckContext = {}): Result<TExp> =>
+    mapv(typeofSequence(exp.exps, tenv, ctx), ([te, _]: [TExp, TEnv]) => te);
 
 // Purpose: Compute the type of a sequence of expressions
-// Check all the exps in a sequence - return type of last.
+// Check all the exps in a sequence - return type of last with the tenv extended by the definitions of the sequence.
 // Thread the tenv when meeting a defineExp
 // Pre-conditions: exps is not empty.
-export const typeofSequence = (seq: List<Exp>, tenv: TEnv): Result<TExp> =>
-    isNonEmptyList<Exp>(seq) ? typeofSequenceFirst(first(seq), rest(seq), tenv) :
+export const typeofSequence = (seq: List<Exp>, tenv: TEnv, ctx: CheckContext): Result<[TExp, TEnv]> =>
+    isNonEmptyList<Exp>(seq) ? typeofSequenceFirst(first(seq), rest(seq), tenv, ctx) :
     makeFailure("Empty sequence");
     
-const typeofSequenceFirst = (first: Exp, rest: Exp[], tenv: TEnv): Result<TExp> =>
-    isEmpty(rest) ? typeofExp(first, tenv) :
-    isDefineExp(first) ? typeofDefineExps(first, rest, tenv) :
-    // _ is a don't care parameter
-    bind(typeofExp(first, tenv), _ => 
-         typeofSequence(rest, tenv));
+const typeofSequenceFirst = (first: Exp, rest: Exp[], tenv: TEnv, ctx: CheckContext): Result<[TExp, TEnv]> =>
+    isDefineExp(first) ? typeofDefineExps(first, rest, tenv, ctx) :
+    isTypeDefinition(first) ? bind(typeofExp(first, tenv, ctx), (te: TExp) =>
+                                    typeofSequenceRest(te, rest, extendDefineTEnv(tenv, first), ctx)) :
+    bind(typeofExp(first, tenv, ctx), (te: TExp) => 
+         typeofSequenceRest(te, rest, tenv, ctx));
+
+const typeofSequenceRest = (te: TExp, rest: Exp[], tenv: TEnv, ctx: CheckContext): Result<[TExp, TEnv]> =>
+    isEmpty(rest) ? makeOk([te, tenv]) : typeofSequence(rest, tenv, ctx);
 
 // Eval a sequence of expressions when the first exp is a Define.
 // Compute the rhs of the define, extend the env with the new binding
 // then compute the rest of the exps in the new env.
-const typeofDefineExps = (def: DefineExp, exps: Exp[], tenv: TEnv): Result<TExp> =>
-    bind(typeofDefine(def, tenv), (_) => 
-         typeofSequence(exps, makeExtendTEnv([def.var.var], [def.var.texp], tenv)));
\ No newline at end of file
+// The type of the defined var is generalized for the rest of the exps.
+const typeofDefineExps = (def: DefineExp, exps: Exp[], tenv: TEnv, ctx: CheckContext): Result<[TExp, TEnv]> =>
+    bind(typeofDefineVar(def, tenv, ctx), (varTE: TExp) => 
+         typeofSequenceRest(makeVoidTExp(), exps, makeExtendTEnv([def.var.var], [generalizeTExp(varTE, tenv)], tenv), ctx));
\ No newline at end of file
@@ -9,6 +9,7 @@ import { allT, first, rest, isEmpty, isNonEmptyList } from "../shared/list";
 import { Result, makeFailure, makeOk, bind, zipWithResult, mapResult, mapv } from "../shared/result";
 import { parse as p } from "../shared/parser";
 import { format } from "../shared/format";
+import { locateFailure } from "../shared/source";
 
 // Purpose: Make type expressions equivalent by deriving a unifier
 // Return an error if the types are not unifiable.
@@ -19,15 +20,43 @@ const checkEqualType = (te1: T.TExp | undefined, te2: T.TExp, exp: A.Exp): Resul
     T.isTVar(te1) && T.isTVar(te2) ? ((T.eqTVar(te1, te2) ? makeOk(true) : checkTVarEqualTypes(te1, te2, exp))) :
     T.isTVar(te1) ? checkTVarEqualTypes(te1, te2, exp) :
     T.isTVar(te2) ? checkTVarEqualTypes(te2, te1, exp) :
+    isDatatypeValueTExp(te1) || isDatatypeValueTExp(te2) ?
+        checkEqualType(T.nominalDatatypeTExp(te1), T.nominalDatatypeTExp(te2), exp) :
     T.isAtomicTExp(te1) && T.isAtomicTExp(te2) ?
         T.eqAtomicTExp(te1, te2) ? makeOk(true) : bind(T.unparseTExp(te1), (te1: string) =>
                                                     bind(T.unparseTExp(te2), (te2: string) =>
                                                         makeFailure<true>(`Incompatible atomic types ${te1} - ${te2}`))) :
     T.isProcTExp(te1) && T.isProcTExp(te2) ? checkProcEqualTypes(te1, te2, exp) :
+    T.isPairTExp(te1) && T.isPairTExp(te2) ? checkEqualTypes([te1.carTE, te1.cdrTE], [te2.carTE, te2.cdrTE], exp) :
+    T.isListTExp(te1) && T.isListTExp(te2) ? checkEqualType(te1.elementTE, te2.elementTE, exp) :
+    T.isRecordTExp(te1) && T.isRecordTExp(te2) && te1.name === te2.name ? checkEqualTypes(te1.params, te2.params, exp) :
+    T.isAliasTExp(te1) || T.isAliasTExp(te2) ? checkAliasEqualTypes(te1, te2, exp) :
     bind(T.unparseTExp(te1), (te1: string) =>
         bind(T.unparseTExp(te2), (te2: string) =>
             makeFailure<true>(`Incompatible types structure: ${te1} - ${te2}`)));
 
+// The variants of a datatype and the datatype itself are unified as the datatype (see nominalDatatypeTExp).
+const isDatatypeValueTExp = (te: T.TExp): boolean =>
+    T.isVariantTExp(te) || T.isDatatypeTExp(te);
+
+// Purpose: make a type alias equal to a type.
+// Two applications of the same alias are equal when their arguments are, and an alias is unfolded
+// against the types which are not aliases. Different aliases are not unified - they must be equivalent.
+const checkAliasEqualTypes = (te1: T.TExp, te2: T.TExp, exp: A.Exp): Result<true> => {
+    const unfolded1 = T.unfoldTExp(te1);
+    const unfolded2 = T.unfoldTExp(te2);
+    const incompatible = (): Result<true> =>
+        bind(T.unparseTExp(te1), (te1: string) =>
+            bind(T.unparseTExp(te2), (te2: string) =>
+                makeFailure<true>(`Incompatible types structure: ${te1} - ${te2}`)));
+    return T.isAliasTExp(te1) && T.isAliasTExp(te2) ?
+            te1.name === te2.name ? checkEqualTypes(te1.args, te2.args, exp) :
+            T.isSubType(te1, te2) && T.isSubType(te2, te1) ? makeOk(true) :
+            incompatible() :
+        ! T.isAliasTExp(unfolded1) && ! T.isAliasTExp(unfolded2) ? checkEqualType(unfolded1, unfolded2, exp) :
+        incompatible();
+};
+
 // Purpose: make two lists of equal length of type expressions equal
 // Return an error if one of the pair of TExps are not compatible - true otherwise.
 // Exp is only passed for documentation purposes.
@@ -59,7 +88,11 @@ const checkNoOccurrence = (tvar: T.TVar, te: T.TExp, exp: A.Exp): Result<true> =
 
     const loop = (te1: T.TExp): Result<true> =>
         T.isAtomicTExp(te1) ? makeOk(true) :
+        T.isRecordTExp(te1) ? checkList(te1.params) :
+        T.isAliasTExp(te1) ? checkList(te1.args) :
         T.isProcTExp(te1) ? checkList(T.procTExpComponents(te1)) :
+        T.isPairTExp(te1) ? checkList([te1.carTE, te1.cdrTE]) :
+        T.isListTExp(te1) ? loop(te1.elementTE) :
         T.isTVar(te1) ? 
             (T.eqTVar(te1, tvar) ? bind(A.unparse(exp), (exp: string) => makeFailure(`Occur check error - ${te1.var} - ${tvar.var} in ${format(exp)}`)) : 
              makeOk(true)) :
@@ -78,23 +111,49 @@ export const inferTypeOf = (concreteExp: string): Result<string> =>
         bind(A.parseL5Exp(x), (exp: A.Exp) =>
             bind(typeofExp(exp, E.makeEmptyTEnv()), T.unparseTExp)));
 
+// Purpose: Compute the type of a concrete program
+export const inferTypeOfProgram = (concreteProgram: string): Result<string> =>
+    bind(p(concreteProgram), (x) =>
+        bind(A.parseL5Program(x), (program: A.Program) =>
+            bind(typeofProgram(program, E.makeEmptyTEnv()), T.unparseTExp)));
+
 // Purpose: Compute the type of an expression
 // Traverse the AST and check the type according to the exp type.
+// Failures are reported at the location of the innermost expression that fails.
 export const typeofExp = (exp: A.Parsed, tenv: E.TEnv): Result<T.TExp> =>
+    locateFailure(typeofNode(exp, tenv), exp.span);
+
+const typeofNode = (exp: A.Parsed, tenv: E.TEnv): Result<T.TExp> =>
     A.isNumExp(exp) ? makeOk(T.makeNumTExp()) :
     A.isBoolExp(exp) ? makeOk(T.makeBoolTExp()) :
     A.isStrExp(exp) ? makeOk(T.makeStrTExp()) :
-    A.isPrimOp(exp) ? TC.typeofPrim(exp) :
-    A.isVarRef(exp) ? E.applyTEnv(tenv, exp.var) :
+    // The type variables of a primitive are instantiated at each use
+    A.isPrimOp(exp) ? mapv(TC.typeofInferencePrim(exp), (te: T.TExp) => instantiatePrim(te)) :
+    A.isVarRef(exp) ? mapv(E.applyTEnv(tenv, exp.var), (te: T.TExp) => T.isForallTExp(te) ? T.instantiateTExp(te) : te) :
     A.isIfExp(exp) ? typeofIf(exp, tenv) :
     A.isProcExp(exp) ? typeofProc(exp, tenv) :
     A.isAppExp(exp) ? typeofApp(exp, tenv) :
     A.isLetExp(exp) ? typeofLet(exp, tenv) :
     A.isLetrecExp(exp) ? typeofLetrec(exp, tenv) :
+    A.isNamedLetExp(exp) ? typeofNamedLet(exp, tenv) :
     A.isDefineExp(exp) ? typeofDefine(exp, tenv) :
+    A.isTypeDefinition(exp) ? makeOk(T.makeVoidTExp()) :
     A.isProgram(exp) ? typeofProgram(exp, tenv) :
-    // TODO: isSetExp(exp) isLitExp(exp)
-    makeFailure(`Unknown type: ${format(exp)}`);
+    A.isLitExp(exp) ? makeOk(T.inferenceTExp(TC.typeofLit(exp))) :
+    A.isSetExp(exp) ? typeofSet(exp, tenv) :
+    A.isCondExp(exp) ? typeofCond(exp, tenv) :
+    A.isCaseExp(exp) ? typeofCase(exp, tenv) :
+    A.isLetStarExp(exp) ? typeofLetStar(exp.bindings, exp.body, tenv) :
+    A.isBeginExp(exp) ? typeofExps(exp.exps, tenv) :
+    A.isWhenExp(exp) || A.isUnlessExp(exp) ? typeofWhen(exp, tenv) :
+    A.isGuardExp(exp) ? typeofGuard(exp, tenv) :
+    A.isMatchExp(exp) ? typeofMatch(exp, tenv) :
+    bind(A.unparse(exp), (exp: string) => makeFailure(`Unknown type: ${exp}`));
+
+const instantiatePrim = (te: T.TExp): T.TExp => {
+    const generalTE = E.generalizeTExp(te, E.makeEmptyTEnv());
+    return T.isForallTExp(generalTE) ? T.instantiateTExp(generalTE) : generalTE;
+};
 
 // Purpose: Compute the type of a sequence of expressions
 // Signature: typeof-exps(exps, tenv)
@@ -107,6 +166,20 @@ const typeofExps = (exps: A.Exp[], tenv: E.TEnv): Result<T.TExp> =>
         bind(typeofExp(first(exps), tenv), _ => typeofExps(rest(exps), tenv)) :
     makeFailure(`Unexpected empty sequence of exps`);
 
+// Purpose: compute the type of the body of a lambda, let or letrec - return type of last.
+// Typing rule:
+//   body = (define (f1 : t1) v1) ... (define (fk : tk) vk) e1 ... en
+//   tenv-body = extend-tenv(f1=t1, ..., fk=tk; tenv)
+// If   type<vi>(tenv-body) = ti
+//      type<en>(tenv-body) = t
+// then type<body>(tenv) = t
+// The internal defines are visible in all the values (letrec*) - their types are not generalized.
+const typeofBody = (body: A.Exp[], tenv: E.TEnv): Result<T.TExp> => {
+    const defs = R.filter(A.isDefineExp, body);
+    return typeofExps(body, isEmpty(defs) ? tenv :
+                            E.makeExtendTEnv(R.map((def) => def.var.var, defs), R.map((def) => def.var.texp, defs), tenv));
+};
+
 // Purpose: compute the type of an if-exp
 // Typing rule:
 //   if type<test>(tenv) = boolean
@@ -132,7 +205,7 @@ const typeofIf = (ifExp: A.IfExp, tenv: E.TEnv): Result<T.TExp> => {
 export const typeofProc = (proc: A.ProcExp, tenv: E.TEnv): Result<T.TExp> => {
     const argsTEs = R.map((vd) => vd.texp, proc.args);
     const extTEnv = E.makeExtendTEnv(R.map((vd) => vd.var, proc.args), argsTEs, tenv);
-    const constraint1 = bind(typeofExps(proc.body, extTEnv), (bodyTE: T.TExp) => checkEqualType(bodyTE, proc.returnTE, proc));
+    const constraint1 = bind(typeofBody(proc.body, extTEnv), (bodyTE: T.TExp) => checkEqualType(bodyTE, proc.returnTE, proc));
     return mapv(constraint1, _ => T.makeProcTExp(argsTEs, proc.returnTE));
 };
 
@@ -145,7 +218,15 @@ export const typeofProc = (proc: A.ProcExp, tenv: E.TEnv): Result<T.TExp> => {
 //      type<randn>(tenv) = tn
 // then type<(rator rand1...randn)>(tenv) = t
 // NOTE: This procedure is different from the one in L5-typecheck
+// list takes any number of arguments: (list e1 ... en) is a (listof t) where all the ei are of type t.
 export const typeofApp = (app: A.AppExp, tenv: E.TEnv): Result<T.TExp> => {
+    if (A.isPrimOp(app.rator) && app.rator.op === "list") {
+        const elementTE = T.makeFreshTVar();
+        const constraints = mapResult((rand) => bind(typeofExp(rand, tenv), (randTE: T.TExp) =>
+                                                    checkEqualType(randTE, elementTE, app)),
+                                      app.rands);
+        return mapv(constraints, _ => T.makeListTExp(elementTE));
+    }
     const ratorTE = typeofExp(app.rator, tenv);
     const randsTE = mapResult((rand) => typeofExp(rand, tenv), app.rands);
     const returnTE = T.makeFreshTVar();
@@ -162,14 +243,17 @@ export const typeofApp = (app: A.AppExp, tenv: E.TEnv): Result<T.TExp> => {
 //      type<valn>(tenv) = tn
 //      type<body>(extend-tenv(var1=t1,..,varn=tn; tenv)) = t
 // then type<let ((var1 val1) .. (varn valn)) body>(tenv) = t
+// Once the vals are typed, the types of the vars are generalized in the body:
+// each use of a var in the body gets its own instance of gen(ti, tenv).
+// A var declared with a forall type is unified through the body of the forall.
 export const typeofLet = (exp: A.LetExp, tenv: E.TEnv): Result<T.TExp> => {
     const vars = R.map((b) => b.var.var, exp.bindings);
     const vals = R.map((b) => b.val, exp.bindings);
     const varTEs = R.map((b) => b.var.texp, exp.bindings);
     const constraints = zipWithResult((varTE, val) => bind(typeofExp(val, tenv), (valTE: T.TExp) =>
-                                                            checkEqualType(varTE, valTE, exp)),
+                                                            checkEqualType(T.isForallTExp(varTE) ? varTE.body : varTE, valTE, exp)),
                                       varTEs, vals);
-    return bind(constraints, _ => typeofExps(exp.body, E.makeExtendTEnv(vars, varTEs, tenv)));
+    return bind(constraints, _ => typeofBody(exp.body, E.makeExtendTEnv(vars, R.map((te) => E.generalizeTExp(te, tenv), varTEs), tenv)));
 };
 
 // Purpose: compute the type of a letrec-exp
@@ -198,25 +282,275 @@ export const typeofLetrec = (exp: A.LetrecExp, tenv: E.TEnv): Result<T.TExp> =>
     const tenvIs = R.zipWith((params, tij) => E.makeExtendTEnv(R.map((p) => p.var, params), tij, tenvBody),
                              paramss, tijs);
     // Unfortunately ramda.zipWith does not work with 3 params
-    const types = zipWithResult((bodyI, tenvI) => typeofExps(bodyI, tenvI), bodies, tenvIs)
+    const types = zipWithResult((bodyI, tenvI) => typeofBody(bodyI, tenvI), bodies, tenvIs)
     const constraints = bind(types, (types: T.TExp[]) => zipWithResult((typeI, ti) => checkEqualType(typeI, ti, exp), types, tis))
-    return bind(constraints, _ => typeofExps(exp.body, tenvBody));
+    return bind(constraints, _ => typeofBody(exp.body, tenvBody));
 };
 
+// Purpose: compute the type of a named let
+// Typing rule:
+//   (let p ((x1 v1) ... (xn vn)) : t body)
+//   tenv-p = extend-tenv(p=(t1 * ... * tn -> t); tenv)
+// If   type<vi>(tenv) = ti
+//      type<body>(extend-tenv(x1=t1, ..., xn=tn; tenv-p)) = t
+// then type<(let p ((x1 v1) ... (xn vn)) : t body)>(tenv) = t
+export const typeofNamedLet = (exp: A.NamedLetExp, tenv: E.TEnv): Result<T.TExp> => {
+    const vars = R.map((b) => b.var.var, exp.bindings);
+    const vals = R.map((b) => b.val, exp.bindings);
+    const varTEs = R.map((b) => b.var.texp, exp.bindings);
+    const tenvP = E.makeExtendTEnv([exp.name], [T.makeProcTExp(varTEs, exp.returnTE)], tenv);
+    const constraints = zipWithResult((varTE, val) => bind(typeofExp(val, tenv), (valTE: T.TExp) =>
+                                                            checkEqualType(varTE, valTE, exp)),
+                                      varTEs, vals);
+    const bodyTE = bind(constraints, _ => typeofBody(exp.body, E.makeExtendTEnv(vars, varTEs, tenvP)));
+    return bind(bodyTE, (bodyTE: T.TExp) => mapv(checkEqualType(bodyTE, exp.returnTE, exp), _ => exp.returnTE));
+};
+
+// Purpose: compute the type of a set! exp
+// Typing rule:
+//   (set! var val)
+// If   type<var>(tenv) = t
+//      type<val>(tenv) = t
+// then type<(set! var val)>(tenv) = void
+export const typeofSet = (exp: A.SetExp, tenv: E.TEnv): Result<T.VoidTExp> =>
+    bind(E.applyTEnv(tenv, exp.var.var), (varTE: T.TExp) =>
+        bind(typeofExp(exp.val, tenv), (valTE: T.TExp) =>
+            mapv(checkEqualType(varTE, valTE, exp), _ => T.makeVoidTExp())));
+
+// Purpose: compute the type of a let*-exp
+// Typing rule:
+//   (let* ((x1 v1) (x2 v2) ...) body) is typed as (let ((x1 v1)) (let* ((x2 v2) ...) body))
+//   (let* () body) is typed as body
+export const typeofLetStar = (bindings: A.Binding[], body: A.Exp[], tenv: E.TEnv): Result<T.TExp> => {
+    if (! isNonEmptyList<A.Binding>(bindings))
+        return typeofBody(body, tenv);
+    const bdg = first(bindings);
+    const varTE = bdg.var.texp;
+    return bind(typeofExp(bdg.val, tenv), (valTE: T.TExp) =>
+                bind(checkEqualType(T.isForallTExp(varTE) ? varTE.body : varTE, valTE, bdg.val), _ =>
+                    typeofLetStar(rest(bindings), body, E.makeExtendTEnv([bdg.var.var], [E.generalizeTExp(varTE, tenv)], tenv))));
+};
+
+// Purpose: check that the clauses of a cond (or of a guard) have type te
+// Typing rule:
+//   type<testi>(tenv) = boolean and type<bodyi>(tenv) = te
+//   a clause without a body has the value of its test: te = boolean
+//   type<testi>(tenv) = ti and type<receiveri>(tenv) = (ti -> te)    for (testi => receiveri)
+//   type<else-body>(tenv) = te
+const checkCondClauses = (clauses: A.CondClause[], alt: A.Exp[], te: T.TExp, tenv: E.TEnv): Result<true> => {
+    const checkClause = (clause: A.CondClause): Result<true> =>
+        bind(typeofExp(clause.test, tenv), (testTE: T.TExp) =>
+            clause.isArrow ? bind(typeofExp(clause.body[0], tenv), (receiverTE: T.TExp) =>
+                                checkEqualType(receiverTE, T.makeProcTExp([testTE], te), clause.body[0])) :
+            bind(checkEqualType(testTE, T.makeBoolTExp(), clause.test), _ =>
+                isEmpty(clause.body) ? checkEqualType(te, T.makeBoolTExp(), clause.test) :
+                bind(typeofExps(clause.body, tenv), (bodyTE: T.TExp) => checkEqualType(bodyTE, te, clause.test))));
+    return bind(mapResult(checkClause, clauses), _ =>
+                isNonEmptyList<A.Exp>(alt) ? bind(typeofExps(alt, tenv), (altTE: T.TExp) => checkEqualType(altTE, te, first(alt))) :
+                makeOk(true));
+};
+
+// Purpose: compute the type of a cond-exp
+// Typing rule:
+//   the clauses have type t (see checkCondClauses)
+// then type<(cond clause ... (else alt))>(tenv) = t
+//      type<(cond clause ...)>(tenv) = void    - the value of a cond without an else clause is unspecified
+export const typeofCond = (exp: A.CondExp, tenv: E.TEnv): Result<T.TExp> => {
+    const te = T.makeFreshTVar();
+    return mapv(checkCondClauses(exp.clauses, exp.alt, te, tenv), _ => isEmpty(exp.alt) ? T.makeVoidTExp() : te);
+};
+
+// Purpose: compute the type of a case-exp
+// Typing rule:
+//   if type<key>(tenv) = t0
+//      type<body1>(tenv) = t ... type<bodyn>(tenv) = t
+//      type<else-body>(tenv) = t
+// then type<(case key ((d ...) body1) ... ((d ...) bodyn) (else else-body))>(tenv) = t
+// As for cond, a case without an else clause has type void.
+export const typeofCase = (exp: A.CaseExp, tenv: E.TEnv): Result<T.TExp> => {
+    const te = T.makeFreshTVar();
+    const constraints = bind(typeofExp(exp.key, tenv), _ =>
+                            mapResult((body: A.Exp[]) => bind(typeofExps(body, tenv), (bodyTE: T.TExp) => checkEqualType(bodyTE, te, exp)),
+                                      [...R.map((clause) => clause.body, exp.clauses), ...(isEmpty(exp.alt) ? [] : [exp.alt])]));
+    return mapv(constraints, _ => isEmpty(exp.alt) ? T.makeVoidTExp() : te);
+};
+
+// Purpose: compute the type of a when-exp or an unless-exp
+// Typing rule:
+//   if type<test>(tenv) = boolean
+//      type<body>(tenv) = t
+// then type<(when test body)>(tenv) = void    - there is no value when the test fails
+export const typeofWhen = (exp: A.WhenExp | A.UnlessExp, tenv: E.TEnv): Result<T.TExp> =>
+    bind(typeofExp(exp.test, tenv), (testTE: T.TExp) =>
+        bind(checkEqualType(testTE, T.makeBoolTExp(), exp), _ =>
+            mapv(typeofExps(exp.body, tenv), _ => T.makeVoidTExp())));
+
+// Purpose: compute the type of a guard-exp
+// Any value can be raised: the var of guard has a fresh type, unified with its uses in the clauses.
+// When no clause applies the value is raised again - there is no void alternative.
+// Typing rule:
+//   if type<body>(tenv) = t
+//      the clauses have type t in extend-tenv(var=tv; tenv) (see checkCondClauses)
+// then type<(guard (var clause ... (else alt)) body)>(tenv) = t
+export const typeofGuard = (exp: A.GuardExp, tenv: E.TEnv): Result<T.TExp> =>
+    bind(typeofBody(exp.body, tenv), (bodyTE: T.TExp) =>
+        mapv(checkCondClauses(exp.clauses, exp.alt, bodyTE, E.makeExtendTEnv([exp.var.var], [exp.var.texp], tenv)), _ => bodyTE));
+
+// Purpose: compute the type of a match-exp
+// The variant of a clause is typed by its constructor: val is of the datatype of the variant,
+// and the vars of the clause have the types of the params of the constructor.
+// Typing rule:
+//   if type<val>(tenv) = d
+//      type<vi>(tenv) = (ti1 * ... * tik -> d)
+//      type<bodyi>(extend-tenv(xi1=ti1, ..., xik=tik; tenv)) = t
+//      type<else-body>(tenv) = t
+// then type<(match val ((v1 x11 ... x1k) body1) ... (else else-body))>(tenv) = t
+// The exhaustiveness of the clauses is checked by the type checker.
+export const typeofMatch = (exp: A.MatchExp, tenv: E.TEnv): Result<T.TExp> => {
+    const te = T.makeFreshTVar();
+    const checkClause = (valTE: T.TExp, clause: A.MatchClause): Result<true> =>
+        bind(E.applyTEnv(tenv, clause.variant), (ctorTE: T.TExp) => {
+            const procTE = T.isForallTExp(ctorTE) ? T.instantiateTExp(ctorTE) : ctorTE;
+            return ! T.isProcTExp(procTE) || ! T.isVariantTExp(T.makeRecordTExp(clause.variant)) ?
+                    makeFailure(`${clause.variant} is not a variant of a datatype`) :
+                procTE.paramTEs.length !== clause.vars.length ?
+                    makeFailure(`Match clause ${clause.variant} expects ${procTE.paramTEs.length} variables - got ${clause.vars.length}`) :
+                bind(checkEqualType(valTE, procTE.returnTE, exp), _ =>
+                    bind(checkEqualTypes(R.map((vd) => vd.texp, clause.vars), procTE.paramTEs, exp), _ =>
+                        bind(typeofExps(clause.body, E.makeExtendTEnv(R.map((vd) => vd.var, clause.vars),
+                                                                      R.map((vd) => vd.texp, clause.vars), tenv)), (bodyTE: T.TExp) =>
+                            checkEqualType(bodyTE, te, exp))));
+        });
+    return bind(typeofExp(exp.val, tenv), (valTE: T.TExp) =>
+            bind(mapResult((clause: A.MatchClause) => checkClause(valTE, clause), exp.clauses), _ =>
+                isNonEmptyList<A.Exp>(exp.alt) ? bind(typeofExps(exp.alt, tenv), (altTE: T.TExp) =>
+                                                    mapv(checkEqualType(altTE, te, exp), _ => te)) :
+                makeOk(te)));
+};
 
 // Purpose: compute the type of a define
 // Typing rule:
 //   (define (var : texp) val)
-// TODO - write the true definition
+//   tenv-val = extend-tenv(var=texp; tenv)
+// If   type<val>(tenv-val) = texp
+// then type<(define (var : texp) val)>(tenv) = void
+// The var is bound in its own value so that recursive defines refer to themselves.
+// A var declared with a forall type is unified through the body of the forall.
 export const typeofDefine = (exp: A.DefineExp, tenv: E.TEnv): Result<T.VoidTExp> => {
-    // return Error("TODO");
-    return makeOk(T.makeVoidTExp());
+    const varTE = exp.var.texp;
+    return bind(typeofExp(exp.val, E.makeExtendTEnv([exp.var.var], [varTE], tenv)), (valTE: T.TExp) =>
+                mapv(checkEqualType(T.isForallTExp(varTE) ? varTE.body : varTE, valTE, exp), _ => T.makeVoidTExp()));
 };
 
 // Purpose: compute the type of a program
 // Typing rule:
-// TODO - write the true definition
-export const typeofProgram = (exp: A.Program, tenv: E.TEnv): Result<T.TExp> => {
-    return makeFailure("TODO");
+// The TEnv is threaded through the top-level defines (as in the L5-typecheck):
+// the type of a program is the type of its last exp.
+export const typeofProgram = (exp: A.Program, tenv: E.TEnv): Result<T.TExp> =>
+    typeofSequence(exp.exps, tenv);
+
+// Purpose: compute the type of a sequence of top-level expressions - return type of last.
+// When meeting a define, the rest of the sequence is typed in a tenv where the type of
+// the defined var is generalized.
+// Pre-conditions: exps is not empty.
+const typeofSequence = (exps: A.Exp[], tenv: E.TEnv): Result<T.TExp> =>
+    isNonEmptyList<A.Exp>(exps) ?
+        isEmpty(rest(exps)) ? typeofExp(first(exps), tenv) :
+        bind(typeofExp(first(exps), tenv), _ => typeofSequence(rest(exps), extendDefineTEnv(first(exps), tenv))) :
+    makeFailure("Empty program");
+
+const extendDefineTEnv = (exp: A.Exp, tenv: E.TEnv): E.TEnv =>
+    A.isDefineExp(exp) ? E.makeExtendTEnv([exp.var.var], [E.generalizeTExp(exp.var.texp, tenv)], tenv) :
+    A.isTypeDefinition(exp) ? E.makeExtendTEnv(A.typeDefinitionProcNames(exp),
+                                               R.map((te) => E.generalizeTExp(T.inferenceTExp(te), tenv), TC.typeDefinitionProcTEs(exp)), tenv) :
+    tenv;
+
+// ========================================================
+// Annotation
+// After inference the fresh type variables of the declarations without a type annotation
+// are bound to their solved types. The annotate pass returns a copy of the program where
+// each VarDecl and ProcExp.returnTE is replaced by its solved type.
+// Fresh type variables which remain unsolved (polymorphic declarations) are renamed T1, T2, ...
+// so that the annotated program can be read back and checked by L5-typecheck.
+
+// Purpose: infer the types of a program and annotate its declarations with them
+export const annotateProgram = (program: A.Program): Result<A.Program> =>
+    mapv(typeofProgram(program, E.makeEmptyTEnv()), _ => {
+        const solvedTVars = R.uniqWith(T.eqTVar, R.chain(T.freeTVars, R.chain(expDeclTEs, program.exps)));
+        const freshTVars = R.filter(T.isFreshTVar, solvedTVars);
+        const names = freshTVarNames(freshTVars.length, R.map((tv) => tv.var, solvedTVars));
+        const annotateTExp = (te: T.TExp): T.TExp =>
+            T.substituteTVars(te, freshTVars, R.map(T.makeTVar, names));
+        return A.makeProgram(R.map((e) => annotateExp(e, annotateTExp), program.exps));
+    });
+
+// Purpose: parse, infer and annotate a program - return the annotated concrete program
+export const annotate = (concreteProgram: string): Result<string> =>
+    bind(p(concreteProgram), (x) =>
+        bind(A.parseL5Program(x), (program: A.Program) =>
+            bind(annotateProgram(program), A.unparse)));
+
+// Purpose: the types of all the declarations in exp
+const expDeclTEs = (exp: A.Exp): T.TExp[] =>
+    A.isDefineExp(exp) ? [exp.var.texp, ...expDeclTEs(exp.val)] :
+    A.isProcExp(exp) ? [...R.map((vd) => vd.texp, exp.args), exp.returnTE, ...R.chain(expDeclTEs, exp.body)] :
+    A.isLetExp(exp) || A.isLetrecExp(exp) || A.isLetStarExp(exp) ? [...R.chain((b) => [b.var.texp, ...expDeclTEs(b.val)], exp.bindings),
+                                                                    ...R.chain(expDeclTEs, exp.body)] :
+    A.isNamedLetExp(exp) ? [...R.chain((b) => [b.var.texp, ...expDeclTEs(b.val)], exp.bindings), exp.returnTE,
+                            ...R.chain(expDeclTEs, exp.body)] :
+    A.isMatchExp(exp) ? [...R.chain((c) => R.map((vd) => vd.texp, c.vars), exp.clauses), ...R.chain(expDeclTEs, A.expComponents(exp))] :
+    // The var of a guard is not annotated: any value can be raised
+    A.isCompoundExp(exp) ? R.chain(expDeclTEs, A.expComponents(exp)) :
+    [];
+
+// Purpose: n names T1, T2, ... which are not in used
+const freshTVarNames = (n: number, used: string[]): string[] => {
+    const loop = (i: number, names: string[]): string[] =>
+        names.length === n ? names :
+        used.includes(`T${i}`) ? loop(i + 1, names) :
+        loop(i + 1, [...names, `T${i}`]);
+    return loop(1, []);
 };
 
+const annotateVarDecl = (vd: A.VarDecl, f: (te: T.TExp) => T.TExp): A.VarDecl =>
+    A.makeVarDecl(vd.var, f(vd.texp));
+
+const annotateBinding = (b: A.Binding, f: (te: T.TExp) => T.TExp): A.Binding =>
+    A.makeBinding(annotateVarDecl(b.var, f), annotateCExp(b.val, f));
+
+const annotateExp = (exp: A.Exp, f: (te: T.TExp) => T.TExp): A.Exp =>
+    A.isDefineExp(exp) ? A.makeDefineExp(annotateVarDecl(exp.var, f), annotateCExp(exp.val, f)) :
+    A.isTypeDefinition(exp) ? exp :
+    annotateCExp(exp, f);
+
+const annotateCExp = (exp: A.CExp, f: (te: T.TExp) => T.TExp): A.CExp =>
+    A.isProcExp(exp) ? A.makeProcExp(R.map((vd) => annotateVarDecl(vd, f), exp.args),
+                                     R.map((e) => annotateExp(e, f), exp.body), f(exp.returnTE)) :
+    A.isAppExp(exp) ? A.makeAppExp(annotateCExp(exp.rator, f), R.map((e) => annotateCExp(e, f), exp.rands)) :
+    A.isIfExp(exp) ? A.makeIfExp(annotateCExp(exp.test, f), annotateCExp(exp.then, f), annotateCExp(exp.alt, f)) :
+    A.isLetExp(exp) ? A.makeLetExp(R.map((b) => annotateBinding(b, f), exp.bindings), R.map((e) => annotateExp(e, f), exp.body)) :
+    A.isLetrecExp(exp) ? A.makeLetrecExp(R.map((b) => annotateBinding(b, f), exp.bindings), R.map((e) => annotateExp(e, f), exp.body)) :
+    A.isNamedLetExp(exp) ? A.makeNamedLetExp(exp.name, R.map((b) => annotateBinding(b, f), exp.bindings), f(exp.returnTE),
+                                             R.map((e) => annotateExp(e, f), exp.body)) :
+    A.isSetExp(exp) ? A.makeSetExp(exp.var, annotateCExp(exp.val, f)) :
+    A.isCondExp(exp) ? A.makeCondExp(R.map((c) => annotateCondClause(c, f), exp.clauses), annotateCExps(exp.alt, f)) :
+    A.isCaseExp(exp) ? A.makeCaseExp(annotateCExp(exp.key, f),
+                                     R.map((c) => A.makeCaseClause(c.data, annotateCExps(c.body, f)), exp.clauses),
+                                     annotateCExps(exp.alt, f)) :
+    A.isLetStarExp(exp) ? A.makeLetStarExp(R.map((b) => annotateBinding(b, f), exp.bindings), R.map((e) => annotateExp(e, f), exp.body)) :
+    A.isBeginExp(exp) ? A.makeBeginExp(annotateCExps(exp.exps, f)) :
+    A.isWhenExp(exp) ? A.makeWhenExp(annotateCExp(exp.test, f), annotateCExps(exp.body, f)) :
+    A.isUnlessExp(exp) ? A.makeUnlessExp(annotateCExp(exp.test, f), annotateCExps(exp.body, f)) :
+    A.isGuardExp(exp) ? A.makeGuardExp(exp.var, R.map((c) => annotateCondClause(c, f), exp.clauses), annotateCExps(exp.alt, f),
+                                       R.map((e) => annotateExp(e, f), exp.body)) :
+    A.isMatchExp(exp) ? A.makeMatchExp(annotateCExp(exp.val, f),
+                                       R.map((c) => A.makeMatchClause(c.variant, R.map((vd) => annotateVarDecl(vd, f), c.vars),
+                                                                      annotateCExps(c.body, f)), exp.clauses),
+                                       annotateCExps(exp.alt, f)) :
+    exp;
+
+const annotateCExps = (exps: A.CExp[], f: (te: T.TExp) => T.TExp): A.CExp[] =>
+    R.map((e) => annotateCExp(e, f), exps);
+
+const annotateCondClause = (clause: A.CondClause, f: (te: T.TExp) => T.TExp): A.CondClause =>
+    A.makeCondClause(annotateCExp(clause.test, f), annotateCExps(clause.body, f), clause.isArrow);
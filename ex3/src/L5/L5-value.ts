@@ -1,28 +1,130 @@
 // ========================================================
 // Value type definition for L5
 
-import { append, join } from 'ramda';
-import { isPrimOp, CExp, PrimOp, VarDecl } from './L5-ast';
+import { append, join, zipWith } from 'ramda';
+import { isDefineDatatypeExp, isDefineRecordExp, isPrimOp, recordProcNames, unparse, DefineDatatypeExp, DefineRecordExp, Exp,
+         PrimOp, RecordField, TypeDefinition, Variant, VarDecl } from './L5-ast';
 import { Env } from './L5-env';
+import { Cont } from './L5-eval-cps';
 import { isNumber, isArray, isString } from '../shared/type-predicates';
+import { Result, makeFailure, isFailure, either } from '../shared/result';
+import { failureOrigin } from '../shared/source';
 
 export type Value = SExpValue;
 
-export type Functional = PrimOp | Closure;
-export const isFunctional = (x: any): x is Functional => isPrimOp(x) || isClosure(x);
+export type Functional = PrimOp | Closure | Continuation | RecordProc;
+export const isFunctional = (x: any): x is Functional =>
+    isPrimOp(x) || isClosure(x) || isContinuation(x) || isRecordProc(x);
 
 // ========================================================
 // Closure for L5
 export type Closure = {
     tag: "Closure";
     params: VarDecl[];
-    body: CExp[];
+    body: Exp[];
     env: Env;
 }
-export const makeClosure = (params: VarDecl[], body: CExp[], env: Env): Closure =>
+export const makeClosure = (params: VarDecl[], body: Exp[], env: Env): Closure =>
     ({tag: "Closure", params: params, body: body, env: env});
 export const isClosure = (x: any): x is Closure => x.tag === "Closure";
 
+// ========================================================
+// Continuation captured by call/cc (see L5-eval-cps)
+// Applying it to a value abandons the current computation and
+// continues the captured one with that value.
+export type Continuation = {
+    tag: "Continuation";
+    cont: Cont;
+}
+export const makeContinuation = (cont: Cont): Continuation =>
+    ({tag: "Continuation", cont: cont});
+export const isContinuation = (x: any): x is Continuation => x.tag === "Continuation";
+
+// ========================================================
+// Condition: the value raised by a runtime error
+// kind names the error (wrong-type, unbound-variable, not-a-procedure, divide-by-zero, error)
+// and message describes it.
+export type Condition = {
+    tag: "Condition";
+    kind: string;
+    message: string;
+}
+export const makeCondition = (kind: string, message: string): Condition =>
+    ({tag: "Condition", kind: kind, message: message});
+export const isCondition = (x: any): x is Condition => x.tag === "Condition";
+
+// ========================================================
+// Records: the values of the record types declared by define-record
+// and of the variants declared by define-datatype.
+// A record value is an instance of the record type (or variant) name - vals holds the values of
+// its fields, in the order of their declaration. Setters update vals in place.
+export type RecordValue = {
+    tag: "RecordValue";
+    name: string;
+    vals: Value[];
+}
+export const makeRecordValue = (name: string, vals: Value[]): RecordValue =>
+    ({tag: "RecordValue", name: name, vals: vals});
+export const isRecordValue = (x: any): x is RecordValue => x.tag === "RecordValue";
+
+// The procedures defined by define-record (see recordProcNames) and define-datatype (see datatypeProcNames):
+// op is the role of the procedure, index is the field of an accessor or a setter.
+export type RecordProcOp = "constructor" | "predicate" | "accessor" | "setter";
+export type RecordProc = {
+    tag: "RecordProc";
+    name: string;
+    op: RecordProcOp;
+    record: string;
+    arity: number;
+    index: number;
+}
+export const makeRecordProc = (name: string, op: RecordProcOp, record: string, arity: number, index: number): RecordProc =>
+    ({tag: "RecordProc", name: name, op: op, record: record, arity: arity, index: index});
+export const isRecordProc = (x: any): x is RecordProc => x.tag === "RecordProc";
+
+// Purpose: the procedures defined by e - in the order of recordProcNames(e)
+export const makeRecordProcs = (e: DefineRecordExp): RecordProc[] => {
+    const roles: [RecordProcOp, number][] = [["constructor", 0], ["predicate", 0],
+        ...e.fields.flatMap((f: RecordField, i: number): [RecordProcOp, number][] =>
+            f.mutable ? [["accessor", i], ["setter", i]] : [["accessor", i]])];
+    const arity = (op: RecordProcOp): number =>
+        op === "constructor" ? e.fields.length : op === "setter" ? 2 : 1;
+    return zipWith(([op, index]: [RecordProcOp, number], name: string) => makeRecordProc(name, op, e.name, arity(op), index),
+                   roles, recordProcNames(e));
+};
+
+// Purpose: the procedures defined by e - in the order of datatypeProcNames(e)
+export const makeDatatypeProcs = (e: DefineDatatypeExp): RecordProc[] =>
+    e.variants.flatMap((v: Variant) => [makeRecordProc(v.name, "constructor", v.name, v.fields.length, 0),
+                                        makeRecordProc(`${v.name}?`, "predicate", v.name, 1, 0)]);
+
+export const makeTypeDefinitionProcs = (e: TypeDefinition): RecordProc[] =>
+    isDefineRecordExp(e) ? makeRecordProcs(e) :
+    isDefineDatatypeExp(e) ? makeDatatypeProcs(e) :
+    [];
+
+// Raising a value fails the evaluation - the failure remembers the raised value
+// so that guard can catch it (see raisedValue).
+const raisedValues = new WeakMap<object, Value>();
+
+export const raise = <T>(val: Value): Result<T> => {
+    const failure = makeFailure<T>(isCondition(val) ? val.message : `Uncaught raise: ${valueToString(val)}`);
+    raisedValues.set(failure, val);
+    return failure;
+};
+
+export const raiseCondition = <T>(kind: string, message: string): Result<T> =>
+    raise(makeCondition(kind, message));
+
+// Purpose: the value raised by a failure, located or not.
+// Failures which did not raise a value are conditions of kind error.
+export const raisedValue = <T>(r: Result<T>): Value => {
+    const origin = failureOrigin(r);
+    const failure = origin === undefined ? r : origin.failure;
+    return raisedValues.has(failure) ? raisedValues.get(failure) :
+           makeCondition("error", origin !== undefined ? origin.message : isFailure(r) ? r.message : "");
+};
+
 // ========================================================
 // SExp
 export type CompoundSExp = {
@@ -38,10 +140,12 @@ export type SymbolSExp = {
     val: string;
 }
 
-export type SExpValue = number | boolean | string | PrimOp | Closure | SymbolSExp | EmptySExp | CompoundSExp | void;
+export type SExpValue = number | boolean | string | PrimOp | Closure | Continuation | Condition | SymbolSExp | EmptySExp |
+                        CompoundSExp | RecordValue | RecordProc | void;
 export const isSExp = (x: any): x is SExpValue =>
     typeof(x) === 'string' || typeof(x) === 'boolean' || typeof(x) === 'number' ||
-    isSymbolSExp(x) || isCompoundSExp(x) || isEmptySExp(x) || isPrimOp(x) || isClosure(x);
+    isSymbolSExp(x) || isCompoundSExp(x) || isEmptySExp(x) || isPrimOp(x) || isClosure(x) || isContinuation(x) ||
+    isCondition(x) || isRecordValue(x) || isRecordProc(x);
 
 export const makeCompoundSExp = (val1: SExpValue, val2: SExpValue): CompoundSExp =>
     ({tag: "CompoundSexp", val1: val1, val2 : val2});
@@ -56,26 +160,45 @@ export const isSymbolSExp = (x: any): x is SymbolSExp => x.tag === "SymbolSExp";
 
 // Printable form for values
 export const closureToString = (c: Closure): string =>
-    // `<Closure ${c.params} ${L3unparse(c.body)}>`
-    `<Closure ${c.params} ${c.body}>`
+    `<Closure (${join(' ', c.params.map((p: VarDecl) => p.var))}) ${join(' ', c.body.map(unparseBodyExp))}>`
+
+const unparseBodyExp = (exp: Exp): string =>
+    either(unparse(exp), (s: string) => s, _ => "...");
 
-export const compoundSExpToArray = (cs: CompoundSExp, res: string[]): string[] | { s1: string[], s2: string } =>
-    isEmptySExp(cs.val2) ? append(valueToString(cs.val1), res) :
-    isCompoundSExp(cs.val2) ? compoundSExpToArray(cs.val2, append(valueToString(cs.val1), res)) :
-    ({ s1: append(valueToString(cs.val1), res), s2: valueToString(cs.val2)})
+export const compoundSExpToArray = (cs: CompoundSExp, res: string[],
+                                   toString: (val: Value) => string = valueToString): string[] | { s1: string[], s2: string } =>
+    isEmptySExp(cs.val2) ? append(toString(cs.val1), res) :
+    isCompoundSExp(cs.val2) ? compoundSExpToArray(cs.val2, append(toString(cs.val1), res), toString) :
+    ({ s1: append(toString(cs.val1), res), s2: toString(cs.val2)})
  
 export const compoundSExpToString = (cs: CompoundSExp, css = compoundSExpToArray(cs, [])): string => 
     isArray(css) ? `(${join(' ', css)})` :
     `(${css.s1.join(' ')} . ${css.s2})`
 
+// A record is printed with the values of its fields: #<point 1 2>
+const recordValueToString = (r: RecordValue, toString: (val: Value) => string = valueToString): string =>
+    `#<${join(' ', [r.name, ...r.vals.map(toString)])}>`;
+
 export const valueToString = (val: Value): string =>
     isNumber(val) ?  val.toString() :
     val === true ? '#t' :
     val === false ? '#f' :
     isString(val) ? `"${val}"` :
     isClosure(val) ? closureToString(val) :
+    isContinuation(val) ? "#<continuation>" :
+    isCondition(val) ? `#<condition ${val.kind}: ${val.message}>` :
+    isRecordValue(val) ? recordValueToString(val) :
+    isRecordProc(val) ? `#<procedure ${val.name}>` :
     isPrimOp(val) ? val.op :
     isSymbolSExp(val) ? val.val :
     isEmptySExp(val) ? "'()" :
     isCompoundSExp(val) ? compoundSExpToString(val) :
     "#void";
+
+// The form printed by display: strings are printed without quotes, also inside lists and records.
+// write prints the form of valueToString.
+export const valueToDisplayString = (val: Value): string =>
+    isString(val) ? val :
+    isCompoundSExp(val) ? compoundSExpToString(val, compoundSExpToArray(val, [], valueToDisplayString)) :
+    isRecordValue(val) ? recordValueToString(val, valueToDisplayString) :
+    valueToString(val);
@@ -12,8 +12,10 @@
 ;; * <extended-tenv> ::= (tenv (symbol+) (type-exp+) enclosing-tenv) // env(vars:List(Symbol), tes:List(Type-exp), enclosing-tenv: TEnv)
 */
 
-import { TExp } from './TExp';
+import { chain } from 'ramda';
+import { eqTVar, freeTVars, isForallTExp, makeForallTExp, TExp, TVar } from './TExp';
 import { Result, makeOk, makeFailure } from '../shared/result';
+import { isEmpty } from '../shared/list';
 
 export type TEnv = EmptyTEnv | ExtendTEnv;
 
@@ -33,3 +35,21 @@ export const applyTEnv = (tenv: TEnv, v: string): Result<TExp> =>
 export const applyExtendTEnv = (texps: TExp[], tenv: TEnv, v: string, pos: number): Result<TExp> =>
     (pos === -1) ? applyTEnv(tenv, v) :
     makeOk(texps[pos]);
+
+// Purpose: the type variables which occur free in the types of tenv
+export const tenvFreeTVars = (tenv: TEnv): TVar[] =>
+    isEmptyTEnv(tenv) ? [] :
+    [...chain(freeTVars, tenv.texps), ...tenvFreeTVars(tenv.tenv)];
+
+// Purpose: generalize te over its type variables which are not free in tenv
+// Typing rule:
+//   gen(te, tenv) = (forall (T1 ... Tn) te) where {T1 ... Tn} = ftv(te) - ftv(tenv)
+// Type variables free in tenv are constrained by an enclosing binding (e.g. a lambda parameter)
+// and cannot be instantiated independently.
+export const generalizeTExp = (te: TExp, tenv: TEnv): TExp => {
+    if (isForallTExp(te))
+        return te;
+    const tenvTVars = tenvFreeTVars(tenv);
+    const vars = freeTVars(te).filter((v) => ! tenvTVars.some((tv) => eqTVar(tv, v)));
+    return isEmpty(vars) ? te : makeForallTExp(vars, te);
+};
@@ -1,18 +1,29 @@
 /*
 ;; Type language
 ;; <texp>         ::= <atomic-te> | <compound-te> | <tvar>
-;; <atomic-te>    ::= <num-te> | <bool-te> | <void-te>
+;; <atomic-te>    ::= <num-te> | <bool-te> | <void-te> | <lit-te>
 ;; <num-te>       ::= number   // num-te()
 ;; <bool-te>      ::= boolean  // bool-te()
 ;; <str-te>       ::= string   // str-te()
 ;; <void-te>      ::= void     // void-te()
-;; <compound-te>  ::= <proc-te> | <tuple-te> | <union-te>
-;; <non-tuple-te> ::= <atomic-te> | <proc-te> | <tvar>
+;; <symbol-te>    ::= symbol   // symbol-te()
+;; <condition-te> ::= condition // condition-te() - the values raised by runtime errors
+;; <lit-te>       ::= (lit <number>) | (lit <string>) | #t | #f | '<symbol> // lit-te(base: te, val: value)
+;; <compound-te>  ::= <proc-te> | <tuple-te> | <union-te> | <pair-te> | <list-te> | <fixed-list-te> | <forall-te> | <record-te> | <datatype-te> | <alias-te>
+;; <non-tuple-te> ::= <atomic-te> | <proc-te> | <tvar> | <pair-te> | <list-te> | <forall-te> | <record-te> | <alias-te>
 ;; <proc-te>      ::= [ <tuple-te> -> <non-tuple-te> ] // proc-te(param-tes: list(te), return-te: te)
 ;; <tuple-te>     ::= <non-empty-tuple-te> | <empty-te>
 ;; <non-empty-tuple-te> ::= ( <non-tuple-te> *)* <non-tuple-te> // tuple-te(tes: list(te))
 ;; <empty-te>     ::= Empty
 ;; <union-te>     ::= (union <texp> <texp>) // union-te(components: list(te))
+;; <pair-te>      ::= (pair <texp> <texp>)  // pair-te(carTE: te, cdrTE: te)
+;; <list-te>      ::= (listof <texp>)       // list-te(elementTE: te) - homogeneous proper lists
+;; <fixed-list-te> ::= (tuple <texp>*)      // the lists of n elements - pair-te(te1, ... pair-te(ten, list-te(never)))
+;; <forall-te>    ::= (forall (<tvar>+) <texp>) // forall-te(vars: list(tvar), body: te)
+;; <record-te>    ::= the name of a record declared by define-record // record-te(name: string, params: list(te))
+;;                 |  <variant> | (<variant> <texp>+) // record-te(name: string, params: list(te))
+;; <datatype-te>  ::= <datatype> | (<datatype> <texp>+) // the union of the variant types of the datatype
+;; <alias-te>     ::= <alias> | (<alias> <texp>+) // alias-te(name: string, args: list(te))
 ;; <tvar>         ::= a symbol starting with T // tvar(id: Symbol, contents; Box(string|boolean))
 
 ;; Examples of type expressions
@@ -30,32 +41,77 @@
 ;; [union [union number boolean] string]
 ;; [Empty -> [union boolean number]]
 ;; [union [T1 -> T1] [Empty -> T1]]
+
+;; Pairs and lists:
+;; (pair number string)
+;; (listof number)
+;; A pair whose cdr is a list is a list: (pair number (listof number)) <= (listof number)
+;; The empty list '() has type (listof never)
+;; A list of fixed length is a chain of pairs which ends with the empty list:
+;; (tuple number string) = (pair number (pair string (listof never))) <= (listof (union number string))
+;; (list 1 "a") and '(1 "a") have type (tuple number string)
+
+;; Literal types:
+;; (lit 0), (lit "ok"), #t, 'red - the type of a single value, a subtype of its base type.
+;; (union #t #f) = boolean
+;; A literal expression has a literal type - which is widened to its base type by an unannotated define,
+;; in the elements built by cons and list and in the instances of type variables: (cons 1 2) : (pair number number)
+;; An unannotated define also widens a list of fixed length to a listof: (define xs (list 1 2)) declares xs : (listof number)
+
+;; Polymorphic types:
+;; (forall (T) (T -> T))
+;; (forall (T1 T2) ((T1 -> T2) * (listof T1) -> (listof T2)))
+;; A forall type is instantiated with fresh type variables at each use of the variable it types.
+
+;; Record types:
+;; (define-record point ([x : number] [y : number])) declares the type point.
+;; Record types are nominal: a record type is only a subtype of itself.
+
+;; Datatypes:
+;; (define-datatype (tree T) (leaf) (node (left : (tree T)) (val : T) (right : (tree T))))
+;; declares the variant types (leaf T) and (node T) - record types with the type parameters
+;; of the datatype - and the type (tree T) = (union (leaf T) (node T)).
+;; The fields of a variant are immutable: variant types are covariant in their parameters.
+;; A union of all the variants of a datatype is unparsed as the datatype: (tree number).
+
+;; Type aliases:
+;; (define-type (Tree T) (union T (pair (Tree T) (Tree T)))) declares the alias (Tree T).
+;; An alias stands for its definition applied to its arguments - it is unparsed by name.
+;; A recursive alias is the equi-recursive type mu X. (union T (pair X X)): it is equal to its unfolding.
+;; The recursive references must be guarded by a type constructor and apply the alias to its own parameters.
+;; The aliases of a program are declared before they are defined - they may refer to each other in any order.
 */
 
-import { all, append, chain, concat, equals, map, sort, uniq, zip, filter, includes, is } from "ramda";
+import { all, append, chain, concat, equals, map, sort, uniq, uniqWith, zip, filter, includes, is } from "ramda";
 import { Sexp } from "s-expression";
 import { List, isEmpty, isNonEmptyList } from "../shared/list";
-import { isArray, isBoolean, isString } from '../shared/type-predicates';
+import { isArray, isBoolean, isNumericString, isString } from '../shared/type-predicates';
 import { makeBox, setBox, unbox, Box } from '../shared/box';
 import { cons, first, rest } from '../shared/list';
-import { Result, bind, makeOk, makeFailure, mapResult, mapv, either } from "../shared/result";
-import { parse as p } from "../shared/parser";
+import { Result, bind, isFailure, makeOk, makeFailure, mapResult, mapv, either } from "../shared/result";
+import { parse as p, isSexpString } from "../shared/parser";
 import { format } from "../shared/format";
 
 export type TExp =  AtomicTExp | CompoundTExp | TVar;
 export const isTExp = (x: any): x is TExp => isAtomicTExp(x) || isCompoundTExp(x) || isTVar(x);
 
-export type AtomicTExp = NumTExp | BoolTExp | StrTExp | VoidTExp | AnyTExp | NeverTExp;
+export type AtomicTExp = NumTExp | BoolTExp | StrTExp | VoidTExp | AnyTExp | NeverTExp | SymbolTExp | ConditionTExp |
+                         LitTExp;
 export const isAtomicTExp = (x: any): x is AtomicTExp =>
-    isNumTExp(x) || isBoolTExp(x) || isStrTExp(x) || isVoidTExp(x) || isAnyTExp(x) || isNeverTExp(x);
+    isNumTExp(x) || isBoolTExp(x) || isStrTExp(x) || isVoidTExp(x) || isAnyTExp(x) || isNeverTExp(x) ||
+    isSymbolTExp(x) || isConditionTExp(x) || isLitTExp(x);
 
-export type CompoundTExp = ProcTExp | TupleTExp | UnionTExp | InterTExp | PredTExp;
+export type CompoundTExp = ProcTExp | TupleTExp | UnionTExp | InterTExp | PredTExp | PairTExp | ListTExp |
+                           ForallTExp | RecordTExp | AliasTExp;
 export const isCompoundTExp = (x: any): x is CompoundTExp => isProcTExp(x) || isTupleTExp(x) || 
-    isUnionTExp(x) || isInterTExp(x) || isPredTExp(x);
+    isUnionTExp(x) || isInterTExp(x) || isPredTExp(x) || isPairTExp(x) || isListTExp(x) || isForallTExp(x) ||
+    isRecordTExp(x) || isAliasTExp(x);
 
-export type NonTupleTExp = AtomicTExp | ProcTExp | TVar | UnionTExp;
+export type NonTupleTExp = AtomicTExp | ProcTExp | TVar | UnionTExp | PairTExp | ListTExp | ForallTExp | RecordTExp |
+                           AliasTExp;
 export const isNonTupleTExp = (x: any): x is NonTupleTExp =>
-    isAtomicTExp(x) || isProcTExp(x) || isTVar(x) || isUnionTExp(x) || isInterTExp(x);
+    isAtomicTExp(x) || isProcTExp(x) || isTVar(x) || isUnionTExp(x) || isInterTExp(x) ||
+    isPairTExp(x) || isListTExp(x) || isForallTExp(x) || isRecordTExp(x) || isAliasTExp(x);
 
 export type NumTExp = { tag: "NumTExp" };
 export const makeNumTExp = (): NumTExp => ({tag: "NumTExp"});
@@ -73,6 +129,31 @@ export type VoidTExp = { tag: "VoidTExp" };
 export const makeVoidTExp = (): VoidTExp => ({tag: "VoidTExp"});
 export const isVoidTExp = (x: any): x is VoidTExp => x.tag === "VoidTExp";
 
+export type SymbolTExp = { tag: "SymbolTExp" };
+export const makeSymbolTExp = (): SymbolTExp => ({tag: "SymbolTExp"});
+export const isSymbolTExp = (x: any): x is SymbolTExp => x.tag === "SymbolTExp";
+
+export type ConditionTExp = { tag: "ConditionTExp" };
+export const makeConditionTExp = (): ConditionTExp => ({tag: "ConditionTExp"});
+export const isConditionTExp = (x: any): x is ConditionTExp => x.tag === "ConditionTExp";
+
+// The type of a single number, string, boolean or symbol - the val of a symbol is its name.
+export type LitBaseTExp = NumTExp | StrTExp | BoolTExp | SymbolTExp;
+export type LitTExp = { tag: "LitTExp"; base: LitBaseTExp; val: number | string | boolean; };
+export const makeLitTExp = (base: LitBaseTExp, val: number | string | boolean): LitTExp =>
+    ({tag: "LitTExp", base: base, val: val});
+export const isLitTExp = (x: any): x is LitTExp => x.tag === "LitTExp";
+
+// Purpose: the type of literals widened to their base type - through unions, pairs and lists
+export const widenTExp = (te: TExp): TExp => {
+    const x = tvarDeref(te);
+    return isLitTExp(x) ? x.base :
+           isUnionTExp(x) ? makeUnionTExp(map(widenTExp, x.components)) :
+           isPairTExp(x) ? makePairTExp(widenTExp(x.carTE), widenTExp(x.cdrTE)) :
+           isListTExp(x) ? makeListTExp(widenTExp(x.elementTE)) :
+           x;
+};
+
 // L52
 export type AnyTExp = { tag: "AnyTExp" };
 export const makeAnyTExp = (): AnyTExp => ({ tag: "AnyTExp"});
@@ -97,6 +178,259 @@ export const isProcTExp = (x: any): x is ProcTExp => x.tag === "ProcTExp";
 export const procTExpComponents = (pt: ProcTExp): TExp[] =>
     [...pt.paramTEs, pt.returnTE];
 
+// pair-te(carTE: te, cdrTE: te)
+export type PairTExp = { tag: "PairTExp"; carTE: TExp; cdrTE: TExp; };
+export const makePairTExp = (carTE: TExp, cdrTE: TExp): PairTExp =>
+    ({tag: "PairTExp", carTE: carTE, cdrTE: cdrTE});
+export const isPairTExp = (x: any): x is PairTExp => x.tag === "PairTExp";
+
+// list-te(elementTE: te)
+export type ListTExp = { tag: "ListTExp"; elementTE: TExp; };
+export const makeListTExp = (elementTE: TExp): ListTExp =>
+    ({tag: "ListTExp", elementTE: elementTE});
+export const isListTExp = (x: any): x is ListTExp => x.tag === "ListTExp";
+
+// (tuple te1 ... ten) = (pair te1 ... (pair ten (listof never)))
+export const makeFixedListTExp = (tes: TExp[]): TExp =>
+    tes.reduceRight((cdrTE: TExp, carTE: TExp) => makePairTExp(carTE, cdrTE), makeListTExp(makeNeverTExp()));
+
+// Purpose: the element types of a list of fixed length - undefined when te is not a chain of pairs ending with '()
+export const fixedListComponents = (te: TExp): TExp[] | undefined => {
+    const x = tvarDeref(te);
+    const rest = isPairTExp(x) ? fixedListComponents(x.cdrTE) : undefined;
+    return isListTExp(x) && isNeverTExp(tvarDeref(x.elementTE)) ? [] :
+           isPairTExp(x) && rest !== undefined ? [x.carTE, ...rest] :
+           undefined;
+};
+
+// Purpose: the type of an unannotated define - te widened, with a list of fixed length widened to the list of
+// the union of its element types: (tuple (lit 1) (lit 2)) => (listof number). The empty list is not widened.
+export const widenDefinedTExp = (te: TExp): TExp => {
+    const tes = fixedListComponents(te);
+    return tes === undefined || isEmpty(tes) ? widenTExp(te) :
+           makeListTExp(makeUnionTExp(map(widenDefinedTExp, tes)));
+};
+
+// forall-te(vars: list(tvar), body: te)
+export type ForallTExp = { tag: "ForallTExp"; vars: TVar[]; body: TExp; };
+export const makeForallTExp = (vars: TVar[], body: TExp): ForallTExp =>
+    ({tag: "ForallTExp", vars: vars, body: body});
+export const isForallTExp = (x: any): x is ForallTExp => x.tag === "ForallTExp";
+
+// record-te(name: string, params: list(te))
+// params are the type parameters of a variant of a parametric datatype - empty for the other records.
+export type RecordTExp = { tag: "RecordTExp"; name: string; params: TExp[]; };
+export const makeRecordTExp = (name: string, params: TExp[] = []): RecordTExp =>
+    ({tag: "RecordTExp", name: name, params: params});
+export const isRecordTExp = (x: any): x is RecordTExp => x.tag === "RecordTExp";
+
+// The record types declared so far, with their number of type parameters - parseTExp reads them as record types.
+// A record type is declared when its define-record (or define-datatype) is parsed, so that the type can be
+// used in the annotations of the rest of the program (and of the later programs of a session).
+const recordTypeArities = new Map<string, number>();
+
+// The datatypes declared so far - parseTExp reads them as the union of their variants.
+// The fields of the variants refer to the params of the datatype.
+export type DatatypeDecl = { name: string; params: TVar[]; variants: VariantDecl[]; }
+export type VariantDecl = { name: string; fieldTEs: TExp[]; }
+const datatypes = new Map<string, DatatypeDecl>();
+const variantDatatypes = new Map<string, DatatypeDecl>();
+
+const isTypeKeyword = (name: string): boolean =>
+    ["number", "boolean", "void", "string", "symbol", "condition", "any", "never", "Empty",
+     "union", "inter", "is?", "pair", "listof", "tuple", "forall", "lit"].includes(name);
+
+const isDeclaredTypeName = (name: string): boolean =>
+    recordTypeArities.has(name) || datatypes.has(name) || typeAliases.has(name);
+
+// A type declared again replaces the previous declaration.
+const undeclareType = (name: string): void => {
+    recordTypeArities.delete(name);
+    datatypes.delete(name);
+    variantDatatypes.delete(name);
+    typeAliases.delete(name);
+};
+
+// Purpose: declare name as a record type
+export const declareRecordType = (name: string): Result<RecordTExp> => {
+    if (isTypeKeyword(name) || isFreshTVarName(name))
+        return makeFailure(`Invalid record type name: ${name}`);
+    undeclareType(name);
+    recordTypeArities.set(name, 0);
+    return makeOk(makeRecordTExp(name));
+};
+
+// Purpose: declare the datatype name with type parameters params and the given variants.
+// The fields of the variants are set once they are parsed (see defineVariantFields) -
+// they may refer to the datatype itself.
+export const declareDatatype = (name: string, params: string[], variants: string[]): Result<DatatypeDecl> => {
+    const names = [name, ...variants];
+    const invalid = [...names, ...params].find((n: string) => isTypeKeyword(n) || isFreshTVarName(n));
+    if (invalid !== undefined)
+        return makeFailure(`Invalid datatype name: ${invalid}`);
+    if (uniq([...names, ...params]).length !== names.length + params.length)
+        return makeFailure(`The datatype ${name} must have distinct names for itself, its variants and its parameters`);
+    const decl: DatatypeDecl = {name: name, params: map(makeTVar, params),
+                                variants: map((v: string) => ({name: v, fieldTEs: []}), variants)};
+    names.forEach(undeclareType);
+    datatypes.set(name, decl);
+    variants.forEach((v: string) => {
+        recordTypeArities.set(v, params.length);
+        variantDatatypes.set(v, decl);
+    });
+    return makeOk(decl);
+};
+
+// Purpose: set the types of the fields of a declared variant
+export const defineVariantFields = (variant: string, fieldTEs: TExp[]): void =>
+    variantDatatypes.get(variant)?.variants.forEach((v: VariantDecl) => {
+        if (v.name === variant)
+            v.fieldTEs = fieldTEs;
+    });
+
+// Purpose: the types of the fields of a value of the variant type te - undefined when te is not a variant type.
+// Example: for (node number) of the datatype (tree T) above => [(tree number), number, (tree number)]
+export const variantFieldTEs = (te: RecordTExp): TExp[] | undefined => {
+    const decl = variantDatatypes.get(te.name);
+    const variant = decl?.variants.find((v: VariantDecl) => v.name === te.name);
+    return decl === undefined || variant === undefined ? undefined :
+           map((fieldTE: TExp) => substituteTVars(fieldTE, decl.params, te.params), variant.fieldTEs);
+};
+
+export const isVariantTExp = (x: any): x is RecordTExp =>
+    isRecordTExp(x) && variantDatatypes.has(x.name);
+
+// Purpose: the variant name of the datatype of the variant type te, with the type arguments of te -
+// undefined when name is not a variant of that datatype.
+// Example: for (leaf number) and node => (node number)
+export const siblingVariantTExp = (te: RecordTExp, name: string): RecordTExp | undefined => {
+    const decl = variantDatatypes.get(te.name);
+    return decl !== undefined && variantDatatypes.get(name) === decl ? makeRecordTExp(name, te.params) : undefined;
+};
+
+// Purpose: the type of the datatype decl applied to the type arguments args
+export const datatypeTExp = (decl: DatatypeDecl, args: TExp[]): TExp =>
+    makeUnionTExp(map((v: VariantDecl) => makeRecordTExp(v.name, args), decl.variants));
+
+// Purpose: test whether te is the type of a datatype - unparsed as the datatype
+export const isDatatypeTExp = (te: TExp): boolean =>
+    isUnionTExp(te) && unionDatatype(te) !== undefined;
+
+// Purpose: the datatype of which te is the type - a union of all its variants with the same arguments
+const unionDatatype = (te: UnionTExp): DatatypeDecl | undefined => {
+    const first = te.components[0];
+    const decl = isRecordTExp(first) ? variantDatatypes.get(first.name) : undefined;
+    return decl !== undefined && te.components.length === decl.variants.length &&
+           all((c: TExp) => isRecordTExp(c) && variantDatatypes.get(c.name) === decl &&
+                            equals(map(tvarDeref, c.params), map(tvarDeref, (first as RecordTExp).params)),
+               te.components) ? decl : undefined;
+};
+
+// Purpose: the type of a value of a datatype as a record type named after the datatype.
+// The inference engines do not unify unions: the variants of a datatype and the datatype itself
+// are all unified as one nominal type - (circle) and (union (circle) (square)) are both (shape).
+export const nominalDatatypeTExp = (te: TExp): TExp => {
+    const variant = isUnionTExp(te) && unionDatatype(te) !== undefined ? te.components[0] : te;
+    const decl = isRecordTExp(variant) ? variantDatatypes.get(variant.name) : undefined;
+    return isRecordTExp(variant) && decl !== undefined ? makeRecordTExp(decl.name, variant.params) : te;
+};
+
+// Purpose: the type te as used by the inference engines, which unify types without subtyping
+// - any and never are fresh type variables: raise : (T_1 -> T_2)
+// - a type predicate returns a boolean: number? : (T_1 -> boolean)
+// - literal types are widened and datatypes are nominal (see nominalDatatypeTExp)
+// The fresh type variables of a forall type are bound by the forall.
+export const inferenceTExp = (te: TExp): TExp => {
+    const x = tvarDeref(te);
+    return isAnyTExp(x) || isNeverTExp(x) ? makeFreshTVar() :
+           isPredTExp(x) ? makeBoolTExp() :
+           isLitTExp(x) ? x.base :
+           isProcTExp(x) ? makeProcTExp(map(inferenceTExp, x.paramTEs), inferenceTExp(x.returnTE)) :
+           isPairTExp(x) ? makePairTExp(inferenceTExp(x.carTE), inferenceTExp(x.cdrTE)) :
+           isListTExp(x) ? makeListTExp(inferenceTExp(x.elementTE)) :
+           isForallTExp(x) ? inferenceForallTExp(x) :
+           isRecordTExp(x) || isDatatypeTExp(x) ? inferenceDatatypeTExp(nominalDatatypeTExp(x)) :
+           x;
+};
+
+const inferenceForallTExp = (te: ForallTExp): ForallTExp => {
+    const body = inferenceTExp(te.body);
+    return makeForallTExp(uniqWith(eqTVar, [...te.vars, ...freeTVars(body).filter(isFreshTVar)]), body);
+};
+
+const inferenceDatatypeTExp = (te: TExp): TExp =>
+    isRecordTExp(te) ? makeRecordTExp(te.name, map(inferenceTExp, te.params)) : te;
+
+// alias-te(name: string, args: list(te))
+// A reference to the type alias name applied to the type arguments args (see unfoldTExp).
+export type AliasTExp = { tag: "AliasTExp"; name: string; args: TExp[]; };
+export const makeAliasTExp = (name: string, args: TExp[] = []): AliasTExp =>
+    ({tag: "AliasTExp", name: name, args: args});
+export const isAliasTExp = (x: any): x is AliasTExp => x.tag === "AliasTExp";
+
+// The type aliases declared so far - parseTExp reads them as alias types.
+// texp is undefined while the definition of the alias is parsed.
+export type TypeAliasDecl = { name: string; params: TVar[]; texp: TExp | undefined; }
+const typeAliases = new Map<string, TypeAliasDecl>();
+
+// Purpose: declare the type alias name with type parameters params, defined by the type parseDefinition returns.
+// The alias is declared while its definition is parsed - the definition may refer to the alias itself.
+// An alias which refers to itself outside of a type constructor - (define-type T (union number T)) -
+// has no unfolding and is rejected. When the definition fails, the alias is not declared.
+export const declareTypeAlias = (name: string, params: string[],
+                                 parseDefinition: () => Result<TExp>): Result<TypeAliasDecl> => {
+    const invalid = [name, ...params].find((n: string) => isTypeKeyword(n) || isFreshTVarName(n));
+    if (invalid !== undefined)
+        return makeFailure(`Invalid type alias name: ${invalid}`);
+    if (uniq([name, ...params]).length !== params.length + 1)
+        return makeFailure(`The type ${name} must have distinct names for itself and its parameters`);
+    const decl: TypeAliasDecl = {name: name, params: map(makeTVar, params), texp: undefined};
+    undeclareType(name);
+    typeAliases.set(name, decl);
+    const texp = bind(parseDefinition(), (texp: TExp) =>
+        unguardedAliases(texp, []).includes(name) ? makeFailure<TExp>(`Type ${name} refers to itself outside of a type constructor`) :
+        makeOk(texp));
+    if (isFailure(texp)) {
+        typeAliases.delete(name);
+        return texp;
+    }
+    decl.texp = texp.value;
+    return makeOk(decl);
+};
+
+// Purpose: declare the alias name with type parameters params before it is defined by declareTypeAlias.
+// The aliases of a program are declared first - a definition may refer to an alias defined after it.
+// Until it is defined, the alias is applied to its own parameters (see parseDeclaredTExp).
+export const predeclareTypeAlias = (name: string, params: string[]): void => {
+    undeclareType(name);
+    typeAliases.set(name, {name: name, params: map(makeTVar, params), texp: undefined});
+};
+
+// Purpose: remove the aliases which were declared but not defined - the program which declares them failed to parse.
+export const undeclarePendingTypeAliases = (): void =>
+    [...typeAliases.values()].filter((decl: TypeAliasDecl) => decl.texp === undefined)
+        .forEach((decl: TypeAliasDecl) => typeAliases.delete(decl.name));
+
+// The aliases which te refers to - directly or through unions, intersections and other aliases.
+const unguardedAliases = (te: TExp, seen: string[]): string[] => {
+    const x = tvarDeref(te);
+    const texp = isAliasTExp(x) ? typeAliases.get(x.name)?.texp : undefined;
+    return isAliasTExp(x) ? (seen.includes(x.name) ? [] :
+                             [x.name, ...(texp === undefined ? [] : unguardedAliases(texp, [...seen, x.name]))]) :
+        isUnionTExp(x) || isInterTExp(x) ? chain((c: TExp) => unguardedAliases(c, seen), x.components) :
+        [];
+};
+
+// Purpose: the type te stands for - the contents of a bound type variable, or the definition of
+// an alias applied to its arguments. A recursive alias is unfolded once.
+// Example: for the alias (Tree T) above, unfoldTExp((Tree number)) => (union number (pair (Tree number) (Tree number)))
+export const unfoldTExp = (te: TExp): TExp => {
+    const x = tvarDeref(te);
+    const decl = isAliasTExp(x) ? typeAliases.get(x.name) : undefined;
+    return isAliasTExp(x) && decl?.texp !== undefined ? unfoldTExp(substituteTVars(decl.texp, decl.params, x.args)) :
+           x;
+};
+
 export type TupleTExp = NonEmptyTupleTExp | EmptyTupleTExp;
 export const isTupleTExp = (x: any): x is TupleTExp =>
     isNonEmptyTupleTExp(x) || isEmptyTupleTExp(x);
@@ -129,7 +463,17 @@ export const isInterTExp = (x: any): x is InterTExp => x.tag === "InterTExp";
 
 // L52
 const flattenSortUnion = (tes: TExp[]): TExp[] =>
-    removeDuplicatesAndNever(sort(subTypeComparator, flattenUnion(tes)));
+    mergeBoolLits(removeDuplicatesAndNever(sort(subTypeComparator, flattenUnion(tes))));
+
+// #t and #f are all the booleans: (union #t #f number) => (union boolean number)
+const mergeBoolLits = (tes: TExp[]): TExp[] =>
+    includes(makeLitTExp(makeBoolTExp(), true), tes) && includes(makeLitTExp(makeBoolTExp(), false), tes) ?
+        flattenSortUnion([makeBoolTExp(), ...tes]) :
+    tes;
+
+// boolean is the union of #t and #f
+const splitBoolTExp = (te: TExp): TExp[] =>
+    isBoolTExp(te) ? [makeLitTExp(makeBoolTExp(), true), makeLitTExp(makeBoolTExp(), false)] : [te];
 
 // In case there is only one component - remove the union wrapper.
 // (union) = never
@@ -244,8 +588,8 @@ export const makeDiffTExp = (te1: TExp, te2: TExp): TExp => {
 };
 */
 export const makeDiffTExp = (te1: TExp, te2: TExp): TExp => {
-    const te1Prime = tvarDeref(te1);
-    const te2Prime = tvarDeref(te2);
+    const te1Prime = unfoldTExp(te1);
+    const te2Prime = unfoldTExp(te2);
     // If te1 and te2 are the same, the difference is empty, represented by never.
     if (equals(te1Prime, te2Prime)) return makeNeverTExp();
     // If te1 is any, and te2 is also any, the difference is never.
@@ -260,13 +604,16 @@ export const makeDiffTExp = (te1: TExp, te2: TExp): TExp => {
         }
     }
     // If te1 is a union type, filter out components that are subtypes of te2 and return the resulting union.
-    if (isUnionTExp(te1Prime)) return makeUnionTExp(te1Prime.components.filter(t => !isSubType(t, te2Prime)));
+    // A boolean component is split into #t and #f, so that removing #t leaves #f.
+    if (isUnionTExp(te1Prime)) return makeUnionTExp(chain(splitBoolTExp, te1Prime.components).filter(t => !isSubType(t, te2Prime)));
     // If te1 is an intersection type, filter out components that are subtypes of te2 and return the resulting intersection.
     if (isInterTExp(te1Prime)) return makeInterTExp(te1Prime.components.filter(t => !isSubType(t, te2Prime)));
     //If te2 is a union type, create an intersection of te1 and the difference of each component of te2 with te1.
     if (isUnionTExp(te2Prime)) return makeInterTExp([te1Prime, makeDiffTExp(te2Prime, te1Prime)]);
     //If te2 is an intersection type, create a union of the differences between te1 and each component of te2.
     if (isInterTExp(te2Prime)) return makeUnionTExp(te2Prime.components.map(t => makeDiffTExp(te1Prime, t)));
+    // boolean without #t is #f
+    if (isBoolTExp(te1Prime) && isLitTExp(te2Prime) && isBoolTExp(te2Prime.base)) return makeLitTExp(te2Prime.base, ! te2Prime.val);
 
     return isSubType(te1Prime, te2Prime) ? makeNeverTExp() : te1Prime;
 };
@@ -285,7 +632,10 @@ export const equalsAtomicTExp = (te1: AtomicTExp, te2: AtomicTExp): boolean =>
      (isStrTExp(te1) && isStrTExp(te2)) ||
      (isVoidTExp(te1) && isVoidTExp(te2)) ||
      (isAnyTExp(te1) && isAnyTExp(te2)) ||
-     (isNeverTExp(te1) && isNeverTExp(te2)));
+     (isNeverTExp(te1) && isNeverTExp(te2)) ||
+     (isSymbolTExp(te1) && isSymbolTExp(te2)) ||
+     (isConditionTExp(te1) && isConditionTExp(te2)) ||
+     (isLitTExp(te1) && isLitTExp(te2) && equals(te1, te2)));
 /*
 const isSubTypeHelper = (te1: TExp, te2: TExp): boolean =>
     equals(te1, te2) ||
@@ -323,7 +673,15 @@ const isSubTypeHelper = (te1: TExp, te2: TExp): boolean =>
             (isTVar(normalizedTe1) && isTVar(normalizedTe2) && eqTVar(normalizedTe1, normalizedTe2)) ||
             (isAtomicTExp(normalizedTe1) && isAtomicTExp(normalizedTe2) && equalsAtomicTExp(normalizedTe1, normalizedTe2)) ||
             (isProcTExp(normalizedTe1) && isProcTExp(normalizedTe2) && isSubTypeProc(normalizedTe1, normalizedTe2)) ||
-            (isTupleTExp(normalizedTe1) && isTupleTExp(normalizedTe2) && isSubTypeTuple(normalizedTe1, normalizedTe2));
+            (isTupleTExp(normalizedTe1) && isTupleTExp(normalizedTe2) && isSubTypeTuple(normalizedTe1, normalizedTe2)) ||
+            (isPairTExp(normalizedTe1) && isSubTypePair(normalizedTe1, normalizedTe2)) ||
+            (isListTExp(normalizedTe1) && isListTExp(normalizedTe2) && isSubType(normalizedTe1.elementTE, normalizedTe2.elementTE)) ||
+            (isForallTExp(normalizedTe1) && isForallTExp(normalizedTe2) && isSubTypeForall(normalizedTe1, normalizedTe2)) ||
+            (isRecordTExp(normalizedTe1) && isRecordTExp(normalizedTe2) && isSubTypeRecord(normalizedTe1, normalizedTe2)) ||
+            // A literal type is a subtype of its base type
+            (isLitTExp(normalizedTe1) && isSubType(normalizedTe1.base, normalizedTe2)) ||
+            // A type predicate returns a boolean
+            (isPredTExp(normalizedTe1) && isBoolTExp(normalizedTe2));
     };
 const any = <T>(pred: (t: T) => boolean, arr: T[]): boolean => arr.some(pred);
 const isSubTypeProc = (te1: ProcTExp, te2: ProcTExp): boolean =>
@@ -331,6 +689,22 @@ const isSubTypeProc = (te1: ProcTExp, te2: ProcTExp): boolean =>
     all((pair: [TExp, TExp]) => isSubType(pair[1], pair[0]), zip(te1.paramTEs, te2.paramTEs)) &&
     isSubType(te1.returnTE, te2.returnTE);
 
+// Pairs are covariant in car and cdr.
+// A pair is a list when its car is an element and its cdr is a list of the same elements.
+const isSubTypePair = (te1: PairTExp, te2: TExp): boolean =>
+    (isPairTExp(te2) && isSubType(te1.carTE, te2.carTE) && isSubType(te1.cdrTE, te2.cdrTE)) ||
+    (isListTExp(te2) && isSubType(te1.carTE, te2.elementTE) && isSubType(te1.cdrTE, te2));
+
+// Record types are nominal - the variants of a datatype are covariant in its parameters.
+const isSubTypeRecord = (te1: RecordTExp, te2: RecordTExp): boolean =>
+    te1.name === te2.name && te1.params.length === te2.params.length &&
+    all((pair: [TExp, TExp]) => isSubType(pair[0], pair[1]), zip(te1.params, te2.params));
+
+// Forall types are compared up to the renaming of their type variables.
+const isSubTypeForall = (te1: ForallTExp, te2: ForallTExp): boolean =>
+    te1.vars.length === te2.vars.length &&
+    isSubType(te1.body, substituteTVars(te2.body, te2.vars, te1.vars));
+
 const isSubTypeTuple = (te1: TupleTExp, te2: TupleTExp): boolean =>
     (isEmptyTupleTExp(te1) && isEmptyTupleTExp(te2)) ||
     (isNonEmptyTupleTExp(te1) && isNonEmptyTupleTExp(te2) &&
@@ -391,9 +765,19 @@ export const dnf = (te: TExp): TExp =>
 // (factors . Product(disj)) 
 export const makeDnf = (disj: UnionTExp[], factors: TExp[]): TExp =>
     isEmpty(disj) && isEmpty(factors) ? makeAnyTExp() :
-isEmpty(disj) ? ({tag: "InterTExp", components: factors}) : 
+isEmpty(disj) ? interFactors(factors) : 
     factorDisj(disj, factors);
 
+// A factor which is a supertype of another factor is removed: (inter (listof number) (tuple number)) = (tuple number)
+// A literal type intersected with another atomic type has no values: (inter (lit 1) string) = never
+const interFactors = (factors: TExp[]): TExp => {
+    const minimal = factors.filter((te: TExp) =>
+        ! any((te2: TExp) => isSubType(te2, te) && ! isSubType(te, te2), factors));
+    return minimal.length === 1 ? minimal[0] :
+           any(isLitTExp, minimal) && minimal.filter(isAtomicTExp).length > 1 ? makeNeverTExp() :
+           ({tag: "InterTExp", components: minimal});
+};
+
 // Preconditions: disj is not empty, factors is not empty
 // Compute Union(Product_i(disj_i) x factors)
 // ((a+b), (c+d), (d+e+f)) x gh -> (ac + ad + bc + bd)x(d+e+f)xgh
@@ -433,7 +817,22 @@ export const isSubType = (te1: TExp, te2: TExp): boolean =>
 export const isSubType = (te1: TExp, te2: TExp): boolean => {
     const te1Prime = tvarDeref(te1);
     const te2Prime = tvarDeref(te2);
-    return isSubTypeHelper(te1Prime, te2Prime);
+    return isAliasTExp(te1Prime) || isAliasTExp(te2Prime) ? isSubTypeAlias(te1Prime, te2Prime) :
+           isSubTypeHelper(te1Prime, te2Prime);
+};
+
+// The pairs of types which are being compared with an alias on one side.
+// Aliases are compared by their unfolding - when the same pair is met again while it is compared
+// (a recursive alias refers to itself), it is assumed to be a subtype.
+const assumedSubTypes: Array<[TExp, TExp]> = [];
+
+const isSubTypeAlias = (te1: TExp, te2: TExp): boolean => {
+    if (equals(te1, te2) || assumedSubTypes.some(([a1, a2]) => equals(a1, te1) && equals(a2, te2)))
+        return true;
+    assumedSubTypes.push([te1, te2]);
+    const result = isSubTypeHelper(unfoldTExp(te1), unfoldTExp(te2));
+    assumedSubTypes.pop();
+    return result;
 };
 // True when te is in tes or is a subtype of one of the elements of tes
 export const containsType = (tes: TExp[], te: TExp): boolean =>
@@ -473,10 +872,15 @@ const makeTVarGen = (): () => TVar => {
 }
 export const makeFreshTVar = makeTVarGen();
 export const isTVar = (x: any): x is TVar => x.tag === "TVar";
+// Fresh type variables stand for missing type annotations and for the unknown types of inference
+export const isFreshTVar = (x: any): x is TVar => isTVar(x) && isFreshTVarName(x.var);
+const isFreshTVarName = (v: string): boolean => /^T_\d+$/.test(v);
 export const eqTVar = (tv1: TVar, tv2: TVar): boolean => tv1.var === tv2.var;
 export const tvarContents = (tv: TVar): undefined | TExp => unbox(tv.contents);
 export const tvarSetContents = (tv: TVar, val: TExp): void =>
     setBox(tv.contents, val);
+export const tvarResetContents = (tv: TVar): void =>
+    setBox(tv.contents, undefined);
 export const tvarIsNonEmpty = (tv: TVar): boolean => tvarContents(tv) !== undefined;
 export const tvarDeref = (te: TExp): TExp => {
     if (! isTVar(te)) return te;
@@ -489,14 +893,70 @@ export const tvarDeref = (te: TExp): TExp => {
         return contents;
 }
 
+// ========================================================
+// Polymorphism
+
+// Purpose: replace the type variables vars by tes in te.
+// Bound type variables are replaced by their contents.
+// The variables of a nested forall shadow vars.
+export const substituteTVars = (te: TExp, vars: TVar[], tes: TExp[]): TExp => {
+    const sub = (te: TExp): TExp => substituteTVars(te, vars, tes);
+    const derefTE = tvarDeref(te);
+    const pos = isTVar(derefTE) ? vars.findIndex((v) => eqTVar(v, derefTE)) : -1;
+    return isTVar(derefTE) ? (pos === -1 ? derefTE : tes[pos]) :
+        isProcTExp(derefTE) ? makeProcTExp(map(sub, derefTE.paramTEs), sub(derefTE.returnTE)) :
+        isPairTExp(derefTE) ? makePairTExp(sub(derefTE.carTE), sub(derefTE.cdrTE)) :
+        isListTExp(derefTE) ? makeListTExp(sub(derefTE.elementTE)) :
+        isUnionTExp(derefTE) ? makeUnionTExp(map(sub, derefTE.components)) :
+        isInterTExp(derefTE) ? makeInterTExp(map(sub, derefTE.components)) :
+        isPredTExp(derefTE) ? makePredTExp(sub(derefTE.type)) :
+        isNonEmptyTupleTExp(derefTE) ? makeNonEmptyTupleTExp(map(sub, derefTE.TEs) as NonTupleTExp[]) :
+        isForallTExp(derefTE) ? substituteForall(derefTE, vars, tes) :
+        isRecordTExp(derefTE) ? makeRecordTExp(derefTE.name, map(sub, derefTE.params)) :
+        isAliasTExp(derefTE) ? makeAliasTExp(derefTE.name, map(sub, derefTE.args)) :
+        derefTE;
+};
+
+const substituteForall = (te: ForallTExp, vars: TVar[], tes: TExp[]): ForallTExp => {
+    const isFree = (v: TVar): boolean => ! te.vars.some((bound) => eqTVar(bound, v));
+    const pairs = zip(vars, tes).filter(([v, _]) => isFree(v));
+    return makeForallTExp(te.vars, substituteTVars(te.body, map(([v, _]) => v, pairs), map(([_, t]) => t, pairs)));
+};
+
+// Purpose: the unbound type variables which occur free in te (without repetitions)
+export const freeTVars = (te: TExp): TVar[] => {
+    const loop = (te: TExp): TVar[] => {
+        const derefTE = tvarDeref(te);
+        return isTVar(derefTE) ? [derefTE] :
+            isProcTExp(derefTE) ? chain(loop, procTExpComponents(derefTE)) :
+            isPairTExp(derefTE) ? chain(loop, [derefTE.carTE, derefTE.cdrTE]) :
+            isListTExp(derefTE) ? loop(derefTE.elementTE) :
+            isUnionTExp(derefTE) || isInterTExp(derefTE) ? chain(loop, derefTE.components) :
+            isPredTExp(derefTE) ? loop(derefTE.type) :
+            isNonEmptyTupleTExp(derefTE) ? chain(loop, derefTE.TEs) :
+            isRecordTExp(derefTE) ? chain(loop, derefTE.params) :
+            isAliasTExp(derefTE) ? chain(loop, derefTE.args) :
+            isForallTExp(derefTE) ? filter((v: TVar) => ! derefTE.vars.some((bound) => eqTVar(bound, v)),
+                                           loop(derefTE.body)) :
+            [];
+    };
+    return uniqWith(eqTVar, loop(te));
+};
+
+// Purpose: instantiate a forall type with fresh type variables
+// Example: instantiateTExp(parseTE('(forall (T) (T -> T))')) => (T_7 -> T_7)
+export const instantiateTExp = (te: ForallTExp): TExp =>
+    substituteTVars(te.body, te.vars, map((_) => makeFreshTVar(), te.vars));
+
 // ========================================================
 // TExp Utilities
 
 // Purpose: uniform access to atomic types
 export const atomicTExpName = (te: AtomicTExp): string => te.tag;
 
+// Literal types are also compared by their value
 export const eqAtomicTExp = (te1: AtomicTExp, te2: AtomicTExp): boolean =>
-    atomicTExpName(te1) === atomicTExpName(te2);
+    atomicTExpName(te1) === atomicTExpName(te2) && (! isLitTExp(te1) || equals(te1, te2));
 
 
 // ========================================================
@@ -516,13 +976,31 @@ export const parseTE = (t: string): Result<TExp> =>
 ;; parseTExp('(number -> (number -> number)') => '(proc-te (num-te) (proc-te (num-te) num-te))
 */
 export const parseTExp = (texp: Sexp): Result<TExp> =>
+    mapv(parseTExpSexp(texp), (te: TExp) => {
+        writtenTExps.set(te, texp);
+        return te;
+    });
+
+// The type expressions read by parseTExp, with the s-expression each one is read from:
+// parsing normalizes unions - the pretty printer prints an annotation as it is written.
+const writtenTExps = new WeakMap<TExp, Sexp>();
+
+// Purpose: the s-expression from which te was read - undefined when te was not read by parseTExp
+export const writtenTExp = (te: TExp): Sexp | undefined => writtenTExps.get(te);
+
+const parseTExpSexp = (texp: Sexp): Result<TExp> =>
     (texp === "number") ? makeOk(makeNumTExp()) :
     (texp === "boolean") ? makeOk(makeBoolTExp()) :
     (texp === "void") ? makeOk(makeVoidTExp()) :
     (texp === "string") ? makeOk(makeStrTExp()) :
+    (texp === "symbol") ? makeOk(makeSymbolTExp()) :
+    (texp === "condition") ? makeOk(makeConditionTExp()) :
     // ?
     (texp === "any") ? makeOk(makeAnyTExp()) :
     (texp === "never") ? makeOk(makeNeverTExp()) :
+    (texp === "#t") ? makeOk(makeLitTExp(makeBoolTExp(), true)) :
+    (texp === "#f") ? makeOk(makeLitTExp(makeBoolTExp(), false)) :
+    isString(texp) && isDeclaredTypeName(texp) ? parseDeclaredTExp(texp, []) :
     isString(texp) ? makeOk(makeTVar(texp)) :
     isArray(texp) ? parseCompoundTExp(texp) :
     makeFailure(`Unexpected TExp - ${format(texp)}`);
@@ -531,8 +1009,67 @@ const parseCompoundTExp = (texps: Sexp[]): Result<TExp> =>
     (texps[0] === "union") ? parseUnionTExp(texps) :
     (texps[0] === "inter") ? parseInterTExp(texps) :
     (texps[0] === "is?") ? parsePredTExp(texps) : 
+    (texps[0] === "pair") ? parsePairTExp(texps) :
+    (texps[0] === "listof") ? parseListTExp(texps) :
+    (texps[0] === "tuple") ? mapv(mapResult(parseTExp, texps.slice(1)), makeFixedListTExp) :
+    (texps[0] === "forall") ? parseForallTExp(texps) :
+    (texps[0] === "lit") ? parseLitTExp(texps) :
+    (texps[0] === "quote") ? parseSymbolLitTExp(texps) :
+    isString(texps[0]) && isDeclaredTypeName(texps[0]) && ! texps.includes("->") ? parseDeclaredTExp(texps[0], texps.slice(1)) :
     parseProcTExp(texps);
 
+// Expect a record type, a datatype or a type alias applied to as many type arguments as it has parameters.
+// Before it is defined - in its own definition or in the definition of an alias declared with it - an alias
+// is applied to its parameters.
+const parseDeclaredTExp = (name: string, args: Sexp[]): Result<TExp> => {
+    const decl = datatypes.get(name);
+    const alias = typeAliases.get(name);
+    const arity = decl !== undefined ? decl.params.length :
+                  alias !== undefined ? alias.params.length :
+                  recordTypeArities.get(name);
+    return args.length !== arity ? makeFailure(`Type ${name} expects ${arity} type arguments - ${format([name, ...args])}`) :
+        alias !== undefined && alias.texp === undefined && ! equals(args, map((v: TVar) => v.var, alias.params)) ?
+            makeFailure(`Type ${name} must be applied to its own parameters before it is defined - ${format([name, ...args])}`) :
+        mapv(mapResult(parseTExp, args), (tes: TExp[]) =>
+            decl !== undefined ? datatypeTExp(decl, tes) :
+            alias !== undefined ? makeAliasTExp(name, tes) :
+            makeRecordTExp(name, tes));
+};
+
+// Expect (forall (tvar ...) texp)
+const parseForallTExp = (texps: Sexp[]): Result<TExp> => {
+    const vars = texps[1];
+    return (texps.length !== 3 || ! isArray(vars) || isEmpty(vars) || ! all(isString, vars)) ?
+        makeFailure(`forall type expects a list of type variables and a type - ${format(texps)}`) :
+        mapv(parseTExp(texps[2]), (body: TExp) => makeForallTExp(map((v) => makeTVar(v as string), vars), body));
+};
+
+// Expect (pair texp1 texp2)
+const parsePairTExp = (texps: Sexp[]): Result<TExp> =>
+    (texps.length !== 3) ? makeFailure(`pair type expects 2 components - ${format(texps)}`) :
+    bind(parseTExp(texps[1]), (carTE: TExp) =>
+        mapv(parseTExp(texps[2]), (cdrTE: TExp) => makePairTExp(carTE, cdrTE)));
+
+// Expect (listof texp)
+const parseListTExp = (texps: Sexp[]): Result<TExp> =>
+    (texps.length !== 2) ? makeFailure(`listof type expects 1 component - ${format(texps)}`) :
+    mapv(parseTExp(texps[1]), (elementTE: TExp) => makeListTExp(elementTE));
+
+// Expect (lit number), (lit "string"), (lit #t) or (lit #f)
+const parseLitTExp = (texps: Sexp[]): Result<TExp> => {
+    const val = texps[1];
+    return texps.length !== 2 ? makeFailure(`lit type expects 1 value - ${format(texps)}`) :
+        val === "#t" || val === "#f" ? makeOk(makeLitTExp(makeBoolTExp(), val === "#t")) :
+        isString(val) && isNumericString(val) ? makeOk(makeLitTExp(makeNumTExp(), +val)) :
+        isSexpString(val) ? makeOk(makeLitTExp(makeStrTExp(), val.toString())) :
+        makeFailure(`lit type expects a number, a string or a boolean - ${format(texps)}`);
+};
+
+// Expect 'symbol - read as (quote symbol)
+const parseSymbolLitTExp = (texps: Sexp[]): Result<TExp> =>
+    texps.length === 2 && isString(texps[1]) ? makeOk(makeLitTExp(makeSymbolTExp(), texps[1])) :
+    makeFailure(`Unexpected TExp - ${format(texps)}`);
+
 // Expect (union texp1 ...)
 const parseUnionTExp = (texps: Sexp[]): Result<TExp> =>
     mapv(mapResult(parseTExp, texps.slice(1)),
@@ -607,8 +1144,16 @@ export const unparseTExp = (te: TExp): Result<string> => {
         isVoidTExp(x) ? makeOk('void') :
         isAnyTExp(x) ? makeOk('any') :
         isNeverTExp(x) ? makeOk('never') :
+        isSymbolTExp(x) ? makeOk('symbol') :
+        isConditionTExp(x) ? makeOk('condition') :
+        isLitTExp(x) ? makeOk(unparseLitTExp(x)) :
+        isRecordTExp(x) ? (isEmpty(x.params) ? makeOk(x.name) :
+                           mapv(mapResult(unparseTExp, x.params), (params: string[]) => [x.name, ...params])) :
+        isAliasTExp(x) ? (isEmpty(x.args) ? makeOk(x.name) :
+                          mapv(mapResult(unparseTExp, x.args), (args: string[]) => [x.name, ...args])) :
         isEmptyTVar(x) ? makeOk(x.var) :
         isTVar(x) ? up(tvarContents(x)) :
+        isUnionTExp(x) && isDatatypeTExp(x) ? unparseDatatype(x) :
         isUnionTExp(x) ? mapv(mapResult(unparseTExp, x.components), (componentTEs: string[]) => 
                                 parenthesizeUnion(componentTEs)) :
         // L52
@@ -617,12 +1162,32 @@ export const unparseTExp = (te: TExp): Result<string> => {
         isProcTExp(x) ? bind(unparseTuple(x.paramTEs), (paramTEs: string[]) =>
                             mapv(unparseTExp(x.returnTE), (returnTE: string) =>
                                 [...paramTEs, '->', returnTE])) :
+        isPairTExp(x) && fixedListComponents(x) !== undefined ?
+            mapv(mapResult(unparseTExp, fixedListComponents(x) as TExp[]), (tes: string[]) => ['tuple', ...tes]) :
+        isPairTExp(x) ? bind(unparseTExp(x.carTE), (carTE: string) =>
+                            mapv(unparseTExp(x.cdrTE), (cdrTE: string) => ['pair', carTE, cdrTE])) :
+        isListTExp(x) ? mapv(unparseTExp(x.elementTE), (elementTE: string) => ['listof', elementTE]) :
+        isForallTExp(x) ? mapv(unparseTExp(x.body), (body: string) =>
+                                ['forall', `(${map((v) => v.var, x.vars).join(' ')})`, body]) :
         isEmptyTupleTExp(x) ? makeOk("Empty") :
         isNonEmptyTupleTExp(x) ? unparseTuple(x.TEs) :
         x === undefined ? makeFailure("Undefined TVar") :
         isPredTExp(x) ? mapv(unparseTExp(x.type), (s2: string) =>'is?' + s2) :
         x;
 
+    const unparseLitTExp = (x: LitTExp): string =>
+        isBoolTExp(x.base) ? (x.val ? "#t" : "#f") :
+        isSymbolTExp(x.base) ? `'${x.val}` :
+        isStrTExp(x.base) ? `(lit "${x.val}")` :
+        `(lit ${x.val})`;
+
+    // The variants all have the same arguments - those of the datatype
+    const unparseDatatype = (x: UnionTExp): Result<string | string[]> => {
+        const name = (unionDatatype(x) as DatatypeDecl).name;
+        const args = (x.components[0] as RecordTExp).params;
+        return isEmpty(args) ? makeOk(name) : mapv(mapResult(unparseTExp, args), (args: string[]) => [name, ...args]);
+    };
+
     const unparsed = up(te);
     return mapv(unparsed,
                 (x: string | string[]) => isString(x) ? x :
@@ -630,7 +1195,6 @@ export const unparseTExp = (te: TExp): Result<string> => {
                                           x);
 }
 
-// No need to change this for Union
 // ============================================================
 // equivalentTEs: 2 TEs are equivalent up to variable renaming.
 // For example:
@@ -659,6 +1223,7 @@ const matchTVarsInTE = <T1, T2>(te1: TExp, te2: TExp,
                                 succ: (mapping: Array<Pair<TVar, TVar>>) => T1,
                                 fail: () => T2): T1 | T2 =>
     (isTVar(te1) || isTVar(te2)) ? matchTVarsinTVars(tvarDeref(te1), tvarDeref(te2), succ, fail) :
+    (isAliasTExp(te1) || isAliasTExp(te2)) ? matchTVarsInAliases(te1, te2, succ, fail) :
     (isAtomicTExp(te1) || isAtomicTExp(te2)) ?
         ((isAtomicTExp(te1) && isAtomicTExp(te2) && eqAtomicTExp(te1, te2)) ? succ([]) : fail()) :
     matchTVarsInTProcs(te1, te2, succ, fail);
@@ -671,10 +1236,39 @@ const matchTVarsinTVars = <T1, T2>(te1: TExp, te2: TExp,
     (isTVar(te1) || isTVar(te2)) ? fail() :
     matchTVarsInTE(te1, te2, succ, fail);
 
+// The pairs of types which are being matched with an alias on one side - as in isSubType,
+// aliases are matched by their unfolding and a pair met again is assumed to match.
+const assumedMatches: Array<Pair<TExp, TExp>> = [];
+
+const matchTVarsInAliases = <T1, T2>(te1: TExp, te2: TExp,
+                                     succ: (mapping: Array<Pair<TVar, TVar>>) => T1,
+                                     fail: () => T2): T1 | T2 => {
+    if (isAliasTExp(te1) && isAliasTExp(te2) && te1.name === te2.name)
+        return matchTVarsInTEs(te1.args, te2.args, succ, fail);
+    if (assumedMatches.some((p) => equals(p.left, te1) && equals(p.right, te2)))
+        return succ([]);
+    const unfolded1 = unfoldTExp(te1);
+    const unfolded2 = unfoldTExp(te2);
+    // An alias whose definition is not known has no unfolding
+    if (isAliasTExp(unfolded1) || isAliasTExp(unfolded2))
+        return fail();
+    assumedMatches.push({left: te1, right: te2});
+    const result = matchTVarsInTE(unfolded1, unfolded2, succ, fail);
+    assumedMatches.pop();
+    return result;
+};
+
 const matchTVarsInTProcs = <T1, T2>(te1: TExp, te2: TExp,
         succ: (mapping: Array<Pair<TVar, TVar>>) => T1,
         fail: () => T2): T1 | T2 =>
     (isProcTExp(te1) && isProcTExp(te2)) ? matchTVarsInTEs(procTExpComponents(te1), procTExpComponents(te2), succ, fail) :
+    (isPairTExp(te1) && isPairTExp(te2)) ? matchTVarsInTEs([te1.carTE, te1.cdrTE], [te2.carTE, te2.cdrTE], succ, fail) :
+    (isListTExp(te1) && isListTExp(te2)) ? matchTVarsInTE(te1.elementTE, te2.elementTE, succ, fail) :
+    (isForallTExp(te1) && isForallTExp(te2)) ? matchTVarsInTEs([...te1.vars, te1.body], [...te2.vars, te2.body], succ, fail) :
+    (isRecordTExp(te1) && isRecordTExp(te2)) ? (te1.name === te2.name ? matchTVarsInTEs(te1.params, te2.params, succ, fail) : fail()) :
+    // The components of unions and intersections are sorted
+    ((isUnionTExp(te1) && isUnionTExp(te2)) || (isInterTExp(te1) && isInterTExp(te2))) ?
+        matchTVarsInTEs(te1.components, te2.components, succ, fail) :
     fail();
 
 const matchTVarsInTEs = <T1, T2>(te1: TExp[], te2: TExp[],
@@ -1,20 +1,27 @@
 import { PrimOp } from "./L5-ast";
-import { Value, isSymbolSExp, isCompoundSExp, makeCompoundSExp, makeEmptySExp, isEmptySExp, CompoundSExp, EmptySExp } from "./L5-value";
+import { Value, isSymbolSExp, isCompoundSExp, makeCompoundSExp, makeEmptySExp, isEmptySExp, CompoundSExp, EmptySExp,
+         isCondition, makeSymbolSExp, raise, raiseCondition, valueToString, valueToDisplayString,
+         isRecordValue, makeRecordValue, RecordProc, RecordValue } from "./L5-value";
+import { OutputPort } from "./L5-output";
 import { Result, makeFailure, makeOk } from "../shared/result";
 import { allT, first, isNonEmptyList, rest } from "../shared/list";
 import { isNumber, isString, isBoolean } from "../shared/type-predicates";
-import { reduce } from "ramda";
+import { map, reduce } from "ramda";
 import { format } from "../shared/format";
 
-export const applyPrimitive = (proc: PrimOp, args: Value[]): Result<Value> =>
-    proc.op === "+" ? (allT(isNumber, args) ? makeOk(reduce((x, y) => x + y, 0, args)) : makeFailure("+ expects numbers only")) :
+// display, write and newline print to port.
+export const applyPrimitive = (proc: PrimOp, args: Value[], port: OutputPort): Result<Value> =>
+    proc.op === "+" ? (allT(isNumber, args) ? makeOk(reduce((x, y) => x + y, 0, args)) : raiseCondition("wrong-type", "+ expects numbers only")) :
     proc.op === "-" ? minusPrim(args) :
-    proc.op === "*" ? (allT(isNumber, args) ? makeOk(reduce((x, y) => x * y, 1, args)) : makeFailure("* expects numbers only")) :
+    proc.op === "*" ? (allT(isNumber, args) ? makeOk(reduce((x, y) => x * y, 1, args)) : raiseCondition("wrong-type", "* expects numbers only")) :
     proc.op === "/" ? divPrim(args) :
     proc.op === ">" ? makeOk(args[0] > args[1]) :
     proc.op === "<" ? makeOk(args[0] < args[1]) :
     proc.op === "=" ? makeOk(args[0] === args[1]) :
     proc.op === "not" ? makeOk(! args[0]) :
+    // and / or passed as values - applications of and / or short-circuit in the evaluator
+    proc.op === "and" ? makeOk(args.every((arg) => arg !== false)) :
+    proc.op === "or" ? makeOk(args.some((arg) => arg !== false)) :
     proc.op === "eq?" ? makeOk(eqPrim(args)) :
     proc.op === "string=?" ? makeOk(args[0] === args[1]) :
     proc.op === "cons" ? makeOk(consPrim(args[0], args[1])) :
@@ -27,16 +34,48 @@ export const applyPrimitive = (proc: PrimOp, args: Value[]): Result<Value> =>
     proc.op === "boolean?" ? makeOk(typeof(args[0]) === 'boolean') :
     proc.op === "symbol?" ? makeOk(isSymbolSExp(args[0])) :
     proc.op === "string?" ? makeOk(isString(args[0])) :
-    // display, newline
+    proc.op === "string-length" ? (isString(args[0]) ? makeOk(args[0].length) : raiseCondition("wrong-type", `string-length expects a string: ${format(args[0])}`)) :
+    // call/cc captures the continuation of its application: only the CPS evaluator has one
+    proc.op === "call/cc" ? makeFailure("call/cc is only supported by the CPS evaluator (L5-eval-cps)") :
+    // Runtime errors are raised as conditions which guard can catch
+    proc.op === "raise" ? raise(args[0]) :
+    proc.op === "error" ? errorPrim(args) :
+    proc.op === "condition?" ? makeOk(isCondition(args[0])) :
+    proc.op === "condition-kind" ? (isCondition(args[0]) ? makeOk(makeSymbolSExp(args[0].kind)) :
+                                    raiseCondition("wrong-type", `condition-kind expects a condition: ${format(args[0])}`)) :
+    proc.op === "condition-message" ? (isCondition(args[0]) ? makeOk(args[0].message) :
+                                       raiseCondition("wrong-type", `condition-message expects a condition: ${format(args[0])}`)) :
+    // Output to port
+    proc.op === "display" ? printPrim(valueToDisplayString(args[0]), port) :
+    proc.op === "write" ? printPrim(valueToString(args[0]), port) :
+    proc.op === "newline" ? printPrim("\n", port) :
     makeFailure(`Bad primitive op: ${proc.op}`);
 
+// The procedures defined by define-record (see makeRecordProcs).
+// Accessors and setters only accept the records of their own type.
+export const applyRecordProc = (proc: RecordProc, args: Value[]): Result<Value> => {
+    const record = args[0];
+    return args.length !== proc.arity ? raiseCondition("error", `${proc.name} expects ${proc.arity} arguments: ${format(args)}`) :
+        proc.op === "constructor" ? makeOk(makeRecordValue(proc.record, [...args])) :
+        proc.op === "predicate" ? makeOk(isRecordValue(record) && record.name === proc.record) :
+        ! isRecordValue(record) || record.name !== proc.record ?
+            raiseCondition("wrong-type", `${proc.name} expects a ${proc.record}: ${format(record)}`) :
+        proc.op === "accessor" ? makeOk(record.vals[proc.index]) :
+        setFieldPrim(record, proc.index, args[1]);
+};
+
+const setFieldPrim = (record: RecordValue, index: number, val: Value): Result<Value> => {
+    record.vals[index] = val;
+    return makeOk(undefined);
+};
+
 const minusPrim = (args: Value[]): Result<number> => {
     // TODO complete
     const x = args[0], y = args[1];
     if (isNumber(x) && isNumber(y)) {
         return makeOk(x - y);
     } else {
-        return makeFailure(`Type error: - expects numbers ${format(args)}`)
+        return raiseCondition("wrong-type", `Type error: - expects numbers ${format(args)}`)
     }
 }
 
@@ -44,13 +83,24 @@ const divPrim = (args: Value[]): Result<number> => {
     // TODO complete
     const x = args[0], y = args[1];
     if (isNumber(x) && isNumber(y)) {
-        return makeOk(x / y);
+        return y === 0 ? raiseCondition("divide-by-zero", `Division by zero: (/ ${valueToString(x)} 0)`) : makeOk(x / y);
     } else {
-        return makeFailure(`Type error: / expects numbers ${format(args)}`)
+        return raiseCondition("wrong-type", `Type error: / expects numbers ${format(args)}`)
     }
 }
 
-const eqPrim = (args: Value[]): boolean => {
+// (error message irritant ...) raises a condition of kind error - the irritants are appended to the message.
+const errorPrim = (args: Value[]): Result<Value> =>
+    isNonEmptyList<Value>(args) && isString(first(args)) ?
+        raiseCondition("error", [first(args), ...map(valueToString, rest(args))].join(" ")) :
+    raiseCondition("wrong-type", `error expects a message string: ${format(args)}`);
+
+const printPrim = (s: string, port: OutputPort): Result<Value> => {
+    port.write(s);
+    return makeOk(undefined);
+};
+
+export const eqPrim = (args: Value[]): boolean => {
     const x = args[0], y = args[1];
     if (isSymbolSExp(x) && isSymbolSExp(y)) {
         return x.val === y.val;
@@ -62,6 +112,8 @@ const eqPrim = (args: Value[]): boolean => {
         return x === y;
     } else if (isBoolean(x) && isBoolean(y)) {
         return x === y;
+    } else if (isRecordValue(x) && isRecordValue(y)) {
+        return x === y;
     } else {
         return false;
     }
@@ -69,11 +121,11 @@ const eqPrim = (args: Value[]): boolean => {
 
 const carPrim = (v: Value): Result<Value> =>
     isCompoundSExp(v) ? makeOk(v.val1) :
-    makeFailure(`Car: param is not compound ${format(v)}`);
+    raiseCondition("wrong-type", `Car: param is not compound ${format(v)}`);
 
 const cdrPrim = (v: Value): Result<Value> =>
     isCompoundSExp(v) ? makeOk(v.val2) :
-    makeFailure(`Cdr: param is not compound ${format(v)}`);
+    raiseCondition("wrong-type", `Cdr: param is not compound ${format(v)}`);
 
 const consPrim = (v1: Value, v2: Value): CompoundSExp =>
     makeCompoundSExp(v1, v2);
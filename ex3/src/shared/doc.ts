@@ -0,0 +1,145 @@
+// ========================================================
+// Documents for pretty printing
+// A Wadler-style document algebra ("A prettier printer", Wadler 2003)
+// with the align combinator of Leijen's wl-pprint.
+//
+// <doc> ::= text(s)        a string without newlines
+//        |  line           a newline - or a space when its group fits on the line
+//        |  softline       a newline - or nothing when its group fits on the line
+//        |  hardline       always a newline - a group which contains it never fits
+//        |  suffix(s)      s at the end of the current line, before its newline (a line comment)
+//                          - a group fits with it only when no line of the group follows it
+//                          The suffixes of a line after the first one go on lines of their own.
+//        |  nest(i, doc)   increase the indentation of the newlines of doc by i
+//        |  align(doc)     indent the newlines of doc at the current column
+//        |  concat(docs)
+//        |  group(doc)     lay doc out on one line if it fits - break its lines otherwise
+//
+// layout(doc, width) chooses for each group, from the outside in, the flat layout
+// when the group fits in the rest of the line.
+import { isString } from "./type-predicates";
+
+export type Doc = TextDoc | LineDoc | SuffixDoc | NestDoc | AlignDoc | ConcatDoc | GroupDoc;
+
+export type TextDoc = { tag: "TextDoc"; text: string; }
+export const text = (s: string): TextDoc => ({tag: "TextDoc", text: s});
+export const isTextDoc = (x: any): x is TextDoc => x.tag === "TextDoc";
+
+// flat is the text of the line in a flat layout - undefined for a hard line.
+export type LineDoc = { tag: "LineDoc"; flat: string | undefined; }
+export const line: LineDoc = {tag: "LineDoc", flat: " "};
+export const softline: LineDoc = {tag: "LineDoc", flat: ""};
+export const hardline: LineDoc = {tag: "LineDoc", flat: undefined};
+export const isLineDoc = (x: any): x is LineDoc => x.tag === "LineDoc";
+
+export type SuffixDoc = { tag: "SuffixDoc"; text: string; }
+export const suffix = (s: string): SuffixDoc => ({tag: "SuffixDoc", text: s});
+export const isSuffixDoc = (x: any): x is SuffixDoc => x.tag === "SuffixDoc";
+
+export type NestDoc = { tag: "NestDoc"; indent: number; doc: Doc; }
+export const nest = (indent: number, doc: DocLike): NestDoc => ({tag: "NestDoc", indent: indent, doc: toDoc(doc)});
+export const isNestDoc = (x: any): x is NestDoc => x.tag === "NestDoc";
+
+export type AlignDoc = { tag: "AlignDoc"; doc: Doc; }
+export const align = (doc: DocLike): AlignDoc => ({tag: "AlignDoc", doc: toDoc(doc)});
+export const isAlignDoc = (x: any): x is AlignDoc => x.tag === "AlignDoc";
+
+export type ConcatDoc = { tag: "ConcatDoc"; docs: Doc[]; }
+export const concat = (docs: DocLike[]): ConcatDoc => ({tag: "ConcatDoc", docs: docs.map(toDoc)});
+export const isConcatDoc = (x: any): x is ConcatDoc => x.tag === "ConcatDoc";
+
+export type GroupDoc = { tag: "GroupDoc"; doc: Doc; }
+export const group = (doc: DocLike): GroupDoc => ({tag: "GroupDoc", doc: toDoc(doc)});
+export const isGroupDoc = (x: any): x is GroupDoc => x.tag === "GroupDoc";
+
+// Strings stand for text and arrays for concatenations.
+export type DocLike = Doc | string | DocLike[];
+export const toDoc = (x: DocLike): Doc =>
+  isString(x) ? text(x) :
+  Array.isArray(x) ? concat(x) :
+  x;
+
+// Purpose: the docs separated by sep
+export const join = (sep: DocLike, docs: DocLike[]): Doc =>
+  concat(docs.flatMap((doc, i) => i === 0 ? [doc] : [sep, doc]));
+
+// ========================================================
+// Layout
+type Mode = "flat" | "break";
+type Item = { indent: number; mode: Mode; doc: Doc; }
+
+// Purpose: render doc in lines of at most width columns (where possible).
+// Trailing spaces are removed from every line.
+export const layout = (doc: Doc, width: number): string => {
+  const out: string[] = [];
+  let suffixes: string[] = [];
+  let column = 0;
+  const stack: Item[] = [{indent: 0, mode: "break", doc: doc}];
+  while (stack.length > 0) {
+    const {indent, mode, doc} = stack.pop() as Item;
+    if (isTextDoc(doc)) {
+      out.push(doc.text);
+      column += doc.text.length;
+    } else if (isLineDoc(doc)) {
+      if (mode === "flat" && doc.flat !== undefined) {
+        out.push(doc.flat);
+        column += doc.flat.length;
+      } else {
+        out.push(...suffixLines(suffixes, indent), "\n", " ".repeat(indent));
+        suffixes = [];
+        column = indent;
+      }
+    } else if (isSuffixDoc(doc)) {
+      suffixes.push(doc.text);
+    } else if (isNestDoc(doc)) {
+      stack.push({indent: indent + doc.indent, mode: mode, doc: doc.doc});
+    } else if (isAlignDoc(doc)) {
+      stack.push({indent: column, mode: mode, doc: doc.doc});
+    } else if (isConcatDoc(doc)) {
+      for (let i = doc.docs.length - 1; i >= 0; i--)
+        stack.push({indent: indent, mode: mode, doc: doc.docs[i]});
+    } else {
+      const flat = mode === "flat" || fits({indent: indent, mode: "flat", doc: doc.doc}, stack, width - column);
+      stack.push({indent: indent, mode: flat ? "flat" : "break", doc: doc.doc});
+    }
+  }
+  return [...out, ...suffixLines(suffixes, 0)].join("").replace(/[ \t]+$/gm, "");
+};
+
+// The first suffix ends the current line, the next ones are put on lines indented by indent.
+const suffixLines = (suffixes: string[], indent: number): string[] =>
+  suffixes.map((s: string, i: number) => i === 0 ? s : `\n${" ".repeat(indent)}${s.trimStart()}`);
+
+// Purpose: test whether the item - followed by the rest of the layout up to its next
+// line break - takes at most width columns. A suffix in the flat layout must be followed by that
+// line break: a line of the flat layout would put the text after it before the comment.
+const fits = (item: Item, rest: Item[], width: number): boolean => {
+  const stack: Item[] = [item];
+  let next = rest.length;
+  let suffixed = false;
+  while (width >= 0) {
+    if (stack.length === 0) {
+      if (next === 0)
+        return true;
+      stack.push(rest[--next]);
+    }
+    const {indent, mode, doc} = stack.pop() as Item;
+    if (isTextDoc(doc)) {
+      width -= doc.text.length;
+    } else if (isLineDoc(doc)) {
+      if (mode === "break" || doc.flat === undefined)
+        return mode === "break";
+      if (suffixed)
+        return false;
+      width -= doc.flat.length;
+    } else if (isSuffixDoc(doc)) {
+      suffixed = suffixed || mode === "flat";
+    } else if (isConcatDoc(doc)) {
+      for (let i = doc.docs.length - 1; i >= 0; i--)
+        stack.push({indent: indent, mode: mode, doc: doc.docs[i]});
+    } else {
+      stack.push({indent: indent, mode: mode, doc: doc.doc});
+    }
+  }
+  return false;
+};
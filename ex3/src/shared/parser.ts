@@ -1,9 +1,10 @@
 /// <reference path="s-expression.d.ts" />
 
-import p, { Sexp, SexpString, Token, CompoundSexp } from "s-expression";
-import { makeFailure, makeOk, Result } from "./result";
-import { isString, isArray, isError } from "./type-predicates";
+import { Sexp, SexpString, Token, CompoundSexp } from "s-expression";
+import { bind, isFailure, makeOk, Result } from "./result";
+import { isString, isArray } from "./type-predicates";
 import { allT } from "./list";
+import { makeFailureAt, makePosition, makeSourceFile, makeSpan, Position, SourceFile, Span } from "./source";
 
 // s-expression returns strings quoted as "a" as [String: 'a'] objects
 // to distinguish them from symbols - which are encoded as 'a'
@@ -17,7 +18,195 @@ export const isSexp = (x: any): x is Sexp => isToken(x) || isCompoundSexp(x);
 export const isCompoundSexp = (x: any): x is CompoundSexp =>
   isArray(x) && allT(isSexp, x);
 
-export const parse = (x: string): Result<Sexp> => {
-  const parsed = p(x);
-  return isError(parsed) ? makeFailure(parsed.message) : makeOk(parsed);
+// ========================================================
+// Source locations of s-expressions
+// The reader returns the same Sexp values as the s-expression package
+// (string, String and arrays). Tokens are primitive strings and cannot carry
+// a location, so the location of every element is recorded in its enclosing list.
+export type SexpLocation = { span: Span; children: Span[]; }
+
+const sexpLocations = new WeakMap<CompoundSexp, SexpLocation>();
+
+export const sexpLocation = (sexp: Sexp): SexpLocation | undefined =>
+  isArray(sexp) ? sexpLocations.get(sexp) : undefined;
+
+export const sexpSpan = (sexp: Sexp): Span | undefined =>
+  sexpLocation(sexp)?.span;
+
+// Purpose: span of the i-th element of a compound sexp
+export const sexpChildSpan = (sexp: Sexp, i: number): Span | undefined =>
+  sexpLocation(sexp)?.children[i];
+
+// ========================================================
+// Comments
+// A comment runs from ; to the end of the line. The reader skips comments
+// and records them by source file - they are kept for the pretty printer.
+export type Comment = { text: string; span: Span; }
+
+const comments = new WeakMap<SourceFile, Comment[]>();
+
+// Purpose: the comments of a source file read by the reader, in order
+export const sourceComments = (source: SourceFile): Comment[] =>
+  comments.get(source) ?? [];
+
+export const parse = (x: string, name: string = "<input>"): Result<Sexp> =>
+  read(makeSourceFile(name, x));
+
+// ========================================================
+// Reader
+// Same lexical conventions as the s-expression package:
+// 'x `x ,x ,@x are expanded to (quote x) (quasiquote x) (unquote x) (unquote-splicing x),
+// "..." strings support the \n \t \r \f \b escapes, and \ escapes a char in a symbol.
+// ; starts a comment. A list is written (...) or [...] - a list opened by [ is closed by ].
+const quoteKeywords: Record<string, string> = {
+  "'": "quote", "`": "quasiquote", ",": "unquote"
+};
+const isDelimiter = (c: string): boolean => c === "" || /[\s\\"'`,()[\];]/.test(c);
+const closingBrackets: Record<string, string> = {
+  "(": ")", "[": "]"
+};
+const stringEscapes: Record<string, string> = {
+  "r": "\r", "t": "\t", "n": "\n", "f": "\f", "b": "\b"
+};
+
+export const read = (source: SourceFile): Result<Sexp> => {
+  const text = source.text;
+  let offset = 0, line = 1, col = 1;
+  const fileComments: Comment[] = [];
+  comments.set(source, fileComments);
+
+  const position = (): Position => makePosition(offset, line, col);
+  const spanFrom = (start: Position): Span => makeSpan(source, start, position());
+  const peek = (): string => offset < text.length ? text[offset] : "";
+  const consume = (): string => {
+    const c = peek();
+    offset += c === "" ? 0 : 1;
+    if (c === "\r" && peek() === "\n") {
+      offset++;
+    }
+    if (c === "\r" || c === "\n") {
+      line++;
+      col = 1;
+    } else if (c !== "") {
+      col++;
+    }
+    return c;
+  };
+  const skipWhitespace = (): void => {
+    while (/\s/.test(peek()) || peek() === ";") {
+      if (peek() === ";") {
+        const start = position();
+        let comment = "";
+        while (peek() !== "" && peek() !== "\n" && peek() !== "\r") comment += consume();
+        fileComments.push({text: comment.replace(/\s+$/, ""), span: spanFrom(start)});
+      } else {
+        consume();
+      }
+    }
+  };
+  const syntaxError = <T>(message: string): Result<T> => {
+    const here = position();
+    return makeFailureAt<T>(makeSpan(source, here, makePosition(offset + 1, line, col + 1)),
+                            `Syntax error: ${message}`);
+  };
+
+  const register = (sexp: CompoundSexp, span: Span, children: Span[]): CompoundSexp => {
+    sexpLocations.set(sexp, {span: span, children: children});
+    return sexp;
+  };
+
+  const readString = (): Result<Sexp> => {
+    const start = position();
+    consume();
+    let str = "";
+    while (peek() !== '"') {
+      const c = consume();
+      if (c === "") {
+        return makeFailureAt(spanFrom(start), "Syntax error: Unterminated string literal");
+      }
+      if (c === "\\") {
+        const next = consume();
+        str += stringEscapes[next] ?? next;
+      } else {
+        str += c;
+      }
+    }
+    consume();
+    // wrap in object to make strings distinct from symbols
+    return makeOk(new String(str));
+  };
+
+  const readAtom = (): string => {
+    let atom = "";
+    while (! isDelimiter(peek()) || peek() === "\\") {
+      const c = consume();
+      atom += c === "\\" ? consume() : c;
+    }
+    return atom;
+  };
+
+  const readQuoted = (start: Position): Result<Sexp> => {
+    let q = consume();
+    let keyword = quoteKeywords[q];
+    if (keyword === "unquote" && peek() === "@") {
+      consume();
+      keyword = "unquote-splicing";
+      q = ",@";
+    }
+    const quoteSpan = spanFrom(start);
+    skipWhitespace();
+    const quotedStart = position();
+    return bind(readExp(), (quoted: Sexp | undefined) =>
+      quoted === undefined ? syntaxError(`Unexpected \`${peek()}\` after \`${q}\``) :
+      makeOk(register([keyword, quoted], spanFrom(start), [quoteSpan, spanOf(quoted, quotedStart)])));
+  };
+
+  const readList = (start: Position): Result<Sexp> => {
+    const close = closingBrackets[consume()];
+    const elements: Sexp[] = [];
+    const children: Span[] = [];
+    while (true) {
+      skipWhitespace();
+      if (peek() === close) {
+        consume();
+        return makeOk(register(elements, spanFrom(start), children));
+      }
+      if (peek() === "") {
+        return makeFailureAt(spanFrom(start), `Syntax error: Expected \`${close}\` - saw: \`\``);
+      }
+      const elementStart = position();
+      const element = readExp();
+      if (isFailure(element)) {
+        return element;
+      }
+      if (element.value === undefined) {
+        return syntaxError(`Expected \`${close}\` - saw: \`${peek()}\``);
+      }
+      elements.push(element.value);
+      children.push(spanOf(element.value, elementStart));
+    }
+  };
+
+  // Compound sexps know their span - tokens span from their start to the current position.
+  const spanOf = (sexp: Sexp, start: Position): Span =>
+    sexpSpan(sexp) ?? spanFrom(start);
+
+  // Returns undefined when no expression starts at the current position.
+  const readExp = (): Result<Sexp | undefined> => {
+    skipWhitespace();
+    const start = position();
+    const c = peek();
+    if (c in quoteKeywords) return readQuoted(start);
+    if (c in closingBrackets) return readList(start);
+    if (c === '"') return readString();
+    const atom = readAtom();
+    return makeOk(atom === "" ? undefined : atom);
+  };
+
+  return bind(readExp(), (sexp: Sexp | undefined) => {
+    skipWhitespace();
+    return sexp === undefined ? syntaxError(peek() === "" ? "Unexpected end of input" : `Unexpected \`${peek()}\``) :
+           peek() !== "" ? syntaxError(`Superfluous characters after expression: \`${peek()}\``) :
+           makeOk(sexp);
+  });
 };
@@ -8,7 +8,7 @@ type Ok<T> = {
   value: T;
 };
 
-type Failure = {
+export type Failure = {
   tag: "Failure";
   message: string;
 };
@@ -0,0 +1,72 @@
+// ========================================================
+// Source locations
+// A SourceFile is the text of a program together with the name under which it is reported.
+// A Span delimits a region of a SourceFile - lines and columns are 1-based.
+import { Result, makeFailure, isFailure } from "./result";
+
+export type SourceFile = { name: string; text: string; }
+export const makeSourceFile = (name: string, text: string): SourceFile =>
+    ({name: name, text: text});
+
+export type Position = { offset: number; line: number; col: number; }
+export const makePosition = (offset: number, line: number, col: number): Position =>
+    ({offset: offset, line: line, col: col});
+
+export type Span = { source: SourceFile; start: Position; end: Position; }
+export const makeSpan = (source: SourceFile, start: Position, end: Position): Span =>
+    ({source: source, start: start, end: end});
+export const isSpan = (x: any): x is Span =>
+    x !== undefined && x.source !== undefined && x.start !== undefined && x.end !== undefined;
+
+// Purpose: attach a span to a freshly constructed node.
+// The span is not enumerable: structural equality (ramda equals, jest toEqual)
+// and format() ignore it, so located and unlocated nodes compare equal.
+export const withSpan = <T extends object>(x: T, span: Span | undefined): T =>
+    span === undefined ? x :
+    Object.defineProperty(x, "span", {value: span, enumerable: false, writable: true, configurable: true});
+
+// Purpose: test whether a position falls inside a span (end exclusive)
+export const spanContains = (span: Span, offset: number): boolean =>
+    span.start.offset <= offset && offset < span.end.offset;
+
+// file:line:col
+export const formatPosition = (span: Span): string =>
+    `${span.source.name}:${span.start.line}:${span.start.col}`;
+
+// Purpose: excerpt of the first line of the span with a caret underline
+// Example:
+//     3 |   (f 2 3)
+//       |   ^^^^^^^
+export const spanExcerpt = (span: Span): string => {
+    const lineText = span.source.text.split(/\r\n|\r|\n/)[span.start.line - 1] ?? "";
+    const lineEnd = span.start.offset - span.start.col + 1 + lineText.length;
+    const width = Math.max(1, Math.min(span.end.offset, lineEnd) - span.start.offset);
+    const gutter = `${span.start.line}`;
+    const pad = " ".repeat(gutter.length);
+    return `${gutter} | ${lineText}\n${pad} | ${" ".repeat(span.start.col - 1)}${"^".repeat(width)}`;
+};
+
+export const formatLocated = (message: string, span: Span): string =>
+    `${formatPosition(span)}: ${message}\n${spanExcerpt(span)}`;
+
+// Failures are located once - at the innermost node which reports them.
+// Outer nodes propagate the same Failure object (see bind), so we remember
+// which Failure objects already carry a location, with their original message
+// and the Failure object they were made from.
+export type FailureOrigin = { message: string; span: Span; failure: Result<unknown>; }
+const locatedFailures = new WeakMap<object, FailureOrigin>();
+
+export const locateFailure = <T>(r: Result<T>, span: Span | undefined): Result<T> => {
+    if (! isFailure(r) || span === undefined || locatedFailures.has(r))
+        return r;
+    const located = makeFailure<T>(formatLocated(r.message, span));
+    locatedFailures.set(located, {message: r.message, span: span, failure: r});
+    return located;
+};
+
+// Purpose: the unlocated message and the span of a located failure
+export const failureOrigin = <T>(r: Result<T>): FailureOrigin | undefined =>
+    locatedFailures.get(r);
+
+export const makeFailureAt = <T>(span: Span | undefined, message: string): Result<T> =>
+    locateFailure(makeFailure<T>(message), span);
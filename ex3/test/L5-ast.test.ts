@@ -1,5 +1,6 @@
 import { isNumExp, isBoolExp, isVarRef, isPrimOp, isProgram, isDefineExp, isVarDecl,
          isAppExp, isStrExp, isIfExp, isProcExp, isLetExp, isLitExp, isLetrecExp, isSetExp,
+         isCondExp, isCaseExp, isLetStarExp, isBeginExp, isWhenExp, isUnlessExp, isNamedLetExp, isGuardExp,
          parseL5Exp, unparse, Exp, parseL5, Program } from "../src/L5/L5-ast";
 import { Result, bind, isOkT, makeOk, mapv, isFailure } from "../src/shared/result";
 import { parse as parseSexp } from "../src/shared/parser";
@@ -83,6 +84,66 @@ describe('L5 Parser', () => {
     it('parses "set!" expressions', () => {
         expect(p("(set! x 1)")).toSatisfy(isOkT(isSetExp));
     });
+
+    it('parses derived special forms', () => {
+        expect(p("(cond ((> x 0) 1) ((< x 0) => f) (else 0))")).toSatisfy(isOkT(isCondExp));
+        expect(p("(case x ((1 2) 'small) ((a) 'a) (else 'big))")).toSatisfy(isOkT(isCaseExp));
+        expect(p("(let* ((x 1) (y x)) y)")).toSatisfy(isOkT(isLetStarExp));
+        expect(p("(begin 1 2)")).toSatisfy(isOkT(isBeginExp));
+        expect(p("(when #t 1)")).toSatisfy(isOkT(isWhenExp));
+        expect(p("(unless #t 1)")).toSatisfy(isOkT(isUnlessExp));
+    });
+
+    it('parses guard', () => {
+        expect(p("(guard (e ((symbol? e) e) (else 0)) (raise 'oops))")).toSatisfy(isOkT(isGuardExp));
+        expect(p("(guard (e) (define x 1) x)")).toSatisfy(isOkT(isGuardExp));
+        expect(p("(guard e 1)")).toSatisfy(isFailure);
+        expect(p("(guard ((e : any) (#t 1)) 1)")).toSatisfy(isFailure);
+        expect(p("(guard (e (else 1) (#t 2)) 1)")).toSatisfy(isFailure);
+        expect(p("(guard (e (#t 1)))")).toSatisfy(isFailure);
+    });
+
+    it('parses internal defines and named let', () => {
+        expect(p("(lambda (x) (define y (* x 2)) (+ x y))")).toSatisfy(isOkT(isProcExp));
+        expect(p("(let ((x 1)) (define (y : number) x) y)")).toSatisfy(isOkT(isLetExp));
+        expect(p("(let loop ((i 0)) (if (< i 10) (loop (+ i 1)) i))")).toSatisfy(isOkT(isNamedLetExp));
+        expect(p("(let loop (((i : number) 0)) : number i)")).toSatisfy(isOkT(isNamedLetExp));
+    });
+
+    it('rejects defines after the expressions of a body and bodies without expressions', () => {
+        expect(p("(lambda (x) x (define y 1) y)")).toSatisfy(isFailure);
+        expect(p("(lambda (x) (define y 1))")).toSatisfy(isFailure);
+        expect(p("(let loop ((i 0)))")).toSatisfy(isFailure);
+    });
+
+    it('rejects malformed derived special forms', () => {
+        expect(p("(cond)")).toSatisfy(isFailure);
+        expect(p("(cond (else 1) (#t 2))")).toSatisfy(isFailure);
+        expect(p("(cond (#t => f g))")).toSatisfy(isFailure);
+        expect(p("(case x (1 2))")).toSatisfy(isFailure);
+        expect(p("(let* ((x 1)))")).toSatisfy(isFailure);
+        expect(p("(begin)")).toSatisfy(isFailure);
+        expect(p("(when #t)")).toSatisfy(isFailure);
+        expect(p("(define-record point (x x))")).toSatisfy(isFailure);
+        expect(p("(define-record number (x))")).toSatisfy(isFailure);
+        expect(p("(define-record point ((x #:mutable 1)))")).toSatisfy(isFailure);
+        expect(p("(lambda () (define-record point (x)) 1)")).toSatisfy(isFailure);
+        expect(p("(define-datatype shape)")).toSatisfy(isFailure);
+        expect(p("(define-datatype shape (circle r r))")).toSatisfy(isFailure);
+        expect(p("(define-datatype shape (shape r))")).toSatisfy(isFailure);
+        expect(p("(define-datatype (opt T) (some (v : T2)))")).toSatisfy(isFailure);
+        expect(p("(define-datatype (opt T) (some (v : (opt T T))))")).toSatisfy(isFailure);
+        expect(p("(lambda () (define-datatype shape (circle r)) 1)")).toSatisfy(isFailure);
+        expect(p("(define-type Result)")).toSatisfy(isFailure);
+        expect(p("(define-type (Box) number)")).toSatisfy(isFailure);
+        expect(p("(define-type (Box T) (pair T U))")).toSatisfy(isFailure);
+        expect(p("(define-type (Box T) (pair (Box number) T))")).toSatisfy(isFailure);
+        expect(p("(define-type Loop (union number Loop))")).toSatisfy(isFailure);
+        expect(p("(lambda () (define-type Result number) 1)")).toSatisfy(isFailure);
+        expect(p("(match x)")).toSatisfy(isFailure);
+        expect(p("(match x ((circle r r) r))")).toSatisfy(isFailure);
+        expect(p("(match x (circle r))")).toSatisfy(isFailure);
+    });
 });
 
 describe('L5 Unparse', () => {
@@ -107,6 +168,54 @@ describe('L5 Unparse', () => {
         const letrec = "(letrec (((p : (number * number -> number)) (lambda ((x : number) (y : number)) (+ x y)))) (p 1 2))";
         expect(roundTrip(letrec)).toEqual(makeOk(letrec));
     });
+
+    it('unparses derived special forms', () => {
+        const forms = [
+            "(cond ((> x 0) 1 2) ((assq x l) => cdr) (x) (else 0))",
+            "(cond ((number? x) x))",
+            "(case x ((1 2) 'small) ((a \"b\" #t) 'other) (() 0) (else 'big))",
+            "(let* (((x : number) 1) (y (+ x 1))) (* x y))",
+            "(begin (set! x 1) x)",
+            "(when (> x 0) (set! x 0) x)",
+            "(unless (> x 0) x)",
+            "(lambda ((x : number)) : number (define (y : number) (* x 2)) (define z 3) (+ x y z))",
+            "(let loop (((i : number) 0) (acc 1)) : number (if (< i 10) (loop (+ i 1) (* acc 2)) acc))",
+            "(let loop ((i 0)) i)",
+            "(guard (e ((condition? e) (condition-message e)) ((symbol? e) => f) (else e)) (define x 1) (error \"bad\" x))",
+            "(guard (e) (raise 1))"
+        ];
+        forms.forEach((form) => expect(roundTrip(form)).toEqual(makeOk(form)));
+    });
+
+    it('unparses define-record', () => {
+        const record = "(define-record point ((x : number) (y : number #:mutable) z))";
+        expect(roundTrip(record)).toEqual(makeOk(record));
+        expect(roundTrip("(define-record point [[x : number] [y #:mutable]])")).toEqual(
+            makeOk("(define-record point ((x : number) (y #:mutable)))"));
+    });
+
+    it('unparses define-datatype and match', () => {
+        const datatype = "(define-datatype (tree T) (leaf) (node (left : (tree T)) (val : T) right))";
+        expect(roundTrip(datatype)).toEqual(makeOk(datatype));
+        const shape = "(define-datatype shape (circle (r : number)) (rect w h))";
+        expect(roundTrip(shape)).toEqual(makeOk(shape));
+        const match = "(match s ((circle r) (* r r)) ((rect w h) (display w) (* w h)) (else 0))";
+        expect(roundTrip(match)).toEqual(makeOk(match));
+    });
+
+    it('unparses define-type and prints type aliases by name', () => {
+        const tree = "(define-type (Tree T) (union (pair (Tree T) (Tree T)) T))";
+        expect(roundTrip(tree)).toEqual(makeOk(tree));
+        const result = "(define-type Result (union number string))";
+        expect(roundTrip(result)).toEqual(makeOk(result));
+        const lambda = "(lambda ((t : (Tree Result))) : (listof Result) '())";
+        expect(roundTrip(lambda)).toEqual(makeOk(lambda));
+    });
+
+    it('unparses type variable annotations and omits missing annotations', () => {
+        const lambda = "(lambda ((x : T1) y) : T1 x)";
+        expect(roundTrip(lambda)).toEqual(makeOk(lambda));
+    });
 });
 
 describe('L51 parse with unions', () => {
@@ -262,4 +371,51 @@ describe('L52 parse Type predicates', () => {
     });
 });
 
-// L52 Tests End
\ No newline at end of file
+// L52 Tests End
+describe('L5 source locations', () => {
+    it('attaches spans to compound and atomic nodes', () => {
+        const program = parseL5("(L5\n  (define x 1)\n  (+ x 2))");
+        expect(program).toSatisfy(isOkT(isProgram));
+        if (isOkT(isProgram)(program)) {
+            const [def, app] = program.value.exps;
+            expect(def.span?.start).toMatchObject({ line: 2, col: 3 });
+            expect(app.span?.start).toMatchObject({ line: 3, col: 3 });
+            expect(app.span?.end).toMatchObject({ line: 3, col: 10 });
+            if (isAppExp(app)) {
+                expect(app.rands[0].span?.start).toMatchObject({ line: 3, col: 6 });
+                expect(app.rands[1].span?.start).toMatchObject({ line: 3, col: 8 });
+            }
+        }
+    });
+
+    it('attaches spans to the clauses of derived forms', () => {
+        const cond = p("(cond ((number? x) x)\n      (else 0))");
+        expect(cond).toSatisfy(isOkT(isCondExp));
+        if (isOkT(isCondExp)(cond)) {
+            expect(cond.value.clauses[0].span?.start).toMatchObject({ line: 1, col: 7 });
+            expect(cond.value.clauses[0].body[0].span?.start).toMatchObject({ line: 1, col: 20 });
+            expect(cond.value.alt[0].span?.start).toMatchObject({ line: 2, col: 13 });
+        }
+    });
+
+    it('ignores spans in structural equality', () => {
+        expect(p("(f 1)")).toEqual(p("(f\n 1)"));
+    });
+
+    it('reports parse failures with a location and an excerpt', () => {
+        const res = parseL5("(L5\n  (if 1 2))");
+        expect(res).toSatisfy(isFailure);
+        if (isFailure(res)) {
+            expect(res.message).toMatch(/^<input>:2:3: Expression not of the form \(if <cexp> <cexp> <cexp>\)/);
+            expect(res.message).toContain("2 |   (if 1 2))\n  |   ^^^^^^^^");
+        }
+    });
+
+    it('reports syntax errors with the source name', () => {
+        const res = bind(parseSexp("(define x\n  (f 1)", "prog.l5"), parseL5Exp);
+        expect(res).toSatisfy(isFailure);
+        if (isFailure(res)) {
+            expect(res.message).toMatch(/^prog\.l5:1:1: Syntax error: Expected `\)`/);
+        }
+    });
+});
@@ -0,0 +1,89 @@
+import { runCli, EXIT_ERRORS, EXIT_OK, EXIT_RUNTIME, EXIT_USAGE } from '../src/L5/L5-cli';
+import { makeBufferPort } from '../src/L5/L5-output';
+import { makeFailure, makeOk } from '../src/shared/result';
+
+const files: Record<string, string> = {
+    "ok.l5": '(L5 (define (x : number) 2)\n    (display "out ")\n    (+ x 1))',
+    "bad.l5": '(L5 (define (x : number) #t)\n    (+ x "a"))',
+    "poly.l5": '(L5 (define id (lambda (x) x)) (define inc (lambda (n) (+ n 1))) (inc (id 1)))',
+    "raise.l5": "(L5 (raise 'boom))",
+    "warn.l5": "(L5 (define-datatype shape (circle (r : number)) (square (s : number)))\n" +
+               "    (match (circle 2) ((circle r) r) ((square s) s)))",
+    "comment.l5": "; answer\n(L5 (* 6 7))",
+    "-": "(L5 (* 6 7))"
+};
+
+const cli = (...args: string[]) => {
+    const stdout = makeBufferPort();
+    const stderr = makeBufferPort();
+    const code = runCli(args, {
+        readSource: (file: string) => file in files ? makeOk(files[file]) : makeFailure(`no such file`),
+        stdout: stdout,
+        stderr: stderr
+    });
+    return {code: code, stdout: stdout.contents(), stderr: stderr.contents()};
+};
+
+describe('L5 CLI', () => {
+    it('checks programs', () => {
+        expect(cli("check", "ok.l5")).toEqual({code: EXIT_OK, stdout: "ok.l5: number\n", stderr: ""});
+        const bad = cli("check", "ok.l5", "bad.l5");
+        expect(bad.code).toEqual(EXIT_ERRORS);
+        expect(bad.stdout).toEqual("ok.l5: number\n");
+        expect(bad.stderr).toMatch(/^bad.l5:1:5: Incompatible types: #t and number/);
+        expect(bad.stderr).toContain('bad.l5:2:5: Incompatible types: (lit "a") and number');
+    });
+
+    it('reports diagnostics as JSON', () => {
+        const res = cli("check", "--json", "bad.l5");
+        expect(res.code).toEqual(EXIT_ERRORS);
+        expect(res.stderr).toEqual("");
+        expect(JSON.parse(res.stdout)).toEqual([
+            {file: "bad.l5", line: 1, column: 5, endLine: 1, endColumn: 29, severity: "error",
+             message: "Incompatible types: #t and number in (define (x : number) #t)",
+             expected: "number", actual: "#t"},
+            {file: "bad.l5", line: 2, column: 5, endLine: 2, endColumn: 14, severity: "error",
+             message: 'Incompatible types: (lit "a") and number in (+ x "a")',
+             expected: "number", actual: '(lit "a")'}]);
+        expect(JSON.parse(cli("check", "--json", "ok.l5").stdout)).toEqual([]);
+    });
+
+    it('infers the types of the top-level defines', () => {
+        expect(cli("infer", "poly.l5")).toEqual({code: EXIT_OK, stdout: "id : (T1 -> T1)\ninc : (number -> number)\n", stderr: ""});
+    });
+
+    it('runs programs', () => {
+        expect(cli("run", "ok.l5")).toEqual({code: EXIT_OK, stdout: "out 3\n", stderr: ""});
+        expect(cli("run")).toEqual({code: EXIT_OK, stdout: "42\n", stderr: ""});
+        const res = cli("run", "raise.l5");
+        expect(res.code).toEqual(EXIT_RUNTIME);
+        expect(res.stderr).toMatch(/^raise.l5:1:5: Uncaught raise: boom/);
+        expect(cli("run", "bad.l5").code).toEqual(EXIT_ERRORS);
+    });
+
+    it('checks and runs programs which only have warnings', () => {
+        const checked = cli("check", "warn.l5");
+        expect(checked.code).toEqual(EXIT_OK);
+        expect(checked.stdout).toEqual("warn.l5: number\n");
+        expect(checked.stderr).toMatch(/^warn.l5:2:5: warning: Unreachable match clause: the matched value is never a square/);
+        const ran = cli("run", "warn.l5");
+        expect(ran.code).toEqual(EXIT_OK);
+        expect(ran.stdout).toEqual("2\n");
+        expect(ran.stderr).toMatch(/^warn.l5:2:5: warning: Unreachable match clause/);
+        expect(JSON.parse(cli("check", "--json", "warn.l5").stdout)).toEqual([
+            expect.objectContaining({file: "warn.l5", line: 2, severity: "warning"})]);
+    });
+
+    it('formats programs', () => {
+        expect(cli("fmt", "ok.l5").stdout).toEqual('(L5 (define (x : number) 2) (display "out ") (+ x 1))\n');
+        expect(cli("fmt", "comment.l5").stdout).toEqual("; answer\n(L5 (* 6 7))\n");
+    });
+
+    it('reports usage errors and unreadable files', () => {
+        expect(cli("frob").code).toEqual(EXIT_USAGE);
+        expect(cli().code).toEqual(EXIT_USAGE);
+        expect(cli("check", "--strict", "ok.l5").code).toEqual(EXIT_USAGE);
+        expect(cli("check", "missing.l5")).toEqual({code: EXIT_USAGE, stdout: "", stderr: "missing.l5: no such file\n"});
+        expect(cli("help").code).toEqual(EXIT_OK);
+    });
+});
@@ -0,0 +1,139 @@
+import { evalParse, evalProgram } from '../src/L5/L5-eval-cps';
+import { evalParse as evalParseDirect } from '../src/L5/L5-eval';
+import { parseL5 } from '../src/L5/L5-ast';
+import { makeSymbolSExp, valueToString } from '../src/L5/L5-value';
+import { bind, isFailure, makeOk, mapv } from '../src/shared/result';
+import { makeBufferPort } from '../src/L5/L5-output';
+
+const evalP = (program: string) => bind(parseL5(program), evalProgram);
+
+describe('L5 CPS Eval', () => {
+    it('evaluates the core and derived forms', () => {
+        expect(evalParse("(+ 1 (* 2 3))")).toEqual(makeOk(7));
+        expect(evalParse("(if (< 1 2) 'yes 'no)")).toEqual(makeOk(makeSymbolSExp("yes")));
+        expect(evalParse("((lambda (x y) (* x y)) 3 4)")).toEqual(makeOk(12));
+        expect(evalParse("(let ((x 1)) (define y (+ x 1)) (set! x 10) (+ x y))")).toEqual(makeOk(12));
+        expect(evalParse("(letrec ((f (lambda (n) (if (= n 0) 1 (* n (f (- n 1))))))) (f 5))")).toEqual(makeOk(120));
+        expect(evalParse("(cond ((< 2 1) 1) ((cons 1 2) => cdr))")).toEqual(makeOk(2));
+        expect(evalParse("(case 3 ((1 2) 'low) (else 'high))")).toEqual(makeOk(makeSymbolSExp("high")));
+        expect(evalParse("(let* ((x 1) (y (+ x 1))) (when (> y x) (begin x y)))")).toEqual(makeOk(2));
+        expect(evalParse("(or #f (and 1 2))")).toEqual(makeOk(2));
+        expect(evalParse("(and #f (car 1))")).toEqual(makeOk(false));
+    });
+
+    it('reports runtime errors at their location', () => {
+        const result = evalParse("(let ((x 1)) (car x))");
+        expect(result).toSatisfy(isFailure);
+        expect(result).toEqual(evalParseDirect("(let ((x 1)) (car x))"));
+        expect(evalParse("(5 1)")).toSatisfy(isFailure);
+    });
+
+    it('escapes with call/cc', () => {
+        expect(evalParse("(+ 1 (call/cc (lambda (k) (* 10 (k 2)))))")).toEqual(makeOk(3));
+        expect(evalParse("(+ 1 (call/cc (lambda (k) 2)))")).toEqual(makeOk(3));
+        expect(mapv(evalParse("(call/cc (lambda (k) k))"), valueToString)).toEqual(makeOk("#<continuation>"));
+        expect(evalParse("(call/cc 5)")).toSatisfy(isFailure);
+        expect(evalParseDirect("(call/cc (lambda (k) 1))")).toSatisfy(isFailure);
+    });
+
+    it('exits early from list traversals', () => {
+        expect(evalP(`(L5 (define first-negative
+                            (lambda (l)
+                              (call/cc (lambda (return)
+                                (let loop ((l l))
+                                  (if (pair? l)
+                                      (begin (when (< (car l) 0) (return (car l)))
+                                             (loop (cdr l)))
+                                      #f))))))
+                          (list (first-negative '(1 -2 3 -4)) (first-negative '(1 2))))`)).toEqual(
+            bind(parseL5("(L5 (list -2 #f))"), evalProgram));
+        // The pending multiplications are abandoned when a 0 is found
+        expect(evalP(`(L5 (define product
+                            (lambda (l)
+                              (call/cc (lambda (break)
+                                (let loop ((l l))
+                                  (cond ((not (pair? l)) 1)
+                                        ((= (car l) 0) (break 'zero))
+                                        (else (* (car l) (loop (cdr l))))))))))
+                          (list (product '(1 2 3 4)) (product '(1 2 0 car))))`)).toEqual(
+            bind(parseL5("(L5 (list 24 'zero))"), evalProgram));
+    });
+
+    it('re-enters continuations to build generators', () => {
+        const program = `(L5 (define make-generator
+                               (lambda (l)
+                                 (define return #f)
+                                 (define resume
+                                   (lambda (ignore)
+                                     (let loop ((l l))
+                                       (if (pair? l)
+                                           (begin (call/cc (lambda (k) (set! resume k) (return (car l))))
+                                                  (loop (cdr l)))
+                                           (return 'done)))))
+                                 (lambda () (call/cc (lambda (r) (set! return r) (resume #f))))))
+                             (define gen (make-generator '(1 2 3)))
+                             (define a (gen))
+                             (define b (gen))
+                             (define c (gen))
+                             (define d (gen))
+                             (list a b c d))`;
+        expect(mapv(evalP(program), valueToString)).toEqual(makeOk("(1 2 3 done)"));
+    });
+
+    it('runs tail calls and deep recursion without growing the JS stack', () => {
+        expect(evalParse("(let loop ((i 0)) (if (= i 100000) i (loop (+ i 1))))")).toEqual(makeOk(100000));
+        expect(evalP(`(L5 (define sum (lambda (n) (if (= n 0) 0 (+ n (sum (- n 1))))))
+                          (sum 100000))`)).toEqual(makeOk(5000050000));
+    });
+
+    it('catches raised values and runtime errors with guard', () => {
+        expect(evalParse("(guard (e ((symbol? e) (list 'caught e))) (raise 'oops))")).toEqual(
+            evalParseDirect("(list 'caught 'oops)"));
+        expect(evalParse("(guard (e (else (condition-kind e))) (car 1))")).toEqual(makeOk(makeSymbolSExp("wrong-type")));
+        expect(evalParse("(guard (e ((string? e) 'outer)) (guard (e ((symbol? e) 'inner)) (raise \"s\")))")).toEqual(
+            makeOk(makeSymbolSExp("outer")));
+        expect(evalParse("(guard (e ((symbol? e) 'sym)) (raise 42))")).toEqual(
+            evalParseDirect("(guard (e ((symbol? e) 'sym)) (raise 42))"));
+    });
+
+    it('keeps the handlers of the continuations captured by call/cc', () => {
+        // Escaping from the body of a guard leaves its handler
+        expect(evalParse("(guard (e (else 'outer)) (call/cc (lambda (k) (guard (e ((string? e) 'inner)) (k (raise 'x))))))")).toEqual(
+            makeOk(makeSymbolSExp("outer")));
+        expect(evalParse("(+ 1 (call/cc (lambda (k) (guard (e (else (k 10))) (raise 'x)))))")).toEqual(makeOk(11));
+        // Re-entering the body of a guard reinstates its handler
+        expect(evalP(`(L5 (define k #f)
+                          (define n 0)
+                          (define r (guard (e (else (list 'caught e)))
+                                      (+ 1 (call/cc (lambda (c) (set! k c) 1)))))
+                          (set! n (+ n 1))
+                          (if (< n 2) (k 'not-a-number) (condition-kind (car (cdr r)))))`)).toEqual(
+            makeOk(makeSymbolSExp("wrong-type")));
+    });
+
+    it('prints to the output port', () => {
+        const port = makeBufferPort();
+        expect(evalParse(`(let loop ((i 0))
+                            (when (< i 3)
+                              (display i) (write " ") (newline)
+                              (loop (+ i 1))))`, port)).toEqual(makeOk(undefined));
+        expect(port.contents()).toEqual('0" "\n1" "\n2" "\n');
+    });
+
+    it('evaluates define-record', () => {
+        const program = `(L5 (define-record box ((v #:mutable)))
+                             (define b (make-box 1))
+                             (set-box-v! b (call/cc (lambda (k) (k 2))))
+                             (list (box? b) (box-v b) b))`;
+        expect(mapv(evalP(program), valueToString)).toEqual(makeOk("(#t 2 #<box 2>)"));
+    });
+
+    it('evaluates define-datatype and match', () => {
+        const program = `(L5 (define-datatype shape (circle (r : number)) (rect (w : number) (h : number)))
+                             (define area (lambda (s) (match s ((circle r) (* 3 (* r r))) ((rect w h) (* w h)))))
+                             (list (area (circle 2)) (area (rect 2 (call/cc (lambda (k) (k 5)))))
+                                   (match 1 ((circle r) r) (else 'none))))`;
+        expect(mapv(evalP(program), valueToString)).toEqual(makeOk("(12 10 none)"));
+        expect(evalP("(L5 (define-datatype shape (circle (r : number))) (match 1 ((circle r) r)))")).toSatisfy(isFailure);
+    });
+});
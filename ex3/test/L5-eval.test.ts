@@ -0,0 +1,156 @@
+import { evalParse, evalProgram } from '../src/L5/L5-eval';
+import { parseL5, Program } from '../src/L5/L5-ast';
+import { makeSymbolSExp, valueToString, Value } from '../src/L5/L5-value';
+import { bind, isFailure, makeOk, mapv } from '../src/shared/result';
+import { makeBufferPort } from '../src/L5/L5-output';
+
+describe('L5 Eval', () => {
+    it('evaluates expressions', () => {
+        expect(evalParse("(+ 1 2)")).toEqual(makeOk(3));
+        expect(evalParse("((lambda (x) (* x x)) 3)")).toEqual(makeOk(9));
+        expect(evalParse("(let ((a 1) (b 2)) (if (< a b) b a))")).toEqual(makeOk(2));
+    });
+
+    it('evaluates programs', () => {
+        const program = `(L5 (define f (lambda (n) (if (= n 0) 1 (* n (f (- n 1)))))) (f 5))`;
+        expect(bind(parseL5(program), (p: Program) => evalProgram(p))).toEqual(makeOk(120));
+    });
+
+    it('reports runtime errors at the failing expression', () => {
+        const res = bind(parseL5("(L5\n  (define g (lambda (p) (car p)))\n  (g 1))"), evalProgram);
+        expect(res).toSatisfy(isFailure);
+        if (isFailure(res)) {
+            expect(res.message).toMatch(/^<input>:2:25: Car: param is not compound/);
+            expect(res.message).toContain("  |                         ^^^^^^^");
+        }
+    });
+
+    it('short-circuits and / or', () => {
+        expect(evalParse('(and (string? 1) (= (string-length 1) 0))')).toEqual(makeOk(false));
+        expect(evalParse('(or (number? 1) (= (string-length 1) 0))')).toEqual(makeOk(true));
+        expect(evalParse('(and (string? "ab") (= (string-length "ab") 2))')).toEqual(makeOk(true));
+        expect(evalParse('((lambda (f) (f #t #f)) and)')).toEqual(makeOk(false));
+    });
+
+    it('evaluates derived special forms', () => {
+        expect(evalParse("(cond ((< 2 1) 1) ((< 1 2) 2 3) (else 4))")).toEqual(makeOk(3));
+        expect(evalParse("(cond ((< 2 1) 1) (else 4))")).toEqual(makeOk(4));
+        expect(evalParse("(cond ((< 2 1) 1))")).toEqual(makeOk(undefined));
+        expect(evalParse("(cond ((cons 1 2) => cdr) (else 4))")).toEqual(makeOk(2));
+        expect(evalParse("(cond (#f 1) (5))")).toEqual(makeOk(5));
+        expect(evalParse("(case (* 2 3) ((2 3 5 7) 'prime) ((1 4 6 8 9) 'composite))")).toEqual(makeOk(makeSymbolSExp("composite")));
+        expect(evalParse("(case 'x ((a) 1) (else 2))")).toEqual(makeOk(2));
+        expect(evalParse("(let* ((x 1) (y (+ x 1))) (* x y))")).toEqual(makeOk(2));
+        expect(evalParse("(let ((x 1)) (begin (set! x 2) x))")).toEqual(makeOk(2));
+        expect(evalParse("(let ((x 1)) (when (> x 0) (set! x 5) x))")).toEqual(makeOk(5));
+        expect(evalParse("(unless #t 1)")).toEqual(makeOk(undefined));
+    });
+
+    it('scopes internal defines to their body', () => {
+        const program = `(L5 (define f (lambda (n)
+                                (define even? (lambda (n) (if (= n 0) #t (odd? (- n 1)))))
+                                (define odd? (lambda (n) (if (= n 0) #f (even? (- n 1)))))
+                                (even? n)))
+                             (f 10))`;
+        expect(bind(parseL5(program), evalProgram)).toEqual(makeOk(true));
+        expect(evalParse("even?")).toSatisfy(isFailure);
+        expect(evalParse("(let ((x 1)) (define y (+ x 1)) (define z (* y 2)) z)")).toEqual(makeOk(4));
+    });
+
+    it('evaluates named let', () => {
+        expect(evalParse("(let loop ((i 0) (acc 1)) (if (< i 10) (loop (+ i 1) (* acc 2)) acc))")).toEqual(makeOk(1024));
+        expect(evalParse("(let ((i 5)) (let loop ((i 0)) (if (< i 3) (loop (+ i 1)) i)))")).toEqual(makeOk(3));
+        expect(evalParse("loop")).toSatisfy(isFailure);
+    });
+
+    it('runs tail calls in constant stack space', () => {
+        const program = `(L5 (define count (lambda (i n) (if (= i n) i (count (+ i 1) n))))
+                             (count 0 1000000))`;
+        expect(bind(parseL5(program), evalProgram)).toEqual(makeOk(1000000));
+        expect(evalParse(`(letrec ((even? (lambda (n) (if (= n 0) #t (odd? (- n 1)))))
+                                   (odd? (lambda (n) (let ((m (- n 1))) (if (< n 0) #f (if (= n 0) #f (even? m)))))))
+                            (even? 100000))`)).toEqual(makeOk(true));
+        expect(evalParse("(let loop ((i 0)) (cond ((= i 100000) i) (else (loop (+ i 1)))))")).toEqual(makeOk(100000));
+    });
+
+    it('raises values and catches them with guard', () => {
+        expect(evalParse("(guard (e ((symbol? e) (list 'caught e))) (raise 'oops))")).toEqual(
+            evalParse("(list 'caught 'oops)"));
+        expect(evalParse("(guard (e ((number? e) (* e 2))) (let ((x 1)) (raise (+ x 1)) 99))")).toEqual(makeOk(4));
+        expect(evalParse("(guard (e ((condition? e) (condition-message e))) (+ 1 (error \"bad value:\" 5 'x)))")).toEqual(
+            makeOk("bad value: 5 x"));
+        expect(evalParse("(guard (e (#f 1)) 7)")).toEqual(makeOk(7));
+        expect(evalParse("(guard (e ((string? e) 'outer)) (guard (e ((symbol? e) 'inner)) (raise \"s\")))")).toEqual(
+            makeOk(makeSymbolSExp("outer")));
+    });
+
+    it('raises again when no guard clause applies', () => {
+        const result = evalParse("(guard (e ((symbol? e) 'sym)) (raise 42))");
+        expect(result).toSatisfy(isFailure);
+        // at the location of the raise
+        expect(result).toMatchObject({ message: expect.stringContaining("1:31: Uncaught raise: 42") });
+    });
+
+    it('surfaces runtime errors as conditions', () => {
+        expect(evalParse("(guard (e (else (condition-kind e))) (car 1))")).toEqual(makeOk(makeSymbolSExp("wrong-type")));
+        expect(evalParse("(guard (e (else (condition-kind e))) undefined-var)")).toEqual(makeOk(makeSymbolSExp("unbound-variable")));
+        expect(evalParse("(guard (e (else (condition-kind e))) (5 1))")).toEqual(makeOk(makeSymbolSExp("not-a-procedure")));
+        expect(evalParse("(guard (e (else (condition-message e))) (cdr 1))")).toEqual(makeOk("Cdr: param is not compound 1"));
+        expect(evalParse("(car 1)")).toSatisfy(isFailure);
+    });
+
+    it('raises a condition on a division by zero', () => {
+        expect(evalParse("(guard (e ((condition? e) (condition-kind e))) (/ 1 0))")).toEqual(makeOk(makeSymbolSExp("divide-by-zero")));
+        expect(evalParse("(guard (e (else 0)) (+ 1 (/ 6 (- 2 2))))")).toEqual(makeOk(0));
+        expect(evalParse("(/ 6 3)")).toEqual(makeOk(2));
+        expect(evalParse("(/ 1 0)")).toSatisfy(isFailure);
+    });
+
+    it('prints with display, write and newline to the output port', () => {
+        const port = makeBufferPort();
+        const program = `(L5 (define greet (lambda (name) (display "Hello, ") (display name) (newline)))
+                             (greet "world")
+                             (display '(1 "two" three)) (newline)
+                             (write '(1 "two" three)) (newline)
+                             (write "quoted")
+                             (display 42))`;
+        expect(bind(parseL5(program), (program: Program) => evalProgram(program, port))).toEqual(makeOk(undefined));
+        expect(port.contents()).toEqual('Hello, world\n(1 two three)\n(1 "two" three)\n"quoted"42');
+    });
+
+    it('keeps the output written before a failure', () => {
+        const port = makeBufferPort();
+        expect(evalParse('(begin (display "before") (car 1) (display "after"))', port)).toSatisfy(isFailure);
+        expect(port.contents()).toEqual("before");
+    });
+
+    it('evaluates define-record', () => {
+        const point = "(define-record point ((x : number) (y : number #:mutable)))";
+        const run = (body: string) => bind(parseL5(`(L5 ${point} ${body})`), (program: Program) => evalProgram(program));
+        const show = (body: string) => mapv(run(body), (v: Value) => valueToString(v));
+        expect(show("(define p (make-point 1 2)) (set-point-y! p 5) (list (point-x p) (point-y p))")).toEqual(makeOk("(1 5)"));
+        expect(show("(list (point? (make-point 1 2)) (point? 1))")).toEqual(makeOk("(#t #f)"));
+        expect(show('(make-point 1 "a")')).toEqual(makeOk('#<point 1 "a">'));
+        expect(show("point-x")).toEqual(makeOk("#<procedure point-x>"));
+        expect(run("(guard (e (else (condition-kind e))) (point-x 1))")).toEqual(makeOk(makeSymbolSExp("wrong-type")));
+        expect(run("(make-point 1)")).toSatisfy(isFailure);
+    });
+
+    it('evaluates define-datatype and match', () => {
+        const tree = "(define-datatype (tree T) (leaf) (node (left : (tree T)) (val : T) (right : (tree T))))";
+        const run = (body: string) => bind(parseL5(`(L5 ${tree} ${body})`), (program: Program) => evalProgram(program));
+        const show = (body: string) => mapv(run(body), (v: Value) => valueToString(v));
+        const sum = "(define sum (lambda (t) (match t ((leaf) 0) ((node l v r) (+ v (+ (sum l) (sum r)))))))";
+        expect(show(`${sum} (sum (node (node (leaf) 1 (leaf)) 2 (leaf)))`)).toEqual(makeOk("3"));
+        expect(show("(node (leaf) 1 (leaf))")).toEqual(makeOk("#<node #<leaf> 1 #<leaf>>"));
+        expect(show("(list (leaf? (leaf)) (node? (leaf)) (leaf? 1))")).toEqual(makeOk("(#t #f #f)"));
+        expect(show("(match 1 ((leaf) 0) (else 'other))")).toEqual(makeOk("other"));
+        expect(run("(guard (e (else (condition-kind e))) (match (leaf) ((node l v r) v)))")).toEqual(makeOk(makeSymbolSExp("error")));
+        expect(run("(match (node (leaf) 1 (leaf)) ((node l v) v))")).toSatisfy(isFailure);
+    });
+
+    it('evaluates define-type as a declaration without procedures', () => {
+        const program = "(L5 (define-type (Tree T) (union T (pair (Tree T) (Tree T)))) (define (t : (Tree number)) (cons 1 2)) (car t))";
+        expect(bind(parseL5(program), evalProgram)).toEqual(makeOk(1));
+    });
+});
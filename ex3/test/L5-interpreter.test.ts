@@ -0,0 +1,74 @@
+import { evalParse, evalProgram } from '../src/L5/L5-eval';
+import * as CPS from '../src/L5/L5-eval-cps';
+import { parseL5, Program } from '../src/L5/L5-ast';
+import { L5typeofProgram } from '../src/L5/L5-typecheck';
+import { forkInterpreter, makeInterpreter, resetInterpreter, Interpreter } from '../src/L5/L5-interpreter';
+import { stdoutPort } from '../src/L5/L5-output';
+import { bind, isFailure, makeOk } from '../src/shared/result';
+
+const evalIn = (interp: Interpreter, program: string) =>
+    bind(parseL5(program), (p: Program) => evalProgram(p, stdoutPort, interp));
+
+describe('L5 Interpreter sessions', () => {
+    it('evaluates programs in independent global environments', () => {
+        const s1 = makeInterpreter();
+        const s2 = makeInterpreter();
+        expect(evalIn(s1, "(L5 (define x 1) x)")).toEqual(makeOk(1));
+        expect(evalIn(s2, "(L5 (define x 2) x)")).toEqual(makeOk(2));
+        expect(evalIn(s1, "(L5 (+ x 10))")).toEqual(makeOk(11));
+        expect(evalParse("y", stdoutPort, s1)).toSatisfy(isFailure);
+        expect(evalIn(makeInterpreter(), "(L5 x)")).toSatisfy(isFailure);
+    });
+
+    it('forks a session as a snapshot', () => {
+        const parent = makeInterpreter();
+        evalIn(parent, "(L5 (define x 1) (define get-x (lambda () x)))");
+        const child = forkInterpreter(parent);
+        expect(evalIn(child, "(L5 (get-x))")).toEqual(makeOk(1));
+        expect(evalIn(child, "(L5 (set! x 2) (define y 3) (get-x))")).toEqual(makeOk(2));
+        expect(evalIn(parent, "(L5 (get-x))")).toEqual(makeOk(1));
+        expect(evalIn(parent, "(L5 y)")).toSatisfy(isFailure);
+        expect(evalIn(parent, "(L5 (set! x 5) (get-x))")).toEqual(makeOk(5));
+        expect(evalIn(child, "(L5 (get-x))")).toEqual(makeOk(2));
+    });
+
+    it('copies the state of closures and records when it forks a session', () => {
+        const parent = makeInterpreter();
+        evalIn(parent, "(L5 (define counter (let ((n 0)) (lambda () (set! n (+ n 1)) n))) (counter))");
+        evalIn(parent, "(L5 (define-record cell ((v : number #:mutable))) (define c (make-cell 1)) (define get-c (lambda () (cell-v c))))");
+        const child = forkInterpreter(parent);
+        expect(evalIn(child, "(L5 (counter) (counter))")).toEqual(makeOk(3));
+        expect(evalIn(parent, "(L5 (counter))")).toEqual(makeOk(2));
+        expect(evalIn(child, "(L5 (set-cell-v! c 2) (get-c))")).toEqual(makeOk(2));
+        expect(evalIn(parent, "(L5 (get-c))")).toEqual(makeOk(1));
+    });
+
+    it('resets a session', () => {
+        const s = makeInterpreter();
+        evalIn(s, "(L5 (define x 1))");
+        const fork = forkInterpreter(s);
+        resetInterpreter(s);
+        expect(evalIn(s, "(L5 x)")).toSatisfy(isFailure);
+        expect(evalIn(fork, "(L5 x)")).toEqual(makeOk(1));
+    });
+
+    it('evaluates in a session with the CPS evaluator', () => {
+        const s = makeInterpreter();
+        expect(bind(parseL5("(L5 (define x 1) x)"), (p: Program) => CPS.evalProgram(p, stdoutPort, s))).toEqual(makeOk(1));
+        expect(CPS.evalParse("(+ x 1)", stdoutPort, s)).toEqual(makeOk(2));
+        expect(evalParse("(+ x 1)", stdoutPort, s)).toEqual(makeOk(2));
+    });
+
+    it('type checks programs in the type environment of a session', () => {
+        const s = makeInterpreter();
+        expect(L5typeofProgram("(L5 (define (x : number) 1))", s)).toEqual(makeOk("void"));
+        expect(L5typeofProgram("(L5 (+ x 1))", s)).toEqual(makeOk("number"));
+        expect(L5typeofProgram("(L5 (+ x 1))")).toSatisfy(isFailure);
+        const fork = forkInterpreter(s);
+        expect(L5typeofProgram("(L5 (define (b : boolean) #t))", fork)).toEqual(makeOk("void"));
+        expect(L5typeofProgram("(L5 b)", s)).toSatisfy(isFailure);
+        resetInterpreter(fork);
+        expect(L5typeofProgram("(L5 x)", fork)).toSatisfy(isFailure);
+        expect(L5typeofProgram("(L5 x)", s)).toEqual(makeOk("number"));
+    });
+});
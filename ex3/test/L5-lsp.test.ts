@@ -0,0 +1,163 @@
+import { encodeMessage, makeMessageDecoder, makeServer, positionToOffset, Message } from '../src/L5/L5-lsp';
+import { resolveProgram, declarationName } from '../src/L5/L5-resolve';
+import { parseL5, Program, VarRef } from '../src/L5/L5-ast';
+import { bind, isOk, makeOk, Result } from '../src/shared/result';
+
+// A scripted client: it sends framed messages to the server in small chunks
+// and decodes the framed messages sent back by the server.
+const makeClient = () => {
+    const received: Message[] = [];
+    const exitCodes: number[] = [];
+    const decodeResponse = makeMessageDecoder((msg: Result<Message>) => { if (isOk(msg)) received.push(msg.value); });
+    const server = makeMessageDecoder(makeServer((msg: Message) => decodeResponse(encodeMessage(msg)),
+                                                 (code: number) => { exitCodes.push(code); }));
+    let nextId = 1;
+    const write = (msg: Message): void => {
+        const bytes = encodeMessage(msg);
+        for (let i = 0; i < bytes.length; i += 7)
+            server(bytes.slice(i, i + 7));
+    };
+    const request = (method: string, params: any): Message => {
+        const id = nextId++;
+        write({jsonrpc: "2.0", id: id, method: method, params: params});
+        const response = received.find((m: Message) => m.id === id);
+        if (response === undefined)
+            throw new Error(`No response to ${method}`);
+        return response;
+    };
+    const notify = (method: string, params: any): void => write({jsonrpc: "2.0", method: method, params: params});
+    const notifications = (method: string): Message[] => received.filter((m: Message) => m.method === method);
+    return {request, notify, notifications, exitCodes, server};
+};
+
+const uri = "file:///test.l5";
+const source = [
+    "(L5 (define (square : (number -> number))",
+    "      (lambda ((x : number)) : number (* x x)))",
+    "    (define (n : number) (square 3))",
+    "    (+ n #t))"].join("\n");
+const fixed = source.replace("#t", "1");
+
+const openClient = () => {
+    const client = makeClient();
+    client.request("initialize", {processId: null, rootUri: null, capabilities: {}});
+    client.notify("initialized", {});
+    client.notify("textDocument/didOpen", {textDocument: {uri: uri, languageId: "l5", version: 1, text: source}});
+    return client;
+};
+
+const at = (line: number, character: number) =>
+    ({textDocument: {uri: uri}, position: {line: line, character: character}});
+
+describe('L5 Language Server', () => {
+    it('frames and decodes messages', () => {
+        const decoded: Result<Message>[] = [];
+        const decode = makeMessageDecoder((msg: Result<Message>) => { decoded.push(msg); });
+        const msg: Message = {jsonrpc: "2.0", id: 1, method: "m", params: {s: "é"}};
+        decode(Buffer.concat([encodeMessage(msg), encodeMessage(msg)]));
+        decode(Buffer.from("Content-Length: 3\r\n\r\n{x}"));
+        expect(decoded.slice(0, 2)).toEqual([{tag: "Ok", value: msg}, {tag: "Ok", value: msg}]);
+        expect(decoded[2]).toMatchObject({tag: "Failure"});
+    });
+
+    it('converts positions to offsets', () => {
+        expect(positionToOffset("ab\ncd\r\nef", {line: 2, character: 1})).toEqual(8);
+        expect(positionToOffset("ab", {line: 0, character: 1})).toEqual(1);
+    });
+
+    it('announces its capabilities', () => {
+        const client = makeClient();
+        expect(client.request("textDocument/hover", at(0, 0)).error?.code).toEqual(-32002);
+        expect(client.request("initialize", {capabilities: {}}).result.capabilities).toEqual(
+            {textDocumentSync: 1, hoverProvider: true, definitionProvider: true, documentSymbolProvider: true});
+        expect(client.request("textDocument/formatting", {}).error?.code).toEqual(-32601);
+    });
+
+    it('publishes diagnostics on open and change', () => {
+        const client = openClient();
+        expect(client.notifications("textDocument/publishDiagnostics")[0].params).toEqual({
+            uri: uri,
+            diagnostics: [{range: {start: {line: 3, character: 4}, end: {line: 3, character: 12}},
+                           severity: 1, source: "l5",
+                           message: "Incompatible types: #t and number in (+ n #t)"}]});
+        client.notify("textDocument/didChange", {textDocument: {uri: uri, version: 2}, contentChanges: [{text: fixed}]});
+        expect(client.notifications("textDocument/publishDiagnostics")[1].params).toEqual({uri: uri, diagnostics: []});
+        client.notify("textDocument/didChange", {textDocument: {uri: uri, version: 3}, contentChanges: [{text: "(L5 (+ 1"}]});
+        const syntax = client.notifications("textDocument/publishDiagnostics")[2].params.diagnostics;
+        expect(syntax).toHaveLength(1);
+        expect(syntax[0].message).toMatch(/^Syntax error/);
+    });
+
+    it('shows the type under the cursor', () => {
+        const client = openClient();
+        expect(client.request("textDocument/hover", at(2, 27)).result).toEqual({
+            contents: {kind: "plaintext", value: "square : (number -> number)"},
+            range: {start: {line: 2, character: 26}, end: {line: 2, character: 32}}});
+        expect(client.request("textDocument/hover", at(2, 25)).result.contents.value).toEqual("number");
+        expect(client.request("textDocument/hover", at(1, 16)).result.contents.value).toEqual("x : number");
+        expect(client.request("textDocument/hover", at(0, 1)).result).toBeNull();
+    });
+
+    it('shows the type the checker gave to an unannotated define', () => {
+        const client = openClient();
+        client.notify("textDocument/didChange", {textDocument: {uri: uri, version: 2}, contentChanges: [{text: "(L5 (define m (+ 1 2)) m)"}]});
+        expect(client.request("textDocument/hover", at(0, 12)).result.contents.value).toEqual("m : number");
+        expect(client.request("textDocument/documentSymbol", {textDocument: {uri: uri}}).result[0].detail).toEqual("number");
+    });
+
+    it('goes to the definition of a var', () => {
+        const client = openClient();
+        expect(client.request("textDocument/definition", at(2, 28)).result).toEqual(
+            {uri: uri, range: {start: {line: 0, character: 12}, end: {line: 0, character: 41}}});
+        expect(client.request("textDocument/definition", at(1, 41)).result).toEqual(
+            {uri: uri, range: {start: {line: 1, character: 15}, end: {line: 1, character: 27}}});
+        expect(client.request("textDocument/definition", at(3, 5)).result).toBeNull();
+    });
+
+    it('lists the top-level defines', () => {
+        const client = openClient();
+        expect(client.request("textDocument/documentSymbol", {textDocument: {uri: uri}}).result).toEqual([
+            {name: "square", detail: "(number -> number)", kind: 12,
+             range: {start: {line: 0, character: 4}, end: {line: 1, character: 47}},
+             selectionRange: {start: {line: 0, character: 12}, end: {line: 0, character: 41}}},
+            {name: "n", detail: "number", kind: 13,
+             range: {start: {line: 2, character: 4}, end: {line: 2, character: 36}},
+             selectionRange: {start: {line: 2, character: 12}, end: {line: 2, character: 24}}}]);
+    });
+
+    it('resolves var references to their declarations', () => {
+        // Each reference is shown with the column of its declaration
+        const resolve = (program: string) =>
+            bind(parseL5(program), (p: Program) =>
+                makeOk([...resolveProgram(p).references.entries()].map(([ref, decl]: [VarRef, any]) =>
+                    `${ref.var}@${ref.span?.start.col}->${declarationName(decl)}@${decl.span?.start.col}`)));
+        expect(resolve("(L5 (define x 1) (let ((x 2) (y x)) (+ x y)))")).toEqual(makeOk(
+            ["x@33->x@13", "x@40->x@25", "y@42->y@31"]));
+        expect(resolve("(L5 (let* ((a 1) (a a)) a) (letrec ((f (lambda () (f)))) f))")).toEqual(makeOk(
+            ["a@21->a@13", "a@25->a@19", "f@52->f@38", "f@58->f@38"]));
+        expect(resolve("(L5 (let loop ((i 0)) (loop i)) (guard (e (#t e)) (raise e)))")).toEqual(makeOk(
+            ["loop@24->loop@5", "i@29->i@17", "e@47->e@41"]));
+    });
+
+    it('rejects malformed params without stopping', () => {
+        const client = openClient();
+        expect(client.request("textDocument/hover", {}).error?.code).toEqual(-32602);
+        expect(client.request("textDocument/definition", {textDocument: {uri: uri}}).error?.code).toEqual(-32602);
+        expect(client.request("textDocument/documentSymbol", null).error?.code).toEqual(-32602);
+        client.notify("textDocument/didOpen", {});
+        client.notify("textDocument/didChange", {textDocument: {uri: uri}, contentChanges: []});
+        expect(client.notifications("window/logMessage").map((m: Message) => m.params.message)).toEqual([
+            "Invalid params for textDocument/didOpen", "Invalid params for textDocument/didChange"]);
+        expect(client.request("textDocument/hover", at(2, 14)).result.contents.value).toEqual("n : number");
+    });
+
+    it('exits after shutdown', () => {
+        const client = openClient();
+        expect(client.request("shutdown", null).result).toBeNull();
+        client.notify("exit", null);
+        expect(client.exitCodes).toEqual([0]);
+        const early = makeClient();
+        early.notify("exit", null);
+        expect(early.exitCodes).toEqual([1]);
+    });
+});
@@ -0,0 +1,158 @@
+import { parseL5, parseL5Exp, unparse, Exp } from "../src/L5/L5-ast";
+import { formatL5, prettyL5, prettyTExp } from "../src/L5/L5-pretty";
+import { parseTE } from "../src/L5/TExp";
+import { Result, bind, isFailure, isOk, makeOk } from "../src/shared/result";
+import { parse as parseSexp } from "../src/shared/parser";
+
+const p = (x: string): Result<Exp> => bind(parseSexp(x), parseL5Exp);
+const pretty = (x: string, width: number): Result<string> => bind(p(x), (e: Exp) => prettyL5(e, width));
+
+describe('L5 Pretty Printer', () => {
+    it('prints forms which fit on one line as unparse', () => {
+        const program = '(L5 (define (x : number) 2) (let ((y 1)) (if (> x y) "a" (quote b))))';
+        expect(bind(parseL5(program), prettyL5)).toEqual(bind(parseL5(program), unparse));
+        expect(pretty("(lambda ((x : number)) : number (* x x))", 80)).toEqual(makeOk("(lambda ((x : number)) : number (* x x))"));
+    });
+
+    it('indents define, lambda, let and if', () => {
+        const define = "(define f (lambda ((x : number)) : number (let ((y (* x x)) (z (+ x 1))) (if (> y z) y z))))";
+        expect(pretty(define, 33)).toEqual(makeOk(
+            "(define f\n" +
+            "  (lambda ((x : number)) : number\n" +
+            "    (let ((y (* x x))\n" +
+            "          (z (+ x 1)))\n" +
+            "      (if (> y z) y z))))"));
+        expect(pretty("(if (number? x) (+ x 1) (string-length x))", 22)).toEqual(makeOk(
+            "(if (number? x)\n" +
+            "    (+ x 1)\n" +
+            "    (string-length x))"));
+        expect(pretty("(letrec ((f (lambda (n) (if (= n 0) 1 (* n (f (- n 1))))))) (f 5))", 52)).toEqual(makeOk(
+            "(letrec ((f (lambda (n)\n" +
+            "              (if (= n 0) 1 (* n (f (- n 1)))))))\n" +
+            "  (f 5))"));
+    });
+
+    it('breaks long union types', () => {
+        const te = parseTE("(union number (union boolean (union string symbol)))");
+        expect(bind(te, (te) => prettyTExp(te))).toEqual(makeOk("(union boolean (union number (union string symbol)))"));
+        expect(bind(te, (te) => prettyTExp(te, 40))).toEqual(makeOk(
+            "(union\n" +
+            "  boolean\n" +
+            "  (union number (union string symbol)))"));
+        expect(bind(parseTE("(number * boolean -> (listof number))"), (te) => prettyTExp(te, 20))).toEqual(makeOk(
+            "(number *\n" +
+            " boolean\n" +
+            " -> (listof number))"));
+        expect(bind(parseTE("(pair number (pair string (pair boolean (listof never))))"), (te) => prettyTExp(te, 20))).toEqual(makeOk(
+            "(tuple\n" +
+            "  number\n" +
+            "  string\n" +
+            "  boolean)"));
+    });
+
+    it('indents define-datatype and match', () => {
+        const datatype = "(define-datatype (tree T) (leaf) (node (left : (tree T)) (val : T) (right : (tree T))))";
+        expect(pretty(datatype, 40)).toEqual(makeOk(
+            "(define-datatype (tree T)\n" +
+            "  (leaf)\n" +
+            "  (node\n" +
+            "    (left : (tree T))\n" +
+            "    (val : T)\n" +
+            "    (right : (tree T))))"));
+        expect(pretty("(match t ((leaf) 0) ((node l v r) (+ v (sum l))) (else 1))", 30)).toEqual(makeOk(
+            "(match t\n" +
+            "  ((leaf) 0)\n" +
+            "  ((node l v r) (+ v (sum l)))\n" +
+            "  (else 1))"));
+    });
+
+    it('indents define-type and prints type aliases by name', () => {
+        expect(pretty("(define-type (Tree T) (union T (pair (Tree T) (Tree T))))", 30)).toEqual(makeOk(
+            "(define-type (Tree T)\n" +
+            "  (union\n" +
+            "    T\n" +
+            "    (pair (Tree T) (Tree T))))"));
+        expect(pretty("(lambda ((t : (Tree number))) : number 1)", 80)).toEqual(makeOk("(lambda ((t : (Tree number))) : number 1)"));
+    });
+
+    it('keeps the comments of the source', () => {
+        const source = "; squares\n(L5 (define sq (lambda (x) (* x x))) ; apply it\n (sq 3))\n; done\n";
+        expect(formatL5(source)).toEqual(makeOk(
+            "; squares\n" +
+            "(L5\n" +
+            "  (define sq (lambda (x) (* x x))) ; apply it\n" +
+            "  (sq 3))\n" +
+            "; done"));
+    });
+
+    it('keeps the comments before a closing paren and in quoted data on their line', () => {
+        expect(formatL5("(L5 (define x 1)\n  ; x is set\n  )")).toEqual(makeOk("(L5 (define x 1)) ; x is set"));
+        expect(formatL5("(L5 (define x '(1 ; one\n 2)) x)")).toEqual(makeOk(
+            "(L5\n" +
+            "  (define x\n" +
+            "    '(1 ; one\n" +
+            "      2))\n" +
+            "  x)"));
+        expect(formatL5("(L5 (define xs '(1 2 ; c\n 3)))")).toEqual(makeOk(
+            "(L5\n" +
+            "  (define xs\n" +
+            "    '(1\n" +
+            "      2 ; c\n" +
+            "      3)))"));
+        expect(formatL5("(L5 (let ((x 1) ; one\n (y 2)) (+ x y)))")).toEqual(makeOk(
+            "(L5\n" +
+            "  (let ((x 1) ; one\n" +
+            "        (y 2))\n" +
+            "    (+ x y)))"));
+    });
+
+    it('keeps separate comments on separate lines', () => {
+        expect(formatL5("(L5 (f)\n  ; end\n  ) ; after program")).toEqual(makeOk(
+            "(L5 (f)) ; end\n" +
+            "; after program"));
+        expect(formatL5("(L5 (a (b x\n ; b1\n ; b2\n )) (d))")).toEqual(makeOk(
+            "(L5\n" +
+            "  (a (b x)) ; b1\n" +
+            "  ; b2\n" +
+            "  (d))"));
+        expect(formatL5("(L5 (define x 1) ; x\n  )")).toEqual(makeOk("(L5 (define x 1)) ; x"));
+    });
+
+    it('prints the type annotations as they are written', () => {
+        expect(formatL5("(L5 (define (f : (number -> (union string number))) (lambda ((x : (union string number))) x)))")).toEqual(
+            makeOk("(L5\n" +
+                   "  (define (f : (number -> (union string number)))\n" +
+                   "    (lambda ((x : (union string number))) x)))"));
+    });
+
+    it('is idempotent', () => {
+        const source = '(L5 (define (f : (number -> (union number (union boolean string)))) (lambda ((x : number)) ' +
+                       '(cond ((> x 0) x) ((= x 0) => (lambda (b) b)) (else "neg \\"x\\"")))) ; f\n' +
+                       "(guard (e ((symbol? e) e) (else 'other)) (case (f 1) ((1 2) 'small) (else (raise 'big)))))";
+        const fixtures = [
+            source,
+            "; squares\n(L5 (define sq (lambda (x) (* x x))) ; apply it\n (sq 3))\n; done\n",
+            "(L5 (define x 1)\n  ; x is set\n  )",
+            "(L5 (define x '(1 ; one\n 2)) x)",
+            "(L5 (define xs '(1 2 ; c\n 3)))",
+            "(L5 (define xs '(1 ; one\n ; own line\n (2 3) ; two\n)) xs)",
+            "(L5 (let ((x 1) ; one\n (y 2)) (+ x y)))",
+            "(L5 (f)\n  ; end\n  ) ; after program",
+            "(L5 (a (b x\n ; b1\n ; b2\n )) (d))",
+            "(L5 (define-datatype (tree T) (leaf) (node (left : (tree T)) (val : T) (right : (tree T)))) ; trees\n" +
+            "  (match (leaf) ((leaf) 0) ((node l v r) v)))",
+            "(L5 (define (f : (number -> (union string number))) (lambda ((x : (union string number))) x)))"
+        ];
+        fixtures.forEach((fixture: string) =>
+            [20, 40, 80].forEach((width: number) => {
+                const once = formatL5(fixture, width);
+                expect(once).toSatisfy(isOk);
+                expect(bind(once, (s: string) => formatL5(s, width))).toEqual(once);
+            }));
+        expect(bind(bind(formatL5(source, 40), parseL5), unparse)).toEqual(bind(parseL5(source), unparse));
+    });
+
+    it('reports syntax errors', () => {
+        expect(formatL5("(L5 (define))")).toSatisfy(isFailure);
+    });
+});
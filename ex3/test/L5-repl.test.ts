@@ -0,0 +1,96 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { makeRepl, openParens, replFeedLine, replPrompt, Repl } from '../src/L5/L5-repl';
+import { makeBufferPort, BufferPort } from '../src/L5/L5-output';
+import { globalEnvBindings, FBinding } from '../src/L5/L5-env';
+
+const run = (lines: string[]): [Repl, BufferPort] => {
+    const port = makeBufferPort();
+    const repl = makeRepl(port);
+    lines.forEach((line: string) => replFeedLine(repl, line));
+    return [repl, port];
+};
+
+describe('L5 REPL', () => {
+    it('counts the open parens of an input', () => {
+        expect(openParens("(define x")).toEqual(1);
+        expect(openParens("(f (g 1) \"(\")")).toEqual(0);
+        expect(openParens("(string-append \"a\\\")\"")).toEqual(1);
+        expect(openParens("(+ 1 2) ; note (")).toEqual(0);
+        expect(openParens("(+ 1 ; a ) in a comment\n 2")).toEqual(1);
+        expect(openParens("(f \";\" (")).toEqual(2);
+    });
+
+    it('keeps definitions across inputs and prints values with their types', () => {
+        const [, port] = run(["(define (x : number) 2)", "(* x 3)", "(display \"hi\")"]);
+        expect(port.contents()).toEqual("x : number\n6 : number\nhi");
+    });
+
+    it('reads an input until its parens are balanced', () => {
+        const port = makeBufferPort();
+        const repl = makeRepl(port);
+        expect(replPrompt(repl)).toEqual("l5> ");
+        replFeedLine(repl, "(+ 1");
+        expect(replPrompt(repl)).toEqual("...> ");
+        expect(port.contents()).toEqual("");
+        replFeedLine(repl, "   2)");
+        expect(replPrompt(repl)).toEqual("l5> ");
+        expect(port.contents()).toEqual("3 : number\n");
+    });
+
+    it('does not evaluate an input which fails type checking', () => {
+        const [, port] = run(["(define (x : number) #t)", ":env"]);
+        expect(port.contents()).toMatch(/^<repl>:1:1: Incompatible types/);
+        expect(port.contents()).not.toContain("x : number =");
+    });
+
+    it('does not keep the type of a define whose evaluation fails', () => {
+        const [, port] = run(["(define (y : number) (error \"boom\"))", ":type y", "y"]);
+        expect(port.contents()).toContain("boom");
+        expect(port.contents()).not.toMatch(/^y : number$/m);
+        expect(port.contents().match(/Type Variable not found y/g)).toHaveLength(2);
+    });
+
+    it('runs meta-commands', () => {
+        const [repl, port] = run([
+            "(define (sq : (number -> number)) (lambda ((x : number)) : number (* x x)))",
+            ":type (sq 2)",
+            ":infer (lambda (x) (+ x 1))",
+            ":env",
+            ":reset",
+            ":env",
+            ":type sq",
+            ":frob"]);
+        expect(port.contents().split("\n")).toEqual([
+            "sq : (number -> number)",
+            "number",
+            "(number -> number)",
+            "sq : (number -> number) = <Closure (x) (* x x)>",
+            "Definitions removed",
+            "Type Variable not found sq",
+            "Unknown command: :frob (:help lists the commands)",
+            ""]);
+        expect(replFeedLine(repl, ":quit")).toBe(false);
+    });
+
+    it('loads a program from a file', () => {
+        const file = join(mkdtempSync(join(tmpdir(), "l5-")), "prog.l5");
+        writeFileSync(file, "(L5 (define (y : number) 4)\n    (+ y 1))");
+        const [, port] = run([`:load ${file}`, "(* y 2)", ":load /no/such/file.l5"]);
+        const out = port.contents().split("\n");
+        expect(out.slice(0, 3)).toEqual([`Loaded ${file}`, "5 : number", "8 : number"]);
+        expect(out[3]).toMatch(/^Cannot read \/no\/such\/file.l5/);
+    });
+
+    it('rolls back the bindings and their types when a loaded program fails', () => {
+        const file = join(mkdtempSync(join(tmpdir(), "l5-")), "fail.l5");
+        writeFileSync(file, "(L5 (define (z : number) 4)\n    (/ z 0))");
+        const [repl, port] = run(["(define (inc : (number -> number)) (lambda ((n : number)) : number (+ n 1)))",
+                                  `:load ${file}`, "z", "(inc 1)"]);
+        const out = port.contents().split("\n");
+        expect(out[1]).toMatch(/Division by zero: \(\/ 4 0\)/);
+        expect(out.slice(-3)).toEqual(["Type Variable not found z", "2 : number", ""]);
+        expect(globalEnvBindings(repl.interp.env).map((b: FBinding) => b.var)).toEqual(["inc"]);
+    });
+});
@@ -0,0 +1,96 @@
+import { infer, inferProgram } from '../src/L5/L5-type-equations';
+import { inferTypeOf } from '../src/L5/L5-typeinference';
+import { parseL5 } from '../src/L5/L5-ast';
+import { equivalentTEs, parseTE, TExp } from '../src/L5/TExp';
+import { bind, isFailure, isOk, makeFailure, makeOk, Result } from '../src/shared/result';
+
+// Both inference methods agree when they infer the same type up to the renaming of type variables,
+// or when they both fail.
+const agree = (r1: Result<string>, r2: Result<string>): boolean =>
+    isOk(r1) && isOk(r2) ?
+        isOk(bind(parseTE(r1.value), (te1: TExp) =>
+                bind(parseTE(r2.value), (te2: TExp) =>
+                    equivalentTEs(te1, te2) ? makeOk(true) : makeFailure("Not equivalent")))) :
+    isFailure(r1) && isFailure(r2);
+
+describe('L5 Type Equations', () => {
+    it('infers let-polymorphic types', () => {
+        expect(infer("(let ((id (lambda (x) x))) (if (id #t) (id 1) 2))")).toEqual(makeOk("number"));
+        expect(infer("(let ((id (lambda (x) x))) id)")).toSatisfy((r: Result<string>) =>
+            isOk(r) && /^\(T_\d+ -> T_\d+\)$/.test(r.value));
+        expect(infer("(lambda (id) (if (id #t) (id 1) 2))")).toSatisfy(isFailure);
+    });
+
+    it('does not generalize type variables of the enclosing type environment', () => {
+        expect(infer("(lambda (y) (let ((f (lambda (x) y))) (+ (f 1) 1)))")).toEqual(makeOk("(number -> number)"));
+        expect(infer("(lambda (y) (let ((f (lambda (x) y))) (if (f 1) (+ (f 2) 1) 0)))")).toSatisfy(isFailure);
+    });
+
+    it('infers letrec with generalization in the body', () => {
+        expect(infer(`(letrec ((fact (lambda (n) (if (= n 0) 1 (* n (fact (- n 1)))))))
+                        fact)`)).toEqual(makeOk("(number -> number)"));
+        expect(infer(`(letrec ((loop (lambda (n x) (if (= n 0) x (loop (- n 1) x)))))
+                        (if (loop 3 #t) (loop 2 1) 0))`)).toEqual(makeOk("number"));
+    });
+
+    it('generalizes defines in programs', () => {
+        expect(inferProgram(`(L5 (define id (lambda (x) x))
+                                 (define n (id 1))
+                                 (if (id #t) n 2))`)).toEqual(makeOk("number"));
+        expect(inferProgram(`(L5 (define (n : number) 1) (set! n #t))`)).toSatisfy(isFailure);
+    });
+
+    it('types the type predicates as boolean procs', () => {
+        expect(infer("(number? 1)")).toEqual(makeOk("boolean"));
+        expect(infer("(symbol? 'a)")).toEqual(makeOk("boolean"));
+        expect(infer("(lambda (x) (if (pair? x) (car x) 0))")).toSatisfy((r: Result<string>) =>
+            isOk(r) && /^\(\(pair number T_\d+\) -> number\)$/.test(r.value));
+    });
+
+    it('infers list, derived forms and match', () => {
+        expect(infer("(list 1 2)")).toEqual(makeOk("(listof number)"));
+        expect(infer("(list 1 #t)")).toSatisfy(isFailure);
+        expect(infer("(lambda (n) (cond ((> n 0) 1) (else 0)))")).toEqual(makeOk("(number -> number)"));
+        expect(infer("(let* ((id (lambda (x) x)) (n (id 1))) (if (id #t) n 2))")).toEqual(makeOk("number"));
+        expect(infer("(begin (when #t 1) (case 1 ((1) #t) (else #f)))")).toEqual(makeOk("boolean"));
+        expect(infer("(guard (e ((string? e) 1) (else 0)) (raise 1))")).toEqual(makeOk("number"));
+        expect(inferProgram(`(L5 (define-datatype shape (circle (r : number)) (square (s : number)))
+                                 (define area (lambda (sh) (match sh ((circle r) (* r r)) ((square s) (* s s)))))
+                                 area)`)).toEqual(makeOk("(shape -> number)"));
+    });
+
+    it('compares recursive type aliases by their unfolding', () => {
+        const equivalent = (te1: string, te2: string): Result<boolean> =>
+            bind(parseTE(te1), (te1: TExp) => bind(parseTE(te2), (te2: TExp) => makeOk(equivalentTEs(te1, te2))));
+        expect(parseL5("(L5 (define-type Stream (pair number Stream)) (define-type Ints (pair number Ints)) 1)")).toSatisfy(isOk);
+        expect(equivalent("Stream", "Ints")).toEqual(makeOk(true));
+        expect(equivalent("Stream", "(pair number Stream)")).toEqual(makeOk(true));
+        expect(equivalent("(Stream -> T1)", "(Ints -> T2)")).toEqual(makeOk(true));
+        expect(equivalent("Stream", "(pair number (pair boolean Stream))")).toEqual(makeOk(false));
+    });
+
+    it('agrees with the inference engine', () => {
+        const exps = [
+            "(lambda (f x) (f (f x)))",
+            "(lambda (x) (+ x 1))",
+            "((lambda (x) (x 11)) (lambda (y) y))",
+            "(if #t 1 2)",
+            "(if 1 2 3)",
+            "(lambda (f g) (lambda (x) (f (g x))))",
+            "(let ((id (lambda (x) x))) (if (id #t) (id 1) 2))",
+            "(let ((compose (lambda (f g) (lambda (x) (f (g x)))))) (compose (lambda (n) (+ n 1)) (lambda (b) (if b 1 0))))",
+            "(let ((x 1) (y #t)) (if y x 2))",
+            "(lambda (y) (let ((f (lambda (x) y))) (f 1)))",
+            "(lambda (id) (if (id #t) (id 1) 2))",
+            "(cons 1 #t)",
+            "(car (cons 1 #t))",
+            "(letrec ((fact (lambda (n) (if (= n 0) 1 (* n (fact (- n 1))))))) fact)",
+            "(lambda (x) (if (number? x) x 0))",
+            "(list 1 2)",
+            "(lambda (n) (cond ((> n 0) 1) ((< n 0) #t) (else 0)))",
+            "(let* ((x 1) (y (+ x 1))) (begin x y))",
+            "(x 1)"
+        ];
+        exps.forEach((exp) => expect([exp, agree(infer(exp), inferTypeOf(exp))]).toEqual([exp, true]));
+    });
+});
@@ -1,8 +1,11 @@
-import { parseL5Exp, Exp, makeNumExp } from '../src/L5/L5-ast';
-import { typeofExp, L5typeof, L5typeofProgram, checkCompatibleType, makeUnion } from '../src/L5/L5-typecheck';
+import { isDefineExp, parseL5Exp, parseL5Program, Exp, makeNumExp, Program } from '../src/L5/L5-ast';
+import { typeofExp, L5typeof, L5typeofProgram, checkCompatibleType, makeUnion, L5typeofProgramDiagnostics,
+         typeofProgramDiagnostics } from '../src/L5/L5-typecheck';
+import { formatDiagnostic, Diagnostic } from '../src/L5/L5-diagnostics';
 import { makeEmptyTEnv, makeExtendTEnv } from '../src/L5/TEnv';
-import { makeBoolTExp, makeNumTExp, makeProcTExp, makeTVar, makeVoidTExp, parseTE, unparseTExp, isUnionTExp, makeStrTExp } from '../src/L5/TExp';
-import { makeOk, makeFailure, bind, isFailure, mapv } from '../src/shared/result';
+import { makeBoolTExp, makeNumTExp, makeProcTExp, makeTVar, makeVoidTExp, parseTE, unparseTExp, isUnionTExp, makeStrTExp, makeLitTExp,
+         makeNeverTExp, makeDiffTExp, isSubType, isEmptyTVar, TExp } from '../src/L5/TExp';
+import { makeOk, makeFailure, bind, isFailure, mapv, either, isOk } from '../src/shared/result';
 import { parse as p } from "../src/shared/parser";
 
 describe('L5 Type Checker', () => {
@@ -47,8 +50,9 @@ describe('L5 Type Checker', () => {
 
     describe('L5typeof', () => {
         it('returns the types of atoms', () => {
-            expect(L5typeof("5")).toEqual(makeOk("number"));
-            expect(L5typeof("#t")).toEqual(makeOk("boolean"));
+            expect(L5typeof("5")).toEqual(makeOk("(lit 5)"));
+            expect(L5typeof("#t")).toEqual(makeOk("#t"));
+            expect(L5typeof('"ok"')).toEqual(makeOk('(lit "ok")'));
         });
 
         it('returns the type of primitive procedures', () => {
@@ -93,7 +97,7 @@ describe('L5 Type Checker', () => {
         });
 
         it('returns the type of "if" expressions', () => {
-            expect(L5typeof("(if (> 1 2) 1 2)")).toEqual(makeOk("number"));
+            expect(L5typeof("(if (> 1 2) 1 2)")).toEqual(makeOk("(union (lit 1) (lit 2))"));
             expect(L5typeof("(if (= 1 2) #t #f)")).toEqual(makeOk("boolean"));
         });
 
@@ -270,17 +274,17 @@ it('L5 Test makeUnion', () => {
 
 // TODO L51 Test typeOfIf with union in all relevant positions
 it('L5 Test typeOfIf with union in all relevant positions', () => {
-    // typeOfIf( (if #t 1 #t) ) -> union(boolean, number)
+    // typeOfIf( (if #t 1 #t) ) -> union(#t, (lit 1))
     const t1 = L5typeof("(if #t 1 #t)");
-    expect(t1).toEqual(makeOk("(union boolean number)"));
+    expect(t1).toEqual(makeOk("(union #t (lit 1))"));
 
-    // typeOfIf( (if #t 1 2) ) -> number
+    // typeOfIf( (if #t 1 2) ) -> union((lit 1), (lit 2))
     const t2 = L5typeof("(if #t 1 2)");
-    expect(t2).toEqual(makeOk("number"));
+    expect(t2).toEqual(makeOk("(union (lit 1) (lit 2))"));
 
-    // typeOfIf( (if #t (if #f 1 #t) "ok") ) -> union(boolean, number, string)
+    // typeOfIf( (if #t (if #f 1 #t) "ok") ) -> union(#t, (lit 1), (lit "ok"))
     const t3 = L5typeof('(if #t (if #f 1 #t) "ok")');
-    expect(t3).toEqual(makeOk("(union boolean (union number string))"));
+    expect(t3).toEqual(makeOk('(union #t (union (lit "ok") (lit 1)))'));
 
     // typeOfIf( (if 1 2 3) ) -> failure
     const t4 = L5typeof("(if 1 2 3)");
@@ -367,7 +371,10 @@ describe('L52 Type Checker', () => {
         )
         `;
         const test = L5typeofProgram(p0);
-        expect(L5typeofProgram(p0)).toEqual(makeFailure("Incompatible types: string and number in (test \"hi\")"));
+        expect(L5typeofProgram(p0)).toEqual(makeFailure(
+            "<input>:5:13: Incompatible types: (lit \"hi\") and number in (test \"hi\")\n" +
+            "5 |             (test \"hi\")\n" +
+            "  |             ^^^^^^^^^^^"));
     });
     
     it('TypePred 0', () => {
@@ -384,4 +391,684 @@ describe('L52 Type Checker', () => {
         expect(L5typeofProgram(p0)).toEqual(makeOk("number"));
     });
 });
-// L52 Tests End
\ No newline at end of file
+// L52 Tests End
+describe('L5 Type Checker diagnostics', () => {
+    it('reports the location of an application of a non-procedure', () => {
+        const res = L5typeofProgram(`(L5
+  (define (x : number) 1)
+  (+ (x 2) 3))`);
+        expect(res).toSatisfy(isFailure);
+        if (isFailure(res)) {
+            expect(res.message).toMatch(/^<input>:3:6: Application of non-procedure: number in \(x 2\)/);
+            expect(res.message).toContain("3 |   (+ (x 2) 3))\n  |      ^^^^^");
+        }
+    });
+
+    it('reports the location of an ill-typed top-level define', () => {
+        const res = L5typeofProgram(`(L5 (define (x : number) "s") x)`);
+        expect(res).toSatisfy(isFailure);
+        if (isFailure(res)) {
+            expect(res.message).toMatch(/^<input>:1:5: Incompatible types: \(lit "s"\) and number/);
+        }
+    });
+
+    it('reports unbound variables at the variable reference', () => {
+        const res = L5typeof("(+ 1 y)");
+        expect(res).toSatisfy(isFailure);
+        if (isFailure(res)) {
+            expect(res.message).toMatch(/^<input>:1:6: Type Variable not found y/);
+        }
+    });
+});
+
+describe('L5 Type Checker diagnostics mode', () => {
+    it('collects errors in later defines and sibling expressions', () => {
+        const res = L5typeofProgramDiagnostics(`(L5
+  (define (x : number) "one")
+  (define (f : (number -> number)) (lambda ((n : number)) : number (+ n #t)))
+  (define (y : number) (f x))
+  (+ (f "two") (g 1)))`);
+        expect(res.tag).toEqual("Ok");
+        mapv(res, ({ type, diagnostics }) => {
+            expect(unparseTExp(type)).toEqual(makeOk("number"));
+            expect(diagnostics.map((d) => d.message)).toEqual([
+                'Incompatible types: (lit "one") and number in (define (x : number) "one")',
+                "Incompatible types: #t and number in (+ n #t)",
+                'Incompatible types: (lit "two") and number in (f "two")',
+                "Type Variable not found g"
+            ]);
+            expect(diagnostics.map((d) => d.severity)).toEqual(["error", "error", "error", "error"]);
+            expect(diagnostics.map((d) => d.span?.start.line)).toEqual([2, 3, 5, 5]);
+            expect(diagnostics[1].expected).toEqual(makeNumTExp());
+            expect(diagnostics[1].actual).toEqual(makeLitTExp(makeBoolTExp(), true));
+        });
+    });
+
+    it('collects errors in other let bindings', () => {
+        const res = L5typeofProgramDiagnostics(`(L5
+  (let (((a : number) #t) ((b : string) 2) ((c : number) 3))
+    (+ a c)))`);
+        mapv(res, ({ type, diagnostics }) => {
+            expect(unparseTExp(type)).toEqual(makeOk("number"));
+            expect(diagnostics).toHaveLength(2);
+        });
+    });
+
+    it('binds the type variables of an instance only when the argument is compatible', () => {
+        const res = L5typeofProgramDiagnostics(`(L5
+  (define (f : (forall (T) ((pair T string) * T -> T))) (lambda ((p : (pair T string)) (x : T)) : T x))
+  (f (cons 1 2) "b"))`);
+        mapv(res, ({ type, diagnostics }) => {
+            expect(unparseTExp(type)).toEqual(makeOk("string"));
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toMatch(/^Incompatible types: \(pair number number\) and \(pair T_\d+ string\)/);
+        });
+    });
+
+    it('types the var of a failed define in the type environment and reports the errors after it', () => {
+        const program = bind(p(`(L5
+  (define x (car 1))
+  (define (y : number) (string-length 1))
+  (+ x y))`), parseL5Program);
+        mapv(program, (program: Program) => {
+            [1, 2].forEach((_) => {
+                const { type, diagnostics } = typeofProgramDiagnostics(program, makeEmptyTEnv());
+                expect(unparseTExp(type)).toEqual(makeOk("number"));
+                expect(diagnostics.map((d) => d.message)).toEqual([
+                    "car expects a pair - got (lit 1)",
+                    "Incompatible types: (lit 1) and string in (string-length 1)"
+                ]);
+            });
+            const def = program.exps[0];
+            expect(isDefineExp(def) && isEmptyTVar(def.var.texp)).toBe(true);
+        });
+        expect(program).toSatisfy(isOk);
+    });
+
+    it('returns no diagnostics for a well-typed program', () => {
+        const res = L5typeofProgramDiagnostics(`(L5 (define (x : number) 1) (+ x 1))`);
+        expect(res).toEqual(makeOk({ type: makeNumTExp(), diagnostics: [] }));
+    });
+
+    it('formats diagnostics with their location', () => {
+        const res = L5typeofProgramDiagnostics(`(L5 (if 1 2 3))`);
+        mapv(res, ({ diagnostics }) =>
+            expect(formatDiagnostic(diagnostics[0])).toEqual(
+                "<input>:1:5: Incompatible types: (lit 1) and boolean in (if 1 2 3)\n" +
+                "1 | (L5 (if 1 2 3))\n" +
+                "  |     ^^^^^^^^^^"));
+    });
+
+    it('still stops at the first error outside of diagnostics mode', () => {
+        expect(L5typeofProgram(`(L5 (define (x : number) "one") x)`)).toSatisfy(isFailure);
+    });
+
+    it('collects the errors in the context of the check only', () => {
+        const diagnostics: Diagnostic[] = [];
+        const check = (exp: Exp) => {
+            expect(typeofExp(exp, makeEmptyTEnv())).toSatisfy(isFailure);
+            return typeofExp(exp, makeEmptyTEnv(), { diagnostics: diagnostics });
+        };
+        expect(bind(bind(p(`(+ 1 #t)`), parseL5Exp), check)).toEqual(makeOk(makeNumTExp()));
+        expect(diagnostics).toHaveLength(1);
+    });
+});
+
+describe('L5 Type Checker pairs, lists and literals', () => {
+    it('parses and unparses pair, list and symbol types', () => {
+        expect(bind(parseTE("(pair number (listof symbol))"), unparseTExp)).toEqual(makeOk("(pair number (listof symbol))"));
+        expect(parseTE("(pair number)")).toSatisfy(isFailure);
+        expect(parseTE("(listof number string)")).toSatisfy(isFailure);
+    });
+
+    it('types quoted literals', () => {
+        expect(L5typeof("'a")).toEqual(makeOk("'a"));
+        expect(L5typeof("'()")).toEqual(makeOk("(listof never)"));
+        expect(L5typeof("'(1 2 3)")).toEqual(makeOk("(tuple number number number)"));
+        expect(L5typeof("'(1 . #t)")).toEqual(makeOk("(pair number boolean)"));
+        expect(L5typeof("'((1 2) (3))")).toEqual(makeOk("(tuple (tuple number number) (tuple number))"));
+        expect(L5typeof("'(1 a)")).toEqual(makeOk("(tuple number symbol)"));
+    });
+
+    it('types cons, car, cdr and list', () => {
+        expect(L5typeof("(cons 1 #t)")).toEqual(makeOk("(pair number boolean)"));
+        expect(L5typeof("(cons 1 '())")).toEqual(makeOk("(tuple number)"));
+        expect(L5typeof("(car (cons (cons 1 2) (cons 1 #f)))")).toEqual(makeOk("(pair number number)"));
+        expect(L5typeof("(cdr (cons (cons 1 2) (cons 1 #f)))")).toEqual(makeOk("(pair number boolean)"));
+        expect(L5typeof("(list 1 2 3)")).toEqual(makeOk("(tuple number number number)"));
+        expect(L5typeof("(car (list 1 2 3))")).toEqual(makeOk("number"));
+        expect(L5typeof("(cdr '(a b))")).toEqual(makeOk("(tuple symbol)"));
+        expect(L5typeof("(car 1)")).toSatisfy(isFailure);
+        expect(L5typeof("(cons 1)")).toSatisfy(isFailure);
+    });
+
+    it('types list passed as a value', () => {
+        expect(L5typeof("((lambda ((f : (number -> (listof number)))) : (listof number) (f 1)) list)")).toEqual(makeOk("(listof number)"));
+        expect(L5typeof(`((lambda ((f : (string -> (listof number)))) : (listof number) (f "a")) list)`)).toSatisfy(isFailure);
+    });
+
+    it('accepts pairs whose cdr is a list as lists', () => {
+        expect(L5typeof("(define (l : (listof number)) (cons 1 (cons 2 '())))")).toEqual(makeOk("void"));
+        expect(L5typeof("(define (l : (listof number)) '(1 a))")).toSatisfy(isFailure);
+        expect(L5typeof("(lambda ((a : number) (b : (pair number boolean))) : (pair number (pair number boolean)) (cons a b))")).toEqual(
+            makeOk("(number * (pair number boolean) -> (pair number (pair number boolean)))"));
+    });
+
+    it('types pair? and list? as type predicates', () => {
+        expect(L5typeof("pair?")).toEqual(makeOk("(any -> is?(pair any any))"));
+        expect(L5typeof("(if (list? 1) 1 2)")).toEqual(makeOk("(union (lit 1) (lit 2))"));
+    });
+
+    it('narrows a union of atomic and pair types with pair? and list?', () => {
+        expect(L5typeof("(lambda ((x : (union number (pair number number)))) : number (if (pair? x) (car x) x))")).toEqual(
+            makeOk("((union (pair number number) number) -> number)"));
+        expect(L5typeof("(lambda ((x : (union number (listof number)))) : number (if (list? x) (car x) x))")).toEqual(
+            makeOk("((union (listof number) number) -> number)"));
+        expect(L5typeof("(lambda ((x : (union number (tuple number string)))) : number (if (pair? x) (car x) x))")).toEqual(
+            makeOk("((union (tuple number string) number) -> number)"));
+    });
+
+    it('checks set! against the declared type of the variable', () => {
+        expect(L5typeofProgram(`(L5 (define (x : number) 1) (set! x 2))`)).toEqual(makeOk("void"));
+        expect(L5typeofProgram(`(L5 (define (x : number) 1) (set! x "a"))`)).toSatisfy(isFailure);
+        expect(L5typeof("(set! y 2)")).toSatisfy(isFailure);
+    });
+
+    it('types list-processing code end to end', () => {
+        expect(L5typeofProgram(`
+            (L5 (define (range : (number -> (listof number)))
+                  (lambda ((n : number)) : (listof number)
+                    (if (= n 0) '() (cons n (range (- n 1))))))
+                (define (second : ((listof number) -> number))
+                  (lambda ((l : (listof number))) : number (car (cdr l))))
+                (second (cons 0 (range 3))))`)).toEqual(makeOk("number"));
+    });
+});
+
+describe('L5 Type Checker polymorphism', () => {
+    it('parses and unparses forall types', () => {
+        expect(bind(parseTE("(forall (T1 T2) ((T1 -> T2) * (listof T1) -> (listof T2)))"), unparseTExp)).toEqual(
+            makeOk("(forall (T1 T2) ((T1 -> T2) * (listof T1) -> (listof T2)))"));
+        expect(parseTE("(forall T (T -> T))")).toSatisfy(isFailure);
+        expect(parseTE("(forall () (T -> T))")).toSatisfy(isFailure);
+    });
+
+    it('instantiates an explicit forall type at each use', () => {
+        expect(L5typeofProgram(`
+            (L5 (define (compose : (forall (T1 T2 T3) ((T2 -> T3) * (T1 -> T2) -> (T1 -> T3))))
+                  (lambda ((f : (T2 -> T3)) (g : (T1 -> T2))) : (T1 -> T3)
+                    (lambda ((x : T1)) : T3 (f (g x)))))
+                (define (n : number) ((compose (lambda ((s : string)) : number 1) (lambda ((b : boolean)) : string "a")) #t))
+                ((compose (lambda ((x : number)) : string "a") (lambda ((b : boolean)) : number 1)) #t))`)).toEqual(makeOk("string"));
+    });
+
+    it('generalizes the type of a define', () => {
+        expect(L5typeofProgram(`
+            (L5 (define (map : ((T1 -> T2) * (listof T1) -> (listof T2)))
+                  (lambda ((f : (T1 -> T2)) (l : (listof T1))) : (listof T2)
+                    (if (eq? l '()) '() (cons (f (car l)) (map f (cdr l))))))
+                (define (bs : (listof boolean)) (map (lambda ((x : number)) : boolean #t) '(1 2)))
+                (map (lambda ((s : string)) : number 1) '("a")))`)).toEqual(makeOk("(listof number)"));
+        expect(L5typeofProgram(`
+            (L5 (define (id : (T -> T)) (lambda ((x : T)) : T x))
+                (define (s : string) (id 1)))`)).toSatisfy(isFailure);
+    });
+
+    it('generalizes the types of let bindings', () => {
+        expect(L5typeof(`(let (((id : (T -> T)) (lambda ((x : T)) : T x)))
+                            (if (id #t) (id 1) (id 2)))`)).toEqual(makeOk("number"));
+    });
+
+    it('does not generalize type variables bound in the enclosing type environment', () => {
+        expect(L5typeof(`(lambda ((y : T)) : T
+                            (let (((f : (number -> T)) (lambda ((n : number)) : T y)))
+                              (f 1)))`)).toEqual(makeOk("(T -> T)"));
+        expect(L5typeof(`(lambda ((y : T)) : number
+                            (let (((f : (number -> T)) (lambda ((n : number)) : T y)))
+                              (f 1)))`)).toSatisfy(isFailure);
+    });
+
+    it('instantiates the type variables of polymorphic primitives', () => {
+        expect(L5typeof("(eq? 1 #t)")).toEqual(makeOk("boolean"));
+        expect(L5typeof("(car (cons 1 #t))")).toEqual(makeOk("number"));
+    });
+});
+
+describe('L5 Type Checker negative narrowing', () => {
+    it('narrows the tested variable to the remaining types in the else-branch', () => {
+        expect(L5typeof("(lambda ((x : (union number string))) : number (if (number? x) (+ x 1) (string-length x)))")).toEqual(
+            makeOk("((union number string) -> number)"));
+        expect(L5typeof("(lambda ((x : (union number (union string boolean)))) : number (if (string? x) 0 (if (number? x) x 1)))")).toEqual(
+            makeOk("((union boolean (union number string)) -> number)"));
+    });
+
+    it('rejects else-branches which do not fit the remaining types', () => {
+        expect(L5typeof("(lambda ((x : (union number boolean))) : number (if (number? x) x (string-length x)))")).toSatisfy(isFailure);
+    });
+
+    it('narrows with user-defined type predicates', () => {
+        expect(L5typeofProgram(`
+            (L5 (define (is-num? : (any -> is? number)) (lambda ((x : any)) : is? number (number? x)))
+                (define (f : ((union number string) -> number))
+                  (lambda ((x : (union number string))) : number
+                    (if (is-num? x) (* x 2) (string-length x))))
+                (f "abc"))`)).toEqual(makeOk("number"));
+    });
+});
+
+describe('L5 Type Checker occurrence typing', () => {
+    const ns = "(x : (union number (union string boolean)))";
+
+    it('refines through and / or / not', () => {
+        expect(L5typeof(`(lambda (${ns}) : boolean (and (string? x) (= (string-length x) 0)))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> boolean)"));
+        expect(L5typeof(`(lambda (${ns}) : boolean (or (number? x) (boolean? x) (= (string-length x) 0)))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> boolean)"));
+        expect(L5typeof(`(lambda (${ns}) : number (if (not (string? x)) 0 (string-length x)))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> number)"));
+        expect(L5typeof(`(lambda (${ns}) : number (if (or (number? x) (boolean? x)) 0 (string-length x)))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> number)"));
+        expect(L5typeof(`(lambda (${ns}) : number (if (and (not (number? x)) (not (boolean? x))) (string-length x) 0))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> number)"));
+    });
+
+    it('joins the refinements of both alternatives', () => {
+        expect(L5typeof(`(lambda (${ns}) : (union number string) (if (or (number? x) (string? x)) x 0))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> (union number string))"));
+        expect(L5typeof(`(lambda (${ns}) : (union number string) (if (if (number? x) #t (string? x)) x 0))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> (union number string))"));
+        expect(L5typeof(`(lambda (${ns}) : number (if (or (number? x) (string? x)) x 0))`)).toSatisfy(isFailure);
+    });
+
+    it('refines in nested ifs', () => {
+        expect(L5typeof(`(lambda (${ns}) : number (if (number? x) x (if (boolean? x) 0 (string-length x))))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> number)"));
+    });
+
+    it('refines through the literal #t and #f branches of a nested if', () => {
+        expect(L5typeof(`(lambda (${ns}) : number (if (if (number? x) #t #f) x 0))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> number)"));
+        expect(L5typeof(`(lambda (${ns}) : number (if (if (number? x) (> x 0) #f) x 0))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> number)"));
+        expect(L5typeof(`(lambda (${ns}) : number (if (if (number? x) #f #t) 0 (+ x 1)))`)).toSatisfy(isOk);
+        expect(L5typeof(`(lambda (${ns}) : number (if (if (number? x) #t #t) x 0))`)).toSatisfy(isFailure);
+    });
+
+    it('refines with let-bound test results', () => {
+        expect(L5typeof(`(lambda (${ns}) : number (let (((ok : boolean) (string? x))) (if ok (string-length x) 0)))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> number)"));
+        expect(L5typeof(`(lambda (${ns}) : number
+                           (let (((ok : boolean) (string? x)))
+                             (let (((x : number) 1)) (if ok (string-length x) 0))))`)).toSatisfy(isFailure);
+    });
+
+    it('does not refine with tests which are not evaluated first', () => {
+        expect(L5typeof(`(lambda (${ns}) : boolean (and (= (string-length x) 0) (string? x)))`)).toSatisfy(isFailure);
+    });
+});
+
+describe('L5 Type Checker derived special forms', () => {
+    const ns = "(x : (union number (union string boolean)))";
+
+    it('types cond with narrowing per clause', () => {
+        expect(L5typeof(`(lambda (${ns}) : number (cond ((number? x) x) ((string? x) (string-length x)) (else 0)))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> number)"));
+        expect(L5typeof(`(lambda (${ns}) : number (cond ((number? x) x) ((boolean? x) 0) (else (string-length x))))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> number)"));
+        expect(L5typeof(`(lambda (${ns}) : number (cond ((number? x) x) (else (string-length x))))`)).toSatisfy(isFailure);
+    });
+
+    it('types cond clauses without else, without body and with a receiver', () => {
+        expect(L5typeof("(cond ((> 1 2) 1))")).toEqual(makeOk("(union (lit 1) void)"));
+        expect(L5typeof("(cond ((> 1 2)) (else #f))")).toEqual(makeOk("boolean"));
+        expect(L5typeof("(cond ((+ 1 2) => (lambda ((n : number)) : string \"n\")) (else \"none\"))")).toEqual(makeOk("string"));
+        expect(L5typeof("(cond ((+ 1 2) => (lambda ((s : string)) : string s)) (else \"none\"))")).toSatisfy(isFailure);
+        expect(L5typeof("(cond (1 2) (else 3))")).toSatisfy(isFailure);
+    });
+
+    it('types case, let*, begin, when and unless', () => {
+        expect(L5typeof("(case (+ 1 2) ((1 2) \"small\") (else \"big\"))")).toEqual(makeOk("(union (lit \"big\") (lit \"small\"))"));
+        expect(L5typeof("(case (+ 1 2) ((1 2) \"small\") ((3) 3))")).toEqual(makeOk("(union (lit \"small\") (union (lit 3) void))"));
+        expect(L5typeof("(let* (((x : number) 1) ((y : number) (+ x 1))) (* x y))")).toEqual(makeOk("number"));
+        expect(L5typeof("(let* (((x : number) 1) ((y : boolean) (+ x 1))) y)")).toSatisfy(isFailure);
+        expect(L5typeof("(begin 1 #t)")).toEqual(makeOk("#t"));
+        expect(L5typeof(`(lambda (${ns}) : (union number void) (when (string? x) (string-length x)))`)).toEqual(
+            makeOk("((union boolean (union number string)) -> (union number void))"));
+        expect(L5typeof("(lambda ((x : (union number string))) : (union number void) (unless (number? x) (string-length x)))")).toEqual(
+            makeOk("((union number string) -> (union number void))"));
+        expect(L5typeof("(when 1 2)")).toSatisfy(isFailure);
+    });
+});
+
+describe('L5 Type Checker internal defines and named let', () => {
+    it('types internal defines with letrec* scope', () => {
+        expect(L5typeof(`(lambda ((n : number)) : boolean
+                           (define (even? : (number -> boolean)) (lambda ((n : number)) : boolean (if (= n 0) #t (odd? (- n 1)))))
+                           (define (odd? : (number -> boolean)) (lambda ((n : number)) : boolean (if (= n 0) #f (even? (- n 1)))))
+                           (even? n))`)).toEqual(makeOk("(number -> boolean)"));
+        expect(L5typeof("(let (((x : number) 1)) (define (y : boolean) x) y)")).toSatisfy(isFailure);
+        expect(L5typeof("(lambda () : number (define x 1) (+ x 1))")).toEqual(makeOk("(Empty -> number)"));
+        expect(L5typeofProgram(`(L5 (define (f : (number -> number)) (lambda ((x : number)) : number (define (y : number) x) y))
+                                    y)`)).toSatisfy(isFailure);
+    });
+
+    it('types named let', () => {
+        expect(L5typeof("(let loop (((i : number) 0) ((acc : number) 1)) : number (if (< i 10) (loop (+ i 1) (* acc 2)) acc))")).toEqual(
+            makeOk("number"));
+        expect(L5typeof("(let loop (((i : number) 0)) : number (if (< i 10) (loop #t) i))")).toSatisfy(isFailure);
+        expect(L5typeof("(let loop (((i : number) #t)) : number i)")).toSatisfy(isFailure);
+    });
+});
+
+describe('L5 Type Checker call/cc', () => {
+    it('types call/cc as (((T -> never) -> T) -> T)', () => {
+        expect(mapv(L5typeof("call/cc"), (te: string) => te.replace(/T_\d+/g, "T"))).toEqual(
+            makeOk("(((T -> never) -> T) -> T)"));
+        expect(L5typeof("(call/cc (lambda ((k : (number -> never))) : number (+ 1 (k 2))))")).toEqual(makeOk("number"));
+        expect(L5typeof("(call/cc (lambda ((k : (number -> never))) : number (if (< 1 2) (k 1) 2)))")).toEqual(makeOk("number"));
+        expect(L5typeof("(call/cc 5)")).toSatisfy(isFailure);
+        expect(L5typeof("(call/cc (lambda ((k : (number -> never))) : number (k #t)))")).toSatisfy(isFailure);
+    });
+
+    it('types early exits through an escape continuation', () => {
+        expect(L5typeofProgram(`(L5 (define (first-negative : ((listof number) -> number))
+                                      (lambda ((l : (listof number))) : number
+                                        (call/cc (lambda ((return : (number -> never))) : number
+                                          (let loop (((l : (listof number)) l)) : number
+                                            (if (eq? l '()) 0
+                                                (if (< (car l) 0) (return (car l)) (loop (cdr l)))))))))
+                                    (first-negative (list 1 -2 3)))`)).toEqual(makeOk("number"));
+    });
+});
+
+describe('L5 Type Checker raise and guard', () => {
+    it('types raise and error as never', () => {
+        expect(L5typeof("(raise 1)")).toEqual(makeOk("never"));
+        expect(L5typeof("(+ 1 (raise 'x))")).toEqual(makeOk("number"));
+        expect(L5typeof("(error \"bad value\" 1 #t)")).toEqual(makeOk("never"));
+        expect(L5typeof("(lambda ((x : number)) : number (if (> x 0) x (error \"negative:\" x)))")).toEqual(
+            makeOk("(number -> number)"));
+        expect(L5typeof("(error 5)")).toSatisfy(isFailure);
+        expect(L5typeof("(error)")).toSatisfy(isFailure);
+    });
+
+    it('types guard as the union of its body and its clauses', () => {
+        expect(L5typeof("(guard (e ((condition? e) (condition-message e))) (car (cons 1 2)))")).toEqual(
+            makeOk("(union number string)"));
+        expect(L5typeof("(guard (e ((symbol? e) 0) (else 1)) (raise 'x))")).toEqual(makeOk("(union (lit 0) (lit 1))"));
+        expect(L5typeof("(guard (e ((condition? e) (condition-kind e))) #t)")).toEqual(makeOk("(union #t symbol)"));
+    });
+
+    it('types the variable of guard as any', () => {
+        expect(L5typeof("(guard (e (else (condition-message e))) 1)")).toSatisfy(isFailure);
+        expect(L5typeof("(guard (e (else (+ e 1))) 1)")).toSatisfy(isFailure);
+        expect(L5typeof("(guard (e ((number? e) (+ e 1))) 1)")).toEqual(makeOk("number"));
+    });
+});
+
+describe('L5 Type Checker output primitives', () => {
+    it('types display, write and newline as void', () => {
+        expect(L5typeof('(display "hello")')).toEqual(makeOk("void"));
+        expect(L5typeof("(write (cons 1 2))")).toEqual(makeOk("void"));
+        expect(L5typeof("(newline)")).toEqual(makeOk("void"));
+        expect(L5typeof("(lambda ((x : number)) : number (display x) (newline) x)")).toEqual(makeOk("(number -> number)"));
+        expect(L5typeof("(newline 1)")).toSatisfy(isFailure);
+    });
+});
+
+describe('L5 Type Checker records', () => {
+    const point = "(define-record point ((x : number) (y : number #:mutable)))";
+
+    it('types the procedures of a record', () => {
+        expect(L5typeofProgram(`(L5 ${point} make-point)`)).toEqual(makeOk("(number * number -> point)"));
+        expect(L5typeofProgram(`(L5 ${point} point?)`)).toEqual(makeOk("(any -> is?point)"));
+        expect(L5typeofProgram(`(L5 ${point} point-x)`)).toEqual(makeOk("(point -> number)"));
+        expect(L5typeofProgram(`(L5 ${point} set-point-y!)`)).toEqual(makeOk("(point * number -> void)"));
+        expect(L5typeofProgram(`(L5 ${point} (define-record seg ((a : point) b)) (seg-a (make-seg (make-point 1 2) #t)))`)).toEqual(
+            makeOk("point"));
+    });
+
+    it('keeps record types nominal', () => {
+        expect(L5typeofProgram(`(L5 ${point} (point-x 3))`)).toSatisfy(isFailure);
+        expect(L5typeofProgram(`(L5 ${point} (define-record vec ((x : number) (y : number))) (point-x (make-vec 1 2)))`)).toSatisfy(
+            isFailure);
+        expect(L5typeofProgram(`(L5 ${point} set-point-x!)`)).toSatisfy(isFailure);
+    });
+
+    it('narrows with the record predicate', () => {
+        const f = "(lambda ((v : (union point number))) : number (if (point? v) (+ (point-x v) (point-y v)) (* v 2)))";
+        expect(L5typeofProgram(`(L5 ${point} ${f})`)).toEqual(makeOk("((union number point) -> number)"));
+    });
+});
+
+describe('L5 Type Checker datatypes', () => {
+    const shape = "(define-datatype shape (circle (r : number)) (rect (w : number) (h : number)))";
+    const tree = "(define-datatype (tree T) (leaf) (node (left : (tree T)) (val : T) (right : (tree T))))";
+
+    it('types the constructors and predicates of a datatype', () => {
+        expect(L5typeofProgram(`(L5 ${shape} rect)`)).toEqual(makeOk("(number * number -> rect)"));
+        expect(L5typeofProgram(`(L5 ${shape} circle?)`)).toEqual(makeOk("(any -> is?circle)"));
+        expect(L5typeofProgram(`(L5 ${tree} (define (n : (forall (T) ((tree T) * T * (tree T) -> (node T)))) node))`)).toEqual(
+            makeOk("void"));
+        expect(L5typeofProgram(`(L5 ${tree} (node (leaf) 1 (node (leaf) 2 (leaf))))`)).toEqual(makeOk("(node number)"));
+        expect(L5typeofProgram(`(L5 ${tree} (define (t : (tree number)) (leaf)) t)`)).toEqual(makeOk("(tree number)"));
+        expect(L5typeofProgram(`(L5 ${tree} (define (t : (tree number)) (node (leaf) "a" (leaf))) t)`)).toSatisfy(isFailure);
+        expect(L5typeofProgram(`(L5 ${shape} (define (s : shape) (circle "a")) s)`)).toSatisfy(isFailure);
+    });
+
+    it('narrows the matched value and binds the fields of each variant', () => {
+        const area = `(lambda ((s : shape)) : number (match s ((circle r) (* 3 (* r r))) ((rect w h) (* w h))))`;
+        expect(L5typeofProgram(`(L5 ${shape} ${area})`)).toEqual(makeOk("(shape -> number)"));
+        expect(L5typeofProgram(`(L5 ${shape} (lambda ((s : shape)) : rect (match s ((circle r) (rect r r)) (else s))))`)).toEqual(
+            makeOk("(shape -> rect)"));
+        const sum = `(define (sum : ((tree number) -> number))
+                       (lambda ((t : (tree number))) : number
+                         (match t ((leaf) 0) ((node l v r) (+ v (+ (sum l) (sum r)))))))`;
+        expect(L5typeofProgram(`(L5 ${tree} ${sum} (sum (node (leaf) 1 (leaf))))`)).toEqual(makeOk("number"));
+        expect(L5typeofProgram(`(L5 ${shape} (lambda ((s : shape)) : number (match s ((circle r) r) ((rect w) w))))`)).toSatisfy(
+            isFailure);
+        expect(L5typeofProgram(`(L5 ${shape} (lambda ((s : number)) : number (match s ((circle r) r))))`)).toSatisfy(isFailure);
+        expect(L5typeofProgram(`(L5 ${shape} ${tree} (lambda ((s : shape)) : number (match s ((leaf) 0) (else 1))))`)).toSatisfy(
+            isFailure);
+    });
+
+    it('reports the variants missing from a match', () => {
+        const f = "(lambda ((t : (tree number))) : number (match t ((leaf) 0)))";
+        expect(L5typeofProgram(`(L5 ${tree} ${f})`)).toSatisfy(isFailure);
+        mapv(L5typeofProgramDiagnostics(`(L5 ${tree} ${f})`), ({ type, diagnostics }) => {
+            expect(unparseTExp(type)).toEqual(makeOk("((tree number) -> number)"));
+            expect(diagnostics.map((d) => d.message)).toEqual(["Non-exhaustive match - missing variants: node"]);
+        });
+        expect(L5typeofProgram(`(L5 ${shape} (lambda ((s : shape)) : number (match s ((circle r) r) ((circle w) w) (else 0))))`)).toSatisfy(
+            isFailure);
+    });
+
+    it('accepts the other variants of the datatype when the matched value has a variant type', () => {
+        const clauses = "((circle r) r) ((rect w h) (+ w h))";
+        expect(L5typeofProgram(`(L5 ${shape} (define s (circle 1)) (match s ${clauses}))`)).toEqual(makeOk("number"));
+        expect(L5typeofProgram(`(L5 ${shape} (match (circle 1) ${clauses}))`)).toEqual(makeOk("number"));
+        expect(L5typeofProgram(`(L5 ${shape} (match (circle 1) ((circle r) r) ((rect w) w)))`)).toSatisfy(isFailure);
+        mapv(L5typeofProgramDiagnostics(`(L5 ${shape} (match (circle 1) ${clauses}))`), ({ diagnostics }) =>
+            expect(diagnostics.map((d) => [d.severity, d.message])).toEqual(
+                [["warning", "Unreachable match clause: the matched value is never a rect"]]));
+        const res = L5typeofProgram(`(L5 ${shape} ${tree} (match (circle 1) ((circle r) r) ((leaf) 0)))`);
+        expect(res).toSatisfy(isFailure);
+        if (isFailure(res))
+            expect(res.message).toMatch(/leaf is not a variant of the type of the matched value circle/);
+    });
+
+    it('unparses the union of the variants as the datatype', () => {
+        expect(L5typeofProgram(`(L5 ${tree} (lambda ((t : (union (leaf string) (node string)))) : boolean #t))`)).toEqual(
+            makeOk("((tree string) -> boolean)"));
+        expect(L5typeofProgram(`(L5 ${tree} (lambda ((t : (union (leaf string) (node number)))) : boolean #t))`)).toEqual(
+            makeOk("((union (leaf string) (node number)) -> boolean)"));
+    });
+});
+
+describe('L5 Type Checker type aliases', () => {
+    const result = "(define-type Result (union number string))";
+    const tree = "(define-type (Tree T) (union T (pair (Tree T) (Tree T))))";
+    const nested = "(define-type Nested (listof (union number Nested)))";
+
+    it('checks values against an alias as against its definition', () => {
+        expect(L5typeofProgram(`(L5 ${result} (define (r : Result) "ok") r)`)).toEqual(makeOk("Result"));
+        expect(L5typeofProgram(`(L5 ${result} (lambda ((r : Result)) : number (if (number? r) r (string-length r))))`)).toEqual(
+            makeOk("(Result -> number)"));
+        expect(L5typeofProgram(`(L5 ${result} (define (r : Result) #t) r)`)).toSatisfy(isFailure);
+        expect(L5typeofProgram(`(L5 ${result} (define-type Op (Result * Result -> Result)) (define (f : Op) (lambda ((a : Result) (b : Result)) : Result a)) (f 1 "a"))`)).toEqual(
+            makeOk("Result"));
+    });
+
+    it('applies a parametric alias to its arguments', () => {
+        const pairOf = "(define-type (Both T) (pair T T))";
+        expect(L5typeofProgram(`(L5 ${pairOf} (define (p : (Both number)) (cons 1 2)) (car p))`)).toEqual(makeOk("number"));
+        expect(L5typeofProgram(`(L5 ${pairOf} (define (p : (Both number)) (cons 1 "a")) p)`)).toSatisfy(isFailure);
+        expect(L5typeofProgram(`(L5 ${pairOf} (define (p : Both) (cons 1 2)) p)`)).toSatisfy(isFailure);
+        expect(L5typeofProgram(`(L5 ${pairOf} (define (id : (forall (T) ((Both T) -> (Both T)))) (lambda ((x : (Both T))) : (Both T) x)) (id (cons 1 2)))`)).toEqual(
+            makeOk("(Both number)"));
+    });
+
+    it('compares recursive aliases by their unfolding', () => {
+        expect(L5typeofProgram(`(L5 ${tree} (define (t : (Tree number)) (cons 1 (cons 2 3))) t)`)).toEqual(makeOk("(Tree number)"));
+        expect(L5typeofProgram(`(L5 ${tree} (define (t : (Tree number)) (cons 1 (cons "a" 3))) t)`)).toSatisfy(isFailure);
+        expect(L5typeofProgram(`(L5 ${tree} (define (t : (Tree number)) 1) (define (u : (Tree (union number string))) t) u)`)).toEqual(
+            makeOk("(Tree (union number string))"));
+        expect(L5typeofProgram(`(L5 ${tree} (define (t : (Tree string)) "a") (define (u : (Tree number)) t) u)`)).toSatisfy(isFailure);
+        expect(L5typeofProgram(`(L5 ${nested} (define (l : Nested) (list 1 (list 2 (list 3)))) (car l))`)).toEqual(
+            makeOk("(union Nested number)"));
+        expect(L5typeofProgram(`(L5 ${nested} (define (l : Nested) (list 1 2)) (define (m : (listof any)) l) m)`)).toEqual(
+            makeOk("(listof any)"));
+        expect(L5typeofProgram(`(L5 ${nested} (define (l : Nested) (list 1 (list "a"))) l)`)).toSatisfy(isFailure);
+    });
+
+    it('checks the aliases of a program in any order', () => {
+        const evenOdd = "(define-type Even (union number (pair number Odd))) (define-type Odd (pair number Even))";
+        expect(L5typeofProgram("(L5 (define-type A B) (define-type B number) (define (x : A) 1) x)")).toEqual(makeOk("A"));
+        expect(L5typeofProgram(`(L5 ${evenOdd} (define (x : Even) (cons 1 (cons 2 3))) x)`)).toEqual(makeOk("Even"));
+        expect(L5typeofProgram(`(L5 ${evenOdd} (define (x : Even) (cons 1 3)) x)`)).toSatisfy(isFailure);
+    });
+
+    it('rejects mutually unguarded and duplicate aliases', () => {
+        const cycle = L5typeofProgram("(L5 (define-type A B) (define-type B A) 1)");
+        expect(cycle).toSatisfy(isFailure);
+        if (isFailure(cycle))
+            expect(cycle.message).toMatch(/^<input>:1:23: Type B refers to itself outside of a type constructor/);
+        expect(L5typeofProgram("(L5 (define-type A B) (define-type B (union A number)) 1)")).toSatisfy(isFailure);
+        const duplicate = L5typeofProgram("(L5 (define-type A number) (define-type A string) 1)");
+        expect(duplicate).toSatisfy(isFailure);
+        if (isFailure(duplicate))
+            expect(duplicate.message).toMatch(/^<input>:1:28: Duplicate type alias name: A/);
+    });
+
+    it('rejects ill-formed aliases', () => {
+        expect(L5typeofProgram("(L5 (define-type Loop (union number Loop)) 1)")).toSatisfy(isFailure);
+        expect(L5typeofProgram("(L5 (define-type (Nest T) (union T (pair (Nest (listof T)) number))) 1)")).toSatisfy(isFailure);
+        expect(L5typeofProgram("(L5 (define-type (Box T) (pair T U)) 1)")).toSatisfy(isFailure);
+        expect(L5typeofProgram("(L5 (define-type number string) 1)")).toSatisfy(isFailure);
+        expect(L5typeofProgram("(L5 (define-type Twice (pair number number)) (lambda (x) (define-type T number) x))")).toSatisfy(isFailure);
+    });
+});
+
+describe('L5 Type Checker literal types', () => {
+    const colors = "(union 'red (union 'green 'blue))";
+
+    it('parses and unparses literal types', () => {
+        ["(lit 0)", '(lit "ok")', "#t", "#f", "'red"].forEach((te: string) =>
+            expect(bind(parseTE(te), unparseTExp)).toEqual(makeOk(te)));
+        expect(bind(parseTE("(union #t #f)"), unparseTExp)).toEqual(makeOk("boolean"));
+        expect(bind(parseTE("(union (lit 1) number)"), unparseTExp)).toEqual(makeOk("number"));
+        expect(bind(parseTE("(inter (lit 1) number)"), unparseTExp)).toEqual(makeOk("(lit 1)"));
+        expect(bind(parseTE("(inter (lit 1) (lit 2))"), unparseTExp)).toEqual(makeOk("never"));
+        expect(parseTE("(lit x)")).toSatisfy(isFailure);
+        expect(parseTE("(lit 1 2)")).toSatisfy(isFailure);
+    });
+
+    it('makes literal types subtypes of their base type', () => {
+        const lit = (te: string): TExp => either(parseTE(te), (te: TExp) => te, (_) => makeNeverTExp());
+        expect(isSubType(lit("(lit 1)"), makeNumTExp())).toBe(true);
+        expect(isSubType(lit("'red"), lit("symbol"))).toBe(true);
+        expect(isSubType(makeNumTExp(), lit("(lit 1)"))).toBe(false);
+        expect(isSubType(lit("(lit 1)"), lit("(lit 2)"))).toBe(false);
+        expect(isSubType(lit('(lit "1")'), makeNumTExp())).toBe(false);
+        expect(unparseTExp(makeDiffTExp(makeBoolTExp(), lit("#t")))).toEqual(makeOk("#f"));
+        expect(unparseTExp(makeDiffTExp(lit("(union boolean number)"), lit("#f")))).toEqual(makeOk("(union #t number)"));
+        expect(unparseTExp(makeDiffTExp(lit(colors), lit("'red")))).toEqual(makeOk("(union 'blue 'green)"));
+    });
+
+    it('checks literal expressions against literal types', () => {
+        const paint = `(define (paint : (${colors} -> number)) (lambda ((c : ${colors})) : number 1))`;
+        expect(L5typeofProgram(`(L5 ${paint} (paint 'red))`)).toEqual(makeOk("number"));
+        expect(L5typeofProgram(`(L5 ${paint} (paint 'yellow))`)).toSatisfy(isFailure);
+        expect(L5typeofProgram(`(L5 ${paint} (paint (car (cons 'red 1))))`)).toSatisfy(isFailure);
+        expect(L5typeof("(define (on : #t) #t)")).toEqual(makeOk("void"));
+        expect(L5typeof("(define (on : #t) #f)")).toSatisfy(isFailure);
+        expect(L5typeof('(define (ok : (lit "ok")) "ok")')).toEqual(makeOk("void"));
+    });
+
+    it('widens the type of an unannotated define', () => {
+        expect(L5typeofProgram("(L5 (define x 1) x)")).toEqual(makeOk("number"));
+        expect(L5typeofProgram("(L5 (define x 1) (set! x 2) (+ x 1))")).toEqual(makeOk("number"));
+        expect(L5typeofProgram("(L5 (define c 'red) (define (d : 'red) c) d)")).toSatisfy(isFailure);
+        expect(L5typeofProgram("(L5 (define (c : 'red) 'red) (define d c) d)")).toEqual(makeOk("symbol"));
+    });
+
+    it('widens a list of fixed length to a listof at an unannotated define', () => {
+        expect(L5typeofProgram("(L5 (define xs (list 1 2)) (set! xs (list 3 4 5)) xs)")).toEqual(makeOk("(listof number)"));
+        expect(L5typeofProgram("(L5 (define xs '(1 2)) (set! xs '()) xs)")).toEqual(makeOk("(listof number)"));
+        expect(L5typeofProgram('(L5 (define xs (list (list 1 2) (list "a"))) xs)')).toEqual(makeOk("(listof (union (listof number) (listof string)))"));
+        expect(L5typeofProgram("(L5 (define p (cons 1 2)) p)")).toEqual(makeOk("(pair number number)"));
+        expect(L5typeofProgram('(L5 (define xs (list 1 2)) (set! xs (list "a")) xs)')).toSatisfy(isFailure);
+    });
+
+    it('narrows the tested variable in eq?, = and string=? tests', () => {
+        expect(L5typeof(`(lambda ((c : ${colors})) : (union 'green 'blue) (if (eq? c 'red) 'green c))`)).toSatisfy(isOk);
+        expect(L5typeof(`(lambda ((c : ${colors})) : (union 'green 'blue) (if (eq? 'red c) 'green c))`)).toSatisfy(isOk);
+        expect(L5typeof(`(lambda ((c : ${colors})) : 'red (if (eq? c 'red) c 'blue))`)).toSatisfy(isFailure);
+        expect(L5typeof("(lambda ((b : boolean)) : #f (if (eq? b #t) #f b))")).toSatisfy(isOk);
+        expect(L5typeof("(lambda ((n : number)) : (lit 0) (if (= n 0) n 0))")).toSatisfy(isOk);
+        expect(L5typeof("(lambda ((n : number)) : (lit 0) (if (= n 0) 0 n))")).toSatisfy(isFailure);
+        expect(L5typeof('(lambda ((s : string)) : (lit "ok") (if (string=? s "ok") s "ok"))')).toSatisfy(isOk);
+    });
+});
+
+describe('L5 Type Checker fixed-length lists', () => {
+    const te = (s: string): TExp => either(parseTE(s), (te: TExp) => te, (_) => makeNeverTExp());
+
+    it('parses tuple types as chains of pairs ending with the empty list', () => {
+        expect(bind(parseTE("(tuple number string boolean)"), unparseTExp)).toEqual(makeOk("(tuple number string boolean)"));
+        expect(bind(parseTE("(pair number (pair string (listof never)))"), unparseTExp)).toEqual(makeOk("(tuple number string)"));
+        expect(bind(parseTE("(tuple)"), unparseTExp)).toEqual(makeOk("(listof never)"));
+        expect(bind(parseTE("(pair number (listof string))"), unparseTExp)).toEqual(makeOk("(pair number (listof string))"));
+    });
+
+    it('compares tuples componentwise and as lists', () => {
+        expect(isSubType(te("(tuple (lit 1) string)"), te("(tuple number string)"))).toBe(true);
+        expect(isSubType(te("(tuple number string)"), te("(listof (union number string))"))).toBe(true);
+        expect(isSubType(te("(tuple number string)"), te("(tuple number)"))).toBe(false);
+        expect(isSubType(te("(tuple number string)"), te("(tuple string number)"))).toBe(false);
+        expect(isSubType(te("(listof number)"), te("(tuple number)"))).toBe(false);
+        expect(bind(parseTE("(union (tuple number) (listof number))"), unparseTExp)).toEqual(makeOk("(listof number)"));
+        expect(bind(parseTE("(union (tuple number) (tuple string))"), unparseTExp)).toEqual(makeOk("(union (tuple number) (tuple string))"));
+        expect(bind(parseTE("(inter (listof number) (tuple number number))"), unparseTExp)).toEqual(makeOk("(tuple number number)"));
+    });
+
+    it('types list, cons, car and cdr with tuples', () => {
+        expect(L5typeof('(list 1 "a" #t)')).toEqual(makeOk("(tuple number string boolean)"));
+        expect(L5typeof("(list)")).toEqual(makeOk("(listof never)"));
+        expect(L5typeof('(cons 1 (list "a"))')).toEqual(makeOk("(tuple number string)"));
+        expect(L5typeof('(car (cdr (list 1 "a")))')).toEqual(makeOk("string"));
+        expect(L5typeof('(cdr (cdr (list 1 "a")))')).toEqual(makeOk("(listof never)"));
+        expect(L5typeof("(cons 1 (cdr '(1 2)))")).toEqual(makeOk("(tuple number number)"));
+    });
+
+    it('checks values against tuple annotations', () => {
+        expect(L5typeof('(define (p : (tuple number string)) (list 1 "a"))')).toEqual(makeOk("void"));
+        expect(L5typeof("(define (p : (tuple number string)) '(1 \"a\"))")).toEqual(makeOk("void"));
+        expect(L5typeof('(define (p : (tuple number string)) (list "a" 1))')).toSatisfy(isFailure);
+        expect(L5typeof('(define (p : (tuple number string)) (list 1 "a" 2))')).toSatisfy(isFailure);
+        expect(L5typeof('(define (p : (pair number string)) (cons 1 "a"))')).toEqual(makeOk("void"));
+        expect(L5typeof('(define (l : (listof number)) (list 1 2 3))')).toEqual(makeOk("void"));
+        expect(L5typeofProgram(`(L5 (define (first : ((tuple number string) -> number)) (lambda ((t : (tuple number string))) : number (car t)))
+                                    (first (list 1 "a")))`)).toEqual(makeOk("number"));
+    });
+});
@@ -0,0 +1,180 @@
+import { annotate, inferTypeOf, inferTypeOfProgram } from '../src/L5/L5-typeinference';
+import { L5typeofProgram } from '../src/L5/L5-typecheck';
+import { bind, isFailure, isOk, makeOk, Result } from '../src/shared/result';
+
+describe('L5 Type Inference polymorphism', () => {
+    it('generalizes let-bound values', () => {
+        expect(inferTypeOf("(let ((id (lambda (x) x))) (if (id #t) (id 1) 2))")).toEqual(makeOk("number"));
+        expect(inferTypeOf(`(let ((compose (lambda (f g) (lambda (x) (f (g x))))))
+                              ((compose (lambda (n) (+ n 1)) (lambda (b) (if b 1 0))) #t))`)).toEqual(makeOk("number"));
+    });
+
+    it('instantiates explicit forall types', () => {
+        expect(inferTypeOf(`(let (((id : (forall (T) (T -> T))) (lambda ((x : T)) : T x)))
+                              (if (id #t) (id "a") "b"))`)).toEqual(makeOk("string"));
+    });
+
+    it('does not generalize type variables of the enclosing type environment', () => {
+        expect(inferTypeOf("(lambda (y) (let ((f (lambda (x) y))) (+ (f 1) 1)))")).toEqual(makeOk("(number -> number)"));
+        expect(inferTypeOf("(lambda (y) (let ((f (lambda (x) y))) (if (f 1) (+ (f 2) 1) 0)))")).toSatisfy(isFailure);
+    });
+
+    it('keeps monomorphic lambda parameters monomorphic', () => {
+        expect(inferTypeOf("(lambda (id) (if (id #t) (id 1) 2))")).toSatisfy(isFailure);
+    });
+});
+
+describe('L5 Type Inference of programs', () => {
+    it('threads the type environment through defines', () => {
+        expect(inferTypeOfProgram("(L5 (define x 1) (define y (+ x 1)) (> y x))")).toEqual(makeOk("boolean"));
+        expect(inferTypeOfProgram("(L5 (define x 1) (define f (lambda (y) (+ x y))) f)")).toEqual(makeOk("(number -> number)"));
+        expect(inferTypeOfProgram("(L5 (define x 1))")).toEqual(makeOk("void"));
+    });
+
+    it('infers recursive defines', () => {
+        expect(inferTypeOfProgram(`
+            (L5 (define fact (lambda (n) (if (= n 0) 1 (* n (fact (- n 1))))))
+                fact)`)).toEqual(makeOk("(number -> number)"));
+    });
+
+    it('unifies the declared type of a define with its inferred type', () => {
+        expect(inferTypeOfProgram("(L5 (define (x : number) 1) x)")).toEqual(makeOk("number"));
+        expect(inferTypeOfProgram("(L5 (define (x : boolean) 1) x)")).toSatisfy(isFailure);
+        expect(inferTypeOfProgram("(L5 (define (f : (number -> T)) (lambda (x) (> x 1))) (f 2))")).toEqual(makeOk("boolean"));
+    });
+
+    it('generalizes defined values', () => {
+        expect(inferTypeOfProgram(`
+            (L5 (define id (lambda (x) x))
+                (define n (id 1))
+                (if (id #t) n 2))`)).toEqual(makeOk("number"));
+    });
+
+    it('fails on unbound variables and ill-typed programs', () => {
+        expect(inferTypeOfProgram("(L5 (define x y) x)")).toSatisfy(isFailure);
+        expect(inferTypeOfProgram("(L5 (define x 1) (x 2))")).toSatisfy(isFailure);
+    });
+
+    it('unifies type aliases by their definition', () => {
+        const both = "(define-type (Both T) (pair T T))";
+        expect(inferTypeOfProgram(`(L5 ${both} (define (p : (Both number)) (cons 1 2)) (car p))`)).toEqual(makeOk("number"));
+        expect(inferTypeOfProgram(`(L5 ${both} (define (p : (Both number)) (cons 1 #t)) p)`)).toSatisfy(isFailure);
+        expect(inferTypeOfProgram(`(L5 ${both} (define f (lambda ((p : (Both T))) (cdr p))) (f (cons #t #f)))`)).toEqual(
+            makeOk("boolean"));
+    });
+
+    it('matches the type checker on annotated programs', () => {
+        const program = `
+            (L5 (define (add : (number * number -> number)) (lambda ((a : number) (b : number)) : number (+ a b)))
+                (add 1 2))`;
+        expect(inferTypeOfProgram(program)).toEqual(L5typeofProgram(program));
+    });
+});
+
+describe('L5 Type Inference of type predicates', () => {
+    it('types the type predicates as boolean procs', () => {
+        expect(inferTypeOf("(number? 1)")).toEqual(makeOk("boolean"));
+        expect(inferTypeOf("(boolean? #t)")).toEqual(makeOk("boolean"));
+        expect(inferTypeOf("(list? 1)")).toEqual(makeOk("boolean"));
+        expect(inferTypeOf("(pair? (cons 1 2))")).toEqual(makeOk("boolean"));
+        expect(inferTypeOf("(lambda (x) (if (number? x) x 0))")).toEqual(makeOk("(number -> number)"));
+        expect(inferTypeOf("(let ((p string?)) (if (p 1) (p #t) #f))")).toEqual(makeOk("boolean"));
+    });
+});
+
+describe('L5 Type Inference of derived forms', () => {
+    it('infers cond, case, let*, begin, when and unless', () => {
+        expect(inferTypeOf("(lambda (n) (cond ((> n 0) 1) ((< n 0) -1) (else 0)))")).toEqual(makeOk("(number -> number)"));
+        expect(inferTypeOf("(cond ((> 1 2) 1))")).toEqual(makeOk("void"));
+        expect(inferTypeOf("(cond (1 => (lambda (x) (+ x 1))) (else 0))")).toEqual(makeOk("number"));
+        expect(inferTypeOf("(cond ((> 1 2) 1) (else #t))")).toSatisfy(isFailure);
+        expect(inferTypeOf("(lambda (k) (case k ((1 2) \"a\") (else \"b\")))")).toSatisfy((r: Result<string>) =>
+            isOk(r) && /^\(T_\d+ -> string\)$/.test(r.value));
+        expect(inferTypeOf("(let* ((id (lambda (x) x)) (n (id 1))) (if (id #t) n 2))")).toEqual(makeOk("number"));
+        expect(inferTypeOf("(begin 1 #t)")).toEqual(makeOk("boolean"));
+        expect(inferTypeOf("(when #t 1)")).toEqual(makeOk("void"));
+        expect(inferTypeOf("(unless 1 1)")).toSatisfy(isFailure);
+    });
+
+    it('infers guard and raise', () => {
+        expect(inferTypeOf(`(guard (e ((condition? e) (string-length (condition-message e))) (else 0))
+                              (raise 'oops))`)).toEqual(makeOk("number"));
+        expect(inferTypeOf("(lambda (x) (if (> x 0) x (error \"negative\")))")).toEqual(makeOk("(number -> number)"));
+    });
+
+    it('infers records and match on datatypes', () => {
+        expect(inferTypeOfProgram(`
+            (L5 (define-record point ((x : number) (y : number)))
+                (define p (make-point 1 2))
+                (if (point? p) (point-x p) 0))`)).toEqual(makeOk("number"));
+        const tree = "(define-datatype (tree T) (leaf) (node (left : (tree T)) (val : T) (right : (tree T))))";
+        expect(inferTypeOfProgram(`
+            (L5 ${tree}
+                (define sum (lambda (t) (match t ((leaf) 0) ((node l v r) (+ (sum l) (+ v (sum r)))))))
+                sum)`)).toEqual(makeOk("((tree number) -> number)"));
+        expect(inferTypeOfProgram(`(L5 ${tree} (match (node (leaf) 1 (leaf)) ((node l v r) v) (else 0)))`)).toEqual(makeOk("number"));
+        expect(inferTypeOfProgram(`(L5 ${tree} (match 1 ((leaf) 0) (else 1)))`)).toSatisfy(isFailure);
+    });
+});
+
+describe('L5 Type Inference internal defines and named let', () => {
+    it('infers internal defines', () => {
+        expect(inferTypeOf(`(lambda (n)
+                              (define even? (lambda (n) (if (= n 0) #t (odd? (- n 1)))))
+                              (define odd? (lambda (n) (if (= n 0) #f (even? (- n 1)))))
+                              (even? n))`)).toEqual(makeOk("(number -> boolean)"));
+    });
+
+    it('infers named let', () => {
+        expect(inferTypeOf("(let loop ((i 0) (acc 1)) (if (< i 10) (loop (+ i 1) (* acc 2)) acc))")).toEqual(makeOk("number"));
+        expect(inferTypeOf("(let loop ((i 0)) (if (< i 10) (loop #t) i))")).toSatisfy(isFailure);
+    });
+
+    it('annotates internal defines and named let', () => {
+        expect(annotate("(L5 (define f (lambda (x) (define y (+ x 1)) (let loop ((i y)) (if (> i 0) (loop (- i 1)) i)))))")).toEqual(
+            makeOk("(L5 (define (f : (number -> number)) (lambda ((x : number)) : number (define (y : number) (+ x 1)) (let loop (((i : number) y)) : number (if (> i 0) (loop (- i 1)) i)))))"));
+    });
+});
+
+describe('L5 Type Inference annotation', () => {
+    it('annotates declarations with their inferred types', () => {
+        expect(annotate("(L5 (define f (lambda (n) (+ n 1))) (let ((x 3)) (f x)))")).toEqual(
+            makeOk("(L5 (define (f : (number -> number)) (lambda ((n : number)) : number (+ n 1))) (let (((x : number) 3)) (f x)))"));
+    });
+
+    it('renames the unsolved type variables of polymorphic declarations', () => {
+        expect(annotate("(L5 (define id (lambda (x) x)) (define c (lambda (x y) x)) (c (id 1) #t))")).toEqual(
+            makeOk("(L5 (define (id : (T1 -> T1)) (lambda ((x : T1)) : T1 x)) " +
+                   "(define (c : (T2 * T3 -> T2)) (lambda ((x : T2) (y : T3)) : T2 x)) (c (id 1) #t))"));
+    });
+
+    it('keeps the existing annotations', () => {
+        expect(annotate("(L5 (define (k : (T1 -> number)) (lambda (x) 1)) (k #t))")).toEqual(
+            makeOk("(L5 (define (k : (T1 -> number)) (lambda ((x : T1)) : number 1)) (k #t))"));
+    });
+
+    it('produces programs accepted by the type checker', () => {
+        const program = `
+            (L5 (define fact (lambda (n) (if (= n 0) 1 (* n (fact (- n 1))))))
+                (define twice (lambda (f x) (f (f x))))
+                (twice fact 3))`;
+        expect(bind(annotate(program), L5typeofProgram)).toEqual(inferTypeOfProgram(program));
+    });
+
+    it('annotates the declarations nested in all the compound forms', () => {
+        expect(annotate("(L5 (define f (lambda (n) (cond ((> n 0) (let* ((m (- n 1))) m)) (else (begin (when #t (let ((y 1)) y)) 0))))))")).toEqual(
+            makeOk("(L5 (define (f : (number -> number)) (lambda ((n : number)) : number " +
+                   "(cond ((> n 0) (let* (((m : number) (- n 1))) m)) (else (begin (when #t (let (((y : number) 1)) y)) 0))))))"));
+        const program = `
+            (L5 (define-datatype shape (circle (r : number)) (square (s : number)))
+                (define area (lambda (sh) (match sh ((circle r) (let ((a (* r r))) a)) (else (guard (e (else 0)) (let ((b 1)) b))))))
+                (area (circle 2)))`;
+        expect(annotate(program)).toSatisfy((r: Result<string>) =>
+            isOk(r) && r.value.includes("(let (((a : number) (* r r))) a)") && r.value.includes("(let (((b : number) 1)) b)"));
+        expect(bind(annotate(program), L5typeofProgram)).toEqual(makeOk("number"));
+    });
+
+    it('fails on programs which cannot be inferred', () => {
+        expect(annotate("(L5 (define x 1) (x 2))")).toSatisfy(isFailure);
+    });
+});